@@ -1,12 +1,25 @@
 import React, { useState } from 'react';
-import { ChevronRight, ChevronDown, HardDrive, Folder, FolderOpen, File } from 'lucide-react';
+import { ChevronRight, ChevronDown, HardDrive, Folder, FolderOpen, File, AlertTriangle, Paperclip, History } from 'lucide-react';
 import { EvidenceItem, FileSystemItem } from '../types/forensic';
 import { cn } from '@/lib/utils';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
 
 interface EvidenceTreeProps {
   evidenceItems: EvidenceItem[];
   onItemSelect: (item: FileSystemItem) => void;
   selectedItem: FileSystemItem | null;
+  onOpenCheckpoint?: (evidenceId: string, volumeId: string, checkpointIndex: number) => void;
+  /** Sweeps a ReFS volume's free space for deleted records. */
+  onRecoverRecords?: (evidenceId: string, volumeId: string) => void;
+  /** Saves the content of a file (or alternate data stream) item. */
+  onExportContent?: (item: FileSystemItem) => void;
 }
 
 interface TreeNodeProps {
@@ -16,6 +29,11 @@ interface TreeNodeProps {
   selectedItem: FileSystemItem | null;
   expandedNodes: Set<string>;
   onToggleExpand: (id: string) => void;
+  onOpenCheckpoint?: (evidenceId: string, volumeId: string, checkpointIndex: number) => void;
+  /** Sweeps a ReFS volume's free space for deleted records. */
+  onRecoverRecords?: (evidenceId: string, volumeId: string) => void;
+  /** Saves the content of a file (or alternate data stream) item. */
+  onExportContent?: (item: FileSystemItem) => void;
 }
 
 const TreeNode: React.FC<TreeNodeProps> = ({
@@ -25,6 +43,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   selectedItem,
   expandedNodes,
   onToggleExpand,
+  onOpenCheckpoint,
+  onRecoverRecords,
+  onExportContent,
 }) => {
   const isExpanded = expandedNodes.has(item.id);
   const hasChildren = 'children' in item && item.children && item.children.length > 0;
@@ -41,9 +62,14 @@ const TreeNode: React.FC<TreeNodeProps> = ({
           <FolderOpen className="h-4 w-4 text-yellow-600" /> : 
           <Folder className="h-4 w-4 text-yellow-600" />;
       case 'file':
-        return <File className="h-4 w-4 text-gray-600" />;
+        if (item.metadata?.refs?.snapshot) return <History className="h-4 w-4 text-teal-600" />;
+        return item.metadata?.streamName !== undefined
+          ? <Paperclip className="h-4 w-4 text-purple-600" />
+          : <File className="h-4 w-4 text-gray-600" />;
       case 'partition':
-        return <HardDrive className="h-4 w-4 text-green-600" />;
+        return item.metadata?.partition?.kind === 'unallocated'
+          ? <HardDrive className="h-4 w-4 text-gray-400" />
+          : <HardDrive className="h-4 w-4 text-green-600" />;
       default:
         return <File className="h-4 w-4 text-gray-600" />;
     }
@@ -62,6 +88,14 @@ const TreeNode: React.FC<TreeNodeProps> = ({
         accessed: new Date(),
         path: item.path,
         children: item.children,
+        metadata: item.metadata.acquisition || item.metadata.probes || item.metadata.integrity
+          ? {
+              acquisition: item.metadata.acquisition,
+              volume: item.metadata.probes || item.metadata.integrity
+                ? { fileSystem: item.fileSystem, probes: item.metadata.probes, integrity: item.metadata.integrity }
+                : undefined
+            }
+          : undefined,
       };
       onSelect(fsItem);
     } else {
@@ -76,38 +110,136 @@ const TreeNode: React.FC<TreeNodeProps> = ({
     }
   };
 
-  return (
-    <div>
-      <div
-        className={cn(
-          "flex items-center py-1 px-2 cursor-pointer hover:bg-blue-50 text-sm",
-          isSelected && "bg-blue-100 text-blue-900"
+  // Volume state lives on the evidence item for single-volume images and on each partition of a whole disk
+  const volume = 'fileSystem' in item ? item.metadata : item.metadata?.volume;
+  const evidenceId = 'fileSystem' in item ? item.id : item.evidenceId;
+  const volumeId = 'fileSystem' in item ? '' : item.volumeId;
+  const checkpoints = volume?.checkpoints;
+  const activeCheckpoint = volume?.activeCheckpoint;
+  const corruptNodes = volume?.corruptNodes;
+  const volumeError = 'fileSystem' in item ? undefined : item.metadata?.volume?.error;
+  const simulated = 'fileSystem' in item ? item.metadata.simulated : item.metadata?.simulated;
+  const exportable = !('fileSystem' in item) && item.type === 'file' && onExportContent ? item : null;
+
+  const row = (
+    <div
+      className={cn(
+        "flex items-center py-1 px-2 cursor-pointer hover:bg-blue-50 text-sm",
+        isSelected && "bg-blue-100 text-blue-900"
+      )}
+      style={{ paddingLeft: `${level * 16 + 8}px` }}
+      onClick={handleClick}
+    >
+      <div className="flex items-center space-x-1 flex-1">
+        {hasChildren ? (
+          <button
+            onClick={handleToggle}
+            className="p-0.5 hover:bg-gray-200 rounded"
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+          </button>
+        ) : (
+          <div className="w-4" />
+        )}
+        {getIcon()}
+        <span className={cn("truncate", simulated && "italic text-amber-700")}>{item.name}</span>
+        {!('fileSystem' in item) && item.metadata?.refs?.snapshot && (
+          <span className="text-xs text-gray-500 ml-1 whitespace-nowrap">
+            {item.metadata.refs.snapshot.created.toLocaleString()}
+          </span>
+        )}
+        {'fileSystem' in item && (
+          <span className="text-xs text-gray-500 ml-1">
+            ({item.metadata.partitionScheme ?? item.fileSystem}{activeCheckpoint !== undefined && ` @ CP${activeCheckpoint + 1}`})
+          </span>
+        )}
+        {!('fileSystem' in item) && item.metadata?.volume && (
+          <span className="text-xs text-gray-500 ml-1">
+            ({item.metadata.volume.fileSystem}{activeCheckpoint !== undefined && ` @ CP${activeCheckpoint + 1}`})
+          </span>
+        )}
+        {volumeError && (
+          <span className="flex items-center text-xs text-red-600 ml-1" title={volumeError}>
+            <AlertTriangle className="h-3 w-3 mr-0.5" />
+            not parsed
+          </span>
+        )}
+        {simulated && 'fileSystem' in item && (
+          <span
+            className="text-[10px] font-semibold uppercase bg-amber-500 text-white rounded px-1 ml-1"
+            title="Generated by demo mode. This data does not come from the evidence."
+          >
+            Simulated
+          </span>
+        )}
+        {corruptNodes && (
+          <span
+            className="flex items-center text-xs text-amber-600 ml-1"
+            title={corruptNodes
+              .map(node => `Block 0x${node.block.toString(16)} (depth ${node.depth}): ${node.reason}`)
+              .join('\n')}
+          >
+            <AlertTriangle className="h-3 w-3 mr-0.5" />
+            {corruptNodes.length} corrupt node{corruptNodes.length === 1 ? '' : 's'} skipped
+          </span>
         )}
-        style={{ paddingLeft: `${level * 16 + 8}px` }}
-        onClick={handleClick}
-      >
-        <div className="flex items-center space-x-1 flex-1">
-          {hasChildren ? (
-            <button
-              onClick={handleToggle}
-              className="p-0.5 hover:bg-gray-200 rounded"
-            >
-              {isExpanded ? (
-                <ChevronDown className="h-3 w-3" />
-              ) : (
-                <ChevronRight className="h-3 w-3" />
-              )}
-            </button>
-          ) : (
-            <div className="w-4" />
-          )}
-          {getIcon()}
-          <span className="truncate">{item.name}</span>
-          {'fileSystem' in item && (
-            <span className="text-xs text-gray-500 ml-1">({item.fileSystem})</span>
-          )}
-        </div>
       </div>
+    </div>
+  );
+
+  return (
+    <div>
+      {exportable ? (
+        <ContextMenu>
+          <ContextMenuTrigger asChild>{row}</ContextMenuTrigger>
+          <ContextMenuContent className="w-48">
+            <ContextMenuItem onSelect={() => onExportContent!(exportable)}>
+              Export {exportable.metadata?.refs?.snapshot ? 'version' : exportable.metadata?.streamName ? 'stream' : 'file'} content
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+      ) : evidenceId && volumeId !== undefined && checkpoints && onOpenCheckpoint ? (
+        <ContextMenu>
+          <ContextMenuTrigger asChild>{row}</ContextMenuTrigger>
+          <ContextMenuContent className="w-72">
+            <ContextMenuLabel>Open volume as of checkpoint</ContextMenuLabel>
+            <ContextMenuSeparator />
+            {checkpoints.map((checkpoint) => (
+              <ContextMenuItem
+                key={checkpoint.index}
+                disabled={checkpoint.index === activeCheckpoint || !checkpoint.signatureValid}
+                onSelect={() => onOpenCheckpoint(evidenceId, volumeId, checkpoint.index)}
+              >
+                <div className="flex flex-col">
+                  <span>
+                    Checkpoint {checkpoint.index + 1}
+                    {checkpoint.index === activeCheckpoint && ' (active)'}
+                  </span>
+                  <span className={cn("text-xs", checkpoint.valid ? "text-gray-500" : "text-red-600")}>
+                    Clock {checkpoint.virtualClock} · block 0x{checkpoint.block.toString(16)}
+                    {!checkpoint.valid && ` · ${checkpoint.errors.join('; ')}`}
+                  </span>
+                </div>
+              </ContextMenuItem>
+            ))}
+            {onRecoverRecords && checkpoints.length > 0 && (
+              <>
+                <ContextMenuSeparator />
+                <ContextMenuItem disabled={simulated} onSelect={() => onRecoverRecords(evidenceId, volumeId)}>
+                  <div className="flex flex-col">
+                    <span>Recover deleted records</span>
+                    <span className="text-xs text-gray-500">Sweeps the volume's free space for stale metadata pages</span>
+                  </div>
+                </ContextMenuItem>
+              </>
+            )}
+          </ContextMenuContent>
+        </ContextMenu>
+      ) : row}
 
       {isExpanded && hasChildren && (
         <div>
@@ -120,6 +252,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
               selectedItem={selectedItem}
               expandedNodes={expandedNodes}
               onToggleExpand={onToggleExpand}
+              onOpenCheckpoint={onOpenCheckpoint}
+              onRecoverRecords={onRecoverRecords}
+              onExportContent={onExportContent}
             />
           ))}
         </div>
@@ -132,6 +267,9 @@ export const EvidenceTree: React.FC<EvidenceTreeProps> = ({
   evidenceItems,
   onItemSelect,
   selectedItem,
+  onOpenCheckpoint,
+  onRecoverRecords,
+  onExportContent,
 }) => {
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
@@ -170,6 +308,9 @@ export const EvidenceTree: React.FC<EvidenceTreeProps> = ({
           selectedItem={selectedItem}
           expandedNodes={expandedNodes}
           onToggleExpand={handleToggleExpand}
+          onOpenCheckpoint={onOpenCheckpoint}
+          onRecoverRecords={onRecoverRecords}
+          onExportContent={onExportContent}
         />
       ))}
     </div>
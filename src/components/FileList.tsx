@@ -1,5 +1,5 @@
 import React from 'react';
-import { File, Folder, FolderOpen } from 'lucide-react';
+import { File, Folder, FolderOpen, History, Paperclip } from 'lucide-react';
 import { FileSystemItem } from '../types/forensic';
 import { cn } from '@/lib/utils';
 
@@ -26,7 +26,10 @@ export const FileList: React.FC<FileListProps> = ({ selectedItem, onItemSelect }
       case 'directory':
         return <Folder className="h-4 w-4 text-yellow-600" />;
       case 'file':
-        return <File className="h-4 w-4 text-gray-600" />;
+        if (item.metadata?.refs?.snapshot) return <History className="h-4 w-4 text-teal-600" />;
+        return item.metadata?.streamName !== undefined
+          ? <Paperclip className="h-4 w-4 text-purple-600" />
+          : <File className="h-4 w-4 text-gray-600" />;
       default:
         return <File className="h-4 w-4 text-gray-600" />;
     }
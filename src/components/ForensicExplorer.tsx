@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { MenuBar } from './MenuBar';
 import { Toolbar } from './Toolbar';
 import { EvidenceTree } from './EvidenceTree';
@@ -9,8 +9,164 @@ import { StatusBar } from './StatusBar';
 import { SearchDialog } from './SearchDialog';
 import { ExportDialog } from './ExportDialog';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
-import { RefsParser, validateRefsImage } from '../lib/refs-parser';
-import { FileSystemItem, EvidenceItem, ParsingProgress } from '../types/forensic';
+import { EvidenceWorker, ParseCancelledError } from '../lib/parse-worker-client';
+import type { VolumeResult, WorkerParseOptions } from '../lib/parse-worker-client';
+import { partitionVolumeId } from '../lib/partition-table';
+import type { PartitionTable } from '../lib/partition-table';
+import { ForensicExportEngine } from '../lib/export-engine';
+import { formatHexDump } from '../lib/hex-dump';
+import { ImageValidationError, formatValidationReport } from '../lib/validation-report';
+import { AnalysisMode, FileSystemItem, FileSystemProbe, EvidenceItem, IntegrityReport, ParsingProgress } from '../types/forensic';
+
+/** Bytes of file content loaded into the hex viewer. */
+const HEX_VIEW_LIMIT = 64 * 1024;
+/** Bytes read from the worker at a time when exporting a file's content. */
+const EXPORT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const formatGapSize = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/** Tree items for the partitions and unpartitioned gaps of a whole-disk image, in disk order. */
+function buildPartitionItems(
+  evidenceId: string,
+  table: PartitionTable,
+  volumes: VolumeResult[],
+  volumeErrors: Record<string, string>,
+  volumeProbes: Record<string, FileSystemProbe[]>
+): FileSystemItem[] {
+  const items: FileSystemItem[] = table.partitions.map(partition => {
+    const volumeId = partitionVolumeId(partition.index);
+    const volume = volumes.find(candidate => candidate.volumeId === volumeId);
+    const name = `Partition ${partition.index}${partition.name ? ` - ${partition.name}` : ''}`;
+    return {
+      id: `${evidenceId}:${volumeId}`,
+      name,
+      type: 'partition',
+      size: partition.size,
+      // Partition tables record no times
+      created: new Date(0),
+      modified: new Date(0),
+      accessed: new Date(0),
+      path: `/${name}`,
+      evidenceId,
+      volumeId,
+      children: volume?.items ?? [],
+      metadata: {
+        allocated: true,
+        deleted: false,
+        partition,
+        volume: {
+          fileSystem: partition.fileSystem ?? 'Unknown',
+          checkpoints: volume && volume.checkpoints.length > 0 ? volume.checkpoints : undefined,
+          activeCheckpoint: volume?.activeCheckpoint,
+          corruptNodes: volume && volume.corruptNodes.length > 0 ? volume.corruptNodes : undefined,
+          error: volumeErrors[volumeId],
+          probes: volumeProbes[volumeId]
+        }
+      }
+    };
+  });
+
+  for (const gap of table.gaps) {
+    const name = `Unallocated (${formatGapSize(gap.size)})`;
+    items.push({
+      id: `${evidenceId}:gap@${gap.startOffset}`,
+      name,
+      type: 'partition',
+      size: gap.size,
+      created: new Date(0),
+      modified: new Date(0),
+      accessed: new Date(0),
+      path: `/${name}`,
+      evidenceId,
+      metadata: {
+        allocated: false,
+        deleted: false,
+        partition: {
+          index: 0,
+          scheme: table.scheme,
+          kind: 'unallocated',
+          startOffset: gap.startOffset,
+          size: gap.size,
+          typeId: '',
+          typeName: 'Unpartitioned space',
+          name: '',
+          guid: null,
+          bootable: false
+        }
+      }
+    });
+  }
+
+  return items.sort((a, b) => a.metadata!.partition!.startOffset - b.metadata!.partition!.startOffset);
+}
+
+/** Integrity verification result of one volume of an evidence item. */
+interface VolumeIntegrity {
+  evidenceId: string;
+  volumeId: string;
+  report: IntegrityReport;
+}
+
+/** Copies an item with the verified status of its page and data attached. */
+function withIntegrity(item: FileSystemItem, report: IntegrityReport): FileSystemItem {
+  const refs = item.metadata?.refs;
+  const fileId = item.metadata?.fileId;
+  return {
+    ...item,
+    children: item.children?.map(child => withIntegrity(child, report)),
+    metadata: item.metadata && refs
+      ? {
+          ...item.metadata,
+          refs: {
+            ...refs,
+            pageIntegrity: report.pages[refs.blockNumber],
+            dataIntegrity: fileId ? report.files[fileId] : undefined
+          }
+        }
+      : item.metadata
+  };
+}
+
+/** As `withIntegrity`, for a partition, which also shows its volume's report. */
+function withVolumeIntegrity(partition: FileSystemItem, report: IntegrityReport): FileSystemItem {
+  const updated = withIntegrity(partition, report);
+  const volume = updated.metadata?.volume;
+  return volume ? { ...updated, metadata: { ...updated.metadata!, volume: { ...volume, integrity: report } } } : updated;
+}
+
+/** Attaches verification results to the evidence item and the items of the verified volumes. */
+function applyIntegrity(evidence: EvidenceItem, results: VolumeIntegrity[]): EvidenceItem {
+  const own = results.filter(result => result.evidenceId === evidence.id);
+  if (own.length === 0) return evidence;
+
+  const whole = own.find(result => result.volumeId === '');
+  if (whole) {
+    return {
+      ...evidence,
+      children: evidence.children.map(child => withIntegrity(child, whole.report)),
+      metadata: { ...evidence.metadata, integrity: whole.report }
+    };
+  }
+
+  return {
+    ...evidence,
+    children: evidence.children.map(partition => {
+      const result = own.find(candidate => candidate.volumeId === partition.volumeId);
+      return result ? withVolumeIntegrity(partition, result.report) : partition;
+    })
+  };
+}
+
+/** Adds a volume's "Recovered" folder to its root items, replacing one added before. */
+function withRecoveredFolder(evidence: EvidenceItem, volumeId: string, folder: FileSystemItem): EvidenceItem {
+  const place = (children: FileSystemItem[]) => [...children.filter(child => child.id !== folder.id), folder];
+  if (volumeId === '') return { ...evidence, children: place(evidence.children) };
+  return {
+    ...evidence,
+    children: evidence.children.map(partition =>
+      partition.volumeId === volumeId ? { ...partition, children: place(partition.children ?? []) } : partition)
+  };
+}
 
 const ForensicExplorer: React.FC = () => {
   const [evidenceItems, setEvidenceItems] = useState<EvidenceItem[]>([]);
@@ -19,79 +175,238 @@ const ForensicExplorer: React.FC = () => {
   const [hexData, setHexData] = useState<string>('');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isExportOpen, setIsExportOpen] = useState(false);
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('forensic');
+  // Verification and recovery run in the evidence workers, which cannot be stopped without losing the evidence
+  const [isVolumeTaskRunning, setIsVolumeTaskRunning] = useState(false);
 
-  const handleAddEvidence = useCallback(async (file: File) => {
-    setParsingProgress({ stage: 'Reading file...', progress: 0 });
+  // Source files (all segments) are kept so a volume can be re-opened as of another checkpoint
+  const evidenceFiles = useRef(new Map<string, File[]>());
+  // Each evidence item's worker stays alive after parsing to serve on-demand reads (hex view, content)
+  const evidenceWorkers = useRef(new Map<string, EvidenceWorker>());
+  // Worker of the parse in progress, terminated on cancel
+  const activeJob = useRef<EvidenceWorker | null>(null);
+  // Acquisition hash check that follows a parse; cancelling it keeps the evidence
+  const acquisitionCheck = useRef<AbortController | null>(null);
+  const selectedItemId = useRef<string | null>(null);
+
+  const loadEvidence = useCallback(async (files: File[], options: WorkerParseOptions = {}) => {
+    if (activeJob.current) {
+      alert('Another evidence item is still being parsed. Wait for it to finish or cancel it first.');
+      return;
+    }
+    // The parse would share the status bar with the running task, which has no Cancel
+    if (isVolumeTaskRunning) {
+      alert('A volume task (integrity verification or record recovery) is still running. Wait for it to finish first.');
+      return;
+    }
+
+    setParsingProgress({ stage: 'Starting parser...', progress: 0 });
+    
+    const worker = new EvidenceWorker();
+    activeJob.current = worker;
     
     try {
-      // Read file as ArrayBuffer
-      const arrayBuffer = await file.arrayBuffer();
+      const evidenceId = `evidence_${Date.now()}`;
       
-      // Validate ReFS image (now accepts all files for demo)
-      if (!validateRefsImage(arrayBuffer)) {
-        throw new Error('File is empty or corrupted. Please select a valid file.');
-      }
-      
-      setParsingProgress({ stage: 'Initializing ReFS parser...', progress: 5 });
-      
-      // Parse with progress callback
-      const parser = new RefsParser(arrayBuffer, (progress) => {
-        setParsingProgress({ stage: progress.message, progress: progress.percentage });
+      // Parsing runs in the worker, which reads the image on demand and never loads it whole
+      const { image, partitionTable, volumes, volumeErrors, volumeProbes } = await worker.parse(files, { ...options, evidenceId }, (progress) => {
+        setParsingProgress({
+          stage: progress.message,
+          progress: progress.percentage,
+          currentFile: progress.currentFile,
+          processedFiles: progress.processedFiles,
+          totalFiles: progress.totalFiles
+        });
       });
       
-      const fileSystemItems = await parser.parseImage();
+      const findings = [
+        ...image.findings,
+        ...(partitionTable?.findings ?? []),
+        ...volumes.flatMap(volume => volume.validation.findings)
+      ];
+      for (const finding of findings) {
+        console.warn(`${finding.check}: ${finding.message}`);
+      }
+      
+      // A single-volume image shows its files directly; a whole disk shows its partitions
+      const volume = partitionTable ? undefined : volumes[0];
+      const simulated = volume?.simulated ?? false;
+      const checkpointLabel = options.checkpointIndex !== undefined
+        ? ` @ checkpoint ${options.checkpointIndex + 1}${options.checkpointVolumeId ? ` (${options.checkpointVolumeId})` : ''}`
+        : '';
+      // A disk whose volumes differ in file system is labelled by its partition scheme instead
+      const fileSystems = new Set(volumes.map(candidate => candidate.fileSystem));
       
       const evidenceItem: EvidenceItem = {
-        id: `evidence_${Date.now()}`,
-        name: file.name,
+        id: evidenceId,
+        name: (simulated ? '[DEMO] ' : '') + image.fileName + checkpointLabel,
         type: 'disk_image',
-        size: file.size,
-        path: file.name,
-        mountPath: '/',
-        isExpanded: true,
-        children: fileSystemItems
+        size: image.size,
+        path: image.fileName,
+        fileSystem: fileSystems.size === 1 ? volumes[0].fileSystem : 'Unknown',
+        children: partitionTable
+          ? buildPartitionItems(evidenceId, partitionTable, volumes, volumeErrors, volumeProbes)
+          : volume?.items ?? [],
+        metadata: {
+          imageType: image.format,
+          sectorSize: partitionTable?.sectorSize ?? volume?.superblock?.bytesPerSector ?? 512,
+          totalSectors: volume?.superblock?.bootSector.totalSectors ??
+            Math.floor(image.size / (partitionTable?.sectorSize ?? 512)),
+          superblock: volume?.superblock ?? undefined,
+          checkpoints: volume && volume.checkpoints.length > 0 ? volume.checkpoints : undefined,
+          activeCheckpoint: volume?.activeCheckpoint,
+          corruptNodes: volume && volume.corruptNodes.length > 0 ? volume.corruptNodes : undefined,
+          analysisMode: options.mode ?? 'forensic',
+          acquisition: image.acquisition,
+          partitionScheme: partitionTable?.scheme,
+          probes: volumeProbes[''],
+          simulated
+        }
       };
       
+      evidenceFiles.current.set(evidenceItem.id, files);
+      evidenceWorkers.current.set(evidenceItem.id, worker);
       setEvidenceItems(prev => [...prev, evidenceItem]);
       setParsingProgress(null);
       
       // Show success message
-      console.log(`Successfully parsed ${file.name} - Found ${fileSystemItems.length} root items`);
+      console.log(`Successfully parsed ${image.fileName} - Found ${evidenceItem.children.length} root items`);
+
+      // The acquisition hashes cover the whole media, so they are checked once the evidence can be browsed
+      if (image.acquisition && image.acquisition.hashes.length > 0) {
+        acquisitionCheck.current = new AbortController();
+        try {
+          const hashes = await worker.verifyAcquisitionHashes(progress => {
+            setParsingProgress({ stage: progress.message, progress: progress.percentage });
+          }, acquisitionCheck.current.signal);
+          for (const hash of hashes.filter(candidate => !candidate.verified)) {
+            console.warn(`Acquisition ${hash.algorithm.toUpperCase()}: media hashes to ${hash.computed}, the image records ${hash.stored}`);
+          }
+          const withHashes = <T extends FileSystemItem | EvidenceItem>(item: T): T => (item.id === evidenceId && item.metadata?.acquisition
+            ? { ...item, metadata: { ...item.metadata, acquisition: { ...item.metadata.acquisition, hashes } } }
+            : item);
+          setEvidenceItems(prev => prev.map(withHashes));
+          setSelectedItem(prev => prev && withHashes(prev));
+        } catch (error) {
+          if (error instanceof ParseCancelledError) {
+            console.log(`Acquisition hash verification of ${image.fileName} was cancelled`);
+          } else {
+            console.error(`Acquisition hash verification of ${image.fileName} failed:`, error);
+          }
+        } finally {
+          acquisitionCheck.current = null;
+          setParsingProgress(null);
+        }
+      }
     } catch (error) {
-      console.error('Failed to parse evidence:', error);
+      worker.terminate();
       setParsingProgress(null);
-      alert(`Failed to parse evidence: ${error.message}\n\nNote: This tool accepts any file for demonstration purposes. Real ReFS disk images (.raw, .img, .vdi, .E01) will be parsed more accurately.`);
+      if (error instanceof ParseCancelledError) {
+        console.log(`Parsing of ${files[0].name} was cancelled`);
+      } else if (error instanceof ImageValidationError) {
+        console.error('Failed to parse evidence:', error);
+        alert(`${files[0].name} was not loaded.\n\n${formatValidationReport(error.report)}` +
+          (options.mode !== 'demo' ? '\n\nNo records were generated. Switch to demo mode to explore simulated data instead.' : ''));
+      } else {
+        console.error('Failed to parse evidence:', error);
+        alert(`Failed to parse evidence: ${(error as Error).message}`);
+      }
+    } finally {
+      activeJob.current = null;
+    }
+  }, [isVolumeTaskRunning]);
+
+  const handleCancelParse = useCallback(() => {
+    if (acquisitionCheck.current) {
+      acquisitionCheck.current.abort();
+    } else {
+      activeJob.current?.terminate();
     }
   }, []);
 
-  const handleItemSelect = useCallback((item: FileSystemItem) => {
+  const handleAddEvidence = useCallback((files: File[]) => {
+    loadEvidence(files, { mode: analysisMode });
+  }, [loadEvidence, analysisMode]);
+
+  const handleOpenCheckpoint = useCallback((evidenceId: string, volumeId: string, checkpointIndex: number) => {
+    const files = evidenceFiles.current.get(evidenceId);
+    const evidence = evidenceItems.find(item => item.id === evidenceId);
+    if (files && evidence) {
+      loadEvidence(files, {
+        checkpointIndex,
+        checkpointVolumeId: volumeId || undefined,
+        mode: evidence.metadata.analysisMode
+      });
+    }
+  }, [loadEvidence, evidenceItems]);
+
+  const handleItemSelect = useCallback(async (item: FileSystemItem) => {
     setSelectedItem(item);
-    // Generate realistic hex data based on file metadata
-    if (item.type === 'file') {
-      const fileId = item.metadata?.fileId || 0;
+    selectedItemId.current = item.id;
+
+    const worker = item.evidenceId ? evidenceWorkers.current.get(item.evidenceId) : undefined;
+    const volumeId = item.volumeId ?? '';
+    const fileId = item.metadata?.fileId;
+    if (worker && fileId && item.type === 'file') {
+      try {
+        const content = await worker.readFileContent(volumeId, fileId, 0, HEX_VIEW_LIMIT, item.metadata?.streamName);
+        if (selectedItemId.current !== item.id) return;
+        if (content) {
+          setHexData(formatHexDump(content));
+          return;
+        }
+      } catch (error) {
+        console.warn(`Cannot read content of ${item.name}:`, error);
+      }
+    }
+
+    // Otherwise show the metadata page the item was decoded from, resolved through the volume's tables
+    const block = item.metadata?.refs?.blockNumber;
+    if (worker && block) {
+      const page = await worker.readMetadataBlock(volumeId, block).catch(() => null);
+      if (selectedItemId.current !== item.id) return;
+      if (page) {
+        setHexData(formatHexDump(page.bytes, page.offset));
+        return;
+      }
+    }
+
+    // Demo records have no bytes behind them; generate a pattern from their metadata
+    if (item.type === 'file' && item.metadata?.simulated) {
+      const seed = parseInt(fileId?.slice(-8) || '0', 16);
       const blockNumber = item.metadata?.refs?.blockNumber || 0;
       
-      let hexData = '';
-      for (let i = 0; i < 16; i++) {
-        const offset = (i * 16).toString(16).padStart(8, '0');
-        let hexLine = '';
-        let asciiLine = '';
-        
-        for (let j = 0; j < 16; j++) {
-          const byte = (fileId + blockNumber + i * 16 + j) % 256;
-          hexLine += byte.toString(16).padStart(2, '0') + ' ';
-          asciiLine += (byte >= 32 && byte <= 126) ? String.fromCharCode(byte) : '.';
-        }
-        
-        hexData += `${offset}  ${hexLine} |${asciiLine}|\\n`;
+      const bytes = new Uint8Array(256);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = (seed + blockNumber + i) % 256;
       }
       
-      setHexData(hexData);
+      setHexData(formatHexDump(bytes));
     } else {
       setHexData('');
     }
   }, []);
 
+  const handleExportContent = useCallback(async (item: FileSystemItem) => {
+    const worker = item.evidenceId ? evidenceWorkers.current.get(item.evidenceId) : undefined;
+    const fileId = item.metadata?.fileId;
+    if (!worker || !fileId) return;
+
+    try {
+      const parts: Uint8Array[] = [];
+      for (let offset = 0; offset < item.size; offset += EXPORT_CHUNK_SIZE) {
+        const chunk = await worker.readFileContent(item.volumeId ?? '', fileId, offset, EXPORT_CHUNK_SIZE, item.metadata?.streamName);
+        if (!chunk) throw new Error('it has no readable content');
+        parts.push(chunk);
+      }
+      // Stream names contain a colon, which most file systems reject in a file name
+      ForensicExportEngine.downloadBlob(new Blob(parts), item.name.replace(/[:\\/]/g, '_'));
+    } catch (error) {
+      console.error(`Failed to export ${item.name}:`, error);
+      alert(`Cannot export ${item.name}: ${(error as Error).message}`);
+    }
+  }, []);
+
   // Get all file system items for search and export
   const getAllFileSystemItems = useCallback((): FileSystemItem[] => {
     const allItems: FileSystemItem[] = [];
@@ -122,9 +437,99 @@ const ForensicExplorer: React.FC = () => {
     setIsExportOpen(true);
   }, []);
 
-  const handleVerifyIntegrity = useCallback(() => {
-    alert('Integrity verification started. This may take several minutes...');
-  }, []);
+  const handleVerifyIntegrity = useCallback(async () => {
+    if (activeJob.current) {
+      alert('An evidence item is still being parsed. Wait for it to finish before verifying integrity.');
+      return;
+    }
+    if (isVolumeTaskRunning) return;
+
+    // Only ReFS volumes read from disk carry checksums; demo volumes are generated
+    const targets = evidenceItems.flatMap(evidence => {
+      if (evidence.metadata.partitionScheme) {
+        return evidence.children
+          .filter(partition => partition.volumeId && partition.metadata?.volume?.fileSystem === 'ReFS')
+          .map(partition => ({ evidence, volumeId: partition.volumeId!, label: `${evidence.name} / ${partition.name}` }));
+      }
+      return evidence.fileSystem === 'ReFS' && !evidence.metadata.simulated
+        ? [{ evidence, volumeId: '', label: evidence.name }]
+        : [];
+    });
+    if (targets.length === 0) {
+      alert('No ReFS volume read from disk is loaded, so there are no checksums to verify.');
+      return;
+    }
+
+    const results: VolumeIntegrity[] = [];
+    const summary: string[] = [];
+    setIsVolumeTaskRunning(true);
+    for (const { evidence, volumeId, label } of targets) {
+      const worker = evidenceWorkers.current.get(evidence.id);
+      if (!worker) continue;
+      try {
+        const report = await worker.verifyIntegrity(volumeId, progress => {
+          setParsingProgress({ stage: `${label}: ${progress.message}`, progress: progress.percentage });
+        });
+        if (!report) continue;
+        results.push({ evidenceId: evidence.id, volumeId, report });
+        summary.push(`${label}: ${report.pagesVerified} pages, ${report.clustersVerified} clusters of ` +
+          `${report.filesVerified} files verified, ${report.mismatches.length} mismatches`);
+      } catch (error) {
+        console.error(`Integrity verification of ${label} failed:`, error);
+        summary.push(`${label}: verification failed (${(error as Error).message})`);
+      }
+    }
+    setParsingProgress(null);
+    setIsVolumeTaskRunning(false);
+
+    setEvidenceItems(prev => prev.map(evidence => applyIntegrity(evidence, results)));
+    setSelectedItem(prev => {
+      const result = prev && results.find(candidate => candidate.evidenceId === prev.evidenceId && candidate.volumeId === (prev.volumeId ?? ''));
+      return prev && result ? withVolumeIntegrity(prev, result.report) : prev;
+    });
+    alert(`Integrity verification complete.\n\n${summary.join('\n')}`);
+  }, [evidenceItems, isVolumeTaskRunning]);
+
+  const handleRecoverRecords = useCallback(async (evidenceId: string, volumeId: string) => {
+    if (activeJob.current) {
+      alert('An evidence item is still being parsed. Wait for it to finish before recovering records.');
+      return;
+    }
+    if (isVolumeTaskRunning) return;
+
+    const worker = evidenceWorkers.current.get(evidenceId);
+    const evidence = evidenceItems.find(item => item.id === evidenceId);
+    if (!worker || !evidence) return;
+    const partition = volumeId ? evidence.children.find(child => child.volumeId === volumeId) : undefined;
+    const label = partition ? `${evidence.name} / ${partition.name}` : evidence.name;
+
+    let summary: string;
+    setIsVolumeTaskRunning(true);
+    try {
+      const result = await worker.recoverRecords(volumeId, progress => {
+        setParsingProgress({ stage: `${label}: ${progress.message}`, progress: progress.percentage });
+      });
+      if (!result) {
+        summary = `${label} is not a ReFS volume read from disk, so it has no free space to sweep.`;
+      } else {
+        const folder = result.folder;
+        if (folder) {
+          setEvidenceItems(prev => prev.map(item => (item.id === evidenceId ? withRecoveredFolder(item, volumeId, folder) : item)));
+        }
+        summary = [
+          `Recovered ${result.recordsRecovered} records from ${result.pagesFound} stale metadata pages on ${label}.`,
+          ...result.findings.map(finding =>
+            `${finding.check}${finding.offset !== null ? ` at 0x${finding.offset.toString(16)}` : ''}: ${finding.message}`)
+        ].join('\n\n');
+      }
+    } catch (error) {
+      console.error(`Record recovery on ${label} failed:`, error);
+      summary = `Cannot recover records from ${label}: ${(error as Error).message}`;
+    }
+    setParsingProgress(null);
+    setIsVolumeTaskRunning(false);
+    alert(summary);
+  }, [evidenceItems, isVolumeTaskRunning]);
 
   return (
     <div className="h-screen flex flex-col bg-gray-100">
@@ -134,6 +539,8 @@ const ForensicExplorer: React.FC = () => {
         onSearch={handleSearch}
         onExport={handleExport}
         onVerifyIntegrity={handleVerifyIntegrity}
+        analysisMode={analysisMode}
+        onAnalysisModeChange={setAnalysisMode}
       />
       
       <div className="flex-1 flex flex-col">
@@ -148,6 +555,9 @@ const ForensicExplorer: React.FC = () => {
                 evidenceItems={evidenceItems}
                 onItemSelect={handleItemSelect}
                 selectedItem={selectedItem}
+                onOpenCheckpoint={handleOpenCheckpoint}
+                onRecoverRecords={handleRecoverRecords}
+                onExportContent={handleExportContent}
               />
             </div>
           </ResizablePanel>
@@ -198,7 +608,7 @@ const ForensicExplorer: React.FC = () => {
         </ResizablePanelGroup>
       </div>
 
-      <StatusBar parsingProgress={parsingProgress} />
+      <StatusBar parsingProgress={parsingProgress} analysisMode={analysisMode} onCancel={isVolumeTaskRunning ? undefined : handleCancelParse} />
 
       {/* Dialogs */}
       <SearchDialog
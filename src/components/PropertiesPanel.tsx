@@ -1,7 +1,54 @@
 import React from 'react';
-import { FileSystemItem } from '../types/forensic';
+import { AccessControlEntry, FileSystemItem, IntegrityStatus } from '../types/forensic';
+import { FILE_ATTRIBUTE_INTEGRITY_STREAM, describeFileAttributes } from '@/lib/refs-directory';
+import { describeAccessMask, describeAceFlags } from '@/lib/security-descriptor';
 import { Separator } from '@/components/ui/separator';
 
+/** Mismatches listed in the volume integrity report; the rest are counted. */
+const MAX_LISTED_MISMATCHES = 50;
+
+const INTEGRITY_STATUS: Record<IntegrityStatus, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'text-green-600' },
+  mismatch: { label: 'Checksum mismatch', className: 'text-red-600 font-semibold' },
+  unchecked: { label: 'No checksum', className: 'text-gray-600' }
+};
+
+const renderIntegrityStatus = (status: IntegrityStatus | undefined) => status
+  ? <span className={INTEGRITY_STATUS[status].className}>{INTEGRITY_STATUS[status].label}</span>
+  : <span className="text-gray-500">Not verified</span>;
+
+const renderAclTable = (title: string, entries: AccessControlEntry[]) => (
+  <div>
+    <div className="text-gray-600 mb-1">{title}:</div>
+    {entries.length === 0 ? (
+      <div className="text-xs text-gray-500">Empty (no access granted)</div>
+    ) : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal pr-2">Type</th>
+            <th className="font-normal pr-2">Principal</th>
+            <th className="font-normal pr-2">Access</th>
+            <th className="font-normal">Flags</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, index) => (
+            <tr key={index} className="align-top border-t border-gray-100">
+              <td className={entry.type.startsWith('Deny') ? 'pr-2 text-red-600' : 'pr-2'}>{entry.type}</td>
+              <td className="pr-2 break-all" title={entry.trustee?.sid}>
+                {entry.trustee ? entry.trustee.name ?? <span className="font-mono">{entry.trustee.sid}</span> : '?'}
+              </td>
+              <td className="pr-2" title={`0x${entry.mask.toString(16).padStart(8, '0')}`}>{describeAccessMask(entry.mask)}</td>
+              <td className="font-mono">{describeAceFlags(entry.flags)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
 interface PropertiesPanelProps {
   selectedItem: FileSystemItem | null;
 }
@@ -30,6 +77,13 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedItem }
   return (
     <div className="flex-1 overflow-auto p-3 text-sm">
       <div className="space-y-3">
+        {selectedItem.metadata?.simulated && (
+          <div className="rounded border border-amber-400 bg-amber-50 px-2 py-1.5 text-xs text-amber-800">
+            <span className="font-semibold">Simulated record.</span> Generated by demo mode; it does not
+            come from the evidence and must not be reported.
+          </div>
+        )}
+
         {/* General Properties */}
         <div>
           <h3 className="font-semibold text-gray-800 mb-2">General</h3>
@@ -40,49 +94,227 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedItem }
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Type:</span>
-              <span className="capitalize">{selectedItem.type}</span>
+              <span className="capitalize">
+                {selectedItem.metadata?.refs?.snapshot
+                  ? 'Snapshot version'
+                  : selectedItem.metadata?.streamName !== undefined ? 'Alternate data stream' : selectedItem.type}
+              </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600">Path:</span>
               <span className="font-mono text-xs">{selectedItem.path}</span>
             </div>
-            {selectedItem.type === 'file' && (
+            {(selectedItem.type === 'file' || selectedItem.type === 'partition') && (
               <div className="flex justify-between">
                 <span className="text-gray-600">Size:</span>
                 <span>{formatSize(selectedItem.size)}</span>
               </div>
             )}
+            {selectedItem.type === 'file' && selectedItem.children?.some(child => !child.metadata?.refs?.snapshot) && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Streams:</span>
+                <span>{selectedItem.children.filter(child => !child.metadata?.refs?.snapshot).length} alternate</span>
+              </div>
+            )}
+            {selectedItem.type === 'file' && selectedItem.children?.some(child => child.metadata?.refs?.snapshot) && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Versions:</span>
+                <span>{selectedItem.children.filter(child => child.metadata?.refs?.snapshot).length} snapshots</span>
+              </div>
+            )}
           </div>
         </div>
 
-        <Separator />
+        {/* Partition */}
+        {selectedItem.metadata?.partition && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Partition</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Scheme:</span>
+                  <span>{selectedItem.metadata.partition.scheme}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Type:</span>
+                  <span className="text-xs text-right" title={selectedItem.metadata.partition.typeId}>
+                    {selectedItem.metadata.partition.typeName}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Start Offset:</span>
+                  <span className="font-mono text-xs">
+                    0x{selectedItem.metadata.partition.startOffset.toString(16).toUpperCase()}
+                  </span>
+                </div>
+                {selectedItem.metadata.partition.guid && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">GUID:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.partition.guid}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.partition.bootable && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Bootable:</span>
+                    <span>Yes</span>
+                  </div>
+                )}
+                {selectedItem.metadata.volume && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">File System:</span>
+                    <span>{selectedItem.metadata.volume.fileSystem}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.volume?.error && (
+                  <div className="text-xs text-red-600">{selectedItem.metadata.volume.error}</div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
 
-        {/* Timestamps */}
-        <div>
-          <h3 className="font-semibold text-gray-800 mb-2">Timestamps</h3>
-          <div className="space-y-1">
-            <div className="flex justify-between">
-              <span className="text-gray-600">Created:</span>
-              <span className="text-xs">{formatDate(selectedItem.created)}</span>
+        {/* File System Detection */}
+        {selectedItem.metadata?.volume?.probes && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">File System Detection</h3>
+              {selectedItem.metadata.volume.probes.length === 0 && (
+                <div className="text-xs text-gray-600">No file system signature matched; the volume is shown raw.</div>
+              )}
+              <div className="space-y-2">
+                {selectedItem.metadata.volume.probes.map(probe => (
+                  <div key={probe.fileSystem}>
+                    <div className="flex justify-between">
+                      <span className={probe.fileSystem === selectedItem.metadata!.volume!.fileSystem ? 'font-semibold' : 'text-gray-600'}>
+                        {probe.fileSystem}{probe.fileSystem === selectedItem.metadata!.volume!.fileSystem && ' (selected)'}
+                      </span>
+                      <span>{Math.round(probe.confidence * 100)}%</span>
+                    </div>
+                    {probe.checks.map(check => (
+                      <div key={check.description} className="flex gap-1 text-xs">
+                        <span className={check.passed ? 'text-green-600' : 'text-red-600'}>{check.passed ? '✓' : '✗'}</span>
+                        <span className="text-gray-700">{check.description}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600">Modified:</span>
-              <span className="text-xs">{formatDate(selectedItem.modified)}</span>
+          </>
+        )}
+
+        {/* Acquisition */}
+        {selectedItem.metadata?.acquisition && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Acquisition</h3>
+              <div className="space-y-1">
+                {([
+                  ['Case Number', selectedItem.metadata.acquisition.caseNumber],
+                  ['Evidence Number', selectedItem.metadata.acquisition.evidenceNumber],
+                  ['Examiner', selectedItem.metadata.acquisition.examiner],
+                  ['Description', selectedItem.metadata.acquisition.description],
+                  ['Notes', selectedItem.metadata.acquisition.notes],
+                  ['Acquired', selectedItem.metadata.acquisition.acquiredAt && formatDate(selectedItem.metadata.acquisition.acquiredAt)],
+                  ['System Date', selectedItem.metadata.acquisition.systemDate && formatDate(selectedItem.metadata.acquisition.systemDate)],
+                  ['Software', selectedItem.metadata.acquisition.software],
+                  ['Acquired On', selectedItem.metadata.acquisition.operatingSystem],
+                ] as const).filter(([, value]) => value).map(([label, value]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-gray-600">{label}:</span>
+                    <span className="text-xs text-right">{value}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Segments:</span>
+                  <span>{selectedItem.metadata.acquisition.segmentCount}</span>
+                </div>
+                {selectedItem.metadata.acquisition.hashes.map(hash => (
+                  <div key={hash.algorithm}>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{hash.algorithm === 'md5' ? 'MD5' : 'SHA-1'}:</span>
+                      <span className={hash.verified ? 'text-green-600' : 'text-red-600'}>
+                        {hash.verified ? 'Verified' : hash.computed ? 'MISMATCH' : 'Not verified'}
+                      </span>
+                    </div>
+                    <div className="font-mono text-xs break-all text-gray-700" title="Stored at acquisition">
+                      {hash.stored}
+                    </div>
+                    {hash.computed && !hash.verified && (
+                      <div className="font-mono text-xs break-all text-red-600" title="Computed now">
+                        {hash.computed}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
-            <div className="flex justify-between">
-              <span className="text-gray-600">Accessed:</span>
-              <span className="text-xs">{formatDate(selectedItem.accessed)}</span>
+          </>
+        )}
+
+        {/* Timestamps */}
+        {selectedItem.type !== 'partition' && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Timestamps</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Created:</span>
+                  <span className="text-xs">{formatDate(selectedItem.created)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Modified:</span>
+                  <span className="text-xs">{formatDate(selectedItem.modified)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Accessed:</span>
+                  <span className="text-xs">{formatDate(selectedItem.accessed)}</span>
+                </div>
+                {selectedItem.changed && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Changed:</span>
+                    <span className="text-xs">{formatDate(selectedItem.changed)}</span>
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Metadata */}
-        {selectedItem.metadata && (
+        {selectedItem.metadata && selectedItem.type !== 'image' && (
           <>
             <Separator />
             <div>
               <h3 className="font-semibold text-gray-800 mb-2">Metadata</h3>
               <div className="space-y-1">
+                {selectedItem.metadata.fileId && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">File ID:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.fileId}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.attributes !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Attributes:</span>
+                    <span
+                      className="text-xs text-right"
+                      title={`0x${selectedItem.metadata.attributes.toString(16).toUpperCase().padStart(8, '0')}`}
+                    >
+                      {describeFileAttributes(selectedItem.metadata.attributes)}
+                    </span>
+                  </div>
+                )}
+                {selectedItem.metadata.allocatedSize !== undefined && selectedItem.type === 'file' && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Allocated Size:</span>
+                    <span>{formatSize(selectedItem.metadata.allocatedSize)}</span>
+                  </div>
+                )}
                 {selectedItem.metadata.inode && (
                   <div className="flex justify-between">
                     <span className="text-gray-600">Inode:</span>
@@ -101,12 +333,36 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedItem }
                     <span>{selectedItem.metadata.owner}</span>
                   </div>
                 )}
+                {selectedItem.metadata.group && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Group:</span>
+                    <span>{selectedItem.metadata.group}</span>
+                  </div>
+                )}
                 {selectedItem.metadata.hash && (
                   <div className="flex justify-between">
                     <span className="text-gray-600">MD5 Hash:</span>
                     <span className="font-mono text-xs break-all">{selectedItem.metadata.hash}</span>
                   </div>
                 )}
+                {selectedItem.metadata.md5Hash && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">MD5:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.md5Hash}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.sha1Hash && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">SHA-1:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.sha1Hash}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.sha256Hash && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">SHA-256:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.sha256Hash}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Allocated:</span>
                   <span className={selectedItem.metadata.allocated ? 'text-green-600' : 'text-red-600'}>
@@ -124,25 +380,390 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedItem }
           </>
         )}
 
+        {/* Security Descriptor */}
+        {selectedItem.metadata?.security && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Security</h3>
+              <div className="space-y-2">
+                {selectedItem.metadata.securityId !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Security ID:</span>
+                    <span className="font-mono">{selectedItem.metadata.securityId}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.security.owner && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Owner SID:</span>
+                    <span className="font-mono text-xs break-all text-right">{selectedItem.metadata.security.owner.sid}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.security.group && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Group SID:</span>
+                    <span className="font-mono text-xs break-all text-right">{selectedItem.metadata.security.group.sid}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.security.dacl
+                  ? renderAclTable('DACL', selectedItem.metadata.security.dacl)
+                  : <div className="text-xs text-amber-700">No DACL: everyone has full access.</div>}
+                {selectedItem.metadata.security.sacl && renderAclTable('SACL', selectedItem.metadata.security.sacl)}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* NTFS Specific */}
+        {selectedItem.metadata?.ntfs && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">NTFS Metadata</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">MFT Record:</span>
+                  <span className="font-mono">{selectedItem.metadata.ntfs.mftRecord}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Sequence:</span>
+                  <span className="font-mono">{selectedItem.metadata.ntfs.sequenceNumber}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Hard Links:</span>
+                  <span>{selectedItem.metadata.ntfs.hardLinkCount}</span>
+                </div>
+                {selectedItem.metadata.ntfs.source === 'i30-slack' && (
+                  <div className="text-xs text-amber-700">
+                    Recovered from $I30 index slack; the MFT record has been reused, so no content is available.
+                  </div>
+                )}
+                {selectedItem.metadata.ntfs.streams.filter(stream => stream.name).map(stream => (
+                  <div key={stream.name} className="flex justify-between">
+                    <span className="text-gray-600 break-all">ADS {stream.name}:</span>
+                    <span>{formatSize(stream.size)}{stream.resident && ' (resident)'}</span>
+                  </div>
+                ))}
+                {selectedItem.metadata.ntfs.fileNameTimes && ([
+                  ['$FN Created', selectedItem.metadata.ntfs.fileNameTimes.created],
+                  ['$FN Modified', selectedItem.metadata.ntfs.fileNameTimes.modified],
+                  ['$FN Changed', selectedItem.metadata.ntfs.fileNameTimes.changed],
+                  ['$FN Accessed', selectedItem.metadata.ntfs.fileNameTimes.accessed],
+                ] as const).map(([label, time]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-gray-600">{label}:</span>
+                    <span className="text-xs">{formatDate(time)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* FAT Specific */}
+        {selectedItem.metadata?.fat && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">FAT Metadata</h3>
+              <div className="space-y-1">
+                {selectedItem.metadata.fat.shortName && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Short Name:</span>
+                    <span className="font-mono text-xs">{selectedItem.metadata.fat.shortName}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">First Cluster:</span>
+                  <span className="font-mono">{selectedItem.metadata.fat.firstCluster}</span>
+                </div>
+                {selectedItem.metadata.fat.recovery && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Recovery:</span>
+                    <span>
+                      {{ chain: 'Cluster chain', contiguous: 'Assumed contiguous', none: 'Not recoverable' }[selectedItem.metadata.fat.recovery]}
+                    </span>
+                  </div>
+                )}
+                {selectedItem.metadata.fat.overwritten && (
+                  <div className="text-xs text-amber-700">
+                    Some recovered clusters are allocated to other files; the content may be partly overwritten.
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* ext Specific */}
+        {selectedItem.metadata?.ext && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">ext Metadata</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Mode:</span>
+                  <span className="font-mono">0{selectedItem.metadata.ext.mode.toString(8)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Hard Links:</span>
+                  <span>{selectedItem.metadata.ext.linkCount}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Inode Flags:</span>
+                  <span className="font-mono">0x{selectedItem.metadata.ext.flags.toString(16).toUpperCase()}</span>
+                </div>
+                {selectedItem.metadata.ext.symlinkTarget !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Link Target:</span>
+                    <span className="font-mono text-xs break-all">{selectedItem.metadata.ext.symlinkTarget}</span>
+                  </div>
+                )}
+                {([
+                  ['crtime', selectedItem.metadata.ext.times.created],
+                  ['mtime', selectedItem.metadata.ext.times.modified],
+                  ['ctime', selectedItem.metadata.ext.times.changed],
+                  ['atime', selectedItem.metadata.ext.times.accessed]
+                ] as const).filter(([, time]) => time).map(([label, time]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-gray-600">{label}:</span>
+                    <span className="font-mono text-xs">{time}</span>
+                  </div>
+                ))}
+                {selectedItem.metadata.ext.deletionTime && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Deleted:</span>
+                    <span className="text-xs">{formatDate(selectedItem.metadata.ext.deletionTime)}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.ext.recovery && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Recovery:</span>
+                    <span>
+                      {{ inode: 'Block map in inode', journal: 'Journal copy of inode', none: 'Not recoverable' }[selectedItem.metadata.ext.recovery]}
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Carved */}
+        {selectedItem.metadata?.carved && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Carved File</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Signature:</span>
+                  <span>{selectedItem.metadata.carved.signature}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Volume Offset:</span>
+                  <span className="font-mono text-xs">
+                    0x{selectedItem.metadata.carved.offset.toString(16).toUpperCase()}
+                  </span>
+                </div>
+                {!selectedItem.metadata.carved.complete && (
+                  <div className="text-xs text-amber-700">
+                    No end of file was found; the content is cut at the type's size limit.
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
         {/* ReFS Specific */}
-        {selectedItem.type === 'directory' && (
+        {selectedItem.metadata?.refs && (
           <>
             <Separator />
             <div>
               <h3 className="font-semibold text-gray-800 mb-2">ReFS Metadata</h3>
+              <div className="space-y-1">
+                {selectedItem.metadata.refs.blockNumber > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Metadata Block:</span>
+                    <span className="font-mono">0x{selectedItem.metadata.refs.blockNumber.toString(16).toUpperCase()}</span>
+                  </div>
+                )}
+                {selectedItem.metadata.refs.blockNumber > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Row:</span>
+                    <span>{selectedItem.metadata.refs.entryIndex}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Page Checksum:</span>
+                  {renderIntegrityStatus(selectedItem.metadata.refs.pageIntegrity)}
+                </div>
+                {selectedItem.type === 'file' && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Integrity Stream:</span>
+                    {((selectedItem.metadata.attributes ?? 0) & FILE_ATTRIBUTE_INTEGRITY_STREAM) === 0
+                      ? <span className="text-gray-600">Not enabled</span>
+                      : renderIntegrityStatus(selectedItem.metadata.refs.dataIntegrity)}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Recovered from stale pages */}
+        {selectedItem.metadata?.refs?.recovered && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Recovered Record</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Kind:</span>
+                  <span>{selectedItem.metadata.refs.recovered.kind === 'deleted' ? 'Deleted' : 'Previous version'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Confidence:</span>
+                  <span>{Math.round(selectedItem.metadata.refs.recovered.confidence * 100)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Original Path:</span>
+                  <span className="text-xs text-right break-all">{selectedItem.metadata.refs.recovered.originalPath}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Original File ID:</span>
+                  <span className="font-mono text-xs break-all">{selectedItem.metadata.refs.recovered.originalFileId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Stale Page:</span>
+                  <span className="font-mono">0x{selectedItem.metadata.refs.recovered.pageOffset.toString(16).toUpperCase()}</span>
+                </div>
+                {selectedItem.metadata.refs.recovered.checks.map(check => (
+                  <div key={check.description} className="flex gap-1 text-xs">
+                    <span className={check.passed ? 'text-green-600' : 'text-red-600'}>{check.passed ? '✓' : '✗'}</span>
+                    <span className="text-gray-700">{check.description}</span>
+                  </div>
+                ))}
+                {selectedItem.metadata.refs.recovered.overwritten && (
+                  <div className="text-xs text-amber-700">
+                    Some of the record's clusters belong to live files; the content may be partly overwritten.
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Stream snapshot */}
+        {selectedItem.metadata?.refs?.snapshot && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Snapshot</h3>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Name:</span>
+                  <span className="font-mono text-xs break-all">{selectedItem.metadata.refs.snapshot.name}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Taken:</span>
+                  <span className="text-xs">{formatDate(selectedItem.metadata.refs.snapshot.created)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Stream:</span>
+                  <span className="font-mono text-xs">{selectedItem.metadata.refs.snapshot.streamName || '(default)'}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Virtual Clock:</span>
+                  <span className="font-mono">{selectedItem.metadata.refs.snapshot.virtualClock}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Changed Since:</span>
+                  <span>{selectedItem.metadata.refs.snapshot.changedClusters} clusters</span>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Block cloning */}
+        {selectedItem.metadata?.refs?.sharedExtents && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Shared Extents</h3>
               <div className="space-y-1">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">B+Tree Node:</span>
-                  <span className="font-mono">0x{Math.floor(Math.random() * 0xFFFFFF).toString(16).toUpperCase()}</span>
+                  <span className="text-gray-600">Counted with Another File:</span>
+                  <span>{formatSize(selectedItem.metadata.refs.clonedSize ?? 0)}</span>
                 </div>
+                {selectedItem.metadata.refs.sharedExtents.map(extent => (
+                  <div key={`${extent.logicalCluster}:${extent.physicalCluster}`} className="p-2 bg-gray-50 rounded text-xs space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Clusters:</span>
+                      <span className="font-mono">
+                        {extent.clusterCount} at 0x{extent.logicalCluster.toString(16).toUpperCase()}
+                        {' → '}0x{extent.physicalCluster.toString(16).toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">References:</span>
+                      <span>{extent.referenceCount}</span>
+                    </div>
+                    {extent.sharedWith.length > 0
+                      ? extent.sharedWith.map(path => <div key={path} className="break-all text-gray-700">{path}</div>)
+                      : <div className="text-gray-500">Shared with snapshots or files no longer listed</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Integrity Verification */}
+        {selectedItem.metadata?.volume?.integrity && (
+          <>
+            <Separator />
+            <div>
+              <h3 className="font-semibold text-gray-800 mb-2">Integrity Verification</h3>
+              <div className="space-y-1">
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Cluster Size:</span>
-                  <span>4096 bytes</span>
+                  <span className="text-gray-600">Metadata Pages:</span>
+                  <span>
+                    {selectedItem.metadata.volume.integrity.pagesVerified} verified
+                    {selectedItem.metadata.volume.integrity.pagesUnchecked > 0 &&
+                      `, ${selectedItem.metadata.volume.integrity.pagesUnchecked} without checksum`}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Integrity Streams:</span>
+                  <span>
+                    {selectedItem.metadata.volume.integrity.filesVerified} files,{' '}
+                    {selectedItem.metadata.volume.integrity.clustersVerified} clusters
+                  </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-gray-600">Integrity:</span>
-                  <span className="text-green-600">Verified</span>
+                  <span className="text-gray-600">Mismatches:</span>
+                  <span className={selectedItem.metadata.volume.integrity.mismatches.length > 0 ? 'text-red-600 font-semibold' : 'text-green-600'}>
+                    {selectedItem.metadata.volume.integrity.mismatches.length}
+                  </span>
                 </div>
+                {selectedItem.metadata.volume.integrity.mismatches.slice(0, MAX_LISTED_MISMATCHES).map(mismatch => (
+                  <div key={`${mismatch.kind}:${mismatch.offset}`} className="text-xs border-l-2 border-red-300 pl-2">
+                    <div className="font-mono">
+                      {mismatch.kind === 'page' ? 'Page' : 'Cluster'} 0x{mismatch.block.toString(16).toUpperCase()} @ 0x{mismatch.offset.toString(16).toUpperCase()}
+                    </div>
+                    {mismatch.path && <div className="text-gray-700 break-all">{mismatch.path}</div>}
+                    <div className="font-mono text-gray-600 break-all">stored {mismatch.stored}, computed {mismatch.computed}</div>
+                  </div>
+                ))}
+                {selectedItem.metadata.volume.integrity.mismatches.length > MAX_LISTED_MISMATCHES && (
+                  <div className="text-xs text-gray-600">
+                    and {selectedItem.metadata.volume.integrity.mismatches.length - MAX_LISTED_MISMATCHES} more
+                  </div>
+                )}
               </div>
             </div>
           </>
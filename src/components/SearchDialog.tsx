@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { ForensicSearchEngine, SearchOptions, SearchResult } from '../lib/search-engine';
 import { FileSystemItem } from '../types/forensic';
+import { occupiedSize } from '../lib/filesystem-driver';
 import { formatFileSize, formatTimestamp } from '../lib/refs-parser';
 
 interface SearchDialogProps {
@@ -60,7 +61,7 @@ export function SearchDialog({ isOpen, onClose, items, onResultSelect }: SearchD
   }, [searchEngine, searchOptions]);
 
   useEffect(() => {
-    if (searchOptions.query || searchOptions.hashSearch) {
+    if (searchOptions.query || searchOptions.hashSearch || searchOptions.hasAlternateStreams || searchOptions.ownerSid) {
       performSearch();
     } else {
       setResults([]);
@@ -197,6 +198,14 @@ export function SearchDialog({ isOpen, onClose, items, onResultSelect }: SearchD
                   />
                   <Label htmlFor="includeDeleted">Include deleted files</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="hasAlternateStreams"
+                    checked={searchOptions.hasAlternateStreams ?? false}
+                    onCheckedChange={(checked) => updateSearchOption('hasAlternateStreams', !!checked)}
+                  />
+                  <Label htmlFor="hasAlternateStreams">Has ADS</Label>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -208,6 +217,16 @@ export function SearchDialog({ isOpen, onClose, items, onResultSelect }: SearchD
                   className="font-mono text-sm"
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <Input
+                  placeholder="Owner SID (S-1-5-21-...) or account name..."
+                  value={searchOptions.ownerSid ?? ''}
+                  onChange={(e) => updateSearchOption('ownerSid', e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
             </div>
 
             <div className="flex-1 overflow-auto border rounded-lg">
@@ -255,7 +274,7 @@ export function SearchDialog({ isOpen, onClose, items, onResultSelect }: SearchD
                     </div>
                   ))}
                 </div>
-              ) : searchOptions.query || searchOptions.hashSearch ? (
+              ) : searchOptions.query || searchOptions.hashSearch || searchOptions.hasAlternateStreams || searchOptions.ownerSid ? (
                 <div className="flex items-center justify-center h-32">
                   <div className="text-sm text-gray-500">No results found</div>
                 </div>
@@ -393,7 +412,10 @@ export function SearchDialog({ isOpen, onClose, items, onResultSelect }: SearchD
                             }}
                           >
                             <div className="truncate">{file.name}</div>
-                            <div className="text-gray-500">{formatFileSize(file.size)}</div>
+                            <div className="text-gray-500">
+                              {formatFileSize(occupiedSize(file))}
+                              {occupiedSize(file) < file.size && ` of ${formatFileSize(file.size)} (rest shared)`}
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -1,12 +1,15 @@
 import React from 'react';
 import { Progress } from '@/components/ui/progress';
-import { ParsingProgress } from '../types/forensic';
+import { X } from 'lucide-react';
+import { AnalysisMode, ParsingProgress } from '../types/forensic';
 
 interface StatusBarProps {
   parsingProgress: ParsingProgress | null;
+  analysisMode: AnalysisMode;
+  onCancel?: () => void;
 }
 
-export const StatusBar: React.FC<StatusBarProps> = ({ parsingProgress }) => {
+export const StatusBar: React.FC<StatusBarProps> = ({ parsingProgress, analysisMode, onCancel }) => {
   return (
     <div className="h-6 bg-gray-200 border-t border-gray-300 flex items-center px-3 text-xs text-gray-700">
       <div className="flex items-center space-x-4 flex-1">
@@ -27,6 +30,16 @@ export const StatusBar: React.FC<StatusBarProps> = ({ parsingProgress }) => {
                 ({parsingProgress.processedFiles}/{parsingProgress.totalFiles} files)
               </span>
             )}
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="flex items-center px-1.5 rounded border border-gray-400 hover:bg-gray-300"
+                title="Stop parsing; evidence already loaded is kept"
+              >
+                <X className="h-3 w-3 mr-0.5" />
+                Cancel
+              </button>
+            )}
           </>
         ) : (
           <>
@@ -34,7 +47,11 @@ export const StatusBar: React.FC<StatusBarProps> = ({ parsingProgress }) => {
             <span className="text-gray-500">|</span>
             <span>ReFS Disk Image Explorer v1.0</span>
             <span className="text-gray-500">|</span>
-            <span>Read-only forensic analysis mode</span>
+            {analysisMode === 'demo' ? (
+              <span className="font-semibold text-amber-700">Demo mode: unrecognized images load simulated data</span>
+            ) : (
+              <span>Read-only forensic analysis mode</span>
+            )}
           </>
         )}
       </div>
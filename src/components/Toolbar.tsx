@@ -9,24 +9,47 @@ import {
   RefreshCw, 
   FileText, 
   Shield,
-  HardDrive
+  HardDrive,
+  FlaskConical
 } from 'lucide-react';
+import { AnalysisMode } from '../types/forensic';
+import { cn } from '@/lib/utils';
+
+/** EWF segment extensions (.E01 to .E99), all selectable at once for segmented images. */
+const EWF_SEGMENT_EXTENSIONS = Array.from({ length: 99 }, (_, i) => `.e${String(i + 1).padStart(2, '0')}`);
+
+/** Split raw segment extensions: numbered (.000 to .999) and split(1)'s letter suffixes (.aa to .zz). */
+const SPLIT_RAW_EXTENSIONS = [
+  ...Array.from({ length: 1000 }, (_, i) => `.${String(i).padStart(3, '0')}`),
+  ...Array.from({ length: 26 * 26 }, (_, i) => `.${String.fromCharCode(97 + Math.floor(i / 26), 97 + (i % 26))}`)
+];
 
 interface ToolbarProps {
-  onAddEvidence: (file: File) => void;
+  onAddEvidence: (files: File[]) => void;
   onSearch: () => void;
   onExport: () => void;
   onVerifyIntegrity: () => void;
+  analysisMode: AnalysisMode;
+  onAnalysisModeChange: (mode: AnalysisMode) => void;
 }
 
-export const Toolbar: React.FC<ToolbarProps> = ({ onAddEvidence, onSearch, onExport, onVerifyIntegrity }) => {
+export const Toolbar: React.FC<ToolbarProps> = ({
+  onAddEvidence,
+  onSearch,
+  onExport,
+  onVerifyIntegrity,
+  analysisMode,
+  onAnalysisModeChange
+}) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onAddEvidence(file);
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onAddEvidence(files);
     }
+    // Allow the same files to be selected again
+    event.target.value = '';
   };
 
   const handleAddEvidenceClick = () => {
@@ -50,7 +73,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({ onAddEvidence, onSearch, onExp
               </Button>
             </TooltipTrigger>
             <TooltipContent>
-              <p>Add Evidence Item (Ctrl+E)</p>
+              <p>Add Evidence Item (Ctrl+E). Select all segments of a segmented or split raw image, a VMDK descriptor with its extents, or a differencing disk together with its parents.</p>
             </TooltipContent>
           </Tooltip>
 
@@ -119,13 +142,44 @@ export const Toolbar: React.FC<ToolbarProps> = ({ onAddEvidence, onSearch, onExp
               <p>Verify Evidence Integrity</p>
             </TooltipContent>
           </Tooltip>
+
+          <div className="flex-1" />
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn(
+                  "h-8 px-2",
+                  analysisMode === 'demo' && "bg-amber-100 text-amber-800 hover:bg-amber-200"
+                )}
+                onClick={() => onAnalysisModeChange(analysisMode === 'demo' ? 'forensic' : 'demo')}
+              >
+                {analysisMode === 'demo' ? (
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                ) : (
+                  <Shield className="h-4 w-4 mr-1" />
+                )}
+                {analysisMode === 'demo' ? 'Demo Mode' : 'Forensic Mode'}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>
+                {analysisMode === 'demo'
+                  ? 'Unrecognized images load a simulated file system. Click for forensic mode.'
+                  : 'Unrecognized images are rejected with a validation report. Click for demo mode.'}
+              </p>
+            </TooltipContent>
+          </Tooltip>
         </div>
       </TooltipProvider>
 
       <input
         ref={fileInputRef}
         type="file"
-        accept=".raw,.img,.vdi,.e01,.dd"
+        accept={['.raw', '.img', '.vdi', '.dd', '.vhd', '.vhdx', '.avhd', '.avhdx', '.vmdk', '.qcow2', '.qcow', ...EWF_SEGMENT_EXTENSIONS, ...SPLIT_RAW_EXTENSIONS].join(',')}
+        multiple
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -0,0 +1,184 @@
+// Random-access byte sources for evidence images. Parsers read through a
+// BlockDevice instead of holding the image in memory, so a multi-terabyte
+// image costs no more than the page cache in front of it.
+
+export interface BlockDevice {
+  /** Size of the device in bytes. */
+  readonly size: number;
+  /**
+   * Reads `length` bytes at `offset`. Offsets may be given as bigint when
+   * they come from 64-bit on-disk fields; reads outside the device throw a
+   * RangeError.
+   */
+  read(offset: number | bigint, length: number): Promise<Uint8Array>;
+}
+
+export interface BlobBlockDeviceOptions {
+  /** Bytes per cache page; reads are aligned to and fetched in whole pages. */
+  pageSize?: number;
+  /** Pages kept in the LRU cache. */
+  cachePages?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 64 * 1024;
+const DEFAULT_CACHE_PAGES = 512;
+const CACHE_BYPASS_PAGES = 16;
+
+/**
+ * Converts an offset to a safe integer, rejecting values that cannot lie
+ * within any device rather than silently losing precision.
+ */
+export function toDeviceOffset(offset: number | bigint, device: BlockDevice, length: number): number {
+  if (typeof offset === 'bigint') {
+    if (offset < 0n || offset + BigInt(length) > BigInt(device.size)) {
+      throw new RangeError(`read of ${length} bytes at 0x${offset.toString(16)} lies outside the device`);
+    }
+    return Number(offset);
+  }
+
+  if (!Number.isSafeInteger(offset) || offset < 0 || offset + length > device.size) {
+    throw new RangeError(`read of ${length} bytes at 0x${offset.toString(16)} lies outside the device`);
+  }
+  return offset;
+}
+
+/** Reads a range as a DataView, or returns null when it lies outside the device. */
+export async function readView(device: BlockDevice, offset: number | bigint, length: number): Promise<DataView | null> {
+  try {
+    const bytes = await device.read(offset, length);
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  } catch (error) {
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+}
+
+/** A device backed by a Blob (usually the evidence File), read with Blob.slice. */
+export class BlobBlockDevice implements BlockDevice {
+  readonly size: number;
+  readonly blob: Blob;
+  private pageSize: number;
+  private cachePages: number;
+  // Map iteration order doubles as LRU order: hits are re-inserted at the end
+  private cache: Map<number, Promise<Uint8Array>> = new Map();
+
+  constructor(blob: Blob, options: BlobBlockDeviceOptions = {}) {
+    this.blob = blob;
+    this.size = blob.size;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    this.cachePages = options.cachePages ?? DEFAULT_CACHE_PAGES;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    if (length === 0) return new Uint8Array(0);
+
+    const end = start + length;
+    const firstPage = Math.floor(start / this.pageSize);
+    const lastPage = Math.floor((end - 1) / this.pageSize);
+
+    // Bulk reads (file content) bypass the cache so they do not evict metadata pages
+    if (lastPage - firstPage + 1 > CACHE_BYPASS_PAGES) {
+      return new Uint8Array(await this.blob.slice(start, end).arrayBuffer());
+    }
+
+    if (firstPage === lastPage) {
+      const page = await this.getPage(firstPage);
+      const pageStart = firstPage * this.pageSize;
+      return page.subarray(start - pageStart, end - pageStart);
+    }
+
+    const result = new Uint8Array(length);
+    for (let index = firstPage; index <= lastPage; index++) {
+      const page = await this.getPage(index);
+      const pageStart = index * this.pageSize;
+      const from = Math.max(start, pageStart);
+      const to = Math.min(end, pageStart + page.length);
+      result.set(page.subarray(from - pageStart, to - pageStart), from - start);
+    }
+    return result;
+  }
+
+  private getPage(index: number): Promise<Uint8Array> {
+    const cached = this.cache.get(index);
+    if (cached) {
+      this.cache.delete(index);
+      this.cache.set(index, cached);
+      return cached;
+    }
+
+    const start = index * this.pageSize;
+    const page = this.blob.slice(start, Math.min(start + this.pageSize, this.size))
+      .arrayBuffer()
+      .then(buffer => new Uint8Array(buffer));
+    page.catch(() => this.cache.delete(index));
+
+    this.cache.set(index, page);
+    if (this.cache.size > this.cachePages) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return page;
+  }
+}
+
+/** A window onto part of another device, such as one partition of a disk. */
+export class SliceBlockDevice implements BlockDevice {
+  readonly size: number;
+  readonly offset: number;
+  private parent: BlockDevice;
+
+  constructor(parent: BlockDevice, offset: number, size: number) {
+    this.parent = parent;
+    this.offset = offset;
+    // Partitions may claim more than a truncated image holds
+    this.size = Math.max(0, Math.min(size, parent.size - offset));
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    return this.parent.read(this.offset + start, length);
+  }
+}
+
+/** Devices laid end to end, such as the segments of a split raw image. */
+export class ConcatBlockDevice implements BlockDevice {
+  readonly size: number;
+  private parts: BlockDevice[];
+  private starts: number[] = [];
+
+  constructor(parts: BlockDevice[]) {
+    this.parts = parts;
+    let size = 0;
+    for (const part of parts) {
+      this.starts.push(size);
+      size += part.size;
+    }
+    this.size = size;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    const end = start + length;
+    const result = new Uint8Array(length);
+
+    // Last part starting at or before the offset
+    let low = 0;
+    let high = this.parts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.starts[middle] <= start) low = middle;
+      else high = middle - 1;
+    }
+
+    let position = start;
+    for (let i = low; position < end; i++) {
+      const partStart = this.starts[i];
+      const runEnd = Math.min(end, partStart + this.parts[i].size);
+      if (runEnd > position) {
+        result.set(await this.parts[i].read(position - partStart, runEnd - position), position - start);
+        position = runEnd;
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,43 @@
+// Little-endian field readers shared by the on-disk structure decoders.
+
+export function readAscii(view: DataView, offset: number, length: number): string {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+  return new TextDecoder('ascii').decode(bytes);
+}
+
+export function readUtf16(view: DataView, offset: number, byteLength: number): string {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, byteLength);
+  return new TextDecoder('utf-16le').decode(bytes);
+}
+
+export function readUint64(view: DataView, offset: number): number {
+  // Exact up to 2^53, which covers every cluster number and size we address
+  return Number(view.getBigUint64(offset, true));
+}
+
+export function readGuid(view: DataView, offset: number): string {
+  const hex = (value: number, digits: number) => value.toString(16).padStart(digits, '0');
+  const data4 = Array.from(new Uint8Array(view.buffer, view.byteOffset + offset + 8, 8))
+    .map(b => hex(b, 2))
+    .join('');
+
+  // GUIDs store their first three groups little-endian
+  return [
+    hex(view.getUint32(offset, true), 8),
+    hex(view.getUint16(offset + 4, true), 4),
+    hex(view.getUint16(offset + 6, true), 4),
+    data4.slice(0, 4),
+    data4.slice(4)
+  ].join('-');
+}
+
+export function readFileTime(view: DataView, offset: number): Date {
+  const filetime = view.getBigUint64(offset, true);
+  // Convert Windows FILETIME (100ns ticks since 1601) to JavaScript Date
+  const unixTime = Number(filetime) / 10000 - 11644473600000;
+  return new Date(unixTime);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
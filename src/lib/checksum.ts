@@ -0,0 +1,122 @@
+// Checksum algorithms used by ReFS page references and integrity streams,
+// by GPT partition table headers and by EWF section descriptors.
+
+export const CHECKSUM_TYPE_NONE = 0;
+export const CHECKSUM_TYPE_CRC32C = 1;
+export const CHECKSUM_TYPE_CRC64 = 2;
+
+let crc32Table: Uint32Array | null = null;
+let crc32cTable: Uint32Array | null = null;
+let crc64Table: BigUint64Array | null = null;
+
+function getCrc32Table(): Uint32Array {
+  if (crc32Table) return crc32Table;
+
+  crc32Table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? (c >>> 1) ^ 0xEDB88320 : c >>> 1;
+    }
+    crc32Table[n] = c >>> 0;
+  }
+  return crc32Table;
+}
+
+function getCrc32cTable(): Uint32Array {
+  if (crc32cTable) return crc32cTable;
+
+  crc32cTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? (c >>> 1) ^ 0x82F63B78 : c >>> 1;
+    }
+    crc32cTable[n] = c >>> 0;
+  }
+  return crc32cTable;
+}
+
+function getCrc64Table(): BigUint64Array {
+  if (crc64Table) return crc64Table;
+
+  // Reflected form of the polynomial ReFS uses for its 64-bit checksums
+  const polynomial = 0x9A6C9329AC4BC9B5n;
+  crc64Table = new BigUint64Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = BigInt(n);
+    for (let k = 0; k < 8; k++) {
+      c = c & 1n ? (c >> 1n) ^ polynomial : c >> 1n;
+    }
+    crc64Table[n] = c;
+  }
+  return crc64Table;
+}
+
+/** The IEEE 802.3 CRC-32 (as used by GPT, zip and PNG). */
+export function crc32(data: Uint8Array, previous: number = 0): number {
+  const table = getCrc32Table();
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+/** Adler-32 as used by zlib and EWF; EWF seeds it with 1 like zlib does. */
+export function adler32(data: Uint8Array, previous: number = 1): number {
+  let a = previous & 0xFFFF;
+  let b = previous >>> 16;
+  // 5552 is the largest run that cannot overflow before the modulo
+  for (let i = 0; i < data.length; i += 5552) {
+    const end = Math.min(i + 5552, data.length);
+    for (let j = i; j < end; j++) {
+      a += data[j];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+export function crc32c(data: Uint8Array, previous: number = 0): number {
+  const table = getCrc32cTable();
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+export function crc64(data: Uint8Array, previous: bigint = 0n): bigint {
+  const table = getCrc64Table();
+  const mask = 0xFFFFFFFFFFFFFFFFn;
+  let crc = ~previous & mask;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[Number((crc ^ BigInt(data[i])) & 0xFFn)] ^ (crc >> 8n);
+  }
+  return ~crc & mask;
+}
+
+/**
+ * Computes a checksum of the given type and returns it hex-encoded in on-disk
+ * (little-endian) byte order, so it compares directly with stored values.
+ * Returns null for checksum types we don't know.
+ */
+export function computeChecksum(type: number, data: Uint8Array): string | null {
+  switch (type) {
+    case CHECKSUM_TYPE_CRC32C: {
+      const bytes = new Uint8Array(4);
+      new DataView(bytes.buffer).setUint32(0, crc32c(data), true);
+      return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    }
+    case CHECKSUM_TYPE_CRC64: {
+      const bytes = new Uint8Array(8);
+      new DataView(bytes.buffer).setBigUint64(0, crc64(data), true);
+      return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,295 @@
+// Decompression for the container formats and file systems. Chunks whose
+// compressed size is exact (EWF, VMDK) go through the browser's native
+// Compression Streams API. That API rejects input with bytes after the end
+// of the compressed stream, which QCOW2 clusters always have (their size is
+// only stored to the sector), so those are decoded by the DEFLATE (RFC 1951)
+// decoder below, which simply stops at the final block. NTFS compresses
+// files with LZNT1, which no browser API offers.
+
+/** Decompresses a zlib ('deflate') or raw DEFLATE ('deflate-raw') stream of exact length. */
+export async function inflate(data: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate'): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const MAX_BITS = 15;
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** A canonical Huffman code as symbol counts per code length and symbols in code order. */
+interface HuffmanCode {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+let fixedCodes: { literals: HuffmanCode; distances: HuffmanCode } | null = null;
+
+function buildHuffmanCode(lengths: ArrayLike<number>): HuffmanCode {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+function getFixedCodes(): { literals: HuffmanCode; distances: HuffmanCode } {
+  if (fixedCodes) return fixedCodes;
+
+  const literalLengths = new Uint8Array(288);
+  literalLengths.fill(8, 0, 144);
+  literalLengths.fill(9, 144, 256);
+  literalLengths.fill(7, 256, 280);
+  literalLengths.fill(8, 280, 288);
+  fixedCodes = {
+    literals: buildHuffmanCode(literalLengths),
+    distances: buildHuffmanCode(new Uint8Array(30).fill(5))
+  };
+  return fixedCodes;
+}
+
+class BitReader {
+  position = 0;
+  private data: Uint8Array;
+  private buffer = 0;
+  private count = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  bits(count: number): number {
+    while (this.count < count) {
+      if (this.position >= this.data.length) {
+        throw new Error('compressed data ends early');
+      }
+      this.buffer |= this.data[this.position++] << this.count;
+      this.count += 8;
+    }
+    const value = this.buffer & ((1 << count) - 1);
+    this.buffer >>>= count;
+    this.count -= count;
+    return value;
+  }
+
+  /** Drops the bits left in the current byte (fewer than 8 are ever buffered). */
+  alignToByte(): void {
+    this.buffer = 0;
+    this.count = 0;
+  }
+
+  decode(code: HuffmanCode): number {
+    // Huffman codes are packed most significant bit first
+    let value = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      value |= this.bits(1);
+      const count = code.counts[length];
+      if (value - count < first) return code.symbols[index + (value - first)];
+      index += count;
+      first = (first + count) << 1;
+      value <<= 1;
+    }
+    throw new Error('invalid Huffman code in compressed data');
+  }
+}
+
+class OutputBuffer {
+  length = 0;
+  bytes: Uint8Array;
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(Math.max(capacity, 1024));
+  }
+
+  reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+}
+
+/**
+ * Decodes a raw DEFLATE stream, ignoring whatever follows its final block.
+ * `sizeHint` pre-sizes the output (e.g. the cluster size).
+ */
+export function inflateRawPrefix(data: Uint8Array, sizeHint: number = data.length * 4): Uint8Array {
+  const input = new BitReader(data);
+  const output = new OutputBuffer(sizeHint);
+  let final = 0;
+
+  do {
+    final = input.bits(1);
+    const type = input.bits(2);
+
+    if (type === 0) {
+      input.alignToByte();
+      const at = input.position;
+      if (at + 4 > data.length) throw new Error('compressed data ends early');
+      const length = data[at] | (data[at + 1] << 8);
+      if ((length ^ 0xFFFF) !== (data[at + 2] | (data[at + 3] << 8))) {
+        throw new Error('stored block length is corrupt');
+      }
+      if (at + 4 + length > data.length) throw new Error('compressed data ends early');
+      output.reserve(length);
+      output.bytes.set(data.subarray(at + 4, at + 4 + length), output.length);
+      output.length += length;
+      input.position = at + 4 + length;
+    } else if (type === 1) {
+      const { literals, distances } = getFixedCodes();
+      inflateBlock(input, output, literals, distances);
+    } else if (type === 2) {
+      const { literals, distances } = readDynamicCodes(input);
+      inflateBlock(input, output, literals, distances);
+    } else {
+      throw new Error('invalid DEFLATE block type');
+    }
+  } while (!final);
+
+  return output.bytes.subarray(0, output.length);
+}
+
+function readDynamicCodes(input: BitReader): { literals: HuffmanCode; distances: HuffmanCode } {
+  const literalCount = input.bits(5) + 257;
+  const distanceCount = input.bits(5) + 1;
+  const codeLengthCount = input.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = input.bits(3);
+  }
+  const codeLengths = buildHuffmanCode(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = input.decode(codeLengths);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('repeated code length without a previous length');
+      value = lengths[i - 1];
+      repeat = 3 + input.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + input.bits(3);
+    } else {
+      repeat = 11 + input.bits(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('too many code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    literals: buildHuffmanCode(lengths.subarray(0, literalCount)),
+    distances: buildHuffmanCode(lengths.subarray(literalCount))
+  };
+}
+
+function inflateBlock(input: BitReader, output: OutputBuffer, literals: HuffmanCode, distances: HuffmanCode): void {
+  for (;;) {
+    const symbol = input.decode(literals);
+    if (symbol < 256) {
+      output.reserve(1);
+      output.bytes[output.length++] = symbol;
+      continue;
+    }
+    if (symbol === 256) return;
+
+    const lengthIndex = symbol - 257;
+    if (lengthIndex >= LENGTH_BASE.length) throw new Error('invalid length code');
+    const length = LENGTH_BASE[lengthIndex] + input.bits(LENGTH_EXTRA[lengthIndex]);
+
+    const distanceIndex = input.decode(distances);
+    if (distanceIndex >= DISTANCE_BASE.length) throw new Error('invalid distance code');
+    const distance = DISTANCE_BASE[distanceIndex] + input.bits(DISTANCE_EXTRA[distanceIndex]);
+    if (distance > output.length) throw new Error('distance reaches before the start of the output');
+
+    // Byte by byte: the source may overlap the bytes being written
+    output.reserve(length);
+    const bytes = output.bytes;
+    for (let i = 0; i < length; i++) {
+      bytes[output.length] = bytes[output.length - distance];
+      output.length++;
+    }
+  }
+}
+
+const LZNT1_CHUNK_SIZE = 4096;
+const LZNT1_CHUNK_COMPRESSED = 0x8000;
+
+/**
+ * Decompresses one NTFS compression unit (LZNT1): a series of chunks, each
+ * a 2-byte header and up to 4 KiB of either stored bytes or tokens. The
+ * output is zero-padded to `outputSize`.
+ */
+export function decompressLznt1(data: Uint8Array, outputSize: number): Uint8Array {
+  const output = new Uint8Array(outputSize);
+  let input = 0;
+  let written = 0;
+
+  while (input + 2 <= data.length && written < outputSize) {
+    const header = data[input] | (data[input + 1] << 8);
+    if (header === 0) break;
+    input += 2;
+
+    const chunkEnd = Math.min(input + (header & 0x0FFF) + 1, data.length);
+    const chunkStart = written;
+    const chunkLimit = Math.min(chunkStart + LZNT1_CHUNK_SIZE, outputSize);
+
+    if (!(header & LZNT1_CHUNK_COMPRESSED)) {
+      const count = Math.min(chunkEnd - input, chunkLimit - written);
+      output.set(data.subarray(input, input + count), written);
+      written += count;
+      input = chunkEnd;
+      continue;
+    }
+
+    while (input < chunkEnd && written < chunkLimit) {
+      const flags = data[input++];
+      for (let bit = 0; bit < 8 && input < chunkEnd && written < chunkLimit; bit++) {
+        if (!(flags & (1 << bit))) {
+          output[written++] = data[input++];
+          continue;
+        }
+        if (input + 2 > chunkEnd) throw new Error('LZNT1 back-reference is truncated');
+
+        // The split between offset and length bits moves as the chunk fills up
+        const token = data[input] | (data[input + 1] << 8);
+        input += 2;
+        let lengthBits = 12;
+        for (let position = written - chunkStart - 1; position >= 0x10; position >>= 1) lengthBits--;
+
+        const distance = (token >> lengthBits) + 1;
+        const length = (token & ((1 << lengthBits) - 1)) + 3;
+        if (distance > written - chunkStart) throw new Error('LZNT1 back-reference reaches before its chunk');
+        for (let i = 0; i < length && written < chunkLimit; i++) {
+          output[written] = output[written - distance];
+          written++;
+        }
+      }
+    }
+    input = chunkEnd;
+  }
+
+  return output;
+}
@@ -0,0 +1,69 @@
+// A content plan describes where a file's bytes live in an image without
+// reading them, so the reading can happen elsewhere (e.g. in a worker that
+// only holds the image Blob). Segments are laid out back to back.
+
+export type ContentSegment =
+  | { kind: 'image'; offset: number; length: number }
+  | { kind: 'zero'; length: number }
+  | { kind: 'bytes'; data: Uint8Array };
+
+/** Reads a range of the image the plan's offsets refer to. */
+export type PlanReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+/** Largest slice read from the image at once. */
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export function readerForBlob(blob: Blob): PlanReader {
+  return async (offset, length) => {
+    if (offset + length > blob.size) {
+      throw new Error(`content at 0x${offset.toString(16)} lies beyond the end of the image`);
+    }
+    return new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+  };
+}
+
+export function planLength(plan: ContentSegment[]): number {
+  return plan.reduce((total, segment) => total + (segment.kind === 'bytes' ? segment.data.length : segment.length), 0);
+}
+
+/** Appends a segment, merging it into the previous one when they are contiguous. */
+export function pushSegment(plan: ContentSegment[], segment: ContentSegment): void {
+  const last = plan[plan.length - 1];
+  if (last?.kind === 'image' && segment.kind === 'image' && last.offset + last.length === segment.offset) {
+    last.length += segment.length;
+  } else if (last?.kind === 'zero' && segment.kind === 'zero') {
+    last.length += segment.length;
+  } else {
+    plan.push(segment);
+  }
+}
+
+/**
+ * Streams the bytes of a plan in order, reading image ranges in bounded
+ * chunks so memory use does not grow with the file size.
+ */
+export async function streamPlan(
+  read: PlanReader,
+  plan: ContentSegment[],
+  onChunk: (chunk: Uint8Array) => void
+): Promise<void> {
+  for (const segment of plan) {
+    switch (segment.kind) {
+      case 'bytes':
+        onChunk(segment.data);
+        break;
+      case 'zero': {
+        const zeros = new Uint8Array(Math.min(READ_CHUNK_SIZE, segment.length));
+        for (let done = 0; done < segment.length; done += READ_CHUNK_SIZE) {
+          onChunk(zeros.subarray(0, Math.min(READ_CHUNK_SIZE, segment.length - done)));
+        }
+        break;
+      }
+      case 'image':
+        for (let done = 0; done < segment.length; done += READ_CHUNK_SIZE) {
+          onChunk(await read(segment.offset + done, Math.min(READ_CHUNK_SIZE, segment.length - done)));
+        }
+        break;
+    }
+  }
+}
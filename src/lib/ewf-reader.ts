@@ -0,0 +1,427 @@
+import { readAscii, readUint64, toHex } from './byte-reader';
+import { toDeviceOffset } from './block-device';
+import type { BlockDevice } from './block-device';
+import { adler32 } from './checksum';
+import { inflate } from './compression';
+import { MultiHasher } from './hash-engine';
+import type { ValidationFinding } from './validation-report';
+import type { AcquisitionHash, AcquisitionInfo } from '../types/forensic';
+
+// Expert Witness Format (EnCase .E01/.E02…) images. Each segment file is a
+// chain of sections: header/header2 carry zlib-compressed case metadata,
+// volume/disk the media geometry, sectors the chunk data, table the offsets
+// of the chunks (top bit set when the chunk is zlib-compressed) and
+// hash/digest the acquisition hashes. The media is the concatenation of all
+// chunks across the segments in order.
+
+const EWF_SIGNATURE = [0x45, 0x56, 0x46, 0x09, 0x0D, 0x0A, 0xFF, 0x00];
+const EWF2_SIGNATURE = [0x45, 0x56, 0x46, 0x32, 0x0D, 0x0A, 0x81, 0x00];
+const FILE_HEADER_SIZE = 13;
+const SECTION_DESCRIPTOR_SIZE = 76;
+const TABLE_HEADER_SIZE = 24;
+const SMART_VOLUME_SIZE = 94;
+const CHUNK_COMPRESSED = 0x80000000;
+const CHUNK_OFFSET_MASK = 0x7FFFFFFF;
+const DEFAULT_CACHE_CHUNKS = 64;
+
+interface EwfSection {
+  type: string;
+  /** Offset of the section descriptor in the segment file. */
+  offset: number;
+  /** Size of the section including its descriptor. */
+  size: number;
+}
+
+interface EwfSegment {
+  file: Blob;
+  number: number;
+  sections: EwfSection[];
+}
+
+interface EwfHeaderValues {
+  [key: string]: string;
+}
+
+/** Returns true when the blob starts with an EWF segment signature. */
+export async function isEwfSegment(blob: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  return EWF_SIGNATURE.every((byte, i) => bytes[i] === byte) || EWF2_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+async function readBytes(file: Blob, offset: number, length: number): Promise<Uint8Array> {
+  if (offset + length > file.size) {
+    throw new Error(`read of ${length} bytes at 0x${offset.toString(16)} lies beyond the end of the segment`);
+  }
+  return new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * An EWF segment set opened as one block device. Chunks are decompressed on
+ * demand and kept in a small LRU cache, so only the table of chunk offsets
+ * is held in memory.
+ */
+export class EwfImage implements BlockDevice {
+  readonly size: number;
+  readonly chunkSize: number;
+  readonly findings: ValidationFinding[] = [];
+  private segments: EwfSegment[];
+  private chunkCount: number;
+  // One slot per chunk: which segment holds it, where, and how it is stored
+  private chunkSegment: Uint16Array;
+  private chunkOffset: Float64Array;
+  private chunkStoredSize: Uint32Array;
+  private chunkCompressed: Uint8Array;
+  private chunksMapped = 0;
+  private header: EwfHeaderValues = {};
+  private hashes: AcquisitionHash[] = [];
+  private cache: Map<number, Promise<Uint8Array>> = new Map();
+
+  private constructor(segments: EwfSegment[], chunkCount: number, chunkSize: number, size: number) {
+    this.segments = segments;
+    this.chunkCount = chunkCount;
+    this.chunkSize = chunkSize;
+    this.size = size;
+    this.chunkSegment = new Uint16Array(chunkCount);
+    this.chunkOffset = new Float64Array(chunkCount);
+    this.chunkStoredSize = new Uint32Array(chunkCount);
+    this.chunkCompressed = new Uint8Array(chunkCount);
+  }
+
+  /** Opens a segment set. The files may be given in any order; all segments must be present. */
+  static async open(files: Blob[]): Promise<EwfImage> {
+    const segments: EwfSegment[] = [];
+    for (const file of files) {
+      const header = await readBytes(file, 0, FILE_HEADER_SIZE);
+      if (EWF2_SIGNATURE.every((byte, i) => header[i] === byte)) {
+        throw new Error('EWF2 (Ex01) images are not supported');
+      }
+      if (!EWF_SIGNATURE.every((byte, i) => header[i] === byte)) {
+        throw new Error(`${file instanceof File ? file.name : 'segment'} is not an EWF segment`);
+      }
+      segments.push({ file, number: toView(header).getUint16(9, true), sections: [] });
+    }
+
+    segments.sort((a, b) => a.number - b.number);
+    segments.forEach((segment, i) => {
+      if (segment.number !== i + 1) {
+        throw new Error(`segment ${i + 1} of the EWF set is missing`);
+      }
+    });
+
+    const findings: ValidationFinding[] = [];
+    for (const segment of segments) {
+      segment.sections = await EwfImage.readSections(segment, findings);
+    }
+
+    const last = segments[segments.length - 1];
+    if (last.sections[last.sections.length - 1]?.type !== 'done') {
+      throw new Error(`the EWF set ends at segment ${last.number} without a "done" section; later segments are missing`);
+    }
+
+    const geometry = await EwfImage.readGeometry(segments);
+    const image = new EwfImage(segments, geometry.chunkCount, geometry.chunkSize, geometry.size);
+    image.findings.push(...findings);
+    await image.readTables();
+    await image.readHeader();
+    await image.readHashes();
+    return image;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    if (length === 0) return new Uint8Array(0);
+
+    const end = start + length;
+    const firstChunk = Math.floor(start / this.chunkSize);
+    const lastChunk = Math.floor((end - 1) / this.chunkSize);
+
+    if (firstChunk === lastChunk) {
+      const chunk = await this.getChunk(firstChunk);
+      const chunkStart = firstChunk * this.chunkSize;
+      return chunk.subarray(start - chunkStart, end - chunkStart);
+    }
+
+    const result = new Uint8Array(length);
+    for (let index = firstChunk; index <= lastChunk; index++) {
+      const chunk = await this.getChunk(index);
+      const chunkStart = index * this.chunkSize;
+      const from = Math.max(start, chunkStart);
+      const to = Math.min(end, chunkStart + chunk.length);
+      result.set(chunk.subarray(from - chunkStart, to - chunkStart), from - start);
+    }
+    return result;
+  }
+
+  /** Name of the first segment file, which names the set. */
+  get fileName(): string {
+    const file = this.segments[0].file;
+    return file instanceof File ? file.name : 'image.E01';
+  }
+
+  getAcquisitionInfo(): AcquisitionInfo {
+    const header = this.header;
+    return {
+      caseNumber: header.c || undefined,
+      evidenceNumber: header.n || undefined,
+      description: header.a || undefined,
+      examiner: header.e || undefined,
+      notes: header.t || undefined,
+      acquiredAt: parseHeaderDate(header.m),
+      systemDate: parseHeaderDate(header.u),
+      software: header.av || undefined,
+      operatingSystem: header.ov || undefined,
+      segmentCount: this.segments.length,
+      chunkSize: this.chunkSize,
+      hashes: this.hashes.map(hash => ({ ...hash }))
+    };
+  }
+
+  /**
+   * Hashes the whole media and compares it with the hashes recorded at
+   * acquisition. Chunks are read past the cache so verification does not
+   * evict the pages the parser uses.
+   */
+  async verifyAcquisitionHashes(onProgress?: (processed: number, total: number) => void): Promise<AcquisitionHash[]> {
+    if (this.hashes.length === 0) return [];
+
+    const hasher = new MultiHasher(this.hashes.map(hash => hash.algorithm));
+    for (let index = 0; index < this.chunkCount; index++) {
+      hasher.update(await this.loadChunk(index));
+      if (index % 256 === 0) onProgress?.(index * this.chunkSize, this.size);
+    }
+
+    const digests = hasher.digest();
+    for (const hash of this.hashes) {
+      hash.computed = digests[hash.algorithm];
+      hash.verified = hash.computed === hash.stored;
+    }
+    return this.hashes.map(hash => ({ ...hash }));
+  }
+
+  private static async readSections(segment: EwfSegment, findings: ValidationFinding[]): Promise<EwfSection[]> {
+    const sections: EwfSection[] = [];
+    let offset = FILE_HEADER_SIZE;
+
+    while (offset + SECTION_DESCRIPTOR_SIZE <= segment.file.size) {
+      const descriptor = await readBytes(segment.file, offset, SECTION_DESCRIPTOR_SIZE);
+      const view = toView(descriptor);
+      const type = readAscii(view, 0, 16).replace(/\0.*$/s, '');
+      const next = readUint64(view, 16);
+      const size = readUint64(view, 24);
+
+      if (adler32(descriptor.subarray(0, 72)) !== view.getUint32(72, true)) {
+        findings.push({
+          check: `EWF segment ${segment.number}`,
+          severity: 'warning',
+          offset,
+          message: `checksum of the "${type}" section descriptor does not match`
+        });
+      }
+
+      sections.push({ type, offset, size });
+      // "done" and "next" point at themselves
+      if (type === 'done' || type === 'next' || next <= offset) break;
+      offset = next;
+    }
+    return sections;
+  }
+
+  private static async readGeometry(segments: EwfSegment[]): Promise<{ chunkCount: number; chunkSize: number; size: number }> {
+    for (const segment of segments) {
+      const section = segment.sections.find(candidate => candidate.type === 'volume' || candidate.type === 'disk');
+      if (!section) continue;
+
+      const dataSize = section.size - SECTION_DESCRIPTOR_SIZE;
+      const data = toView(await readBytes(segment.file, section.offset + SECTION_DESCRIPTOR_SIZE, Math.min(dataSize, 24)));
+      const chunkCount = data.getUint32(4, true);
+      const sectorsPerChunk = data.getUint32(8, true);
+      const bytesPerSector = data.getUint32(12, true);
+      // The SMART-era volume section only has room for a 32-bit sector count
+      const sectorCount = dataSize === SMART_VOLUME_SIZE ? data.getUint32(16, true) : readUint64(data, 16);
+
+      const chunkSize = sectorsPerChunk * bytesPerSector;
+      if (chunkSize === 0 || chunkCount === 0) {
+        throw new Error('the EWF volume section describes empty media');
+      }
+      return { chunkCount, chunkSize, size: Math.min(sectorCount * bytesPerSector, chunkCount * chunkSize) };
+    }
+    throw new Error('the EWF set has no volume section');
+  }
+
+  /** Fills the chunk index from the table sections, falling back to table2 when a table is damaged. */
+  private async readTables(): Promise<void> {
+    for (let s = 0; s < this.segments.length; s++) {
+      const segment = this.segments[s];
+      let previousFailed = false;
+
+      for (const section of segment.sections) {
+        if (section.type === 'table') {
+          previousFailed = !(await this.readTable(s, section, false));
+        } else if (section.type === 'table2' && previousFailed) {
+          previousFailed = !(await this.readTable(s, section, true));
+        }
+      }
+    }
+
+    if (this.chunksMapped < this.chunkCount) {
+      throw new Error(`the EWF tables map ${this.chunksMapped} of ${this.chunkCount} chunks`);
+    }
+  }
+
+  private async readTable(segmentIndex: number, section: EwfSection, isMirror: boolean): Promise<boolean> {
+    const segment = this.segments[segmentIndex];
+    const dataOffset = section.offset + SECTION_DESCRIPTOR_SIZE;
+    const head = await readBytes(segment.file, dataOffset, TABLE_HEADER_SIZE);
+    const view = toView(head);
+
+    if (adler32(head.subarray(0, 20)) !== view.getUint32(20, true)) {
+      this.findings.push({
+        check: `EWF segment ${segment.number}`,
+        severity: isMirror ? 'error' : 'warning',
+        offset: section.offset,
+        message: `${section.type} section header checksum does not match` + (isMirror ? '' : '; trying table2')
+      });
+      return false;
+    }
+
+    const entryCount = view.getUint32(0, true);
+    const baseOffset = readUint64(view, 8);
+    const entries = toView(await readBytes(segment.file, dataOffset + TABLE_HEADER_SIZE, entryCount * 4));
+
+    for (let i = 0; i < entryCount && this.chunksMapped < this.chunkCount; i++) {
+      const entry = entries.getUint32(i * 4, true);
+      const offset = baseOffset + (entry & CHUNK_OFFSET_MASK);
+      const nextOffset = i + 1 < entryCount
+        ? baseOffset + (entries.getUint32((i + 1) * 4, true) & CHUNK_OFFSET_MASK)
+        : this.sectionEndContaining(segment, offset);
+
+      const index = this.chunksMapped++;
+      this.chunkSegment[index] = segmentIndex;
+      this.chunkOffset[index] = offset;
+      this.chunkStoredSize[index] = Math.max(0, nextOffset - offset);
+      this.chunkCompressed[index] = entry & CHUNK_COMPRESSED ? 1 : 0;
+    }
+    return true;
+  }
+
+  /** End of the section holding `offset`, which bounds the last chunk of a table. */
+  private sectionEndContaining(segment: EwfSegment, offset: number): number {
+    const section = segment.sections.find(candidate => offset >= candidate.offset && offset < candidate.offset + candidate.size);
+    return section ? section.offset + section.size : segment.file.size;
+  }
+
+  private async readHeader(): Promise<void> {
+    // header2 (UTF-16) holds the same values as header (ASCII) and wins when present
+    const segment = this.segments[0];
+    for (const type of ['header', 'header2']) {
+      const section = segment.sections.find(candidate => candidate.type === type);
+      if (!section) continue;
+
+      try {
+        const compressed = await readBytes(segment.file, section.offset + SECTION_DESCRIPTOR_SIZE, section.size - SECTION_DESCRIPTOR_SIZE);
+        const bytes = await inflate(compressed);
+        const text = type === 'header2' ? new TextDecoder('utf-16le').decode(bytes) : new TextDecoder('latin1').decode(bytes);
+        Object.assign(this.header, parseHeaderText(text));
+      } catch (error) {
+        this.findings.push({
+          check: `EWF ${type}`,
+          severity: 'warning',
+          offset: section.offset,
+          message: `case metadata cannot be decompressed: ${(error as Error).message}`
+        });
+      }
+    }
+  }
+
+  private async readHashes(): Promise<void> {
+    const last = this.segments[this.segments.length - 1];
+    for (const section of last.sections) {
+      const dataOffset = section.offset + SECTION_DESCRIPTOR_SIZE;
+      if (section.type === 'hash' && !this.hashes.some(hash => hash.algorithm === 'md5')) {
+        const data = await readBytes(last.file, dataOffset, 16);
+        this.hashes.push({ algorithm: 'md5', stored: toHex(data) });
+      } else if (section.type === 'digest') {
+        const data = await readBytes(last.file, dataOffset, 36);
+        // digest supersedes hash: it carries both algorithms
+        this.hashes = [
+          { algorithm: 'md5', stored: toHex(data.subarray(0, 16)) },
+          { algorithm: 'sha1', stored: toHex(data.subarray(16, 36)) }
+        ];
+      }
+    }
+    // Unset digests are stored as zeroes
+    this.hashes = this.hashes.filter(hash => /[^0]/.test(hash.stored));
+  }
+
+  private getChunk(index: number): Promise<Uint8Array> {
+    const cached = this.cache.get(index);
+    if (cached) {
+      this.cache.delete(index);
+      this.cache.set(index, cached);
+      return cached;
+    }
+
+    const chunk = this.loadChunk(index);
+    chunk.catch(() => this.cache.delete(index));
+
+    this.cache.set(index, chunk);
+    if (this.cache.size > DEFAULT_CACHE_CHUNKS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return chunk;
+  }
+
+  private async loadChunk(index: number): Promise<Uint8Array> {
+    const segment = this.segments[this.chunkSegment[index]];
+    const expected = Math.min(this.chunkSize, this.size - index * this.chunkSize);
+    const stored = await readBytes(segment.file, this.chunkOffset[index], this.chunkStoredSize[index]);
+
+    if (!this.chunkCompressed[index]) {
+      // Uncompressed chunks are followed by their Adler-32
+      if (stored.length < expected) {
+        throw new Error(`chunk ${index} is truncated (${stored.length} of ${expected} bytes)`);
+      }
+      return stored.subarray(0, expected);
+    }
+
+    let data: Uint8Array;
+    try {
+      data = await inflate(stored);
+    } catch (error) {
+      throw new Error(`chunk ${index} cannot be decompressed: ${(error as Error).message}`);
+    }
+    if (data.length < expected) {
+      throw new Error(`chunk ${index} decompresses to ${data.length} of ${expected} bytes`);
+    }
+    return data.subarray(0, expected);
+  }
+}
+
+/**
+ * Parses the tab-separated header text: a category count, then per category
+ * its name, a line of keys and a line of values. Only "main" is kept.
+ */
+function parseHeaderText(text: string): EwfHeaderValues {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const main = lines.indexOf('main');
+  if (main < 0 || main + 2 >= lines.length) return {};
+
+  const keys = lines[main + 1].split('\t');
+  const values = lines[main + 2].split('\t');
+  return Object.fromEntries(keys.map((key, i) => [key.trim(), (values[i] ?? '').trim()]));
+}
+
+/** header stores dates as "YYYY M D h m s" (local time), header2 as Unix seconds. */
+function parseHeaderDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return new Date(Number(value) * 1000);
+
+  const parts = value.split(/\s+/).map(Number);
+  if (parts.length < 6 || parts.some(Number.isNaN)) return undefined;
+  const [year, month, day, hours, minutes, seconds] = parts;
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
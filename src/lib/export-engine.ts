@@ -1,4 +1,5 @@
 import { FileSystemItem, RefsMetadata } from '../types/forensic';
+import { occupiedSize } from './filesystem-driver';
 import { formatFileSize, formatTimestamp } from './refs-parser';
 
 export interface ExportOptions {
@@ -107,7 +108,7 @@ export class ForensicExportEngine {
     }
 
     if (options.includeHashes) {
-      headers.push('MD5 Hash', 'SHA1 Hash');
+      headers.push('MD5 Hash', 'SHA1 Hash', 'SHA256 Hash');
     }
 
     // Build CSV content
@@ -140,7 +141,8 @@ export class ForensicExportEngine {
       if (options.includeHashes) {
         row.push(
           item.metadata?.md5Hash || '',
-          item.metadata?.sha1Hash || ''
+          item.metadata?.sha1Hash || '',
+          item.metadata?.sha256Hash || ''
         );
       }
 
@@ -249,6 +251,7 @@ export class ForensicExportEngine {
             parentId: item.metadata.parentId,
             attributes: item.metadata.attributes,
             isDeleted: item.metadata.isDeleted,
+            streamName: item.metadata.streamName,
             refs: item.metadata.refs
           };
         }
@@ -256,7 +259,8 @@ export class ForensicExportEngine {
         if (options.includeHashes && item.metadata) {
           processedItem.hashes = {
             md5: item.metadata.md5Hash,
-            sha1: item.metadata.sha1Hash
+            sha1: item.metadata.sha1Hash,
+            sha256: item.metadata.sha256Hash
           };
         }
 
@@ -323,6 +327,9 @@ export class ForensicExportEngine {
       xml += `${indent}    <fileId>${item.metadata.fileId}</fileId>\n`;
       xml += `${indent}    <parentId>${item.metadata.parentId}</parentId>\n`;
       xml += `${indent}    <attributes>${item.metadata.attributes}</attributes>\n`;
+      if (item.metadata.streamName !== undefined) {
+        xml += `${indent}    <streamName><![CDATA[${item.metadata.streamName}]]></streamName>\n`;
+      }
       if (item.metadata.refs) {
         xml += `${indent}    <refs>\n`;
         xml += `${indent}      <blockNumber>${item.metadata.refs.blockNumber}</blockNumber>\n`;
@@ -341,6 +348,9 @@ export class ForensicExportEngine {
       if (item.metadata.sha1Hash) {
         xml += `${indent}    <sha1>${item.metadata.sha1Hash}</sha1>\n`;
       }
+      if (item.metadata.sha256Hash) {
+        xml += `${indent}    <sha256>${item.metadata.sha256Hash}</sha256>\n`;
+      }
       xml += `${indent}  </hashes>\n`;
     }
 
@@ -358,18 +368,28 @@ export class ForensicExportEngine {
 
   private generateStatistics(): Record<string, string> {
     const flatItems = this.flattenItems(this.items, { includeDeleted: true } as ExportOptions);
+    // Clusters block cloning shares between files are counted once
+    const clonedSize = flatItems.reduce((sum, item) => sum + (item.metadata?.refs?.clonedSize ?? 0), 0);
+    // Snapshot versions are earlier states of a file, not files of their own
+    const versions = flatItems.filter(item => item.metadata?.refs?.snapshot);
+    const files = flatItems.filter(item => item.type === 'file' && !item.metadata?.refs?.snapshot);
     
-    const stats = {
-      'Total Files': flatItems.filter(item => item.type === 'file').length.toString(),
+    const stats: Record<string, string> = {
+      'Total Files': files.length.toString(),
       'Total Directories': flatItems.filter(item => item.type === 'directory').length.toString(),
       'Deleted Items': flatItems.filter(item => item.metadata?.isDeleted).length.toString(),
-      'Total Size': formatFileSize(flatItems.reduce((sum, item) => sum + item.size, 0)),
-      'Largest File': formatFileSize(Math.max(...flatItems.map(item => item.size))),
+      'Total Size': formatFileSize(flatItems.reduce((sum, item) => sum + occupiedSize(item), 0)),
+      'Largest File': formatFileSize(Math.max(0, ...files.map(item => item.size))),
       'Average File Size': formatFileSize(
-        flatItems.filter(item => item.type === 'file').reduce((sum, item) => sum + item.size, 0) /
-        flatItems.filter(item => item.type === 'file').length || 0
+        files.reduce((sum, item) => sum + occupiedSize(item), 0) / files.length || 0
       )
     };
+    if (versions.length > 0) {
+      stats['Snapshot Versions'] = versions.length.toString();
+    }
+    if (clonedSize > 0) {
+      stats['Shared by Block Cloning'] = formatFileSize(clonedSize);
+    }
 
     return stats;
   }
@@ -444,12 +464,16 @@ export class ForensicExportEngine {
 
   // Utility method to download the export
   static downloadExport(result: ExportResult): void {
-    const blob = new Blob([result.data], { type: result.mimeType });
+    ForensicExportEngine.downloadBlob(new Blob([result.data], { type: result.mimeType }), result.filename);
+  }
+
+  // Saves raw bytes, e.g. the content of a file or stream
+  static downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
     link.href = url;
-    link.download = result.filename;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
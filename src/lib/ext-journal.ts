@@ -0,0 +1,132 @@
+// The ext3/ext4 journal (JBD2). Before metadata changes reach their place on
+// the volume, whole copies of the changed blocks are written to a circular
+// log in the journal file. Those copies outlive the change: the log is only
+// overwritten as it wraps, so it still holds earlier versions of inode table
+// and directory blocks, from which deleted files can be recovered.
+// All journal structures are big-endian.
+
+const JOURNAL_MAGIC = 0xC03B3998;
+
+const BLOCK_TYPE_DESCRIPTOR = 1;
+const BLOCK_TYPE_SUPERBLOCK_V1 = 3;
+const BLOCK_TYPE_SUPERBLOCK_V2 = 4;
+
+const JOURNAL_INCOMPAT_64BIT = 0x02;
+const JOURNAL_INCOMPAT_CSUM_V2 = 0x08;
+const JOURNAL_INCOMPAT_CSUM_V3 = 0x10;
+
+const TAG_FLAG_ESCAPE = 0x01;
+const TAG_FLAG_SAME_UUID = 0x02;
+const TAG_FLAG_LAST = 0x08;
+
+export interface JournalSuperblock {
+  blockSize: number;
+  /** Blocks in the journal, including the superblock. */
+  length: number;
+  /** First block of the log. */
+  first: number;
+  /** Sequence number of the oldest transaction still to be replayed. */
+  sequence: number;
+  /** Block where replay would start; 0 when the journal is empty (cleanly unmounted). */
+  start: number;
+  featureIncompat: number;
+}
+
+/** A copy of a volume block kept in the journal. */
+export interface JournalBlockCopy {
+  /** Block of the journal file holding the copy. */
+  journalBlock: number;
+  /** Transaction that wrote it; higher is newer. */
+  sequence: number;
+  /** The copy's first four bytes were the journal magic and were zeroed when it was logged. */
+  escaped: boolean;
+}
+
+export interface JournalIndex {
+  superblock: JournalSuperblock;
+  /** Copies of each volume block found in the log, newest first. */
+  copies: Map<number, JournalBlockCopy[]>;
+  transactions: number;
+}
+
+export function decodeJournalSuperblock(view: DataView): JournalSuperblock | null {
+  if (view.byteLength < 0x30 || view.getUint32(0) !== JOURNAL_MAGIC) return null;
+  const blockType = view.getUint32(4);
+  if (blockType !== BLOCK_TYPE_SUPERBLOCK_V1 && blockType !== BLOCK_TYPE_SUPERBLOCK_V2) return null;
+
+  return {
+    blockSize: view.getUint32(0x0C),
+    length: view.getUint32(0x10),
+    first: view.getUint32(0x14),
+    sequence: view.getUint32(0x18),
+    start: view.getUint32(0x1C),
+    featureIncompat: blockType === BLOCK_TYPE_SUPERBLOCK_V2 ? view.getUint32(0x28) : 0
+  };
+}
+
+/** Size of a descriptor block tag, which depends on the checksum and 64-bit features. */
+function tagSize(featureIncompat: number): number {
+  if (featureIncompat & JOURNAL_INCOMPAT_CSUM_V3) return 16;
+  const size = featureIncompat & JOURNAL_INCOMPAT_CSUM_V2 ? 14 : 12;
+  return featureIncompat & JOURNAL_INCOMPAT_64BIT ? size : size - 4;
+}
+
+/**
+ * Indexes every block copy in the log. The whole log area is scanned rather
+ * than only the part awaiting replay, since older transactions are what hold
+ * the earlier versions. Data blocks are told apart from descriptors by
+ * position: they follow the descriptor that lists them.
+ */
+export async function indexJournal(
+  superblock: JournalSuperblock,
+  readJournalBlock: (block: number) => Promise<DataView>
+): Promise<JournalIndex> {
+  const copies = new Map<number, JournalBlockCopy[]>();
+  const { first, length, featureIncompat } = superblock;
+  const is64Bit = (featureIncompat & JOURNAL_INCOMPAT_64BIT) !== 0;
+  const isCsumV3 = (featureIncompat & JOURNAL_INCOMPAT_CSUM_V3) !== 0;
+  const size = tagSize(featureIncompat);
+  // The log wraps from its last block back to its first
+  const wrap = (block: number) => block >= length ? first + (block - length) : block;
+  let transactions = 0;
+
+  for (let block = first; block < length;) {
+    const view = await readJournalBlock(block);
+    if (view.getUint32(0) !== JOURNAL_MAGIC || view.getUint32(4) !== BLOCK_TYPE_DESCRIPTOR) {
+      block++;
+      continue;
+    }
+
+    const sequence = view.getUint32(8);
+    transactions++;
+    let dataBlock = block + 1;
+    for (let offset = 12; offset + size <= view.byteLength;) {
+      // v3 tags put the flags in a full word after the block number
+      const flags = isCsumV3 ? view.getUint32(offset + 4) : view.getUint16(offset + 6);
+      const high = is64Bit ? view.getUint32(offset + 8) * 0x100000000 : 0;
+      const target = view.getUint32(offset) + high;
+
+      const list = copies.get(target) ?? [];
+      list.push({ journalBlock: wrap(dataBlock), sequence, escaped: (flags & TAG_FLAG_ESCAPE) !== 0 });
+      copies.set(target, list);
+      dataBlock++;
+
+      offset += size + (flags & TAG_FLAG_SAME_UUID ? 0 : 16);
+      if (flags & TAG_FLAG_LAST) break;
+    }
+    block = dataBlock;
+  }
+
+  // Sequence numbers wrap at 2^32; compare them relative to the superblock's
+  const age = (sequence: number) => (superblock.sequence - sequence) | 0;
+  for (const list of copies.values()) list.sort((a, b) => age(a.sequence) - age(b.sequence));
+  return { superblock, copies, transactions };
+}
+
+/** Restores the magic number an escaped block copy had zeroed. */
+export function unescapeJournalBlock(bytes: Uint8Array, copy: JournalBlockCopy): Uint8Array {
+  if (!copy.escaped) return bytes;
+  const restored = bytes.slice();
+  new DataView(restored.buffer).setUint32(0, JOURNAL_MAGIC);
+  return restored;
+}
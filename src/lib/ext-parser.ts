@@ -0,0 +1,668 @@
+import type { ExtMetadata, FileSystemItem, ParseProgress } from '../types/forensic';
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import type { ContentSegment } from './content-plan';
+import { decodeJournalSuperblock, indexJournal, unescapeJournalBlock } from './ext-journal';
+import type { JournalIndex } from './ext-journal';
+import {
+  EXT_JOURNAL_INODE,
+  EXT_MAGIC,
+  EXT_ROOT_INODE,
+  EXT_SUPERBLOCK_OFFSET,
+  FEATURE_COMPAT_HAS_JOURNAL,
+  FEATURE_INCOMPAT_ENCRYPT,
+  FEATURE_INCOMPAT_FILETYPE,
+  FEATURE_INCOMPAT_JOURNAL_DEV,
+  FEATURE_INCOMPAT_META_BG,
+  FEATURE_INCOMPAT_RECOVER,
+  FEATURE_RO_COMPAT_METADATA_CSUM,
+  GROUP_FLAG_INODE_UNINIT,
+  INODE_BLOCK_SIZE,
+  INODE_FLAG_EXTENTS,
+  INODE_FLAG_INDEX,
+  INODE_FLAG_INLINE_DATA,
+  MODE_DIRECTORY,
+  MODE_SYMLINK,
+  MODE_TYPE_MASK,
+  decodeDirectoryBlock,
+  decodeGroupDescriptor,
+  decodeInode,
+  decodeSuperblock,
+  findHtreeIndexBlocks,
+  formatPermissions,
+  mapExtents,
+  mapIndirectBlocks,
+  planExtRuns,
+  readExtRuns,
+  readInlineDataAttribute,
+  superblockChecksumValid
+} from './ext-structures';
+import type { ExtDirectoryEntry, ExtGroupDescriptor, ExtInode, ExtRun, ExtSuperblock } from './ext-structures';
+import { collectItems, linkFileTree, scopedItemId, scoreProbe } from './filesystem-driver';
+import type { FileSystemDriver, FileSystemDriverOptions, FileSystemVolume } from './filesystem-driver';
+import { hashFiles } from './hash-worker-client';
+import type { HashJob } from './hash-worker-client';
+import { ImageValidationError, createValidationReport } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+
+// ext2, ext3 and ext4 volumes. Directories are walked from the root inode;
+// besides their entries, the slack after each entry is carved for entries
+// that were removed. A removed entry still names its inode, which ext2
+// leaves mapped to the file's blocks. ext3 and ext4 clear the block map on
+// deletion, so for those the journal is searched for an earlier copy of the
+// inode, logged while the file still existed.
+
+/** Larger directories are read only this far. */
+const MAX_DIRECTORY_SIZE = 64 * 1024 * 1024;
+
+/** The user and group databases read to name owners are read only this far. */
+const MAX_ACCOUNT_FILE_SIZE = 1024 * 1024;
+
+export interface ExtFileRecord {
+  /** Inode number, suffixed for a second name of the same inode ("12-1"). */
+  fileId: string;
+  parentId: string;
+  name: string;
+  inodeNumber: number;
+  inode: ExtInode;
+  isDirectory: boolean;
+  isDeleted: boolean;
+  size: number;
+  runs: ExtRun[];
+  /** Content stored in the inode itself (inline data, short symlink targets). */
+  inline: Uint8Array | null;
+  symlinkTarget?: string;
+  recovery?: 'inode' | 'journal' | 'none';
+  md5Hash?: string;
+  sha1Hash?: string;
+  sha256Hash?: string;
+}
+
+/** Where a file's content lives. */
+type ExtContent = Pick<ExtFileRecord, 'runs' | 'inline'>;
+
+/** A directory waiting to be read. */
+interface PendingDirectory {
+  record: ExtFileRecord | null;
+  inode: ExtInode;
+  content: ExtContent;
+}
+
+export class ExtParser implements FileSystemVolume {
+  readonly fileSystem: ExtSuperblock['flavour'];
+  private device: BlockDevice;
+  private superblock: ExtSuperblock | null = null;
+  private groups: ExtGroupDescriptor[] = [];
+  private journal: JournalIndex | null = null;
+  private journalRuns: ExtRun[] = [];
+  private findings: ValidationFinding[] = [];
+  private files: Map<string, ExtFileRecord> = new Map();
+  /** Names given to each inode so far, for suffixing hard links. */
+  private nameCounts: Map<number, number> = new Map();
+  private users: Map<number, string> = new Map();
+  private groupNames: Map<number, string> = new Map();
+  private rootItems: FileSystemItem[] = [];
+  private items: Map<string, FileSystemItem> = new Map();
+  private unreadableFiles = 0;
+  private unreadableIndexes = 0;
+  private progressCallback?: (progress: ParseProgress) => void;
+  private options: FileSystemDriverOptions;
+
+  constructor(
+    device: BlockDevice,
+    fileSystem: ExtSuperblock['flavour'],
+    progressCallback?: (progress: ParseProgress) => void,
+    options: FileSystemDriverOptions = {}
+  ) {
+    this.device = device;
+    this.fileSystem = fileSystem;
+    this.progressCallback = progressCallback;
+    this.options = options;
+  }
+
+  async parseImage(): Promise<FileSystemItem[]> {
+    try {
+      this.updateProgress(`Reading ${this.fileSystem} superblock...`, 5);
+      await this.readSuperblock();
+
+      this.updateProgress('Reading group descriptors...', 10);
+      await this.readGroupDescriptors();
+
+      this.updateProgress('Reading journal...', 15);
+      await this.readJournal();
+
+      this.updateProgress('Reading directories...', 20);
+      await this.readDirectories();
+
+      this.updateProgress('Reading user and group names...', 68);
+      await this.readAccountNames();
+
+      this.updateProgress('Calculating hashes...', 70);
+      await this.calculateHashes();
+
+      this.updateProgress('Building file system tree...', 95);
+      this.rootItems = this.buildFileTree();
+
+      this.updateProgress('Parse complete', 100);
+      return this.rootItems;
+    } catch (error) {
+      if (error instanceof ImageValidationError) throw error;
+      throw new Error(`${this.fileSystem} parsing failed: ${(error as Error).message}`);
+    }
+  }
+
+  private async readSuperblock(): Promise<void> {
+    const check = `${this.fileSystem} superblock`;
+    const view = await readView(this.device, EXT_SUPERBLOCK_OFFSET, 1024);
+    const superblock = view && decodeSuperblock(view);
+    if (!view || !superblock || superblock.flavour !== this.fileSystem) {
+      this.findings.push({ check, severity: 'error', offset: EXT_SUPERBLOCK_OFFSET, message: `no valid ${this.fileSystem} superblock` });
+      throw new ImageValidationError(this.getValidationReport());
+    }
+    // Group descriptors spread over the volume (meta_bg) and external journal devices are not decoded
+    if (superblock.featureIncompat & (FEATURE_INCOMPAT_META_BG | FEATURE_INCOMPAT_JOURNAL_DEV)) {
+      this.findings.push({
+        check,
+        severity: 'error',
+        offset: EXT_SUPERBLOCK_OFFSET + 0x60,
+        message: superblock.featureIncompat & FEATURE_INCOMPAT_META_BG
+          ? 'the volume uses meta block groups, which are not supported'
+          : 'the volume is an external journal, not a file system'
+      });
+      throw new ImageValidationError(this.getValidationReport());
+    }
+
+    if (superblock.featureRoCompat & FEATURE_RO_COMPAT_METADATA_CSUM && !superblockChecksumValid(view)) {
+      this.findings.push({ check, severity: 'warning', offset: EXT_SUPERBLOCK_OFFSET + 0x3FC, message: 'superblock checksum mismatch' });
+    }
+    if (superblock.blockCount * superblock.blockSize > this.device.size) {
+      this.findings.push({
+        check: 'Volume size',
+        severity: 'warning',
+        offset: null,
+        message: `superblock describes ${superblock.blockCount * superblock.blockSize} bytes but the volume holds ${this.device.size} (truncated image?)`
+      });
+    }
+    if (superblock.featureIncompat & FEATURE_INCOMPAT_RECOVER) {
+      this.findings.push({
+        check,
+        severity: 'warning',
+        offset: EXT_SUPERBLOCK_OFFSET + 0x60,
+        message: 'the journal needs recovery: the latest changes are only in the journal, not yet on the volume'
+      });
+    }
+    if (superblock.featureIncompat & FEATURE_INCOMPAT_ENCRYPT) {
+      this.findings.push({
+        check,
+        severity: 'warning',
+        offset: EXT_SUPERBLOCK_OFFSET + 0x60,
+        message: 'the volume may hold encrypted directories, whose names and contents cannot be read'
+      });
+    }
+    this.superblock = superblock;
+  }
+
+  private async readGroupDescriptors(): Promise<void> {
+    const { blockSize, firstDataBlock, groupCount, descriptorSize } = this.superblock!;
+    const offset = (firstDataBlock + 1) * blockSize;
+    const view = await readView(this.device, offset, groupCount * descriptorSize);
+    if (!view) {
+      this.findings.push({ check: 'Group descriptors', severity: 'error', offset, message: 'the group descriptor table lies beyond the end of the image' });
+      throw new ImageValidationError(this.getValidationReport());
+    }
+    for (let group = 0; group < groupCount; group++) {
+      this.groups.push(decodeGroupDescriptor(view, group * descriptorSize, descriptorSize));
+    }
+  }
+
+  private async readJournal(): Promise<void> {
+    const superblock = this.superblock!;
+    if (!(superblock.featureCompat & FEATURE_COMPAT_HAS_JOURNAL)) return;
+
+    try {
+      const inode = await this.readInode(superblock.journalInode || EXT_JOURNAL_INODE);
+      if (!inode) throw new Error('the journal inode lies outside the inode tables');
+      this.journalRuns = (await this.mapContent(inode)).runs;
+      const journalSuperblock = decodeJournalSuperblock(await this.readJournalBlock(0));
+      if (!journalSuperblock || journalSuperblock.blockSize !== superblock.blockSize) throw new Error('no valid journal superblock');
+
+      this.journal = await indexJournal(journalSuperblock, block => this.readJournalBlock(block));
+      if (journalSuperblock.start !== 0) {
+        this.findings.push({
+          check: 'Journal',
+          severity: 'warning',
+          offset: null,
+          message: 'the journal holds transactions that were not replayed; the volume was not cleanly unmounted'
+        });
+      }
+    } catch (error) {
+      this.findings.push({
+        check: 'Journal',
+        severity: 'warning',
+        offset: null,
+        message: `the journal could not be read (${(error as Error).message}); deleted files are recovered from their inodes only`
+      });
+    }
+  }
+
+  private async readJournalBlock(block: number): Promise<DataView> {
+    const blockSize = this.superblock!.blockSize;
+    const bytes = await readExtRuns(this.journalRuns, blockSize, this.device, Infinity, block * blockSize, blockSize);
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private async readBlock(block: number): Promise<DataView> {
+    const { blockSize, blockCount } = this.superblock!;
+    const view = block < blockCount ? await readView(this.device, block * blockSize, blockSize) : null;
+    if (!view) throw new Error(`block ${block} lies beyond the end of the volume`);
+    return view;
+  }
+
+  /** Where inode `number` sits: its inode table block and the offset inside it. */
+  private locateInode(number: number): { block: number; offset: number } | null {
+    const { inodeCount, inodesPerGroup, inodeSize, blockSize } = this.superblock!;
+    if (number < 1 || number > inodeCount) return null;
+    const group = this.groups[Math.floor((number - 1) / inodesPerGroup)];
+    if (!group) return null;
+    const position = ((number - 1) % inodesPerGroup) * inodeSize;
+    return { block: group.inodeTable + Math.floor(position / blockSize), offset: position % blockSize };
+  }
+
+  private async readInode(number: number): Promise<ExtInode | null> {
+    const location = this.locateInode(number);
+    if (!location) return null;
+    // Inode tables of groups flagged uninitialised were never written
+    const group = this.groups[Math.floor((number - 1) / this.superblock!.inodesPerGroup)];
+    if (group.flags & GROUP_FLAG_INODE_UNINIT) return null;
+    const view = await this.readBlock(location.block);
+    return decodeInode(new Uint8Array(view.buffer, view.byteOffset + location.offset, this.superblock!.inodeSize));
+  }
+
+  /** Maps an inode's content, whichever of the ways ext stores it the inode uses. */
+  private async mapContent(inode: ExtInode): Promise<ExtContent> {
+    const { blockSize, blockCount } = this.superblock!;
+    if (inode.flags & INODE_FLAG_INLINE_DATA) {
+      const attribute = readInlineDataAttribute(inode.extra);
+      const inline = new Uint8Array(INODE_BLOCK_SIZE + attribute.length);
+      inline.set(inode.block);
+      inline.set(attribute, INODE_BLOCK_SIZE);
+      return { runs: [], inline: inline.slice(0, inode.size) };
+    }
+    // Symlink targets shorter than i_block are kept in it
+    if ((inode.mode & MODE_TYPE_MASK) === MODE_SYMLINK && !(inode.flags & INODE_FLAG_EXTENTS) && inode.size < INODE_BLOCK_SIZE) {
+      return { runs: [], inline: inode.block.slice(0, inode.size) };
+    }
+
+    const readBlock = (block: number) => this.readBlock(block);
+    const runs = inode.flags & INODE_FLAG_EXTENTS
+      ? await mapExtents(inode.block, readBlock)
+      : await mapIndirectBlocks(inode.block, Math.ceil(inode.size / blockSize), blockSize, readBlock);
+    if (runs.some(run => run.physical !== null && run.physical + run.length > blockCount)) {
+      throw new Error('the block map points past the end of the volume');
+    }
+    return { runs, inline: null };
+  }
+
+  private async readContent(content: ExtContent, size: number, offset: number, length: number): Promise<Uint8Array> {
+    if (content.inline) return content.inline.slice(offset, Math.min(offset + length, size));
+    return readExtRuns(content.runs, this.superblock!.blockSize, this.device, size, offset, length);
+  }
+
+  private async readDirectories(): Promise<void> {
+    const root = await this.readInode(EXT_ROOT_INODE);
+    if (!root || (root.mode & MODE_TYPE_MASK) !== MODE_DIRECTORY) {
+      this.findings.push({ check: 'Root directory', severity: 'error', offset: null, message: 'the root inode is not a directory' });
+      throw new ImageValidationError(this.getValidationReport());
+    }
+
+    const visited = new Set<number>([EXT_ROOT_INODE]);
+    const queue: PendingDirectory[] = [{ record: null, inode: root, content: await this.mapContent(root) }];
+    let done = 0;
+
+    while (queue.length > 0) {
+      const directory = queue.shift()!;
+      const { entries, deleted } = await this.readDirectoryEntries(directory);
+      const parentDeleted = directory.record?.isDeleted ?? false;
+
+      // In a deleted directory every entry is gone, the ones still in place included
+      for (const entry of parentDeleted ? [...entries, ...deleted] : entries) {
+        const record = await this.createRecord(entry, directory.record, parentDeleted);
+        if (record) this.addRecord(record, visited, queue);
+      }
+      if (!parentDeleted) {
+        for (const entry of deleted) {
+          const record = await this.createRecord(entry, directory.record, true);
+          if (record) this.addRecord(record, visited, queue);
+        }
+      }
+
+      done++;
+      if (done % 50 === 0) {
+        this.updateProgress(`Reading directories... (${done} read, ${queue.length} queued)`, 20 + Math.min(45, Math.round(done / 20)));
+      }
+    }
+
+    if (this.unreadableFiles > 0) {
+      this.findings.push({
+        check: 'Block maps',
+        severity: 'warning',
+        offset: null,
+        message: `${this.unreadableFiles} file(s) have extent trees or block maps that could not be decoded; their content is not shown`
+      });
+    }
+    if (this.unreadableIndexes > 0) {
+      this.findings.push({
+        check: 'Directory indexes',
+        severity: 'warning',
+        offset: null,
+        message: `${this.unreadableIndexes} directory hash index(es) could not be decoded; those directories were read block by block`
+      });
+    }
+  }
+
+  private addRecord(record: ExtFileRecord, visited: Set<number>, queue: PendingDirectory[]): void {
+    this.files.set(record.fileId, record);
+    const hasContent = record.inline !== null || record.runs.length > 0;
+    if (record.isDirectory && hasContent && !visited.has(record.inodeNumber)) {
+      visited.add(record.inodeNumber);
+      queue.push({ record, inode: record.inode, content: { runs: record.runs, inline: record.inline } });
+    }
+  }
+
+  /**
+   * Decodes a directory's entries. Hash-indexed directories keep their
+   * index in blocks that look like a single empty entry; those are skipped.
+   */
+  private async readDirectoryEntries(directory: PendingDirectory): Promise<{ entries: ExtDirectoryEntry[]; deleted: ExtDirectoryEntry[] }> {
+    const hasFileType = (this.superblock!.featureIncompat & FEATURE_INCOMPAT_FILETYPE) !== 0;
+    const { content } = directory;
+
+    // Inline directories start with the parent's inode number instead of "." and ".."
+    if (content.inline) {
+      const parts = [content.inline.subarray(4, INODE_BLOCK_SIZE), content.inline.subarray(INODE_BLOCK_SIZE)];
+      const decoded = parts.map(part => decodeDirectoryBlock(new DataView(part.buffer, part.byteOffset, part.byteLength), hasFileType));
+      return { entries: decoded.flatMap(part => part.entries), deleted: decoded.flatMap(part => part.deleted) };
+    }
+
+    const blockSize = this.superblock!.blockSize;
+    const size = Math.min(directory.inode.size || content.runs.reduce((total, run) => total + run.length * blockSize, 0), MAX_DIRECTORY_SIZE);
+    const bytes = await this.readContent(content, size, 0, size);
+    const blockView = (logical: number) => (logical + 1) * blockSize <= bytes.length
+      ? new DataView(bytes.buffer, bytes.byteOffset + logical * blockSize, blockSize)
+      : null;
+
+    let indexBlocks: Set<number> | null = null;
+    if (directory.inode.flags & INODE_FLAG_INDEX && bytes.length >= blockSize) {
+      indexBlocks = await findHtreeIndexBlocks(blockView(0)!, async logical => blockView(logical));
+      if (!indexBlocks) this.unreadableIndexes++;
+    }
+
+    const entries: ExtDirectoryEntry[] = [];
+    const deleted: ExtDirectoryEntry[] = [];
+    for (let logical = 0; logical * blockSize < bytes.length; logical++) {
+      if (indexBlocks?.has(logical)) continue;
+      const view = new DataView(bytes.buffer, bytes.byteOffset + logical * blockSize, Math.min(blockSize, bytes.length - logical * blockSize));
+      const block = decodeDirectoryBlock(view, hasFileType);
+      entries.push(...block.entries.filter(entry => entry.name !== '.' && entry.name !== '..'));
+      deleted.push(...block.deleted);
+    }
+    return { entries, deleted };
+  }
+
+  /** The record for a directory entry; null when it names no usable inode. */
+  private async createRecord(entry: ExtDirectoryEntry, parent: ExtFileRecord | null, isDeleted: boolean): Promise<ExtFileRecord | null> {
+    const inode = await this.readInode(entry.inode).catch(() => null);
+    if (!inode) return null;
+
+    const inUse = inode.linkCount > 0 && inode.deletionTime === 0 && inode.mode !== 0;
+    // A removed entry whose inode is in use was renamed, or its inode has been reused
+    if (isDeleted && inUse) return null;
+
+    let content: ExtContent = { runs: [], inline: null };
+    let contentInode = inode;
+    let recovery: ExtFileRecord['recovery'];
+    if (!isDeleted) {
+      try {
+        content = await this.mapContent(inode);
+      } catch {
+        this.unreadableFiles++;
+      }
+    } else {
+      ({ content, contentInode, recovery } = await this.recoverContent(entry.inode, inode));
+    }
+
+    const isDirectory = (contentInode.mode & MODE_TYPE_MASK) === MODE_DIRECTORY || (contentInode.mode === 0 && entry.fileType === 2);
+    const isSymlink = (contentInode.mode & MODE_TYPE_MASK) === MODE_SYMLINK;
+    const count = this.nameCounts.get(entry.inode) ?? 0;
+    this.nameCounts.set(entry.inode, count + 1);
+
+    const record: ExtFileRecord = {
+      fileId: count === 0 ? String(entry.inode) : `${entry.inode}-${count}`,
+      parentId: parent?.fileId ?? '',
+      name: entry.name,
+      inodeNumber: entry.inode,
+      inode: contentInode,
+      isDirectory,
+      isDeleted,
+      size: isDirectory ? 0 : contentInode.size,
+      ...content,
+      recovery
+    };
+    if (isSymlink && contentInode.size < 4096) {
+      record.symlinkTarget = new TextDecoder().decode(await this.readContent(content, contentInode.size, 0, contentInode.size));
+    }
+    return record;
+  }
+
+  /**
+   * Locates a deleted file's content. ext2 leaves the inode's block map in
+   * place; otherwise the newest journal copy of the inode from before the
+   * deletion is used. The deletion time is kept from the current inode.
+   */
+  private async recoverContent(
+    number: number,
+    inode: ExtInode
+  ): Promise<{ content: ExtContent; contentInode: ExtInode; recovery: ExtFileRecord['recovery'] }> {
+    const tryMap = async (candidate: ExtInode) => {
+      const content = await this.mapContent(candidate).catch(() => null);
+      const mapped = content && (content.inline !== null || content.runs.some(run => run.physical !== null));
+      return mapped && candidate.size > 0 ? content : null;
+    };
+
+    const current = await tryMap(inode);
+    if (current) return { content: current, contentInode: inode, recovery: 'inode' };
+
+    const location = this.locateInode(number);
+    for (const copy of (location && this.journal?.copies.get(location.block)) ?? []) {
+      const bytes = unescapeJournalBlock(new Uint8Array((await this.readJournalBlock(copy.journalBlock)).buffer), copy);
+      const earlier = decodeInode(bytes.subarray(location!.offset, location!.offset + this.superblock!.inodeSize));
+      if (earlier.linkCount === 0 || earlier.deletionTime !== 0) continue;
+      if (inode.mode !== 0 && (earlier.mode & MODE_TYPE_MASK) !== (inode.mode & MODE_TYPE_MASK)) continue;
+
+      const content = await tryMap(earlier);
+      if (content) return { content, contentInode: { ...earlier, deletionTime: inode.deletionTime }, recovery: 'journal' };
+    }
+    return { content: { runs: [], inline: null }, contentInode: inode, recovery: 'none' };
+  }
+
+  /** Reads /etc/passwd and /etc/group, when the volume holds them, to name owners. */
+  private async readAccountNames(): Promise<void> {
+    const topLevel = [...this.files.values()].filter(file => file.parentId === '' && !file.isDeleted);
+    const etc = topLevel.find(file => file.name === 'etc' && file.isDirectory);
+    if (!etc) return;
+
+    const readAccounts = async (name: string, target: Map<number, string>) => {
+      const file = [...this.files.values()].find(candidate =>
+        candidate.parentId === etc.fileId && candidate.name === name && !candidate.isDeleted && !candidate.isDirectory);
+      if (!file) return;
+      const bytes = await this.readContent(file, file.size, 0, Math.min(file.size, MAX_ACCOUNT_FILE_SIZE)).catch(() => null);
+      if (!bytes) return;
+
+      // name:password:id:...
+      for (const line of new TextDecoder().decode(bytes).split('\n')) {
+        const fields = line.split(':');
+        const id = Number(fields[2]);
+        if (fields.length >= 3 && fields[0] && fields[2] !== '' && Number.isInteger(id) && !target.has(id)) target.set(id, fields[0]);
+      }
+    };
+    await readAccounts('passwd', this.users);
+    await readAccounts('group', this.groupNames);
+  }
+
+  private async calculateHashes(): Promise<void> {
+    const jobs: HashJob[] = [];
+    for (const [fileId, file] of this.files) {
+      if (file.isDirectory || file.recovery === 'none') continue;
+      const plan: ContentSegment[] = file.inline
+        ? [{ kind: 'bytes', data: file.inline }]
+        : planExtRuns(file.runs, this.superblock!.blockSize, file.size);
+      jobs.push({ id: fileId, name: file.name, plan });
+    }
+
+    const source = this.options.source ?? this.device;
+    const digests = await hashFiles(source, jobs, progress => {
+      const percentage = 70 + Math.round((progress.processedFiles / progress.totalFiles) * 25);
+      this.updateProgress(`Calculating hashes... (${progress.processedFiles}/${progress.totalFiles})`, percentage, progress);
+    });
+
+    for (const [fileId, digest] of digests) {
+      const file = this.files.get(fileId)!;
+      file.md5Hash = digest.md5;
+      file.sha1Hash = digest.sha1;
+      file.sha256Hash = digest.sha256;
+    }
+  }
+
+  private buildFileTree(): FileSystemItem[] {
+    const itemMap = new Map<string, FileSystemItem>();
+    const { evidenceId, volumeId } = this.options;
+    const blockSize = this.superblock!.blockSize;
+    const describe = (names: Map<number, string>, id: number) => names.has(id) ? `${names.get(id)} (${id})` : String(id);
+
+    for (const [fileId, file] of this.files) {
+      const { inode } = file;
+      const ext: ExtMetadata = {
+        mode: inode.mode,
+        uid: inode.uid,
+        gid: inode.gid,
+        linkCount: inode.linkCount,
+        flags: inode.flags,
+        times: {
+          created: inode.created?.iso,
+          modified: inode.modified.iso,
+          changed: inode.changed.iso,
+          accessed: inode.accessed.iso
+        },
+        deletionTime: inode.deletionTime ? new Date(inode.deletionTime * 1000) : undefined,
+        symlinkTarget: file.symlinkTarget,
+        recovery: file.recovery
+      };
+
+      itemMap.set(fileId, {
+        id: scopedItemId(this.options, fileId),
+        evidenceId,
+        volumeId,
+        name: file.name,
+        type: file.isDirectory ? 'directory' : 'file',
+        size: file.size,
+        // ext2/3 and small inodes do not record a creation time
+        created: inode.created?.date ?? new Date(0),
+        modified: inode.modified.date,
+        accessed: inode.accessed.date,
+        changed: inode.changed.date,
+        path: '',
+        children: file.isDirectory ? [] : undefined,
+        metadata: {
+          fileId,
+          parentId: file.parentId,
+          inode: file.inodeNumber,
+          permissions: formatPermissions(inode.mode),
+          owner: describe(this.users, inode.uid),
+          group: describe(this.groupNames, inode.gid),
+          allocatedSize: file.runs.reduce((total, run) => total + (run.physical === null ? 0 : run.length * blockSize), 0),
+          deleted: file.isDeleted,
+          allocated: !file.isDeleted,
+          isDeleted: file.isDeleted,
+          md5Hash: file.md5Hash,
+          sha1Hash: file.sha1Hash,
+          sha256Hash: file.sha256Hash,
+          ext
+        }
+      });
+    }
+
+    this.items = itemMap;
+    return linkFileTree(itemMap, fileId => this.files.get(fileId)!.parentId);
+  }
+
+  private updateProgress(message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>): void {
+    this.progressCallback?.({ message, percentage, ...files });
+  }
+
+  getRootItems(): FileSystemItem[] {
+    return this.rootItems;
+  }
+
+  listDirectory(directoryFileId?: string): FileSystemItem[] {
+    if (directoryFileId === undefined) return this.rootItems;
+    return this.items.get(directoryFileId)?.children ?? [];
+  }
+
+  getDeletedEntries(): FileSystemItem[] {
+    return collectItems(this.rootItems, item => item.metadata?.deleted === true);
+  }
+
+  getSuperblock(): ExtSuperblock | null {
+    return this.superblock;
+  }
+
+  /**
+   * Reads up to `length` bytes of a file starting at `offset`. Deleted
+   * files read from their recovered blocks. ext has no named streams.
+   */
+  async readFileContent(fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    const file = this.files.get(fileId);
+    if (!file || file.isDirectory || streamName !== '') return null;
+    return this.readContent(file, file.size, offset, length);
+  }
+
+  getValidationReport(): ValidationReport {
+    return createValidationReport(`${this.fileSystem} volume`, this.findings);
+  }
+
+  isSimulated(): boolean {
+    return false;
+  }
+}
+
+function createExtDriver(fileSystem: ExtSuperblock['flavour']): FileSystemDriver {
+  return {
+    fileSystem,
+
+    async probe(device) {
+      const view = await readView(device, EXT_SUPERBLOCK_OFFSET, 1024);
+      const superblock = view && decodeSuperblock(view);
+      const checksummed = !!superblock && (superblock.featureRoCompat & FEATURE_RO_COMPAT_METADATA_CSUM) !== 0;
+      return scoreProbe([
+        { description: 'Superblock magic is EF53', passed: view?.getUint16(0x38, true) === EXT_MAGIC, weight: 3, required: true },
+        { description: `Features are those of ${fileSystem.toLowerCase()}`, passed: superblock?.flavour === fileSystem, weight: 1, required: true },
+        { description: 'Volume is a file system, not an external journal', passed: !!superblock && !(superblock.featureIncompat & FEATURE_INCOMPAT_JOURNAL_DEV), weight: 1, required: true },
+        { description: 'Block and inode sizes are valid', passed: !!superblock, weight: 1 },
+        { description: 'Block groups fit their bitmaps', passed: !!superblock && superblock.blocksPerGroup <= superblock.blockSize * 8 &&
+          superblock.inodesPerGroup <= superblock.blockSize * 8, weight: 1 },
+        // Only volumes with metadata checksums have one; the others pass by default
+        { description: 'Superblock checksum matches', passed: !!view && !!superblock && (!checksummed || superblockChecksumValid(view)), weight: 1 },
+        { description: 'Volume fits in the image', passed: !!superblock && superblock.blockCount * superblock.blockSize <= device.size, weight: 1 }
+      ]);
+    },
+
+    async open(device, options, onProgress) {
+      const parser = new ExtParser(device, fileSystem, onProgress, options);
+      await parser.parseImage();
+      return parser;
+    }
+  };
+}
+
+/** One driver per ext generation, told apart by the features the volume uses. */
+export const extDrivers: FileSystemDriver[] = (['EXT2', 'EXT3', 'EXT4'] as const).map(createExtDriver);
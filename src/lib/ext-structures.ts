@@ -0,0 +1,522 @@
+import { readAscii } from './byte-reader';
+import type { BlockDevice } from './block-device';
+import { crc32c } from './checksum';
+import { pushSegment } from './content-plan';
+import type { ContentSegment } from './content-plan';
+
+// On-disk structures of ext2, ext3 and ext4. The volume is split into block
+// groups, each with a bitmap of its blocks and inodes and a slice of the
+// inode table; a table of group descriptors after the superblock says where
+// those are. An inode maps its file's blocks either through an extent tree
+// (ext4) or through direct and indirect block pointers (ext2/3). Directories
+// are files of variable-length entries, optionally indexed by a hash tree.
+
+export const EXT_SUPERBLOCK_OFFSET = 1024;
+export const EXT_MAGIC = 0xEF53;
+export const EXT_ROOT_INODE = 2;
+export const EXT_JOURNAL_INODE = 8;
+
+export const FEATURE_COMPAT_HAS_JOURNAL = 0x0004;
+export const FEATURE_INCOMPAT_FILETYPE = 0x0002;
+export const FEATURE_INCOMPAT_RECOVER = 0x0004;
+export const FEATURE_INCOMPAT_JOURNAL_DEV = 0x0008;
+export const FEATURE_INCOMPAT_META_BG = 0x0010;
+export const FEATURE_INCOMPAT_EXTENTS = 0x0040;
+export const FEATURE_INCOMPAT_64BIT = 0x0080;
+export const FEATURE_INCOMPAT_FLEX_BG = 0x0200;
+export const FEATURE_INCOMPAT_INLINE_DATA = 0x8000;
+export const FEATURE_INCOMPAT_ENCRYPT = 0x10000;
+export const FEATURE_RO_COMPAT_HUGE_FILE = 0x0008;
+export const FEATURE_RO_COMPAT_METADATA_CSUM = 0x0400;
+
+export const INODE_FLAG_INDEX = 0x1000;
+export const INODE_FLAG_EXTENTS = 0x80000;
+export const INODE_FLAG_INLINE_DATA = 0x10000000;
+
+export const GROUP_FLAG_INODE_UNINIT = 0x0001;
+
+export const MODE_TYPE_MASK = 0xF000;
+export const MODE_DIRECTORY = 0x4000;
+export const MODE_REGULAR = 0x8000;
+export const MODE_SYMLINK = 0xA000;
+
+const EXTENT_MAGIC = 0xF30A;
+/** Extent lengths above this mark extents allocated but not yet written, which read as zeroes. */
+const EXTENT_MAX_INITIALIZED = 32768;
+const XATTR_MAGIC = 0xEA020000;
+const XATTR_INDEX_SYSTEM = 7;
+/** Bytes of i_block, which holds the block map, inline data or a short symlink target. */
+export const INODE_BLOCK_SIZE = 60;
+
+export interface ExtSuperblock {
+  inodeCount: number;
+  blockCount: number;
+  blockSize: number;
+  firstDataBlock: number;
+  blocksPerGroup: number;
+  inodesPerGroup: number;
+  inodeSize: number;
+  groupCount: number;
+  /** Size of a group descriptor: 32 bytes, or more with the 64bit feature. */
+  descriptorSize: number;
+  featureCompat: number;
+  featureIncompat: number;
+  featureRoCompat: number;
+  uuid: string;
+  volumeName: string;
+  lastMounted: string;
+  journalInode: number;
+  /** Flags the volume as ext2, ext3 or ext4 the way the tools do: by its features. */
+  flavour: 'EXT2' | 'EXT3' | 'EXT4';
+}
+
+export interface ExtGroupDescriptor {
+  blockBitmap: number;
+  inodeBitmap: number;
+  inodeTable: number;
+  flags: number;
+}
+
+/** A timestamp and its full-precision rendering (seconds plus nanoseconds). */
+export interface ExtTimestamp {
+  date: Date;
+  iso: string;
+}
+
+export interface ExtInode {
+  mode: number;
+  uid: number;
+  gid: number;
+  size: number;
+  linkCount: number;
+  flags: number;
+  accessed: ExtTimestamp;
+  changed: ExtTimestamp;
+  modified: ExtTimestamp;
+  /** Creation time; only inodes larger than 128 bytes record it. */
+  created: ExtTimestamp | null;
+  /** Seconds since the epoch the inode was deleted; 0 while it is in use. */
+  deletionTime: number;
+  /** The 60 bytes of i_block. */
+  block: Uint8Array;
+  /** The inode's bytes past the 128-byte base (extra fields and in-inode extended attributes). */
+  extra: Uint8Array;
+}
+
+export interface ExtDirectoryEntry {
+  inode: number;
+  name: string;
+  /** Type from the entry (1 file, 2 directory, 7 symlink...), 0 when the volume does not record it. */
+  fileType: number;
+  /** Offset of the entry in the directory block. */
+  offset: number;
+}
+
+/** Contiguous logical blocks of a file, mapped to physical blocks or a hole (null). */
+export interface ExtRun {
+  logical: number;
+  physical: number | null;
+  length: number;
+}
+
+/** The superblock's own checksum (metadata_csum): CRC32C over the bytes before it, without the final inversion. */
+export function superblockChecksumValid(view: DataView): boolean {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, 0x3FC);
+  return (~crc32c(bytes) >>> 0) === view.getUint32(0x3FC, true);
+}
+
+export function decodeSuperblock(view: DataView): ExtSuperblock | null {
+  if (view.byteLength < 1024 || view.getUint16(0x38, true) !== EXT_MAGIC) return null;
+
+  const logBlockSize = view.getUint32(0x18, true);
+  const blocksPerGroup = view.getUint32(0x20, true);
+  const inodesPerGroup = view.getUint32(0x28, true);
+  if (logBlockSize > 6 || blocksPerGroup === 0 || inodesPerGroup === 0) return null;
+
+  const blockSize = 1024 << logBlockSize;
+  const featureCompat = view.getUint32(0x5C, true);
+  const featureIncompat = view.getUint32(0x60, true);
+  const featureRoCompat = view.getUint32(0x64, true);
+  const is64Bit = (featureIncompat & FEATURE_INCOMPAT_64BIT) !== 0;
+  const blockCount = view.getUint32(0x04, true) + (is64Bit ? view.getUint32(0x150, true) * 0x100000000 : 0);
+  const firstDataBlock = view.getUint32(0x14, true);
+  // Revision 0 volumes have fixed 128-byte inodes
+  const inodeSize = view.getUint32(0x4C, true) >= 1 ? view.getUint16(0x58, true) : 128;
+  if (inodeSize < 128 || inodeSize > blockSize || (inodeSize & (inodeSize - 1)) !== 0) return null;
+
+  const ext4Features = FEATURE_INCOMPAT_EXTENTS | FEATURE_INCOMPAT_64BIT | FEATURE_INCOMPAT_FLEX_BG | FEATURE_INCOMPAT_INLINE_DATA;
+  const uuid = Array.from(new Uint8Array(view.buffer, view.byteOffset + 0x68, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+
+  return {
+    inodeCount: view.getUint32(0x00, true),
+    blockCount,
+    blockSize,
+    firstDataBlock,
+    blocksPerGroup,
+    inodesPerGroup,
+    inodeSize,
+    groupCount: Math.ceil((blockCount - firstDataBlock) / blocksPerGroup),
+    descriptorSize: is64Bit ? Math.max(32, view.getUint16(0xFE, true)) : 32,
+    featureCompat,
+    featureIncompat,
+    featureRoCompat,
+    uuid: `${uuid.slice(0, 8)}-${uuid.slice(8, 12)}-${uuid.slice(12, 16)}-${uuid.slice(16, 20)}-${uuid.slice(20)}`,
+    volumeName: readCString(view, 0x78, 16),
+    lastMounted: readCString(view, 0x88, 64),
+    journalInode: view.getUint32(0xE0, true),
+    flavour: featureIncompat & ext4Features || featureRoCompat & FEATURE_RO_COMPAT_HUGE_FILE
+      ? 'EXT4'
+      : featureCompat & FEATURE_COMPAT_HAS_JOURNAL ? 'EXT3' : 'EXT2'
+  };
+}
+
+function readCString(view: DataView, offset: number, length: number): string {
+  const text = readAscii(view, offset, length);
+  const end = text.indexOf('\0');
+  return end >= 0 ? text.slice(0, end) : text;
+}
+
+export function decodeGroupDescriptor(view: DataView, offset: number, descriptorSize: number): ExtGroupDescriptor {
+  // 64-byte descriptors add the high halves of the block numbers
+  const high = (lowOffset: number) => descriptorSize >= 64 ? view.getUint32(offset + lowOffset + 0x20, true) * 0x100000000 : 0;
+  return {
+    blockBitmap: view.getUint32(offset, true) + high(0x00),
+    inodeBitmap: view.getUint32(offset + 0x04, true) + high(0x04),
+    inodeTable: view.getUint32(offset + 0x08, true) + high(0x08),
+    flags: view.getUint16(offset + 0x12, true)
+  };
+}
+
+/**
+ * Seconds are signed 32-bit; the low two bits of the extra field extend
+ * them past 2038 and the other 30 hold nanoseconds.
+ */
+export function decodeTimestamp(seconds: number, extra: number | null): ExtTimestamp {
+  const epochBits = extra === null ? 0 : extra & 0x03;
+  const nanoseconds = extra === null ? 0 : extra >>> 2;
+  const total = (seconds | 0) + epochBits * 0x100000000;
+  const date = new Date(total * 1000 + Math.floor(nanoseconds / 1e6));
+  const iso = Number.isNaN(date.getTime())
+    ? 'invalid'
+    : `${date.toISOString().slice(0, 19)}.${nanoseconds.toString().padStart(9, '0')}Z`;
+  return { date, iso };
+}
+
+export function decodeInode(bytes: Uint8Array): ExtInode {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const extraSize = bytes.length > 128 ? view.getUint16(0x80, true) : 0;
+  // An extra field exists when the inode's extra size reaches past it
+  const extraField = (offset: number) => extraSize >= offset - 0x80 + 4 ? view.getUint32(offset, true) : null;
+
+  const crtimeExtra = extraField(0x94);
+  const crtime = extraSize >= 0x94 - 0x80 ? view.getUint32(0x90, true) : null;
+
+  return {
+    mode: view.getUint16(0x00, true),
+    uid: view.getUint16(0x02, true) | (view.getUint16(0x78, true) << 16),
+    gid: view.getUint16(0x18, true) | (view.getUint16(0x7A, true) << 16),
+    size: view.getUint32(0x04, true) + view.getUint32(0x6C, true) * 0x100000000,
+    linkCount: view.getUint16(0x1A, true),
+    flags: view.getUint32(0x20, true),
+    accessed: decodeTimestamp(view.getUint32(0x08, true), extraField(0x8C)),
+    changed: decodeTimestamp(view.getUint32(0x0C, true), extraField(0x84)),
+    modified: decodeTimestamp(view.getUint32(0x10, true), extraField(0x88)),
+    created: crtime === null ? null : decodeTimestamp(crtime, crtimeExtra),
+    deletionTime: view.getUint32(0x14, true),
+    block: bytes.slice(0x28, 0x28 + INODE_BLOCK_SIZE),
+    extra: bytes.slice(128)
+  };
+}
+
+/** "drwxr-xr-x", as ls prints a mode (with setuid, setgid and sticky bits). */
+export function formatPermissions(mode: number): string {
+  const types: Record<number, string> = {
+    0x1000: 'p', 0x2000: 'c', 0x4000: 'd', 0x6000: 'b', 0x8000: '-', 0xA000: 'l', 0xC000: 's'
+  };
+  const triplet = (bits: number, special: boolean, specialChar: string) => {
+    const execute = bits & 1 ? (special ? specialChar : 'x') : (special ? specialChar.toUpperCase() : '-');
+    return (bits & 4 ? 'r' : '-') + (bits & 2 ? 'w' : '-') + execute;
+  };
+  return (types[mode & MODE_TYPE_MASK] ?? '?') +
+    triplet((mode >> 6) & 7, (mode & 0x800) !== 0, 's') +
+    triplet((mode >> 3) & 7, (mode & 0x400) !== 0, 's') +
+    triplet(mode & 7, (mode & 0x200) !== 0, 't');
+}
+
+/** Decodes the extent tree node header; null when the magic is wrong. */
+function decodeExtentHeader(view: DataView, offset: number): { entries: number; depth: number } | null {
+  if (view.getUint16(offset, true) !== EXTENT_MAGIC) return null;
+  const entries = view.getUint16(offset + 2, true);
+  const max = view.getUint16(offset + 4, true);
+  if (entries > max || offset + 12 + entries * 12 > view.byteLength) return null;
+  return { entries, depth: view.getUint16(offset + 6, true) };
+}
+
+/**
+ * Maps a file's blocks through its extent tree, whose root sits in i_block
+ * and whose index nodes are whole blocks. Unwritten extents map to holes.
+ */
+export async function mapExtents(
+  block: Uint8Array,
+  readBlock: (block: number) => Promise<DataView>
+): Promise<ExtRun[]> {
+  const runs: ExtRun[] = [];
+
+  const visit = async (view: DataView, depthLeft: number) => {
+    const header = decodeExtentHeader(view, 0);
+    if (!header) throw new Error('extent tree node has a bad magic number');
+    if (depthLeft < 0 || header.depth > depthLeft) throw new Error('extent tree is deeper than its root says');
+
+    for (let i = 0; i < header.entries; i++) {
+      const entry = 12 + i * 12;
+      if (header.depth > 0) {
+        const leaf = view.getUint32(entry + 4, true) + view.getUint16(entry + 8, true) * 0x100000000;
+        await visit(await readBlock(leaf), header.depth - 1);
+        continue;
+      }
+
+      const logical = view.getUint32(entry, true);
+      const rawLength = view.getUint16(entry + 4, true);
+      const uninitialized = rawLength > EXTENT_MAX_INITIALIZED;
+      const start = view.getUint16(entry + 6, true) * 0x100000000 + view.getUint32(entry + 8, true);
+      runs.push({ logical, physical: uninitialized ? null : start, length: uninitialized ? rawLength - EXTENT_MAX_INITIALIZED : rawLength });
+    }
+  };
+
+  const root = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const header = decodeExtentHeader(root, 0);
+  if (!header) throw new Error('inode has no extent tree');
+  await visit(root, header.depth);
+  return runs.sort((a, b) => a.logical - b.logical);
+}
+
+/**
+ * Maps a file's blocks through ext2/3 block pointers: twelve direct ones,
+ * then single, double and triple indirect blocks of further pointers.
+ * Zero pointers are holes.
+ */
+export async function mapIndirectBlocks(
+  block: Uint8Array,
+  blockCount: number,
+  blockSize: number,
+  readBlock: (block: number) => Promise<DataView>
+): Promise<ExtRun[]> {
+  const runs: ExtRun[] = [];
+  const pointersPerBlock = blockSize / 4;
+  const root = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  let logical = 0;
+
+  const add = (physical: number) => {
+    const last = runs[runs.length - 1];
+    const mapped = physical === 0 ? null : physical;
+    if (last && last.logical + last.length === logical &&
+      (mapped === null ? last.physical === null : last.physical !== null && last.physical + last.length === mapped)) {
+      last.length++;
+    } else {
+      runs.push({ logical, physical: mapped, length: 1 });
+    }
+    logical++;
+  };
+
+  // Pointers of a tree of `level` indirections; a zero pointer skips its whole subtree as a hole
+  const walk = async (pointer: number, level: number): Promise<void> => {
+    if (level === 0) {
+      add(pointer);
+      return;
+    }
+    const span = pointersPerBlock ** level;
+    if (pointer === 0) {
+      const holeLength = Math.min(span, blockCount - logical);
+      runs.push({ logical, physical: null, length: holeLength });
+      logical += holeLength;
+      return;
+    }
+    const view = await readBlock(pointer);
+    for (let i = 0; i < pointersPerBlock && logical < blockCount; i++) {
+      await walk(view.getUint32(i * 4, true), level - 1);
+    }
+  };
+
+  for (let i = 0; i < 12 && logical < blockCount; i++) add(root.getUint32(i * 4, true));
+  for (let level = 1; level <= 3 && logical < blockCount; level++) {
+    await walk(root.getUint32((11 + level) * 4, true), level);
+  }
+  return runs;
+}
+
+/**
+ * Reads the "system.data" extended attribute kept in the inode body, which
+ * holds what does not fit in i_block of a file with inline data.
+ */
+export function readInlineDataAttribute(extra: Uint8Array): Uint8Array {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  if (extra.length < 4) return new Uint8Array(0);
+  const start = view.getUint16(0, true);
+  if (start + 4 > extra.length || view.getUint32(start, true) !== XATTR_MAGIC) return new Uint8Array(0);
+
+  // Entries follow the magic; value offsets count from the first entry
+  const first = start + 4;
+  for (let offset = first; offset + 16 <= extra.length && view.getUint32(offset, true) !== 0;) {
+    const nameLength = view.getUint8(offset);
+    const nameIndex = view.getUint8(offset + 1);
+    const valueOffset = view.getUint16(offset + 2, true);
+    const valueSize = view.getUint32(offset + 8, true);
+    const name = readAscii(view, offset + 16, Math.min(nameLength, extra.length - offset - 16));
+    if (nameIndex === XATTR_INDEX_SYSTEM && name === 'data') {
+      return extra.slice(first + valueOffset, Math.min(first + valueOffset + valueSize, extra.length));
+    }
+    offset += (16 + nameLength + 3) & ~3;
+  }
+  return new Uint8Array(0);
+}
+
+/**
+ * Decodes the entries of a directory block. Besides the live entries this
+ * carves the slack every entry's record length may leave after its name,
+ * where entries removed from the block linger.
+ */
+export function decodeDirectoryBlock(
+  view: DataView,
+  hasFileType: boolean
+): { entries: ExtDirectoryEntry[]; deleted: ExtDirectoryEntry[] } {
+  const entries: ExtDirectoryEntry[] = [];
+  const deleted: ExtDirectoryEntry[] = [];
+
+  for (let offset = 0; offset + 8 <= view.byteLength;) {
+    const recordLength = view.getUint16(offset + 4, true);
+    if (recordLength < 8 || recordLength % 4 !== 0 || offset + recordLength > view.byteLength) break;
+
+    const entry = decodeDirectoryEntry(view, offset, hasFileType);
+    if (entry && entry.inode !== 0) entries.push(entry);
+
+    const used = entry ? (8 + view.getUint8(offset + 6) + 3) & ~3 : 8;
+    deleted.push(...carveDirectorySlack(view, offset + used, offset + recordLength, hasFileType));
+    offset += recordLength;
+  }
+  return { entries, deleted };
+}
+
+function decodeDirectoryEntry(view: DataView, offset: number, hasFileType: boolean): ExtDirectoryEntry | null {
+  const nameLength = view.getUint8(offset + 6);
+  if (offset + 8 + nameLength > view.byteLength) return null;
+  const name = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset + 8, nameLength));
+  return {
+    inode: view.getUint32(offset, true),
+    name,
+    fileType: hasFileType ? view.getUint8(offset + 7) : 0,
+    offset
+  };
+}
+
+function carveDirectorySlack(view: DataView, start: number, end: number, hasFileType: boolean): ExtDirectoryEntry[] {
+  const carved: ExtDirectoryEntry[] = [];
+  for (let offset = start; offset + 12 <= end;) {
+    const inode = view.getUint32(offset, true);
+    const recordLength = view.getUint16(offset + 4, true);
+    const nameLength = view.getUint8(offset + 6);
+    const fileType = view.getUint8(offset + 7);
+    const plausible = inode !== 0 && nameLength > 0 && offset + 8 + nameLength <= end &&
+      recordLength >= 8 + nameLength && recordLength % 4 === 0 && (!hasFileType || (fileType >= 1 && fileType <= 7));
+    const entry = plausible ? decodeDirectoryEntry(view, offset, hasFileType) : null;
+
+    if (entry && isPlausibleName(entry.name)) {
+      carved.push(entry);
+      offset += (8 + nameLength + 3) & ~3;
+    } else {
+      offset += 4;
+    }
+  }
+  return carved;
+}
+
+function isPlausibleName(name: string): boolean {
+  return name !== '.' && name !== '..' && !name.includes('/') && !name.includes('�') &&
+    [...name].every(char => char.charCodeAt(0) >= 0x20);
+}
+
+/**
+ * Blocks of an htree (hash-indexed) directory that are index nodes rather
+ * than entry blocks. Block 0 is the root: fake "." and ".." entries, then
+ * the index. Null when the root does not decode, in which case every block
+ * should be read as entries.
+ */
+export async function findHtreeIndexBlocks(
+  root: DataView,
+  readDirectoryBlock: (logical: number) => Promise<DataView | null>
+): Promise<Set<number> | null> {
+  const dotDotLength = root.getUint16(12 + 4, true);
+  const info = 12 + 12;
+  if (12 + dotDotLength > root.byteLength || info + 8 > root.byteLength) return null;
+
+  const infoLength = root.getUint8(info + 5);
+  const levels = root.getUint8(info + 6);
+  if (root.getUint32(info, true) !== 0 || infoLength !== 8 || levels > 2) return null;
+
+  const indexBlocks = new Set<number>([0]);
+  const visit = async (view: DataView, countOffset: number, level: number): Promise<boolean> => {
+    const limit = view.getUint16(countOffset, true);
+    const count = view.getUint16(countOffset + 2, true);
+    if (count === 0 || count > limit || countOffset + count * 8 > view.byteLength) return false;
+    if (level === 0) return true;
+
+    // The first entry's hash field holds the limit and count instead
+    for (let i = 0; i < count; i++) {
+      const child = view.getUint32(countOffset + i * 8 + 4, true) & 0x0FFFFFFF;
+      if (indexBlocks.has(child)) return false;
+      indexBlocks.add(child);
+      const node = await readDirectoryBlock(child);
+      // An index node is an empty entry spanning the block, followed by its count and limit
+      if (!node || !(await visit(node, 8, level - 1))) return false;
+    }
+    return true;
+  };
+
+  return await visit(root, info + infoLength, levels) ? indexBlocks : null;
+}
+
+/**
+ * Reads `length` bytes at `offset` of a file mapped by `runs`. Reads are
+ * clamped to `size`; holes and unmapped blocks read as zeroes.
+ */
+export async function readExtRuns(
+  runs: ExtRun[],
+  blockSize: number,
+  device: BlockDevice,
+  size: number,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  const end = Math.min(offset + length, size);
+  const result = new Uint8Array(Math.max(0, end - offset));
+
+  for (const run of runs) {
+    if (run.physical === null) continue;
+    const runStart = run.logical * blockSize;
+    const from = Math.max(offset, runStart);
+    const to = Math.min(end, runStart + run.length * blockSize);
+    if (from >= to) continue;
+    result.set(await device.read(run.physical * blockSize + (from - runStart), to - from), from - offset);
+  }
+  return result;
+}
+
+/** Describes where every byte of a file lives, following the rules of `readExtRuns`. */
+export function planExtRuns(runs: ExtRun[], blockSize: number, size: number): ContentSegment[] {
+  const plan: ContentSegment[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const runStart = run.logical * blockSize;
+    const runEnd = Math.min(runStart + run.length * blockSize, size);
+    if (runEnd <= position) continue;
+    if (runStart > position) {
+      pushSegment(plan, { kind: 'zero', length: runStart - position });
+      position = runStart;
+    }
+    pushSegment(plan, run.physical === null
+      ? { kind: 'zero', length: runEnd - position }
+      : { kind: 'image', offset: run.physical * blockSize + (position - runStart), length: runEnd - position });
+    position = runEnd;
+  }
+  if (size > position) pushSegment(plan, { kind: 'zero', length: size - position });
+  return plan;
+}
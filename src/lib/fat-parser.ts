@@ -0,0 +1,600 @@
+import type { FileSystemItem, ParseProgress } from '../types/forensic';
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import { readAscii, readUint64, readUtf16 } from './byte-reader';
+import {
+  DIRECTORY_ENTRY_SIZE,
+  EXFAT_ENTRY_BITMAP,
+  EXFAT_ENTRY_FILE,
+  EXFAT_ENTRY_IN_USE,
+  EXFAT_ENTRY_NAME,
+  EXFAT_ENTRY_STREAM,
+  EXFAT_FLAG_NO_FAT_CHAIN,
+  EXFAT_OEM_ID,
+  FAT_ATTRIBUTE_DIRECTORY,
+  FAT_ATTRIBUTE_LONG_NAME,
+  FAT_ATTRIBUTE_VOLUME_ID,
+  FAT_DELETED_MARKER,
+  FileAllocationTable,
+  assembleLongName,
+  bootRegionChecksum,
+  contiguousRuns,
+  countClusters,
+  decodeExfatBootSector,
+  decodeExfatTime,
+  decodeFatBootSector,
+  decodeLongNamePart,
+  decodeShortEntry,
+  entrySetChecksum,
+  formatShortName,
+  planClusterRuns,
+  readClusterRuns,
+  runsOffset
+} from './fat-structures';
+import type { ClusterRun, ExfatBootSector, FatBootSector, FatLongNamePart, FatType } from './fat-structures';
+import { collectItems, linkFileTree, scopedItemId, scoreProbe } from './filesystem-driver';
+import type { FileSystemDriver, FileSystemDriverOptions, FileSystemVolume, ProbeResult } from './filesystem-driver';
+import { hashFiles } from './hash-worker-client';
+import type { HashJob } from './hash-worker-client';
+import { ImageValidationError, createValidationReport } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+
+// FAT12/16/32 and exFAT volumes. Directories are walked from the root, live
+// and deleted entries alike. Live files follow their FAT chains (or, on
+// exFAT, may be flagged contiguous). Deleting a file frees its chain on FAT
+// but usually not on exFAT, so a deleted file's clusters are taken from its
+// chain where one survives and are otherwise assumed contiguous from its
+// first cluster, which is how most files on removable media are laid out.
+
+/** Larger directories are read only this far; exFAT directories are capped at 256 MiB, FAT ones at 2 MiB. */
+const MAX_DIRECTORY_SIZE = 64 * 1024 * 1024;
+
+/** Bit of the exFAT volume flags set while the volume is mounted. */
+const EXFAT_VOLUME_DIRTY = 0x02;
+
+export interface FatFileRecord {
+  /** Byte offset (hex) of the file's directory entry on the volume. */
+  fileId: string;
+  parentId: string;
+  name: string;
+  shortName?: string;
+  attributes: number;
+  isDirectory: boolean;
+  isDeleted: boolean;
+  size: number;
+  /** Bytes past this point read as zeroes (exFAT valid data length). */
+  validSize: number;
+  created: Date;
+  modified: Date;
+  accessed: Date;
+  firstCluster: number;
+  runs: ClusterRun[];
+  recovery?: 'chain' | 'contiguous' | 'none';
+  overwritten?: boolean;
+  md5Hash?: string;
+  sha1Hash?: string;
+  sha256Hash?: string;
+}
+
+/** A directory waiting to be read: the root when `record` is null. */
+interface PendingDirectory {
+  record: FatFileRecord | null;
+  runs: ClusterRun[];
+}
+
+export class FatParser implements FileSystemVolume {
+  readonly fileSystem: FatType | 'exFAT';
+  private device: BlockDevice;
+  private boot: FatBootSector | ExfatBootSector | null = null;
+  private fat: FileAllocationTable | null = null;
+  /** exFAT allocation bitmap, one bit per cluster from cluster 2. */
+  private allocationBitmap: Uint8Array | null = null;
+  private findings: ValidationFinding[] = [];
+  private files: Map<string, FatFileRecord> = new Map();
+  private rootItems: FileSystemItem[] = [];
+  private items: Map<string, FileSystemItem> = new Map();
+  private brokenChains = 0;
+  private checksumErrors = 0;
+  private progressCallback?: (progress: ParseProgress) => void;
+  private options: FileSystemDriverOptions;
+
+  constructor(
+    device: BlockDevice,
+    fileSystem: FatType | 'exFAT',
+    progressCallback?: (progress: ParseProgress) => void,
+    options: FileSystemDriverOptions = {}
+  ) {
+    this.device = device;
+    this.fileSystem = fileSystem;
+    this.progressCallback = progressCallback;
+    this.options = options;
+  }
+
+  async parseImage(): Promise<FileSystemItem[]> {
+    try {
+      this.updateProgress(`Reading ${this.fileSystem} boot sector...`, 5);
+      await this.readBootSector();
+
+      this.updateProgress('Reading file allocation table...', 10);
+      await this.readAllocationTable();
+
+      this.updateProgress('Reading directories...', 20);
+      await this.readDirectories();
+
+      this.updateProgress('Calculating hashes...', 70);
+      await this.calculateHashes();
+
+      this.updateProgress('Building file system tree...', 95);
+      this.rootItems = this.buildFileTree();
+
+      this.updateProgress('Parse complete', 100);
+      return this.rootItems;
+    } catch (error) {
+      if (error instanceof ImageValidationError) throw error;
+      throw new Error(`${this.fileSystem} parsing failed: ${(error as Error).message}`);
+    }
+  }
+
+  private get layout() {
+    return { clusterSize: this.boot!.clusterSize, dataOffset: this.boot!.dataOffset };
+  }
+
+  private async readBootSector(): Promise<void> {
+    const check = `${this.fileSystem} boot sector`;
+    const view = await readView(this.device, 0, 512);
+    const boot = view && (this.fileSystem === 'exFAT' ? decodeExfatBootSector(view) : decodeFatBootSector(view));
+    if (!boot || ('fatType' in boot && boot.fatType !== this.fileSystem)) {
+      this.findings.push({ check, severity: 'error', offset: 0, message: `no valid ${this.fileSystem} boot sector` });
+      throw new ImageValidationError(this.getValidationReport());
+    }
+
+    if (boot.volumeSize > this.device.size) {
+      this.findings.push({
+        check: 'Volume size',
+        severity: 'warning',
+        offset: null,
+        message: `boot sector describes ${boot.volumeSize} bytes but the volume holds ${this.device.size} (truncated image?)`
+      });
+    }
+    if ('volumeFlags' in boot && boot.volumeFlags & EXFAT_VOLUME_DIRTY) {
+      this.findings.push({ check, severity: 'warning', offset: 106, message: 'the volume was not cleanly dismounted' });
+    }
+    this.boot = boot;
+  }
+
+  private async readAllocationTable(): Promise<void> {
+    const { fatOffset, fatSize, fatCount, clusterCount } = this.boot!;
+    const bytes = await this.device.read(fatOffset, fatSize);
+    this.fat = new FileAllocationTable(bytes, this.fileSystem, clusterCount);
+
+    // exFAT keeps a second FAT only for transaction-safe volumes, where it legitimately differs
+    if (fatCount > 1 && this.fileSystem !== 'exFAT') {
+      const mirror = await this.device.read(fatOffset + fatSize, fatSize).catch(() => null);
+      const difference = mirror ? bytes.findIndex((byte, index) => byte !== mirror[index]) : -1;
+      if (difference >= 0) {
+        this.findings.push({
+          check: 'FAT copies',
+          severity: 'warning',
+          offset: fatOffset + difference,
+          message: `the FAT copies differ from byte ${difference} on; the first copy is used`
+        });
+      }
+    }
+
+    if (this.fileSystem === 'exFAT') await this.readAllocationBitmap();
+  }
+
+  /** exFAT records cluster allocation in a bitmap file listed in the root directory. */
+  private async readAllocationBitmap(): Promise<void> {
+    const root = await this.readDirectoryBytes(this.fat!.chain(this.boot!.rootCluster).runs);
+    for (let position = 0; position + DIRECTORY_ENTRY_SIZE <= root.length; position += DIRECTORY_ENTRY_SIZE) {
+      if (root[position] === 0) break;
+      // The first bitmap; transaction-safe volumes have a second
+      if (root[position] !== EXFAT_ENTRY_BITMAP || root[position + 1] & 0x01) continue;
+
+      const view = new DataView(root.buffer, root.byteOffset + position, DIRECTORY_ENTRY_SIZE);
+      const firstCluster = view.getUint32(20, true);
+      const length = readUint64(view, 24);
+      this.allocationBitmap = await readClusterRuns(
+        this.fat!.chain(firstCluster).runs, this.layout, this.device, length, length, 0, length
+      );
+      return;
+    }
+
+    this.findings.push({
+      check: 'Allocation bitmap',
+      severity: 'warning',
+      offset: null,
+      message: 'the root directory lists no allocation bitmap; allocation is judged from the FAT'
+    });
+  }
+
+  private isAllocated(cluster: number): boolean {
+    if (this.allocationBitmap) {
+      const bit = cluster - 2;
+      return (this.allocationBitmap[bit >> 3] & (1 << (bit & 7))) !== 0;
+    }
+    return !this.fat!.isFree(cluster);
+  }
+
+  private async readDirectories(): Promise<void> {
+    const boot = this.boot!;
+    const visited = new Set<number>();
+    // FAT12/16 keep the root directory in a fixed region before the data area
+    const queue: PendingDirectory[] = [{ record: null, runs: boot.rootCluster ? this.fat!.chain(boot.rootCluster).runs : [] }];
+    let done = 0;
+
+    while (queue.length > 0) {
+      const directory = queue.shift()!;
+      const bytes = directory.runs.length > 0
+        ? await this.readDirectoryBytes(directory.runs)
+        : await this.device.read((boot as FatBootSector).rootDirOffset, (boot as FatBootSector).rootDirSize);
+      const offsetOf = (position: number) => directory.runs.length > 0
+        ? runsOffset(directory.runs, this.layout, position)
+        : (boot as FatBootSector).rootDirOffset + position;
+
+      // A deleted FAT directory's cluster may hold anything by now; it must still start with its "." entry
+      if (directory.record?.isDeleted && this.fileSystem !== 'exFAT' && (bytes[0] !== 0x2E || bytes[1] !== 0x20)) continue;
+
+      const children = this.fileSystem === 'exFAT'
+        ? this.decodeExfatDirectory(bytes, offsetOf, directory.record)
+        : this.decodeFatDirectory(bytes, offsetOf, directory.record);
+
+      for (const child of children) {
+        this.files.set(child.fileId, child);
+        const first = child.runs[0]?.cluster;
+        if (child.isDirectory && first !== undefined && !visited.has(first)) {
+          visited.add(first);
+          queue.push({ record: child, runs: child.runs });
+        }
+      }
+
+      done++;
+      if (done % 50 === 0) {
+        this.updateProgress(`Reading directories... (${done} read, ${queue.length} queued)`, 20 + Math.min(45, Math.round(done / 20)));
+      }
+    }
+
+    if (this.brokenChains > 0) {
+      this.findings.push({
+        check: 'Cluster chains',
+        severity: 'warning',
+        offset: null,
+        message: `${this.brokenChains} live file(s) have cluster chains that end early or loop; their content is incomplete`
+      });
+    }
+    if (this.checksumErrors > 0) {
+      this.findings.push({
+        check: 'Entry set checksums',
+        severity: 'warning',
+        offset: null,
+        message: `${this.checksumErrors} directory entry set(s) fail their checksum`
+      });
+    }
+  }
+
+  private async readDirectoryBytes(runs: ClusterRun[]): Promise<Uint8Array> {
+    const size = Math.min(countClusters(runs) * this.boot!.clusterSize, MAX_DIRECTORY_SIZE);
+    return readClusterRuns(runs, this.layout, this.device, size, size, 0, size);
+  }
+
+  private decodeFatDirectory(bytes: Uint8Array, offsetOf: (position: number) => number, parent: FatFileRecord | null): FatFileRecord[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const records: FatFileRecord[] = [];
+    let parts: FatLongNamePart[] = [];
+
+    for (let position = 0; position + DIRECTORY_ENTRY_SIZE <= bytes.length; position += DIRECTORY_ENTRY_SIZE) {
+      if (bytes[position] === 0) break;
+      const attributes = bytes[position + 11];
+      if ((attributes & 0x3F) === FAT_ATTRIBUTE_LONG_NAME) {
+        parts.push(decodeLongNamePart(view, position));
+        continue;
+      }
+
+      const entry = decodeShortEntry(view, position)!;
+      const longNameParts = parts;
+      parts = [];
+      // Volume labels, and the "." and ".." entries
+      if (attributes & FAT_ATTRIBUTE_VOLUME_ID || entry.rawName[0] === 0x2E) continue;
+
+      const longName = assembleLongName(longNameParts, entry.rawName, entry.deleted);
+      // The first character of a deleted 8.3 name is lost unless its long name's checksum restored it
+      if (entry.rawName[0] === FAT_DELETED_MARKER && entry.deleted) entry.rawName[0] = 0x5F;
+      const shortName = formatShortName(entry.rawName, bytes[position + 12]);
+
+      const isDirectory = (attributes & FAT_ATTRIBUTE_DIRECTORY) !== 0;
+      const isDeleted = entry.deleted || (parent?.isDeleted ?? false);
+      // FAT12/16 entries may hold junk where FAT32 keeps the high word of the cluster number
+      const firstCluster = this.fileSystem === 'FAT32' ? entry.firstCluster : entry.firstCluster & 0xFFFF;
+      const size = isDirectory ? 0 : entry.fileSize;
+
+      records.push({
+        fileId: offsetOf(position).toString(16).padStart(10, '0'),
+        parentId: parent?.fileId ?? '',
+        name: longName ?? shortName,
+        shortName,
+        attributes,
+        isDirectory,
+        isDeleted,
+        size,
+        validSize: size,
+        created: entry.created,
+        modified: entry.modified,
+        accessed: entry.accessed,
+        firstCluster,
+        ...this.locateClusters(firstCluster, size, isDirectory, isDeleted, false)
+      });
+    }
+    return records;
+  }
+
+  private decodeExfatDirectory(bytes: Uint8Array, offsetOf: (position: number) => number, parent: FatFileRecord | null): FatFileRecord[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const records: FatFileRecord[] = [];
+
+    for (let position = 0; position + DIRECTORY_ENTRY_SIZE <= bytes.length; position += DIRECTORY_ENTRY_SIZE) {
+      const type = bytes[position];
+      if (type === 0) break;
+      if ((type & 0x7F) !== EXFAT_ENTRY_FILE) continue;
+
+      const inUse = (type & EXFAT_ENTRY_IN_USE) !== 0;
+      const secondaryCount = bytes[position + 1];
+      const setEnd = position + (secondaryCount + 1) * DIRECTORY_ENTRY_SIZE;
+      const stream = position + DIRECTORY_ENTRY_SIZE;
+      if (secondaryCount < 2 || setEnd > bytes.length || (bytes[stream] & 0x7F) !== EXFAT_ENTRY_STREAM) continue;
+
+      // A set whose entries disagree on being in use was partly overwritten
+      let consistent = true;
+      for (let entry = stream; entry < setEnd; entry += DIRECTORY_ENTRY_SIZE) {
+        if (((bytes[entry] & EXFAT_ENTRY_IN_USE) !== 0) !== inUse) consistent = false;
+      }
+      if (!consistent) continue;
+      if (inUse && entrySetChecksum(bytes, position, setEnd - position) !== view.getUint16(position + 2, true)) {
+        this.checksumErrors++;
+      }
+
+      const nameLength = bytes[stream + 3];
+      let name = '';
+      for (let entry = stream + DIRECTORY_ENTRY_SIZE; entry < setEnd; entry += DIRECTORY_ENTRY_SIZE) {
+        if ((bytes[entry] & 0x7F) === EXFAT_ENTRY_NAME) name += readUtf16(view, entry + 2, 30);
+      }
+
+      const attributes = view.getUint16(position + 4, true);
+      const isDirectory = (attributes & FAT_ATTRIBUTE_DIRECTORY) !== 0;
+      const isDeleted = !inUse || (parent?.isDeleted ?? false);
+      const firstCluster = view.getUint32(stream + 20, true);
+      const size = readUint64(view, stream + 24);
+      const noFatChain = (bytes[stream + 1] & EXFAT_FLAG_NO_FAT_CHAIN) !== 0;
+
+      records.push({
+        fileId: offsetOf(position).toString(16).padStart(10, '0'),
+        parentId: parent?.fileId ?? '',
+        name: name.slice(0, nameLength),
+        attributes,
+        isDirectory,
+        isDeleted,
+        size: isDirectory ? 0 : size,
+        validSize: isDirectory ? 0 : Math.min(readUint64(view, stream + 8), size),
+        created: decodeExfatTime(view.getUint32(position + 8, true), bytes[position + 20], bytes[position + 22]),
+        modified: decodeExfatTime(view.getUint32(position + 12, true), bytes[position + 21], bytes[position + 23]),
+        accessed: decodeExfatTime(view.getUint32(position + 16, true), 0, bytes[position + 24]),
+        firstCluster,
+        // Unlike FAT, exFAT records the size of directories, so they are located like files
+        ...this.locateClusters(firstCluster, size, false, isDeleted, noFatChain)
+      });
+      position = setEnd - DIRECTORY_ENTRY_SIZE;
+    }
+    return records;
+  }
+
+  /**
+   * The clusters holding `size` bytes from `firstCluster`. A FAT directory
+   * records no size: a live one is its whole chain, a deleted one is
+   * recovered as its first cluster.
+   */
+  private locateClusters(
+    firstCluster: number,
+    size: number,
+    isDirectory: boolean,
+    isDeleted: boolean,
+    noFatChain: boolean
+  ): Pick<FatFileRecord, 'runs' | 'recovery' | 'overwritten'> {
+    const fat = this.fat!;
+    const clusterSize = this.boot!.clusterSize;
+    const needed = isDirectory ? 1 : Math.ceil(size / clusterSize);
+    if (needed === 0) return { runs: [] };
+
+    if (!fat.isValidCluster(firstCluster)) {
+      if (!isDeleted) this.brokenChains++;
+      return { runs: [], recovery: isDeleted ? 'none' : undefined };
+    }
+    // Clusters past the end of the volume cannot be part of the file
+    const contiguous = () => contiguousRuns(firstCluster, Math.min(needed, fat.clusterCount + 2 - firstCluster));
+
+    if (!isDeleted) {
+      if (noFatChain) return { runs: contiguous() };
+      const { runs, complete } = fat.chain(firstCluster);
+      if (!complete || (!isDirectory && countClusters(runs) < needed)) this.brokenChains++;
+      return { runs };
+    }
+
+    let runs: ClusterRun[];
+    let recovery: FatFileRecord['recovery'];
+    // FAT frees a deleted file's chain, so a chain found there now is another file's
+    const chain = this.fileSystem === 'exFAT' && !noFatChain ? fat.chain(firstCluster) : null;
+    if (chain?.complete && countClusters(chain.runs) >= needed) {
+      runs = chain.runs;
+      recovery = 'chain';
+    } else {
+      runs = contiguous();
+      recovery = 'contiguous';
+    }
+
+    const overwritten = runs.some(run => {
+      for (let cluster = run.cluster; cluster < run.cluster + run.count; cluster++) {
+        if (this.isAllocated(cluster)) return true;
+      }
+      return false;
+    });
+    return { runs, recovery, overwritten };
+  }
+
+  private async calculateHashes(): Promise<void> {
+    const jobs: HashJob[] = [];
+    for (const [fileId, file] of this.files) {
+      if (file.isDirectory) continue;
+      const plan = planClusterRuns(file.runs, this.layout, file.size, file.validSize);
+      if (plan) jobs.push({ id: fileId, name: file.name, plan });
+    }
+
+    const source = this.options.source ?? this.device;
+    const digests = await hashFiles(source, jobs, progress => {
+      const percentage = 70 + Math.round((progress.processedFiles / progress.totalFiles) * 25);
+      this.updateProgress(`Calculating hashes... (${progress.processedFiles}/${progress.totalFiles})`, percentage, progress);
+    });
+
+    for (const [fileId, digest] of digests) {
+      const file = this.files.get(fileId)!;
+      file.md5Hash = digest.md5;
+      file.sha1Hash = digest.sha1;
+      file.sha256Hash = digest.sha256;
+    }
+  }
+
+  private buildFileTree(): FileSystemItem[] {
+    const itemMap = new Map<string, FileSystemItem>();
+    const { evidenceId, volumeId } = this.options;
+    const clusterSize = this.boot!.clusterSize;
+
+    for (const [fileId, file] of this.files) {
+      itemMap.set(fileId, {
+        id: scopedItemId(this.options, fileId),
+        evidenceId,
+        volumeId,
+        name: file.name,
+        type: file.isDirectory ? 'directory' : 'file',
+        size: file.size,
+        created: file.created,
+        modified: file.modified,
+        accessed: file.accessed,
+        path: '',
+        children: file.isDirectory ? [] : undefined,
+        metadata: {
+          fileId,
+          parentId: file.parentId,
+          attributes: file.attributes,
+          allocatedSize: countClusters(file.runs) * clusterSize,
+          deleted: file.isDeleted,
+          allocated: !file.isDeleted,
+          isDeleted: file.isDeleted,
+          md5Hash: file.md5Hash,
+          sha1Hash: file.sha1Hash,
+          sha256Hash: file.sha256Hash,
+          fat: {
+            firstCluster: file.firstCluster,
+            shortName: file.shortName,
+            recovery: file.recovery,
+            overwritten: file.overwritten
+          }
+        }
+      });
+    }
+
+    this.items = itemMap;
+    return linkFileTree(itemMap, fileId => this.files.get(fileId)!.parentId);
+  }
+
+  private updateProgress(message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>): void {
+    this.progressCallback?.({ message, percentage, ...files });
+  }
+
+  getRootItems(): FileSystemItem[] {
+    return this.rootItems;
+  }
+
+  listDirectory(directoryFileId?: string): FileSystemItem[] {
+    if (directoryFileId === undefined) return this.rootItems;
+    return this.items.get(directoryFileId)?.children ?? [];
+  }
+
+  getDeletedEntries(): FileSystemItem[] {
+    return collectItems(this.rootItems, item => item.metadata?.deleted === true);
+  }
+
+  getBootSector(): FatBootSector | ExfatBootSector | null {
+    return this.boot;
+  }
+
+  /**
+   * Reads up to `length` bytes of a file starting at `offset`. Deleted
+   * files read from their recovered clusters. FAT has no named streams.
+   */
+  async readFileContent(fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    const file = this.files.get(fileId);
+    if (!file || file.isDirectory || streamName !== '') return null;
+    return readClusterRuns(file.runs, this.layout, this.device, file.size, file.validSize, offset, length);
+  }
+
+  getValidationReport(): ValidationReport {
+    return createValidationReport(`${this.fileSystem} volume`, this.findings);
+  }
+
+  isSimulated(): boolean {
+    return false;
+  }
+}
+
+async function probeFat(device: BlockDevice, fileSystem: FatType): Promise<ProbeResult> {
+  const view = await readView(device, 0, 512);
+  const boot = view && decodeFatBootSector(view);
+  const media = view?.getUint8(21) ?? 0;
+  // The first FAT entry repeats the media descriptor in its low byte
+  const firstEntry = boot && await readView(device, boot.fatOffset, 1);
+  // The extended BPB follows the FAT32-only fields; its label is only a hint, the cluster count decides the type
+  const extended = fileSystem === 'FAT32' ? 64 : 36;
+
+  return scoreProbe([
+    { description: `BIOS parameter block describes a ${fileSystem} volume`, passed: boot?.fatType === fileSystem, weight: 3, required: true },
+    { description: 'Extended boot signature is present', passed: view?.getUint8(extended + 2) === 0x29, weight: 1 },
+    { description: `Type label reads "${fileSystem}"`, passed: !!view && readAscii(view, extended + 18, 8).trim() === fileSystem, weight: 1 },
+    { description: 'Media descriptor is valid', passed: media === 0xF0 || media >= 0xF8, weight: 1 },
+    { description: 'First FAT entry repeats the media descriptor', passed: firstEntry?.getUint8(0) === media, weight: 1 },
+    { description: 'Volume fits in the image', passed: !!boot && boot.volumeSize <= device.size, weight: 1 }
+  ]);
+}
+
+async function probeExfat(device: BlockDevice): Promise<ProbeResult> {
+  const view = await readView(device, 0, 512);
+  const boot = view && decodeExfatBootSector(view);
+  const region = boot && await readView(device, 0, boot.bytesPerSector * 12);
+  const checksumValid = !!boot && !!region && region.getUint32(boot.bytesPerSector * 11, true) ===
+    bootRegionChecksum(new Uint8Array(region.buffer, region.byteOffset, region.byteLength), boot.bytesPerSector);
+
+  return scoreProbe([
+    { description: 'OEM ID is "EXFAT"', passed: !!view && readAscii(view, 3, 8) === EXFAT_OEM_ID, weight: 3, required: true },
+    { description: 'Boot sector geometry is valid', passed: !!boot, weight: 1 },
+    // Where FAT keeps its BIOS parameter block, exFAT must be all zeroes
+    { description: 'Legacy BPB area is zeroed', passed: !!view && new Uint8Array(view.buffer, view.byteOffset + 11, 53).every(byte => byte === 0), weight: 1 },
+    { description: 'Boot region checksum matches', passed: checksumValid, weight: 2 },
+    { description: 'Volume fits in the image', passed: !!boot && boot.volumeSize <= device.size, weight: 1 }
+  ]);
+}
+
+function createFatDriver(fileSystem: FatType | 'exFAT'): FileSystemDriver {
+  return {
+    fileSystem,
+
+    async probe(device) {
+      return fileSystem === 'exFAT' ? probeExfat(device) : probeFat(device, fileSystem);
+    },
+
+    async open(device, options, onProgress) {
+      const parser = new FatParser(device, fileSystem, onProgress, options);
+      await parser.parseImage();
+      return parser;
+    }
+  };
+}
+
+/** One driver per FAT variant, so each volume reports the variant it is. */
+export const fatDrivers: FileSystemDriver[] = (['FAT12', 'FAT16', 'FAT32', 'exFAT'] as const).map(createFatDriver);
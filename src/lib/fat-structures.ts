@@ -0,0 +1,492 @@
+import { readAscii, readUint64, readUtf16 } from './byte-reader';
+import type { BlockDevice } from './block-device';
+import { pushSegment } from './content-plan';
+import type { ContentSegment } from './content-plan';
+
+// On-disk structures of FAT12/16/32 and exFAT. Both divide the volume into
+// a file allocation table, whose entry for each cluster points at the next
+// cluster of its file, and a data area of clusters numbered from 2.
+// Directories are files of 32-byte entries: FAT keeps an 8.3 entry per file,
+// preceded by long file name (LFN) entries; exFAT keeps a set of a file
+// entry, a stream extension and name entries. Deleting a file only marks
+// its entries, which is what makes deleted files recoverable.
+
+export type FatType = 'FAT12' | 'FAT16' | 'FAT32';
+
+export const FAT_ATTRIBUTE_VOLUME_ID = 0x08;
+export const FAT_ATTRIBUTE_DIRECTORY = 0x10;
+/** Read-only, hidden, system and volume ID together mark an LFN entry. */
+export const FAT_ATTRIBUTE_LONG_NAME = 0x0F;
+
+export const DIRECTORY_ENTRY_SIZE = 32;
+export const FAT_DELETED_MARKER = 0xE5;
+/** A short name starting with 0xE5 is stored with 0x05 so it does not read as deleted. */
+const FAT_KANJI_E5 = 0x05;
+const LFN_LAST_ENTRY = 0x40;
+
+export const EXFAT_OEM_ID = 'EXFAT   ';
+/** exFAT entry type bit that is cleared when the entry is deleted. */
+export const EXFAT_ENTRY_IN_USE = 0x80;
+export const EXFAT_ENTRY_BITMAP = 0x81;
+export const EXFAT_ENTRY_LABEL = 0x83;
+/** Entry types without the in-use bit, so deleted entries match too. */
+export const EXFAT_ENTRY_FILE = 0x05;
+export const EXFAT_ENTRY_STREAM = 0x40;
+export const EXFAT_ENTRY_NAME = 0x41;
+/** Stream extension flag: the clusters are contiguous and the FAT is not used. */
+export const EXFAT_FLAG_NO_FAT_CHAIN = 0x02;
+
+const FAT12_MAX_CLUSTERS = 4084;
+const FAT16_MAX_CLUSTERS = 65524;
+
+export interface FatBootSector {
+  fatType: FatType;
+  bytesPerSector: number;
+  clusterSize: number;
+  fatCount: number;
+  /** Byte offset and size of the first FAT. */
+  fatOffset: number;
+  fatSize: number;
+  /** The fixed root directory region of FAT12/16; size 0 on FAT32. */
+  rootDirOffset: number;
+  rootDirSize: number;
+  /** FAT32 root directory cluster; 0 on FAT12/16. */
+  rootCluster: number;
+  /** Byte offset of cluster 2. */
+  dataOffset: number;
+  clusterCount: number;
+  volumeSize: number;
+  volumeLabel: string;
+  volumeSerial: string;
+}
+
+export interface ExfatBootSector {
+  bytesPerSector: number;
+  clusterSize: number;
+  fatCount: number;
+  fatOffset: number;
+  fatSize: number;
+  dataOffset: number;
+  clusterCount: number;
+  rootCluster: number;
+  volumeSize: number;
+  volumeSerial: string;
+  /** Bit 1 is set while the volume is mounted (not cleanly dismounted). */
+  volumeFlags: number;
+}
+
+/** Consecutive clusters of a file, in file order. */
+export interface ClusterRun {
+  cluster: number;
+  count: number;
+}
+
+/** Where clusters live: the data area starts with cluster 2. */
+export interface ClusterLayout {
+  clusterSize: number;
+  dataOffset: number;
+}
+
+export interface FatShortEntry {
+  /** The 8.3 name as displayed ("README.TXT"), with NT lower-case flags applied. */
+  shortName: string;
+  /** The 11 name bytes as stored, for the LFN checksum. */
+  rawName: Uint8Array;
+  attributes: number;
+  created: Date;
+  modified: Date;
+  accessed: Date;
+  firstCluster: number;
+  fileSize: number;
+  deleted: boolean;
+}
+
+export interface FatLongNamePart {
+  /** Sequence number (1 for the part holding the start of the name); 0 once deleted. */
+  order: number;
+  last: boolean;
+  checksum: number;
+  text: string;
+}
+
+const isPowerOfTwo = (value: number) => value > 0 && (value & (value - 1)) === 0;
+
+export function decodeFatBootSector(view: DataView): FatBootSector | null {
+  if (view.byteLength < 512 || view.getUint16(510, true) !== 0xAA55) return null;
+  const jump = view.getUint8(0);
+  if (jump !== 0xEB && jump !== 0xE9) return null;
+
+  const bytesPerSector = view.getUint16(11, true);
+  const sectorsPerCluster = view.getUint8(13);
+  const reservedSectors = view.getUint16(14, true);
+  const fatCount = view.getUint8(16);
+  const rootEntryCount = view.getUint16(17, true);
+  const totalSectors = view.getUint16(19, true) || view.getUint32(32, true);
+  const fatSectors = view.getUint16(22, true) || view.getUint32(36, true);
+  if (!isPowerOfTwo(bytesPerSector) || bytesPerSector < 512 || bytesPerSector > 4096) return null;
+  if (!isPowerOfTwo(sectorsPerCluster) || reservedSectors === 0 || fatCount === 0 || fatSectors === 0) return null;
+
+  const rootDirSectors = Math.ceil((rootEntryCount * DIRECTORY_ENTRY_SIZE) / bytesPerSector);
+  const firstDataSector = reservedSectors + fatCount * fatSectors + rootDirSectors;
+  if (firstDataSector >= totalSectors) return null;
+
+  // The cluster count alone decides the FAT type, whatever the label says
+  const clusterCount = Math.floor((totalSectors - firstDataSector) / sectorsPerCluster);
+  const fatType: FatType = clusterCount <= FAT12_MAX_CLUSTERS ? 'FAT12' : clusterCount <= FAT16_MAX_CLUSTERS ? 'FAT16' : 'FAT32';
+  if ((fatType === 'FAT32') !== (rootEntryCount === 0)) return null;
+
+  // The extended BPB (serial, label) follows the FAT32-only fields
+  const extended = fatType === 'FAT32' ? 64 : 36;
+  const hasExtendedBpb = view.getUint8(extended + 2) === 0x29;
+
+  return {
+    fatType,
+    bytesPerSector,
+    clusterSize: bytesPerSector * sectorsPerCluster,
+    fatCount,
+    fatOffset: reservedSectors * bytesPerSector,
+    fatSize: fatSectors * bytesPerSector,
+    rootDirOffset: (reservedSectors + fatCount * fatSectors) * bytesPerSector,
+    rootDirSize: rootEntryCount * DIRECTORY_ENTRY_SIZE,
+    rootCluster: fatType === 'FAT32' ? view.getUint32(44, true) : 0,
+    dataOffset: firstDataSector * bytesPerSector,
+    clusterCount,
+    volumeSize: totalSectors * bytesPerSector,
+    volumeLabel: hasExtendedBpb ? readAscii(view, extended + 7, 11).trim() : '',
+    volumeSerial: hasExtendedBpb ? formatVolumeSerial(view.getUint32(extended + 3, true)) : ''
+  };
+}
+
+export function decodeExfatBootSector(view: DataView): ExfatBootSector | null {
+  if (view.byteLength < 512 || readAscii(view, 3, 8) !== EXFAT_OEM_ID || view.getUint16(510, true) !== 0xAA55) return null;
+
+  const bytesPerSectorShift = view.getUint8(108);
+  const sectorsPerClusterShift = view.getUint8(109);
+  if (bytesPerSectorShift < 9 || bytesPerSectorShift > 12 || bytesPerSectorShift + sectorsPerClusterShift > 25) return null;
+
+  const bytesPerSector = 2 ** bytesPerSectorShift;
+  const clusterCount = view.getUint32(92, true);
+  const rootCluster = view.getUint32(96, true);
+  const fatCount = view.getUint8(110);
+  if (rootCluster < 2 || rootCluster > clusterCount + 1 || (fatCount !== 1 && fatCount !== 2)) return null;
+
+  return {
+    bytesPerSector,
+    clusterSize: bytesPerSector * 2 ** sectorsPerClusterShift,
+    fatCount,
+    fatOffset: view.getUint32(80, true) * bytesPerSector,
+    fatSize: view.getUint32(84, true) * bytesPerSector,
+    dataOffset: view.getUint32(88, true) * bytesPerSector,
+    clusterCount,
+    rootCluster,
+    volumeSize: readUint64(view, 72) * bytesPerSector,
+    volumeSerial: formatVolumeSerial(view.getUint32(100, true)),
+    volumeFlags: view.getUint16(106, true)
+  };
+}
+
+/** "1234-ABCD", as Windows shows FAT and exFAT serial numbers. */
+function formatVolumeSerial(serial: number): string {
+  const hex = serial.toString(16).toUpperCase().padStart(8, '0');
+  return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+}
+
+/**
+ * The file allocation table, decoded up front. Each entry holds the next
+ * cluster of its chain, 0 for a free cluster, or an end-of-chain / bad
+ * cluster marker.
+ */
+export class FileAllocationTable {
+  readonly clusterCount: number;
+  private entries: Uint32Array;
+  /** The bad cluster marker; values above it end a chain. */
+  private badCluster: number;
+
+  constructor(bytes: Uint8Array, type: FatType | 'exFAT', clusterCount: number) {
+    this.clusterCount = clusterCount;
+    const count = clusterCount + 2;
+    this.entries = new Uint32Array(count);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    if (type === 'FAT12') {
+      // Two 12-bit entries share three bytes
+      for (let cluster = 0; cluster < count && Math.floor(cluster * 1.5) + 1 < bytes.length; cluster++) {
+        const pair = view.getUint16(Math.floor(cluster * 1.5), true);
+        this.entries[cluster] = cluster & 1 ? pair >> 4 : pair & 0x0FFF;
+      }
+      this.badCluster = 0xFF7;
+    } else if (type === 'FAT16') {
+      for (let cluster = 0; cluster < count && cluster * 2 + 2 <= bytes.length; cluster++) {
+        this.entries[cluster] = view.getUint16(cluster * 2, true);
+      }
+      this.badCluster = 0xFFF7;
+    } else {
+      // FAT32 entries are 28 bits; the top four are reserved
+      const mask = type === 'FAT32' ? 0x0FFFFFFF : 0xFFFFFFFF;
+      for (let cluster = 0; cluster < count && cluster * 4 + 4 <= bytes.length; cluster++) {
+        this.entries[cluster] = view.getUint32(cluster * 4, true) & mask;
+      }
+      this.badCluster = type === 'FAT32' ? 0x0FFFFFF7 : 0xFFFFFFF7;
+    }
+  }
+
+  isValidCluster(cluster: number): boolean {
+    return cluster >= 2 && cluster < this.clusterCount + 2;
+  }
+
+  isFree(cluster: number): boolean {
+    return this.entries[cluster] === 0;
+  }
+
+  /**
+   * Follows a chain from its first cluster. `complete` is false when the
+   * chain runs into a free or bad cluster, leaves the volume or loops.
+   */
+  chain(firstCluster: number): { runs: ClusterRun[]; complete: boolean } {
+    const runs: ClusterRun[] = [];
+    let cluster = firstCluster;
+    for (let length = 0; length <= this.clusterCount; length++) {
+      if (!this.isValidCluster(cluster)) return { runs, complete: false };
+      appendCluster(runs, cluster);
+
+      const next = this.entries[cluster];
+      if (next >= this.badCluster) return { runs, complete: next > this.badCluster };
+      if (next === 0) return { runs, complete: false };
+      cluster = next;
+    }
+    return { runs, complete: false };
+  }
+}
+
+export function appendCluster(runs: ClusterRun[], cluster: number): void {
+  const last = runs[runs.length - 1];
+  if (last && last.cluster + last.count === cluster) last.count++;
+  else runs.push({ cluster, count: 1 });
+}
+
+/** `count` clusters from `firstCluster` on, as one run. */
+export function contiguousRuns(firstCluster: number, count: number): ClusterRun[] {
+  return count > 0 ? [{ cluster: firstCluster, count }] : [];
+}
+
+export function countClusters(runs: ClusterRun[]): number {
+  return runs.reduce((total, run) => total + run.count, 0);
+}
+
+/**
+ * Reads `length` bytes at `offset` of a file stored in `runs`. Reads are
+ * clamped to `size`; bytes past `validSize` (exFAT's valid data length)
+ * read as zeroes, as do bytes the runs do not reach.
+ */
+export async function readClusterRuns(
+  runs: ClusterRun[],
+  layout: ClusterLayout,
+  device: BlockDevice,
+  size: number,
+  validSize: number,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  const end = Math.min(offset + length, size);
+  const result = new Uint8Array(Math.max(0, end - offset));
+  const validEnd = Math.min(end, validSize);
+
+  let runStart = 0;
+  for (const run of runs) {
+    const runEnd = runStart + run.count * layout.clusterSize;
+    const from = Math.max(offset, runStart);
+    const to = Math.min(validEnd, runEnd);
+    if (from < to) {
+      const deviceOffset = layout.dataOffset + (run.cluster - 2) * layout.clusterSize + (from - runStart);
+      result.set(await device.read(deviceOffset, to - from), from - offset);
+    }
+    if (runEnd >= validEnd) break;
+    runStart = runEnd;
+  }
+  return result;
+}
+
+/**
+ * Describes where every byte of a file lives, following the rules of
+ * `readClusterRuns`. Null when the runs do not reach the valid data length,
+ * i.e. the content is not fully known.
+ */
+export function planClusterRuns(runs: ClusterRun[], layout: ClusterLayout, size: number, validSize: number): ContentSegment[] | null {
+  const validEnd = Math.min(size, validSize);
+  if (countClusters(runs) * layout.clusterSize < validEnd) return null;
+
+  const plan: ContentSegment[] = [];
+  let position = 0;
+  for (const run of runs) {
+    if (position >= validEnd) break;
+    const length = Math.min(run.count * layout.clusterSize, validEnd - position);
+    pushSegment(plan, { kind: 'image', offset: layout.dataOffset + (run.cluster - 2) * layout.clusterSize, length });
+    position += length;
+  }
+  if (size > position) pushSegment(plan, { kind: 'zero', length: size - position });
+  return plan;
+}
+
+/** Byte offset on the volume of `position` within a file stored in `runs`. */
+export function runsOffset(runs: ClusterRun[], layout: ClusterLayout, position: number): number {
+  let runStart = 0;
+  for (const run of runs) {
+    const runLength = run.count * layout.clusterSize;
+    if (position < runStart + runLength) {
+      return layout.dataOffset + (run.cluster - 2) * layout.clusterSize + (position - runStart);
+    }
+    runStart += runLength;
+  }
+  throw new RangeError(`position ${position} is past the end of the clusters`);
+}
+
+/**
+ * FAT date and time fields hold local time with no zone; they are decoded
+ * as if they were UTC. A zero date (never set) decodes as the epoch.
+ */
+export function decodeFatTime(date: number, time: number = 0, hundredths: number = 0): Date {
+  if (date === 0) return new Date(0);
+  return new Date(Date.UTC(
+    1980 + (date >> 9),
+    ((date >> 5) & 0x0F) - 1,
+    date & 0x1F,
+    time >> 11,
+    (time >> 5) & 0x3F,
+    (time & 0x1F) * 2,
+    hundredths * 10
+  ));
+}
+
+/**
+ * An exFAT timestamp: the FAT date and time packed in 32 bits, a 10 ms
+ * increment, and an optional UTC offset in 15-minute steps (bit 7 marks it
+ * valid). Without one the time is local and decoded as if UTC.
+ */
+export function decodeExfatTime(timestamp: number, increment: number, utcOffset: number): Date {
+  const local = decodeFatTime(timestamp >>> 16, timestamp & 0xFFFF, increment);
+  if (timestamp === 0 || !(utcOffset & 0x80)) return local;
+  // Sign-extend the 7-bit offset
+  const quarters = utcOffset & 0x40 ? (utcOffset & 0x7F) - 0x80 : utcOffset & 0x7F;
+  return new Date(local.getTime() - quarters * 15 * 60 * 1000);
+}
+
+/** Decodes an 8.3 entry; null for LFN entries and the end-of-directory marker. */
+export function decodeShortEntry(view: DataView, offset: number): FatShortEntry | null {
+  const first = view.getUint8(offset);
+  const attributes = view.getUint8(offset + 11);
+  if (first === 0 || (attributes & 0x3F) === FAT_ATTRIBUTE_LONG_NAME) return null;
+
+  const rawName = new Uint8Array(view.buffer, view.byteOffset + offset, 11).slice();
+  if (first === FAT_KANJI_E5) rawName[0] = FAT_DELETED_MARKER;
+  const deleted = first === FAT_DELETED_MARKER;
+
+  return {
+    shortName: formatShortName(rawName, view.getUint8(offset + 12)),
+    rawName,
+    attributes,
+    created: decodeFatTime(view.getUint16(offset + 16, true), view.getUint16(offset + 14, true), view.getUint8(offset + 13)),
+    modified: decodeFatTime(view.getUint16(offset + 24, true), view.getUint16(offset + 22, true)),
+    accessed: decodeFatTime(view.getUint16(offset + 18, true)),
+    firstCluster: (view.getUint16(offset + 20, true) << 16 | view.getUint16(offset + 26, true)) >>> 0,
+    fileSize: view.getUint32(offset + 28, true),
+    deleted
+  };
+}
+
+/** "NAME    EXT" as "NAME.EXT"; Windows NT flags in byte 12 mark an all-lower-case base (0x08) or extension (0x10). */
+export function formatShortName(rawName: Uint8Array, caseFlags: number = 0): string {
+  const view = new DataView(rawName.buffer, rawName.byteOffset, rawName.byteLength);
+  let base = readAscii(view, 0, 8).trimEnd();
+  let extension = readAscii(view, 8, 3).trimEnd();
+  if (caseFlags & 0x08) base = base.toLowerCase();
+  if (caseFlags & 0x10) extension = extension.toLowerCase();
+  return extension ? `${base}.${extension}` : base;
+}
+
+export function decodeLongNamePart(view: DataView, offset: number): FatLongNamePart {
+  const sequence = view.getUint8(offset);
+  const deleted = sequence === FAT_DELETED_MARKER;
+  // Thirteen UTF-16 characters in three pieces around the entry's fixed fields
+  const text = readUtf16(view, offset + 1, 10) + readUtf16(view, offset + 14, 12) + readUtf16(view, offset + 28, 4);
+  return {
+    order: deleted ? 0 : sequence & 0x1F,
+    last: !deleted && (sequence & LFN_LAST_ENTRY) !== 0,
+    checksum: view.getUint8(offset + 13),
+    text
+  };
+}
+
+/** The checksum LFN entries carry of their 8.3 name. */
+export function longNameChecksum(rawName: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < 11; i++) {
+    sum = (((sum & 1) << 7) + (sum >> 1) + rawName[i]) & 0xFF;
+  }
+  return sum;
+}
+
+/**
+ * Joins the LFN parts that preceded an 8.3 entry (in on-disk order, i.e.
+ * last part first) into the long name, or null when they do not belong to
+ * it. For a live entry the sequence numbers and checksum must match. A
+ * deleted entry has lost both its sequence numbers and the first byte of
+ * its 8.3 name; its parts are accepted when some first byte makes the
+ * checksum match, and that byte is restored into `rawName`.
+ */
+export function assembleLongName(parts: FatLongNamePart[], rawName: Uint8Array, deleted: boolean): string | null {
+  if (parts.length === 0) return null;
+
+  if (!deleted) {
+    const checksum = longNameChecksum(rawName);
+    const valid = parts.every((part, index) => part.order === parts.length - index && part.checksum === checksum) && parts[0].last;
+    return valid ? joinLongName(parts) : null;
+  }
+
+  const checksum = parts[0].checksum;
+  if (parts.some(part => part.order !== 0 || part.checksum !== checksum)) return null;
+
+  // The likeliest first byte is the long name's own first letter
+  const name = joinLongName(parts);
+  const guess = name.charAt(0).toUpperCase().charCodeAt(0);
+  const candidates = [guess, ...Array.from({ length: 256 }, (_, byte) => byte).filter(byte => byte !== guess && byte > 0x20)];
+  for (const candidate of candidates) {
+    if (candidate > 0xFF) continue;
+    rawName[0] = candidate;
+    if (longNameChecksum(rawName) === checksum) return name;
+  }
+  rawName[0] = FAT_DELETED_MARKER;
+  return null;
+}
+
+function joinLongName(parts: FatLongNamePart[]): string {
+  const text = [...parts].reverse().map(part => part.text).join('');
+  const end = text.indexOf('\0');
+  return end >= 0 ? text.slice(0, end) : text;
+}
+
+/**
+ * The checksum over an exFAT entry set, which skips the checksum field
+ * itself (bytes 2-3 of the file entry).
+ */
+export function entrySetChecksum(bytes: Uint8Array, offset: number, length: number): number {
+  let checksum = 0;
+  for (let i = 0; i < length; i++) {
+    if (i === 2 || i === 3) continue;
+    checksum = ((checksum & 1 ? 0x8000 : 0) + (checksum >> 1) + bytes[offset + i]) & 0xFFFF;
+  }
+  return checksum;
+}
+
+/**
+ * The checksum of the exFAT boot region (its first eleven sectors), which
+ * skips the volume flags and percent-in-use fields since those change
+ * while mounted. Sector 11 repeats it to fill the sector.
+ */
+export function bootRegionChecksum(bytes: Uint8Array, bytesPerSector: number): number {
+  let checksum = 0;
+  for (let i = 0; i < bytesPerSector * 11; i++) {
+    if (i === 106 || i === 107 || i === 112) continue;
+    checksum = ((checksum & 1 ? 0x80000000 : 0) + (checksum >>> 1) + bytes[i]) >>> 0;
+  }
+  return checksum;
+}
@@ -0,0 +1,287 @@
+import type { BlockDevice } from './block-device';
+
+// Signature carving: finds files in raw bytes by their headers alone, with
+// no file system metadata to go by, the way data is recovered from volumes
+// of unknown format. Headers are looked for at sector boundaries, where
+// file systems start files. Each file's end is taken from its own structure
+// where the format allows (PNG chunks, JPEG segments), otherwise from a
+// footer, otherwise the file is cut at a size limit for its type.
+
+/** Headers are looked for at the start of each sector. */
+const CARVE_ALIGNMENT = 512;
+/** Bytes read at once while scanning for headers or footers. */
+const SCAN_CHUNK_SIZE = 4 * 1024 * 1024;
+/** Scanning stops after this many files. */
+export const MAX_CARVED_FILES = 10000;
+
+const MiB = 1024 * 1024;
+
+export interface CarvedFile {
+  /** Byte offset of the file in the volume. */
+  offset: number;
+  length: number;
+  /** File type the signature identifies, e.g. 'JPEG'. */
+  type: string;
+  extension: string;
+  /** False when no end was found and the file was cut at the type's size limit. */
+  complete: boolean;
+}
+
+/** Where a file ends; null when the header turned out not to start a file of the type. */
+type CarvedEnd = { length: number; complete: boolean } | null;
+
+interface CarvingSignature {
+  type: string;
+  extension: string;
+  header: number[];
+  maxSize: number;
+  /** Finds the end of a file starting at `offset`, reading no further than `limit`. */
+  measure(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd>;
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+async function readBytes(device: BlockDevice, offset: number, length: number, limit: number): Promise<Uint8Array | null> {
+  if (offset < 0 || offset + length > limit) return null;
+  return device.read(offset, length);
+}
+
+/**
+ * The first offset in [from, limit) where `matches` holds, reading a chunk
+ * at a time. `lookahead` bytes past each position are available to it.
+ */
+async function scanFor(
+  device: BlockDevice,
+  from: number,
+  limit: number,
+  lookahead: number,
+  matches: (bytes: Uint8Array, index: number) => boolean
+): Promise<number | null> {
+  for (let position = from; position < limit; position += SCAN_CHUNK_SIZE) {
+    const length = Math.min(SCAN_CHUNK_SIZE + lookahead, limit - position);
+    const bytes = await device.read(position, length);
+    const end = Math.min(SCAN_CHUNK_SIZE, length - lookahead);
+    for (let index = 0; index < end; index++) {
+      if (matches(bytes, index)) return position + index;
+    }
+  }
+  return null;
+}
+
+function findPattern(device: BlockDevice, from: number, limit: number, pattern: number[]): Promise<number | null> {
+  return scanFor(device, from, limit, pattern.length - 1, (bytes, index) => pattern.every((byte, i) => bytes[index + i] === byte));
+}
+
+/** Sequential reads of single bytes and skips, buffered. */
+class ByteStream {
+  position: number;
+  private device: BlockDevice;
+  private limit: number;
+  private buffer = new Uint8Array(0);
+  private bufferStart = 0;
+
+  constructor(device: BlockDevice, position: number, limit: number) {
+    this.device = device;
+    this.position = position;
+    this.limit = limit;
+  }
+
+  /** The next byte, or null past the limit. */
+  async readByte(): Promise<number | null> {
+    if (this.position >= this.limit) return null;
+    const index = this.position - this.bufferStart;
+    if (index < 0 || index >= this.buffer.length) {
+      this.bufferStart = this.position;
+      this.buffer = await this.device.read(this.position, Math.min(64 * 1024, this.limit - this.position));
+    }
+    return this.buffer[this.position++ - this.bufferStart];
+  }
+
+  skip(count: number): void {
+    this.position += count;
+  }
+}
+
+/** Walks the marker segments; entropy-coded data after each scan is searched for the next marker. */
+async function measureJpeg(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  let position = offset + 2;
+  for (let segments = 0; segments < 10000; segments++) {
+    const marker = await readBytes(device, position, 4, limit);
+    if (!marker) break;
+    if (marker[0] !== 0xFF) return segments === 0 ? null : { length: limit - offset, complete: false };
+    if (marker[1] === 0xD9) return { length: position + 2 - offset, complete: true };
+
+    // Restart markers and TEM stand alone; every other segment gives its length
+    if ((marker[1] >= 0xD0 && marker[1] <= 0xD7) || marker[1] === 0x01) {
+      position += 2;
+      continue;
+    }
+    const length = (marker[2] << 8) | marker[3];
+    if (length < 2) return segments === 0 ? null : { length: limit - offset, complete: false };
+    position += 2 + length;
+    if (marker[1] !== 0xDA) continue;
+
+    // A marker in the scan data is 0xFF followed by anything but a stuffed zero, a restart marker or fill
+    const next = await scanFor(device, position, limit, 1, (bytes, index) =>
+      bytes[index] === 0xFF && bytes[index + 1] !== 0x00 && bytes[index + 1] !== 0xFF &&
+      (bytes[index + 1] < 0xD0 || bytes[index + 1] > 0xD7));
+    if (next === null) break;
+    position = next;
+  }
+  return { length: limit - offset, complete: false };
+}
+
+/** Walks the chunks up to IEND. */
+async function measurePng(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  let position = offset + 8;
+  for (let chunks = 0; ; chunks++) {
+    const header = await readBytes(device, position, 8, limit);
+    if (!header) return { length: limit - offset, complete: false };
+    const length = ((header[0] << 24) | (header[1] << 16) | (header[2] << 8) | header[3]) >>> 0;
+    const type = String.fromCharCode(...header.subarray(4, 8));
+    // The first chunk is always IHDR
+    if (chunks === 0 && type !== 'IHDR') return null;
+    if (!/^[A-Za-z]{4}$/.test(type)) return { length: limit - offset, complete: false };
+    position += 12 + length;
+    if (type === 'IEND') return position <= limit ? { length: position - offset, complete: true } : { length: limit - offset, complete: false };
+  }
+}
+
+/** Walks the blocks up to the trailer (0x3B); image data and extensions are runs of sub-blocks. */
+async function measureGif(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  const header = await readBytes(device, offset, 13, limit);
+  // "GIF87a" or "GIF89a"
+  if (!header || (header[4] !== 0x37 && header[4] !== 0x39) || header[5] !== 0x61) return null;
+  const stream = new ByteStream(device, offset + 13, limit);
+  // Global color table
+  if (header[10] & 0x80) stream.skip(3 * 2 ** ((header[10] & 0x07) + 1));
+
+  const skipSubBlocks = async () => {
+    for (let size = await stream.readByte(); size; size = await stream.readByte()) stream.skip(size);
+  };
+  for (let introducer = await stream.readByte(); introducer !== null; introducer = await stream.readByte()) {
+    if (introducer === 0x3B) return { length: stream.position - offset, complete: true };
+    if (introducer === 0x21) {
+      stream.skip(1);
+    } else if (introducer === 0x2C) {
+      const descriptor = [];
+      for (let i = 0; i < 9; i++) descriptor.push(await stream.readByte() ?? 0);
+      if (descriptor[8] & 0x80) stream.skip(3 * 2 ** ((descriptor[8] & 0x07) + 1));
+      stream.skip(1);
+    } else {
+      break;
+    }
+    await skipSubBlocks();
+  }
+  return { length: limit - offset, complete: false };
+}
+
+/**
+ * Ends at %%EOF. A document saved with incremental updates has one after
+ * each revision, so the search goes on while another revision follows.
+ */
+async function measurePdf(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  let end: number | null = null;
+  for (let from = offset; ;) {
+    const found = await findPattern(device, from, limit, ascii('%%EOF'));
+    if (found === null) break;
+    end = found + 5;
+    const following = await device.read(end, Math.min(32, limit - end));
+    const eol = following[0] === 0x0D && following[1] === 0x0A ? 2 : following[0] === 0x0A || following[0] === 0x0D ? 1 : 0;
+    end += eol;
+    const next = new TextDecoder('latin1').decode(following.subarray(eol));
+    if (!/^(\d+ \d+ obj|xref)/.test(next)) break;
+    from = end;
+  }
+  return end === null ? { length: limit - offset, complete: false } : { length: end - offset, complete: true };
+}
+
+/** Ends with the end of central directory record and its comment. */
+async function measureZip(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  const found = await findPattern(device, offset, limit, [0x50, 0x4B, 0x05, 0x06]);
+  const record = found === null ? null : await readBytes(device, found, 22, limit);
+  if (found === null || !record) return { length: limit - offset, complete: false };
+  const end = found + 22 + (record[20] | (record[21] << 8));
+  return end <= limit ? { length: end - offset, complete: true } : { length: limit - offset, complete: false };
+}
+
+/** The file header records the size. */
+async function measureBmp(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  const header = await readBytes(device, offset, 30, limit);
+  if (!header) return null;
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const size = view.getUint32(2, true);
+  const dataOffset = view.getUint32(10, true);
+  const infoSize = view.getUint32(14, true);
+  const bitCount = view.getUint16(28, true);
+  // "BM" is common in other data; the header must hold together
+  const valid = view.getUint32(6, true) === 0 && [12, 40, 52, 56, 108, 124].includes(infoSize) &&
+    [1, 4, 8, 16, 24, 32].includes(bitCount) && dataOffset >= 14 + infoSize && dataOffset < size && offset + size <= limit;
+  return valid ? { length: size, complete: true } : null;
+}
+
+/** The header records the page size and count. */
+async function measureSqlite(device: BlockDevice, offset: number, limit: number): Promise<CarvedEnd> {
+  const header = await readBytes(device, offset, 100, limit);
+  if (!header) return null;
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const pageCount = view.getUint32(28);
+  if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0 || pageCount === 0) return null;
+  const size = pageSize * pageCount;
+  return offset + size <= limit ? { length: size, complete: true } : { length: limit - offset, complete: false };
+}
+
+const SIGNATURES: CarvingSignature[] = [
+  { type: 'JPEG', extension: 'jpg', header: [0xFF, 0xD8, 0xFF], maxSize: 50 * MiB, measure: measureJpeg },
+  { type: 'PNG', extension: 'png', header: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], maxSize: 50 * MiB, measure: measurePng },
+  { type: 'GIF', extension: 'gif', header: ascii('GIF8'), maxSize: 20 * MiB, measure: measureGif },
+  { type: 'PDF', extension: 'pdf', header: ascii('%PDF-'), maxSize: 100 * MiB, measure: measurePdf },
+  { type: 'ZIP', extension: 'zip', header: [0x50, 0x4B, 0x03, 0x04], maxSize: 100 * MiB, measure: measureZip },
+  { type: 'BMP', extension: 'bmp', header: ascii('BM'), maxSize: 50 * MiB, measure: measureBmp },
+  { type: 'SQLite', extension: 'sqlite', header: ascii('SQLite format 3\0'), maxSize: 1024 * MiB, measure: measureSqlite }
+];
+
+/**
+ * Carves the files whose signatures start a sector. The sectors of a
+ * complete file are skipped, so files embedded in it (a JPEG's thumbnail)
+ * are not carved again; an incomplete file's are scanned like any others.
+ */
+export async function carveFiles(
+  device: BlockDevice,
+  onProgress?: (scanned: number, total: number, found: number) => void
+): Promise<CarvedFile[]> {
+  const files: CarvedFile[] = [];
+  let position = 0;
+
+  while (position < device.size && files.length < MAX_CARVED_FILES) {
+    const chunk = await device.read(position, Math.min(SCAN_CHUNK_SIZE, device.size - position));
+    let next = position + chunk.length;
+
+    for (let sector = 0; sector < chunk.length; sector += CARVE_ALIGNMENT) {
+      const signature = SIGNATURES.find(candidate =>
+        sector + candidate.header.length <= chunk.length && candidate.header.every((byte, i) => chunk[sector + i] === byte));
+      if (!signature) continue;
+
+      const offset = position + sector;
+      const end = await signature.measure(device, offset, Math.min(offset + signature.maxSize, device.size));
+      if (!end || end.length <= 0) continue;
+      files.push({ offset, length: end.length, type: signature.type, extension: signature.extension, complete: end.complete });
+      if (files.length >= MAX_CARVED_FILES) break;
+
+      if (end.complete) {
+        const resume = Math.ceil((offset + end.length) / CARVE_ALIGNMENT) * CARVE_ALIGNMENT;
+        if (resume >= next) {
+          next = resume;
+          break;
+        }
+        sector = resume - position - CARVE_ALIGNMENT;
+      }
+    }
+
+    position = next;
+    onProgress?.(Math.min(position, device.size), device.size, files.length);
+  }
+  return files;
+}
@@ -0,0 +1,44 @@
+import type { BlockDevice } from './block-device';
+import { extDrivers } from './ext-parser';
+import type { FileSystemDriver } from './filesystem-driver';
+import { fatDrivers } from './fat-parser';
+import { ntfsDriver } from './ntfs-parser';
+import { refsDriver } from './refs-parser';
+import type { FileSystemProbe } from '../types/forensic';
+
+// Identifies the file system of a volume. Every driver probes the volume's
+// boot sector or superblock and scores how well it matches; the best score
+// above a threshold picks the driver to parse it with. Probing only answers
+// which driver to try; the driver itself validates the volume properly.
+
+/** Drivers of the file systems that can be parsed, in probing order. */
+export const FILE_SYSTEM_DRIVERS: FileSystemDriver[] = [refsDriver, ntfsDriver, ...fatDrivers, ...extDrivers];
+
+/** Volumes every driver scores below this are treated as an unknown file system. */
+export const MIN_PROBE_CONFIDENCE = 0.5;
+
+export interface ProbeOutcome {
+  /** The best-scoring driver, or null when none reaches MIN_PROBE_CONFIDENCE. */
+  driver: FileSystemDriver | null;
+  /** Every driver whose signature matched, best first. */
+  probes: FileSystemProbe[];
+}
+
+export async function probeFileSystem(device: BlockDevice): Promise<ProbeOutcome> {
+  const scored: { driver: FileSystemDriver; probe: FileSystemProbe }[] = [];
+  for (const driver of FILE_SYSTEM_DRIVERS) {
+    // A probe that cannot even read its structures (a tiny volume) simply does not match
+    const result = await driver.probe(device).catch(() => null);
+    if (result && result.confidence > 0) {
+      scored.push({ driver, probe: { fileSystem: driver.fileSystem, ...result } });
+    }
+  }
+
+  // Stable, so equal scores keep the probing order
+  scored.sort((a, b) => b.probe.confidence - a.probe.confidence);
+  const best = scored[0];
+  return {
+    driver: best && best.probe.confidence >= MIN_PROBE_CONFIDENCE ? best.driver : null,
+    probes: scored.map(candidate => candidate.probe)
+  };
+}
@@ -0,0 +1,129 @@
+import type { BlockDevice } from './block-device';
+import type { ValidationReport } from './validation-report';
+import type { AnalysisMode, FileSystemItem, FileSystemProbe, FileSystemType, ParseProgress, ProbeCheck } from '../types/forensic';
+
+// The contract between the volume-level pipeline (partition discovery, the
+// parse worker) and the individual file system parsers. A driver recognises
+// its file system and opens volumes; an opened volume answers directory
+// listings and content reads from what it decoded.
+
+export interface FileSystemDriverOptions {
+  /** Evidence item the parsed files belong to; keeps item IDs unique across images. */
+  evidenceId?: string;
+  /** Volume of the evidence item, for images holding more than one (partitions). */
+  volumeId?: string;
+  /** The volume as a Blob (the source File, sliced to the partition), streamed by the hash worker. Absent for container formats. */
+  source?: Blob;
+  /** Defaults to 'forensic': input the driver cannot decode is rejected, never simulated. */
+  mode?: AnalysisMode;
+}
+
+/** A file system decoded from a volume. */
+export interface FileSystemVolume {
+  readonly fileSystem: FileSystemType;
+  /** Top-level items of the volume, each with its subtree. */
+  getRootItems(): FileSystemItem[];
+  /** Items directly inside a directory, by its file ID; the top level when omitted. */
+  listDirectory(directoryFileId?: string): FileSystemItem[];
+  /**
+   * Reads up to `length` bytes of a file stream starting at `offset`
+   * ('' is the default stream). Returns null when the stream is unreadable.
+   */
+  readFileContent(fileId: string, offset: number, length: number, streamName?: string): Promise<Uint8Array | null>;
+  /** Deleted files and directories the volume still holds traces of. */
+  getDeletedEntries(): FileSystemItem[];
+  /** Checks performed on the volume, including non-fatal warnings. */
+  getValidationReport(): ValidationReport;
+  /** True when the records were generated by demo mode rather than decoded. */
+  isSimulated(): boolean;
+}
+
+/** How well a volume matches a driver's file system. */
+export type ProbeResult = Omit<FileSystemProbe, 'fileSystem'>;
+
+/** A probe check and how much it counts towards the confidence. */
+export interface WeightedProbeCheck extends ProbeCheck {
+  weight: number;
+  /** The volume is not this file system at all when the check fails (its signature, usually). */
+  required?: boolean;
+}
+
+export interface FileSystemDriver {
+  readonly fileSystem: FileSystemType;
+  /** Cheap signature and consistency checks of the boot sector or superblock. */
+  probe(device: BlockDevice): Promise<ProbeResult>;
+  /** Decodes the volume, reporting progress as it goes. */
+  open(
+    device: BlockDevice,
+    options: FileSystemDriverOptions,
+    onProgress?: (progress: ParseProgress) => void
+  ): Promise<FileSystemVolume>;
+}
+
+/** The confidence of a set of checks: the weight of those passed over the weight of all. */
+export function scoreProbe(checks: WeightedProbeCheck[]): ProbeResult {
+  const total = checks.reduce((sum, check) => sum + check.weight, 0);
+  const passed = checks.reduce((sum, check) => sum + (check.passed ? check.weight : 0), 0);
+  const rejected = total === 0 || checks.some(check => check.required && !check.passed);
+  return {
+    confidence: rejected ? 0 : Math.round((passed / total) * 100) / 100,
+    checks: checks.map(({ description, passed: checkPassed }) => ({ description, passed: checkPassed }))
+  };
+}
+
+/** ID of a file's item: the file ID scoped by evidence item and volume. */
+export function scopedItemId(options: FileSystemDriverOptions, fileId: string): string {
+  const scope = [options.evidenceId, options.volumeId].filter(Boolean).join(':');
+  return scope ? `${scope}:${fileId}` : fileId;
+}
+
+/**
+ * Links items (keyed by file ID) under their parent directories and sets
+ * their paths. Items whose parent is not among them are returned as the top
+ * level.
+ */
+export function linkFileTree(items: Map<string, FileSystemItem>, parentOf: (fileId: string) => string): FileSystemItem[] {
+  const roots: FileSystemItem[] = [];
+  for (const [fileId, item] of items) {
+    const parent = items.get(parentOf(fileId));
+    if (parent?.children && parent !== item) {
+      parent.children.push(item);
+    } else {
+      roots.push(item);
+    }
+  }
+
+  // Paths are assigned top-down, once every parent is in place
+  const assignPaths = (children: FileSystemItem[], prefix: string) => {
+    for (const child of children) {
+      child.path = `${prefix}/${child.name}`;
+      if (child.children) assignPaths(child.children, child.path);
+    }
+  };
+  assignPaths(roots, '');
+  return roots;
+}
+
+/**
+ * Bytes an item adds to the space its volume uses: its size, less what block
+ * cloning shares with a file already counted, or what a snapshot version
+ * shares with its live file. Usage totals sum this rather than sizes so
+ * shared clusters count once.
+ */
+export function occupiedSize(item: FileSystemItem): number {
+  const refs = item.metadata?.refs;
+  return item.size - (refs?.clonedSize ?? 0) - (refs?.snapshot?.unchangedSize ?? 0);
+}
+
+/** Flattens a tree into the items that satisfy `predicate`, in tree order. */
+export function collectItems(items: FileSystemItem[], predicate: (item: FileSystemItem) => boolean): FileSystemItem[] {
+  const found: FileSystemItem[] = [];
+  const visit = (level: FileSystemItem[]) => {
+    for (const item of level) {
+      if (predicate(item)) found.push(item);
+      if (item.children) visit(item.children);
+    }
+  };
+  visit(items);
+  return found;
+}
@@ -0,0 +1,300 @@
+import { streamPlan } from './content-plan';
+import type { ContentSegment, PlanReader } from './content-plan';
+
+// Incremental message digests for evidence hashing. Web Crypto only offers
+// one-shot digests (and no MD5), which would require holding whole files in
+// memory, so the algorithms are implemented here over 64-byte blocks.
+
+export type HashAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+export interface Hasher {
+  update(data: Uint8Array): void;
+  /** Finishes the digest and returns it as lowercase hex. */
+  digest(): string;
+}
+
+export type FileDigests = Record<HashAlgorithm, string>;
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['md5', 'sha1', 'sha256'];
+
+/**
+ * Shared buffering and padding of the Merkle–Damgård constructions: data is
+ * collected into 64-byte blocks and the message length is appended in bits.
+ */
+abstract class BlockHasher implements Hasher {
+  private block = new Uint8Array(64);
+  private blockView = new DataView(this.block.buffer);
+  private blockLength = 0;
+  private totalLength = 0;
+  private littleEndian: boolean;
+
+  constructor(littleEndian: boolean) {
+    this.littleEndian = littleEndian;
+  }
+
+  update(data: Uint8Array): void {
+    this.totalLength += data.length;
+    let offset = 0;
+
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+      if (this.blockLength < 64) return;
+      this.compress(this.blockView);
+      this.blockLength = 0;
+    }
+
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.compress(new DataView(view.buffer, view.byteOffset + offset, 64));
+    }
+
+    this.block.set(data.subarray(offset), 0);
+    this.blockLength = data.length - offset;
+  }
+
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+    const padding = new Uint8Array((this.blockLength < 56 ? 56 : 120) - this.blockLength + 8);
+    padding[0] = 0x80;
+
+    const lengthView = new DataView(padding.buffer, padding.length - 8, 8);
+    const high = Math.floor(bitLength / 0x100000000);
+    const low = bitLength >>> 0;
+    if (this.littleEndian) {
+      lengthView.setUint32(0, low, true);
+      lengthView.setUint32(4, high, true);
+    } else {
+      lengthView.setUint32(0, high);
+      lengthView.setUint32(4, low);
+    }
+
+    this.update(padding);
+    return this.state()
+      .map(word => {
+        const bytes = new DataView(new ArrayBuffer(4));
+        bytes.setUint32(0, word, this.littleEndian);
+        return Array.from(new Uint8Array(bytes.buffer), b => b.toString(16).padStart(2, '0')).join('');
+      })
+      .join('');
+  }
+
+  protected abstract compress(block: DataView): void;
+  protected abstract state(): number[];
+}
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+export class Md5 extends BlockHasher {
+  private h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+
+  constructor() {
+    super(true);
+  }
+
+  protected compress(block: DataView): void {
+    let [a, b, c, d] = this.h;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[i] + block.getUint32(g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + rotl(sum, MD5_SHIFTS[i])) | 0;
+    }
+
+    this.h = [
+      (this.h[0] + a) >>> 0,
+      (this.h[1] + b) >>> 0,
+      (this.h[2] + c) >>> 0,
+      (this.h[3] + d) >>> 0
+    ];
+  }
+
+  protected state(): number[] {
+    return this.h;
+  }
+}
+
+export class Sha1 extends BlockHasher {
+  private h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+  private w = new Int32Array(80);
+
+  constructor() {
+    super(false);
+  }
+
+  protected compress(block: DataView): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) w[i] = block.getInt32(i * 4);
+    for (let i = 16; i < 80; i++) w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+
+    let [a, b, c, d, e] = this.h;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (rotl(a, 5) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = rotl(b, 30);
+      b = a;
+      a = temp;
+    }
+
+    this.h = [
+      (this.h[0] + a) >>> 0,
+      (this.h[1] + b) >>> 0,
+      (this.h[2] + c) >>> 0,
+      (this.h[3] + d) >>> 0,
+      (this.h[4] + e) >>> 0
+    ];
+  }
+
+  protected state(): number[] {
+    return this.h;
+  }
+}
+
+const SHA256_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+export class Sha256 extends BlockHasher {
+  private h = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ];
+  private w = new Int32Array(64);
+
+  constructor() {
+    super(false);
+  }
+
+  protected compress(block: DataView): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) w[i] = block.getInt32(i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.h;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + SHA256_CONSTANTS[i] + w[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    this.h = [a, b, c, d, e, f, g, h].map((value, i) => (this.h[i] + value) >>> 0);
+  }
+
+  protected state(): number[] {
+    return this.h;
+  }
+}
+
+export function createHasher(algorithm: HashAlgorithm): Hasher {
+  switch (algorithm) {
+    case 'md5':
+      return new Md5();
+    case 'sha1':
+      return new Sha1();
+    case 'sha256':
+      return new Sha256();
+  }
+}
+
+/** Feeds the same data to one hasher per algorithm. */
+export class MultiHasher {
+  private hashers: Array<[HashAlgorithm, Hasher]>;
+
+  constructor(algorithms: HashAlgorithm[] = HASH_ALGORITHMS) {
+    this.hashers = algorithms.map(algorithm => [algorithm, createHasher(algorithm)]);
+  }
+
+  update(data: Uint8Array): void {
+    for (const [, hasher] of this.hashers) hasher.update(data);
+  }
+
+  digest(): Partial<FileDigests> {
+    return Object.fromEntries(this.hashers.map(([algorithm, hasher]) => [algorithm, hasher.digest()]));
+  }
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/** Hashes the content described by a plan, streaming it from the image. */
+export async function hashPlan(
+  read: PlanReader,
+  plan: ContentSegment[],
+  algorithms: HashAlgorithm[] = HASH_ALGORITHMS
+): Promise<Partial<FileDigests>> {
+  const hasher = new MultiHasher(algorithms);
+  await streamPlan(read, plan, chunk => hasher.update(chunk));
+  return hasher.digest();
+}
@@ -0,0 +1,91 @@
+import { HASH_ALGORITHMS, hashPlan } from './hash-engine';
+import type { FileDigests, HashAlgorithm } from './hash-engine';
+import { readerForBlob } from './content-plan';
+import type { ContentSegment } from './content-plan';
+import type { BlockDevice } from './block-device';
+
+export interface HashJob {
+  id: string;
+  name: string;
+  plan: ContentSegment[];
+}
+
+export interface HashProgress {
+  currentFile: string;
+  processedFiles: number;
+  totalFiles: number;
+}
+
+export interface HashWorkerRequest {
+  source: Blob;
+  jobs: HashJob[];
+  algorithms: HashAlgorithm[];
+}
+
+export type HashWorkerResponse =
+  | ({ type: 'progress' } & HashProgress)
+  | { type: 'result'; id: string; digests: Partial<FileDigests> }
+  | { type: 'error'; id: string; message: string }
+  | { type: 'done' };
+
+/**
+ * Hashes every job's content in a Web Worker. Files that cannot be read are
+ * logged and left out of the result. Sources that are not a plain Blob, and
+ * environments without workers, are hashed on the calling thread.
+ */
+export async function hashFiles(
+  source: Blob | BlockDevice,
+  jobs: HashJob[],
+  onProgress?: (progress: HashProgress) => void,
+  algorithms: HashAlgorithm[] = HASH_ALGORITHMS
+): Promise<Map<string, Partial<FileDigests>>> {
+  const results = new Map<string, Partial<FileDigests>>();
+  if (jobs.length === 0) return results;
+
+  if (!(source instanceof Blob) || typeof Worker === 'undefined') {
+    const read = source instanceof Blob ? readerForBlob(source) : source.read.bind(source);
+    for (let i = 0; i < jobs.length; i++) {
+      onProgress?.({ currentFile: jobs[i].name, processedFiles: i, totalFiles: jobs.length });
+      try {
+        results.set(jobs[i].id, await hashPlan(read, jobs[i].plan, algorithms));
+      } catch (error) {
+        console.warn(`Cannot hash ${jobs[i].name}: ${(error as Error).message}`);
+      }
+    }
+    return results;
+  }
+
+  const worker = new Worker(new URL('./hash-worker.ts', import.meta.url), { type: 'module' });
+  const names = new Map(jobs.map(job => [job.id, job.name]));
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<HashWorkerResponse>) => {
+        const response = event.data;
+        switch (response.type) {
+          case 'progress':
+            onProgress?.(response);
+            break;
+          case 'result':
+            results.set(response.id, response.digests);
+            break;
+          case 'error':
+            console.warn(`Cannot hash ${names.get(response.id)}: ${response.message}`);
+            break;
+          case 'done':
+            onProgress?.({ currentFile: '', processedFiles: jobs.length, totalFiles: jobs.length });
+            resolve();
+            break;
+        }
+      };
+      worker.onerror = event => reject(new Error(`Hash worker failed: ${event.message}`));
+
+      const request: HashWorkerRequest = { source, jobs, algorithms };
+      worker.postMessage(request);
+    });
+  } finally {
+    worker.terminate();
+  }
+
+  return results;
+}
@@ -0,0 +1,26 @@
+import { readerForBlob } from './content-plan';
+import { hashPlan } from './hash-engine';
+import type { HashWorkerRequest, HashWorkerResponse } from './hash-worker-client';
+
+// Hashes file content off the main thread. The worker only holds the image
+// Blob and reads the ranges each job's content plan points at.
+
+const respond = (response: HashWorkerResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  const { source, jobs, algorithms } = event.data;
+  const read = readerForBlob(source);
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    respond({ type: 'progress', currentFile: job.name, processedFiles: i, totalFiles: jobs.length });
+
+    try {
+      respond({ type: 'result', id: job.id, digests: await hashPlan(read, job.plan, algorithms) });
+    } catch (error) {
+      respond({ type: 'error', id: job.id, message: (error as Error).message });
+    }
+  }
+
+  respond({ type: 'done' });
+};
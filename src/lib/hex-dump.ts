@@ -0,0 +1,26 @@
+// Classic 16-bytes-per-line hex dump: offset, hex bytes and printable ASCII.
+
+export function formatHexDump(bytes: Uint8Array, baseOffset: number = 0): string {
+  const lines: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += 16) {
+    const line = bytes.subarray(i, i + 16);
+    const offset = (baseOffset + i).toString(16).padStart(8, '0');
+
+    let hexLine = '';
+    let asciiLine = '';
+    for (let j = 0; j < 16; j++) {
+      if (j < line.length) {
+        const byte = line[j];
+        hexLine += byte.toString(16).padStart(2, '0') + ' ';
+        asciiLine += (byte >= 32 && byte <= 126) ? String.fromCharCode(byte) : '.';
+      } else {
+        hexLine += '   ';
+      }
+    }
+
+    lines.push(`${offset}  ${hexLine} |${asciiLine}|`);
+  }
+
+  return lines.join('\n');
+}
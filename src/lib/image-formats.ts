@@ -0,0 +1,88 @@
+import { BlobBlockDevice } from './block-device';
+import type { BlockDevice } from './block-device';
+import { EwfImage, isEwfSegment } from './ewf-reader';
+import { Qcow2Image, isQcowFile } from './qcow2-reader';
+import { isFirstSplitSegment, openSplitRaw } from './split-raw';
+import type { ValidationFinding } from './validation-report';
+import { VhdImage, isVhdFile } from './vhd-reader';
+import { VhdxImage, isVhdxFile } from './vhdx-reader';
+import { isVmdkFile, openVmdkDisks } from './vmdk-reader';
+import { resolveDiskChain } from './virtual-disk';
+import type { VirtualDisk } from './virtual-disk';
+
+// Opens the files of one evidence item as a block device, recognising
+// container formats by their signatures rather than by file extension.
+
+export type ImageFormat = 'raw' | 'E01' | 'VHD' | 'VHDX' | 'VMDK' | 'QCOW2';
+
+export interface EvidenceImage {
+  format: ImageFormat;
+  /** File that names the evidence: the first segment, or the newest disk of a chain. */
+  fileName: string;
+  device: BlockDevice;
+  /** Problems the container reader worked around (damaged copies, replayed logs). */
+  findings: ValidationFinding[];
+}
+
+/**
+ * Opens an evidence image. `files` holds every segment of a segmented or
+ * split raw image, or every disk of a differencing chain.
+ */
+export async function openImage(files: Blob[]): Promise<EvidenceImage> {
+  if (files.length === 0) {
+    throw new Error('no image files were given');
+  }
+
+  if (await isEwfSegment(files[0])) {
+    const image = await EwfImage.open(files);
+    return { format: 'E01', fileName: image.fileName, device: image, findings: image.findings };
+  }
+
+  const disks = await openVirtualDisks(files);
+  if (disks) {
+    const leaf = resolveDiskChain(disks);
+    return { format: leaf.format, fileName: leaf.fileName, device: leaf, findings: disks.flatMap(disk => disk.findings) };
+  }
+
+  if (files.length > 1) {
+    const image = openSplitRaw(files);
+    return { format: 'raw', ...image };
+  }
+
+  const file = files[0];
+  const fileName = file instanceof File ? file.name : 'image.raw';
+  const findings: ValidationFinding[] = [];
+  if (isFirstSplitSegment(fileName)) {
+    findings.push({
+      check: 'Split raw image',
+      severity: 'warning',
+      offset: null,
+      message: `${fileName} looks like the first segment of a split image; select all of its segments together`
+    });
+  }
+  return { format: 'raw', fileName, device: new BlobBlockDevice(file), findings };
+}
+
+/** Opens the files as virtual disks, or returns null when they are not. */
+async function openVirtualDisks(files: Blob[]): Promise<VirtualDisk[] | null> {
+  // A VMDK is a descriptor plus extent files (flat ones have no signature), so its files are opened as one set
+  for (const file of files) {
+    if (await isVmdkFile(file)) return openVmdkDisks(files);
+  }
+
+  const disks: VirtualDisk[] = [];
+  for (const file of files) {
+    if (await isQcowFile(file)) {
+      disks.push(await Qcow2Image.open(file));
+    } else if (await isVhdxFile(file)) {
+      disks.push(await VhdxImage.open(file));
+    } else if (await isVhdFile(file)) {
+      disks.push(await VhdImage.open(file));
+    } else if (disks.length === 0) {
+      return null;
+    } else {
+      throw new Error(`${file instanceof File ? file.name : 'a file'} is not a virtual disk like the other files`);
+    }
+  }
+  return disks;
+}
@@ -0,0 +1,595 @@
+import type { FileSystemItem, ParseProgress } from '../types/forensic';
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import { readAscii } from './byte-reader';
+import { collectItems, linkFileTree, scopedItemId, scoreProbe } from './filesystem-driver';
+import type { FileSystemDriver, FileSystemDriverOptions, FileSystemVolume } from './filesystem-driver';
+import { hashFiles } from './hash-worker-client';
+import type { HashJob } from './hash-worker-client';
+import { buildStream, planNtfsStream, readNtfsStream } from './ntfs-streams';
+import type { NtfsStream } from './ntfs-streams';
+import {
+  ATTRIBUTE_ATTRIBUTE_LIST,
+  ATTRIBUTE_BITMAP,
+  ATTRIBUTE_DATA,
+  ATTRIBUTE_FILE_NAME,
+  ATTRIBUTE_INDEX_ALLOCATION,
+  ATTRIBUTE_INDEX_ROOT,
+  ATTRIBUTE_STANDARD_INFORMATION,
+  FILE_NAME_DOS,
+  FILE_NAME_FLAG_DIRECTORY,
+  INDEX_NAME_I30,
+  MFT_RECORD_MFT,
+  MFT_RECORD_ROOT,
+  NTFS_OEM_ID,
+  RECORD_FLAG_DIRECTORY,
+  RECORD_FLAG_IN_USE,
+  applyFixups,
+  carveIndexEntries,
+  decodeAttributeList,
+  decodeBootSector,
+  decodeFileName,
+  decodeIndexNode,
+  decodeRecord,
+  decodeStandardInformation,
+  formatFileReference
+} from './ntfs-structures';
+import type { NtfsAttribute, NtfsBootSector, NtfsFileName, NtfsIndexEntry, NtfsRecord } from './ntfs-structures';
+import { FILE_ATTRIBUTE_DIRECTORY } from './refs-directory';
+import { ImageValidationError, createValidationReport } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+
+// NTFS volumes. The MFT is read in batches through its own $DATA run list;
+// every base record becomes a file, with attributes that overflowed into
+// extension records gathered through its $ATTRIBUTE_LIST. Deleted files come
+// from records no longer in use and from $I30 index entries that linger in
+// index slack after their records were reused.
+
+const MFT_BATCH_RECORDS = 256;
+/** Compressed files up to this size are decompressed whole so they can be hashed. */
+const MAX_COMPRESSED_HASH_SIZE = 64 * 1024 * 1024;
+
+export interface NtfsFileRecord {
+  /** MFT reference (sequence and record number) of the file. */
+  fileId: string;
+  parentId: string;
+  recordNumber: number;
+  sequenceNumber: number;
+  fileName: string;
+  fileSize: number;
+  allocatedSize: number;
+  attributes: number;
+  creationTime: Date;
+  modificationTime: Date;
+  changeTime: Date;
+  accessTime: Date;
+  securityId?: number;
+  /** The $FILE_NAME the file is listed under. */
+  fileNameInfo: NtfsFileName;
+  hardLinkCount: number;
+  isDirectory: boolean;
+  isDeleted: boolean;
+  source: 'mft' | 'i30-slack';
+  streams: NtfsStream[];
+  /** A directory's $I30 index: root, allocation pieces and allocation bitmap. */
+  indexRoot: NtfsAttribute | null;
+  indexAllocation: NtfsAttribute[];
+  indexBitmap: NtfsAttribute | null;
+  md5Hash?: string;
+  sha1Hash?: string;
+  sha256Hash?: string;
+}
+
+export class NtfsParser implements FileSystemVolume {
+  readonly fileSystem = 'NTFS';
+  private device: BlockDevice;
+  private boot: NtfsBootSector | null = null;
+  private mft: NtfsStream | null = null;
+  private findings: ValidationFinding[] = [];
+  private files: Map<string, NtfsFileRecord> = new Map();
+  private rootItems: FileSystemItem[] = [];
+  private items: Map<string, FileSystemItem> = new Map();
+  private tornRecords = 0;
+  private brokenAttributeLists = 0;
+  private progressCallback?: (progress: ParseProgress) => void;
+  private options: FileSystemDriverOptions;
+
+  constructor(
+    device: BlockDevice,
+    progressCallback?: (progress: ParseProgress) => void,
+    options: FileSystemDriverOptions = {}
+  ) {
+    this.device = device;
+    this.progressCallback = progressCallback;
+    this.options = options;
+  }
+
+  async parseImage(): Promise<FileSystemItem[]> {
+    try {
+      this.updateProgress('Reading NTFS boot sector...', 5);
+      await this.readBootSector();
+
+      this.updateProgress('Reading $MFT...', 10);
+      await this.readMftStream();
+
+      this.updateProgress('Reading MFT records...', 15);
+      await this.readRecords();
+
+      this.updateProgress('Reading $I30 indexes...', 55);
+      await this.readIndexes();
+
+      this.updateProgress('Calculating hashes...', 70);
+      await this.calculateHashes();
+
+      this.updateProgress('Building file system tree...', 95);
+      this.rootItems = this.buildFileTree();
+
+      this.updateProgress('Parse complete', 100);
+      return this.rootItems;
+    } catch (error) {
+      if (error instanceof ImageValidationError) throw error;
+      throw new Error(`NTFS parsing failed: ${(error as Error).message}`);
+    }
+  }
+
+  private async readBootSector(): Promise<void> {
+    const view = await readView(this.device, 0, 512);
+    const boot = view && decodeBootSector(view);
+    const fail = (message: string) => {
+      this.findings.push({ check: 'NTFS boot sector', severity: 'error', offset: 0, message });
+      return new ImageValidationError(this.getValidationReport());
+    };
+
+    if (!view || !boot) throw fail('no valid NTFS boot sector');
+    const recordSize = boot.mftRecordSize;
+    if (recordSize < 512 || recordSize > 65536 || (recordSize & (recordSize - 1)) !== 0) {
+      throw fail(`${recordSize} is not a valid MFT record size`);
+    }
+
+    if (view.getUint16(510, true) !== 0xAA55) {
+      this.findings.push({ check: 'NTFS boot sector', severity: 'warning', offset: 510, message: 'boot signature 0xAA55 is missing' });
+    }
+    const volumeSize = boot.totalSectors * boot.bytesPerSector;
+    if (volumeSize > this.device.size) {
+      this.findings.push({
+        check: 'Volume size',
+        severity: 'warning',
+        offset: 40,
+        message: `boot sector describes ${volumeSize} bytes but the volume holds ${this.device.size} (truncated image?)`
+      });
+    }
+    this.boot = boot;
+  }
+
+  /** Reads $MFT's own record (falling back to $MFTMirr) to find where the MFT lives. */
+  private async readMftStream(): Promise<void> {
+    const boot = this.boot!;
+    let record = await this.readRecordAt(boot.mftCluster * boot.clusterSize);
+    if (!record?.attributes.some(attribute => attribute.type === ATTRIBUTE_DATA && attribute.name === '')) {
+      record = await this.readRecordAt(boot.mftMirrorCluster * boot.clusterSize);
+      if (!record) {
+        this.findings.push({ check: '$MFT', severity: 'error', offset: boot.mftCluster * boot.clusterSize, message: 'neither $MFT nor $MFTMirr holds a usable record 0' });
+        throw new ImageValidationError(this.getValidationReport());
+      }
+      this.findings.push({ check: '$MFT', severity: 'warning', offset: boot.mftCluster * boot.clusterSize, message: 'record 0 is damaged; using $MFTMirr' });
+    }
+
+    const pieces = record.attributes.filter(attribute => attribute.type === ATTRIBUTE_DATA && attribute.name === '');
+    this.mft = buildStream(pieces);
+
+    // A heavily fragmented MFT describes the rest of its runs in extension records, which the known runs reach
+    const list = record.attributes.find(attribute => attribute.type === ATTRIBUTE_ATTRIBUTE_LIST);
+    if (list) {
+      const entries = decodeAttributeList(await this.attributeValue(list));
+      for (const entry of entries) {
+        if (entry.type !== ATTRIBUTE_DATA || entry.name !== '' || entry.record === MFT_RECORD_MFT) continue;
+        const extension = await this.readMftRecord(entry.record);
+        const piece = extension?.attributes.find(attribute => attribute.type === ATTRIBUTE_DATA && attribute.id === entry.id);
+        if (piece && !pieces.includes(piece)) pieces.push(piece);
+      }
+      this.mft = buildStream(pieces);
+    }
+  }
+
+  private async readRecordAt(offset: number): Promise<NtfsRecord | null> {
+    const bytes = await this.device.read(offset, this.boot!.mftRecordSize).catch(() => null);
+    return bytes ? this.decodeRecordBytes(bytes.slice()) : null;
+  }
+
+  private async readMftRecord(recordNumber: number): Promise<NtfsRecord | null> {
+    const size = this.boot!.mftRecordSize;
+    if ((recordNumber + 1) * size > this.mft!.dataSize) return null;
+    const bytes = await readNtfsStream(this.mft!, this.device, this.boot!.clusterSize, recordNumber * size, size);
+    return this.decodeRecordBytes(bytes);
+  }
+
+  /** Applies fixups (in place) and decodes; torn records are still decoded, and counted. */
+  private decodeRecordBytes(bytes: Uint8Array): NtfsRecord | null {
+    if (bytes[0] !== 0x46) return null; // 'F' of "FILE"; spares the fixup work on unused slots
+    if (!applyFixups(bytes)) this.tornRecords++;
+    return decodeRecord(bytes);
+  }
+
+  /** The value of a resident attribute, or the content of a non-resident one. */
+  private async attributeValue(attribute: NtfsAttribute): Promise<DataView> {
+    if (attribute.value) return attribute.value;
+    const bytes = await readNtfsStream(buildStream([attribute]), this.device, this.boot!.clusterSize, 0, attribute.dataSize);
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private async readRecords(): Promise<void> {
+    const recordSize = this.boot!.mftRecordSize;
+    const total = Math.floor(this.mft!.dataSize / recordSize);
+
+    for (let first = 0; first < total; first += MFT_BATCH_RECORDS) {
+      const count = Math.min(MFT_BATCH_RECORDS, total - first);
+      const batch = await readNtfsStream(this.mft!, this.device, this.boot!.clusterSize, first * recordSize, count * recordSize);
+
+      for (let i = 0; i < count; i++) {
+        // Copied: decoded attributes keep a view on their record, and must not pin the whole batch
+        const record = this.decodeRecordBytes(batch.slice(i * recordSize, (i + 1) * recordSize));
+        if (!record || record.header.baseRecord !== 0) continue;
+
+        const recordNumber = first + i;
+        let attributes = record.attributes;
+        const list = attributes.find(attribute => attribute.type === ATTRIBUTE_ATTRIBUTE_LIST);
+        if (list) attributes = await this.gatherAttributes(recordNumber, record, list);
+
+        const file = this.buildFileRecord(recordNumber, record, attributes);
+        if (file) this.files.set(file.fileId, file);
+      }
+
+      const done = first + count;
+      this.updateProgress(`Reading MFT records... (${done}/${total})`, 15 + Math.round((done / total) * 40));
+    }
+
+    if (this.tornRecords > 0) {
+      this.findings.push({
+        check: 'MFT records',
+        severity: 'warning',
+        offset: null,
+        message: `${this.tornRecords} record(s) fail the update sequence check (torn writes); they were decoded as found`
+      });
+    }
+    if (this.brokenAttributeLists > 0) {
+      this.findings.push({
+        check: '$ATTRIBUTE_LIST',
+        severity: 'warning',
+        offset: null,
+        message: `${this.brokenAttributeLists} attribute list(s) refer to extension records that belong to other files; those attributes are missing`
+      });
+    }
+  }
+
+  /** Adds the attributes a base record's $ATTRIBUTE_LIST places in extension records. */
+  private async gatherAttributes(recordNumber: number, record: NtfsRecord, list: NtfsAttribute): Promise<NtfsAttribute[]> {
+    const attributes = record.attributes.filter(attribute => attribute.type !== ATTRIBUTE_ATTRIBUTE_LIST);
+    const extensions = new Map<number, NtfsRecord | null>();
+    let broken = false;
+
+    let entries;
+    try {
+      entries = decodeAttributeList(await this.attributeValue(list));
+    } catch {
+      this.brokenAttributeLists++;
+      return attributes;
+    }
+
+    for (const entry of entries) {
+      if (entry.record === recordNumber) continue;
+      if (!extensions.has(entry.record)) {
+        extensions.set(entry.record, await this.readMftRecord(entry.record).catch(() => null));
+      }
+
+      // A reused extension record now belongs to another file
+      const extension = extensions.get(entry.record);
+      if (!extension || extension.header.baseRecord !== recordNumber) {
+        broken = true;
+        continue;
+      }
+      const attribute = extension.attributes.find(candidate => candidate.type === entry.type && candidate.id === entry.id);
+      if (attribute && !attributes.includes(attribute)) attributes.push(attribute);
+    }
+
+    if (broken) this.brokenAttributeLists++;
+    return attributes;
+  }
+
+  private buildFileRecord(recordNumber: number, record: NtfsRecord, attributes: NtfsAttribute[]): NtfsFileRecord | null {
+    const names = attributes
+      .filter(attribute => attribute.type === ATTRIBUTE_FILE_NAME && attribute.value)
+      .map(attribute => decodeFileName(attribute.value!))
+      .filter((name): name is NtfsFileName => name !== null);
+    if (names.length === 0) return null;
+
+    // The 8.3 alias only names the file when it has no long name
+    const fileName = names.find(name => name.namespace !== FILE_NAME_DOS) ?? names[0];
+    const standardAttribute = attributes.find(attribute => attribute.type === ATTRIBUTE_STANDARD_INFORMATION);
+    const standard = standardAttribute?.value ? decodeStandardInformation(standardAttribute.value) : null;
+    const { header } = record;
+    const inUse = (header.flags & RECORD_FLAG_IN_USE) !== 0;
+    const isDirectory = (header.flags & RECORD_FLAG_DIRECTORY) !== 0;
+    // Freeing a record bumps its sequence number; references made while the file existed carry the previous one
+    const sequenceNumber = inUse || header.sequence === 0 ? header.sequence : header.sequence - 1;
+
+    const pieces = new Map<string, NtfsAttribute[]>();
+    for (const attribute of attributes) {
+      if (attribute.type !== ATTRIBUTE_DATA) continue;
+      pieces.set(attribute.name, [...(pieces.get(attribute.name) ?? []), attribute]);
+    }
+    const streams = [...pieces.values()].map(buildStream);
+    const data = streams.find(stream => stream.name === '');
+    const i30 = (type: number) => attributes.filter(attribute => attribute.type === type && attribute.name === INDEX_NAME_I30);
+    const times = standard ?? fileName;
+
+    return {
+      fileId: formatFileReference(recordNumber, sequenceNumber),
+      parentId: formatFileReference(fileName.parentRecord, fileName.parentSequence),
+      recordNumber,
+      sequenceNumber,
+      fileName: fileName.name,
+      fileSize: data?.dataSize ?? 0,
+      allocatedSize: data && !data.resident ? data.allocatedSize : 0,
+      attributes: (standard?.attributes ?? fileName.flags & 0xFFFF) | (isDirectory ? FILE_ATTRIBUTE_DIRECTORY : 0),
+      creationTime: times.creationTime,
+      modificationTime: times.modificationTime,
+      changeTime: times.changeTime,
+      accessTime: times.accessTime,
+      securityId: standard?.securityId,
+      fileNameInfo: fileName,
+      hardLinkCount: header.linkCount || names.filter(name => name.namespace !== FILE_NAME_DOS).length,
+      isDirectory,
+      isDeleted: !inUse,
+      source: 'mft',
+      streams,
+      indexRoot: i30(ATTRIBUTE_INDEX_ROOT)[0] ?? null,
+      indexAllocation: i30(ATTRIBUTE_INDEX_ALLOCATION),
+      indexBitmap: i30(ATTRIBUTE_BITMAP)[0] ?? null
+    };
+  }
+
+  /**
+   * Walks every live directory's $I30 nodes for entries in index slack, and
+   * in index records the allocation bitmap marks free. Entries whose file
+   * the MFT still describes are skipped; the rest are deleted files whose
+   * records have since been reused.
+   */
+  private async readIndexes(): Promise<void> {
+    const directories = [...this.files.values()].filter(file => file.isDirectory && !file.isDeleted && file.indexRoot?.value);
+    let done = 0;
+
+    for (const directory of directories) {
+      try {
+        for (const entry of await this.carveDirectory(directory)) {
+          this.addSlackEntry(directory, entry);
+        }
+      } catch (error) {
+        console.warn(`Cannot read the $I30 index of ${directory.fileName}: ${(error as Error).message}`);
+      }
+
+      done++;
+      if (done % 100 === 0 || done === directories.length) {
+        this.updateProgress(`Reading $I30 indexes... (${done}/${directories.length})`, 55 + Math.round((done / directories.length) * 15));
+      }
+    }
+  }
+
+  private async carveDirectory(directory: NtfsFileRecord): Promise<NtfsIndexEntry[]> {
+    const root = directory.indexRoot!.value!;
+    const carved: NtfsIndexEntry[] = [];
+    const rootNode = decodeIndexNode(root, 16);
+    if (rootNode) carved.push(...carveIndexEntries(root, rootNode.entriesEnd, rootNode.allocatedEnd, directory.recordNumber));
+    if (directory.indexAllocation.length === 0 || root.byteLength < 16) return carved;
+
+    const recordSize = root.getUint32(8, true);
+    const allocation = buildStream(directory.indexAllocation);
+    if (recordSize < 512 || recordSize > 65536) return carved;
+    const bitmapView = directory.indexBitmap ? await this.attributeValue(directory.indexBitmap) : null;
+    const bitmap = bitmapView && new Uint8Array(bitmapView.buffer, bitmapView.byteOffset, bitmapView.byteLength);
+
+    for (let index = 0; (index + 1) * recordSize <= allocation.dataSize; index++) {
+      const bytes = await readNtfsStream(allocation, this.device, this.boot!.clusterSize, index * recordSize, recordSize);
+      if (bytes[0] !== 0x49 || bytes[1] !== 0x4E || bytes[2] !== 0x44 || bytes[3] !== 0x58) continue; // "INDX"
+      applyFixups(bytes);
+
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const node = decodeIndexNode(view, 24);
+      if (!node) continue;
+
+      // A node the bitmap marks free is stale as a whole
+      const inUse = !bitmap || (bitmap[index >> 3] & (1 << (index & 7))) !== 0;
+      carved.push(...carveIndexEntries(view, inUse ? node.entriesEnd : node.entriesStart, node.allocatedEnd, directory.recordNumber));
+    }
+    return carved;
+  }
+
+  private addSlackEntry(directory: NtfsFileRecord, entry: NtfsIndexEntry): void {
+    const { fileName } = entry;
+    const reference = formatFileReference(entry.record, entry.sequence);
+    // DOS aliases duplicate the long-name entry; known files are shown from their records
+    if (fileName.namespace === FILE_NAME_DOS || this.files.has(reference)) return;
+
+    const fileId = `${reference}-i30`;
+    if (this.files.has(fileId)) return;
+
+    const isDirectory = (fileName.flags & FILE_NAME_FLAG_DIRECTORY) !== 0;
+    this.files.set(fileId, {
+      fileId,
+      parentId: directory.fileId,
+      recordNumber: entry.record,
+      sequenceNumber: entry.sequence,
+      fileName: fileName.name,
+      fileSize: fileName.dataSize,
+      allocatedSize: fileName.allocatedSize,
+      attributes: (fileName.flags & 0xFFFF) | (isDirectory ? FILE_ATTRIBUTE_DIRECTORY : 0),
+      creationTime: fileName.creationTime,
+      modificationTime: fileName.modificationTime,
+      changeTime: fileName.changeTime,
+      accessTime: fileName.accessTime,
+      fileNameInfo: fileName,
+      hardLinkCount: 0,
+      isDirectory,
+      isDeleted: true,
+      source: 'i30-slack',
+      streams: [],
+      indexRoot: null,
+      indexAllocation: [],
+      indexBitmap: null
+    });
+  }
+
+  private async calculateHashes(): Promise<void> {
+    const jobs: HashJob[] = [];
+    const clusterSize = this.boot!.clusterSize;
+    for (const [fileId, file] of this.files) {
+      const stream = file.streams.find(candidate => candidate.name === '');
+      if (file.isDirectory || !stream) continue;
+
+      let plan = planNtfsStream(stream, clusterSize);
+      if (!plan && stream.dataSize <= MAX_COMPRESSED_HASH_SIZE) {
+        try {
+          plan = [{ kind: 'bytes', data: await readNtfsStream(stream, this.device, clusterSize, 0, stream.dataSize) }];
+        } catch (error) {
+          console.warn(`Cannot decompress ${file.fileName}: ${(error as Error).message}`);
+        }
+      }
+      if (plan) jobs.push({ id: fileId, name: file.fileName, plan });
+    }
+
+    const source = this.options.source ?? this.device;
+    const digests = await hashFiles(source, jobs, progress => {
+      const percentage = 70 + Math.round((progress.processedFiles / progress.totalFiles) * 25);
+      this.updateProgress(`Calculating hashes... (${progress.processedFiles}/${progress.totalFiles})`, percentage, progress);
+    });
+
+    for (const [fileId, digest] of digests) {
+      const file = this.files.get(fileId)!;
+      file.md5Hash = digest.md5;
+      file.sha1Hash = digest.sha1;
+      file.sha256Hash = digest.sha256;
+    }
+  }
+
+  private buildFileTree(): FileSystemItem[] {
+    const itemMap = new Map<string, FileSystemItem>();
+    const { evidenceId, volumeId } = this.options;
+
+    for (const [fileId, file] of this.files) {
+      // The root directory's entries form the top level
+      if (file.recordNumber === MFT_RECORD_ROOT && file.source === 'mft') continue;
+
+      itemMap.set(fileId, {
+        id: scopedItemId(this.options, fileId),
+        evidenceId,
+        volumeId,
+        name: file.fileName,
+        type: file.isDirectory ? 'directory' : 'file',
+        size: file.fileSize,
+        created: file.creationTime,
+        modified: file.modificationTime,
+        accessed: file.accessTime,
+        changed: file.changeTime,
+        path: '',
+        children: file.isDirectory ? [] : undefined,
+        metadata: {
+          fileId,
+          parentId: file.parentId,
+          inode: file.recordNumber,
+          attributes: file.attributes,
+          allocatedSize: file.allocatedSize,
+          securityId: file.securityId,
+          deleted: file.isDeleted,
+          allocated: !file.isDeleted,
+          isDeleted: file.isDeleted,
+          md5Hash: file.md5Hash,
+          sha1Hash: file.sha1Hash,
+          sha256Hash: file.sha256Hash,
+          ntfs: {
+            mftRecord: file.recordNumber,
+            sequenceNumber: file.sequenceNumber,
+            hardLinkCount: file.hardLinkCount,
+            source: file.source,
+            fileNameTimes: {
+              created: file.fileNameInfo.creationTime,
+              modified: file.fileNameInfo.modificationTime,
+              changed: file.fileNameInfo.changeTime,
+              accessed: file.fileNameInfo.accessTime
+            },
+            streams: file.streams.map(stream => ({ name: stream.name, size: stream.dataSize, resident: stream.resident !== null }))
+          }
+        }
+      });
+    }
+
+    this.items = itemMap;
+    return linkFileTree(itemMap, fileId => this.files.get(fileId)!.parentId);
+  }
+
+  private updateProgress(message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>): void {
+    this.progressCallback?.({ message, percentage, ...files });
+  }
+
+  getRootItems(): FileSystemItem[] {
+    return this.rootItems;
+  }
+
+  listDirectory(directoryFileId?: string): FileSystemItem[] {
+    if (directoryFileId === undefined) return this.rootItems;
+    return this.items.get(directoryFileId)?.children ?? [];
+  }
+
+  getDeletedEntries(): FileSystemItem[] {
+    return collectItems(this.rootItems, item => item.metadata?.deleted === true);
+  }
+
+  getBootSector(): NtfsBootSector | null {
+    return this.boot;
+  }
+
+  /**
+   * Reads up to `length` bytes of a file stream starting at `offset`.
+   * Returns null when the file has no such stream (or is only known from index slack).
+   */
+  async readFileContent(fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    const stream = this.files.get(fileId)?.streams.find(candidate => candidate.name === streamName);
+    if (!stream || !this.boot) return null;
+    return readNtfsStream(stream, this.device, this.boot.clusterSize, offset, length);
+  }
+
+  getValidationReport(): ValidationReport {
+    return createValidationReport('NTFS volume', this.findings);
+  }
+
+  isSimulated(): boolean {
+    return false;
+  }
+
+  getFileRecords(): Map<string, NtfsFileRecord> {
+    return this.files;
+  }
+}
+
+export const ntfsDriver: FileSystemDriver = {
+  fileSystem: 'NTFS',
+
+  async probe(device) {
+    const boot = await readView(device, 0, 512);
+    const bootSector = boot && decodeBootSector(boot);
+    const volumeSize = bootSector ? bootSector.totalSectors * bootSector.bytesPerSector : 0;
+    return scoreProbe([
+      { description: 'OEM ID is "NTFS"', passed: !!boot && readAscii(boot, 3, 8) === NTFS_OEM_ID, weight: 3, required: true },
+      { description: 'Boot sector ends with 55 AA', passed: !!boot && boot.getUint16(510, true) === 0xAA55, weight: 1 },
+      { description: 'Sector and cluster sizes are valid', passed: !!bootSector, weight: 1 },
+      { description: 'MFT record size is 1 or 4 KiB', passed: bootSector?.mftRecordSize === 1024 || bootSector?.mftRecordSize === 4096, weight: 1 },
+      { description: '$MFT and $MFTMirr lie inside the volume', passed: !!bootSector &&
+        Math.max(bootSector.mftCluster, bootSector.mftMirrorCluster) * bootSector.clusterSize < volumeSize, weight: 1 },
+      { description: 'Volume fits in the image', passed: !!bootSector && volumeSize <= device.size, weight: 1 }
+    ]);
+  },
+
+  async open(device, options, onProgress) {
+    const parser = new NtfsParser(device, onProgress, options);
+    await parser.parseImage();
+    return parser;
+  }
+};
@@ -0,0 +1,174 @@
+import type { BlockDevice } from './block-device';
+import { decompressLznt1 } from './compression';
+import { pushSegment } from './content-plan';
+import type { ContentSegment } from './content-plan';
+import { ATTRIBUTE_FLAG_COMPRESSED } from './ntfs-structures';
+import type { NtfsAttribute, NtfsRun } from './ntfs-structures';
+
+// Data streams of an NTFS file: the default $DATA attribute and any named
+// ones (alternate data streams). A large or fragmented stream may be split
+// over several attribute pieces, each mapping a VCN range, possibly in
+// extension records. Compressed streams are stored in compression units
+// (normally 16 clusters): a unit with sparse clusters holds LZNT1 data in
+// its allocated ones, a fully allocated unit is stored as is.
+
+export interface NtfsStream {
+  name: string;
+  dataSize: number;
+  allocatedSize: number;
+  /** Bytes past this point were never written and read as zeroes. */
+  initializedSize: number;
+  /** Value of a resident stream, null otherwise. */
+  resident: Uint8Array | null;
+  runs: NtfsRun[];
+  /** Clusters per compression unit, 0 when the stream is not compressed. */
+  compressionUnitClusters: number;
+}
+
+/** Merges the pieces of one attribute into a stream (the piece at VCN 0 holds the sizes). */
+export function buildStream(pieces: NtfsAttribute[]): NtfsStream {
+  const sorted = [...pieces].sort((a, b) => a.startVcn - b.startVcn);
+  const first = sorted[0];
+  const resident = first.value
+    ? new Uint8Array(first.value.buffer, first.value.byteOffset, first.value.byteLength).slice()
+    : null;
+
+  return {
+    name: first.name,
+    dataSize: first.dataSize,
+    allocatedSize: first.allocatedSize,
+    initializedSize: Math.min(first.initializedSize, first.dataSize),
+    resident,
+    runs: sorted.flatMap(piece => piece.runs),
+    compressionUnitClusters: !resident && (first.flags & ATTRIBUTE_FLAG_COMPRESSED) && first.compressionUnit > 0
+      ? 2 ** first.compressionUnit
+      : 0
+  };
+}
+
+/** The runs covering `count` clusters from `vcn`, with unmapped gaps as sparse runs. */
+function mapClusters(runs: NtfsRun[], vcn: number, count: number): NtfsRun[] {
+  const mapped: NtfsRun[] = [];
+  const end = vcn + count;
+  let position = vcn;
+
+  for (const run of runs) {
+    const runEnd = run.vcn + run.length;
+    if (runEnd <= position) continue;
+    if (run.vcn >= end) break;
+
+    if (run.vcn > position) {
+      mapped.push({ vcn: position, lcn: null, length: run.vcn - position });
+      position = run.vcn;
+    }
+    const length = Math.min(runEnd, end) - position;
+    mapped.push({ vcn: position, lcn: run.lcn === null ? null : run.lcn + (position - run.vcn), length });
+    position += length;
+  }
+
+  if (position < end) mapped.push({ vcn: position, lcn: null, length: end - position });
+  return mapped;
+}
+
+/**
+ * Reads `length` bytes at `offset` of a stream. Reads are clamped to the
+ * data size; sparse ranges and everything past the initialized size read
+ * as zeroes, as Windows returns them.
+ */
+export async function readNtfsStream(
+  stream: NtfsStream,
+  device: BlockDevice,
+  clusterSize: number,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  const end = Math.min(offset + length, stream.dataSize);
+  const result = new Uint8Array(Math.max(0, end - offset));
+  if (result.length === 0) return result;
+
+  if (stream.resident) {
+    result.set(stream.resident.subarray(offset, Math.min(end, stream.resident.length)));
+    return result;
+  }
+
+  const validEnd = Math.min(end, stream.initializedSize);
+  if (validEnd <= offset) return result;
+
+  if (stream.compressionUnitClusters > 0) {
+    const unitSize = stream.compressionUnitClusters * clusterSize;
+    for (let unit = Math.floor(offset / unitSize); unit * unitSize < validEnd; unit++) {
+      const unitStart = unit * unitSize;
+      const data = await readCompressionUnit(stream, device, clusterSize, unit);
+      const from = Math.max(offset, unitStart);
+      const to = Math.min(validEnd, unitStart + unitSize);
+      result.set(data.subarray(from - unitStart, to - unitStart), from - offset);
+    }
+    return result;
+  }
+
+  const firstCluster = Math.floor(offset / clusterSize);
+  const lastCluster = Math.ceil(validEnd / clusterSize);
+  for (const run of mapClusters(stream.runs, firstCluster, lastCluster - firstCluster)) {
+    if (run.lcn === null) continue;
+    const runStart = run.vcn * clusterSize;
+    const readStart = Math.max(offset, runStart);
+    const readEnd = Math.min(validEnd, runStart + run.length * clusterSize);
+    const bytes = await device.read(run.lcn * clusterSize + (readStart - runStart), readEnd - readStart);
+    result.set(bytes, readStart - offset);
+  }
+  return result;
+}
+
+async function readCompressionUnit(stream: NtfsStream, device: BlockDevice, clusterSize: number, unit: number): Promise<Uint8Array> {
+  const unitClusters = stream.compressionUnitClusters;
+  const unitSize = unitClusters * clusterSize;
+  const runs = mapClusters(stream.runs, unit * unitClusters, unitClusters);
+  const allocated = runs.filter(run => run.lcn !== null);
+  const allocatedClusters = allocated.reduce((total, run) => total + run.length, 0);
+
+  const stored = new Uint8Array(allocatedClusters * clusterSize);
+  let position = 0;
+  for (const run of allocated) {
+    stored.set(await device.read(run.lcn! * clusterSize, run.length * clusterSize), position);
+    position += run.length * clusterSize;
+  }
+
+  if (allocatedClusters === 0) return new Uint8Array(unitSize);
+  // A unit that did not compress is stored in full
+  if (allocatedClusters === unitClusters) return stored;
+  return decompressLznt1(stored, unitSize);
+}
+
+/**
+ * Describes where every byte of a stream lives on the volume, without
+ * reading it. Follows the same rules as `readNtfsStream`; compressed
+ * streams cannot be described this way and yield null.
+ */
+export function planNtfsStream(stream: NtfsStream, clusterSize: number): ContentSegment[] | null {
+  const plan: ContentSegment[] = [];
+  if (stream.resident) {
+    // Copied so posting the plan to a worker does not clone more than the stream
+    if (stream.dataSize > 0) plan.push({ kind: 'bytes', data: stream.resident.slice(0, stream.dataSize) });
+    return plan;
+  }
+  if (stream.compressionUnitClusters > 0) return null;
+
+  const validEnd = stream.initializedSize;
+  let position = 0;
+  const clusters = Math.ceil(validEnd / clusterSize);
+  for (const run of mapClusters(stream.runs, 0, clusters)) {
+    const runStart = run.vcn * clusterSize;
+    const runEnd = Math.min(runStart + run.length * clusterSize, validEnd);
+    if (runEnd <= position) continue;
+
+    pushSegment(plan, run.lcn === null
+      ? { kind: 'zero', length: runEnd - position }
+      : { kind: 'image', offset: run.lcn * clusterSize + (position - runStart), length: runEnd - position });
+    position = runEnd;
+  }
+
+  if (stream.dataSize > position) {
+    pushSegment(plan, { kind: 'zero', length: stream.dataSize - position });
+  }
+  return plan;
+}
@@ -0,0 +1,451 @@
+import { readAscii, readFileTime, readUint64, readUtf16 } from './byte-reader';
+
+// On-disk structures of NTFS. Everything on the volume is a file with a
+// record in the MFT: a fixed-size "FILE" record holding typed attributes,
+// each either resident (value inside the record) or non-resident (a run
+// list of clusters). Directories index their entries by name in $I30 B-tree
+// nodes: the root inside the record, larger nodes in "INDX" records.
+
+export const NTFS_OEM_ID = 'NTFS    ';
+
+export const MFT_RECORD_MFT = 0;
+export const MFT_RECORD_ROOT = 5;
+
+export const ATTRIBUTE_STANDARD_INFORMATION = 0x10;
+export const ATTRIBUTE_ATTRIBUTE_LIST = 0x20;
+export const ATTRIBUTE_FILE_NAME = 0x30;
+export const ATTRIBUTE_DATA = 0x80;
+export const ATTRIBUTE_INDEX_ROOT = 0x90;
+export const ATTRIBUTE_INDEX_ALLOCATION = 0xA0;
+export const ATTRIBUTE_BITMAP = 0xB0;
+const ATTRIBUTE_END = 0xFFFFFFFF;
+
+export const ATTRIBUTE_FLAG_COMPRESSED = 0x0001;
+export const ATTRIBUTE_FLAG_ENCRYPTED = 0x4000;
+export const ATTRIBUTE_FLAG_SPARSE = 0x8000;
+
+export const RECORD_FLAG_IN_USE = 0x0001;
+export const RECORD_FLAG_DIRECTORY = 0x0002;
+
+/** FILE_NAME namespaces; DOS names are the 8.3 aliases of a Win32 name. */
+export const FILE_NAME_POSIX = 0;
+export const FILE_NAME_DOS = 2;
+/** Set in a FILE_NAME's flags when it names a directory. */
+export const FILE_NAME_FLAG_DIRECTORY = 0x10000000;
+
+export const INDEX_NAME_I30 = '$I30';
+const INDEX_ENTRY_HEADER_SIZE = 0x10;
+const FILE_NAME_MIN_SIZE = 0x42;
+
+/** Update sequence arrays protect every 512 bytes, whatever the sector size. */
+const FIXUP_STRIDE = 512;
+
+/** FILETIMEs outside this range in carved data mean the bytes are not a real entry. */
+const PLAUSIBLE_TIME_MIN = Date.UTC(1980, 0, 1);
+const PLAUSIBLE_TIME_MAX = Date.UTC(2100, 0, 1);
+
+export interface NtfsBootSector {
+  bytesPerSector: number;
+  sectorsPerCluster: number;
+  clusterSize: number;
+  totalSectors: number;
+  mftCluster: number;
+  mftMirrorCluster: number;
+  mftRecordSize: number;
+  indexRecordSize: number;
+  volumeSerial: string;
+}
+
+export interface NtfsRun {
+  /** First cluster of the run within the attribute. */
+  vcn: number;
+  /** First cluster on the volume, null for a sparse run. */
+  lcn: number | null;
+  length: number;
+}
+
+export interface NtfsAttribute {
+  type: number;
+  name: string;
+  id: number;
+  flags: number;
+  nonResident: boolean;
+  /** Value of a resident attribute. */
+  value: DataView | null;
+  /** Non-resident attributes: the clusters this piece maps, and its run list. */
+  startVcn: number;
+  lastVcn: number;
+  runs: NtfsRun[];
+  /** Sizes are only meaningful in the piece starting at VCN 0. */
+  allocatedSize: number;
+  dataSize: number;
+  initializedSize: number;
+  /** Log2 of the clusters per compression unit, 0 when uncompressed. */
+  compressionUnit: number;
+}
+
+export interface NtfsRecordHeader {
+  sequence: number;
+  linkCount: number;
+  flags: number;
+  /** Record number of the base record for an extension record, 0 for a base record. */
+  baseRecord: number;
+}
+
+export interface NtfsRecord {
+  header: NtfsRecordHeader;
+  attributes: NtfsAttribute[];
+  /** Attributes that could not be decoded; the record is still usable. */
+  damaged: boolean;
+}
+
+export interface NtfsStandardInformation {
+  creationTime: Date;
+  modificationTime: Date;
+  /** MFT entry modified time. */
+  changeTime: Date;
+  accessTime: Date;
+  attributes: number;
+  securityId?: number;
+}
+
+export interface NtfsFileName {
+  parentRecord: number;
+  parentSequence: number;
+  creationTime: Date;
+  modificationTime: Date;
+  changeTime: Date;
+  accessTime: Date;
+  allocatedSize: number;
+  dataSize: number;
+  flags: number;
+  namespace: number;
+  name: string;
+}
+
+export interface NtfsAttributeListEntry {
+  type: number;
+  name: string;
+  startVcn: number;
+  record: number;
+  sequence: number;
+  id: number;
+}
+
+export interface NtfsIndexEntry {
+  record: number;
+  sequence: number;
+  fileName: NtfsFileName;
+  /** Offset of the entry in the buffer it was decoded from. */
+  offset: number;
+}
+
+export interface NtfsIndexNode {
+  /** Buffer offsets of the live entries and of the end of the node's allocation. */
+  entriesStart: number;
+  entriesEnd: number;
+  allocatedEnd: number;
+}
+
+const isPowerOfTwo = (value: number) => value > 0 && (value & (value - 1)) === 0;
+
+/** Sizes stored as a signed byte: clusters when positive, 2^-n bytes when negative. */
+function decodeRecordSize(value: number, clusterSize: number): number {
+  return value > 0 ? value * clusterSize : 2 ** -value;
+}
+
+export function decodeBootSector(view: DataView): NtfsBootSector | null {
+  if (view.byteLength < 512 || readAscii(view, 3, 8) !== NTFS_OEM_ID) return null;
+
+  const bytesPerSector = view.getUint16(11, true);
+  const rawSectorsPerCluster = view.getUint8(13);
+  // Values above 0x80 encode clusters larger than 64 KiB as a negative power of two
+  const sectorsPerCluster = rawSectorsPerCluster > 0x80 ? 2 ** (256 - rawSectorsPerCluster) : rawSectorsPerCluster;
+  if (!isPowerOfTwo(bytesPerSector) || bytesPerSector < 256 || bytesPerSector > 4096) return null;
+  if (!isPowerOfTwo(sectorsPerCluster)) return null;
+
+  const clusterSize = bytesPerSector * sectorsPerCluster;
+  return {
+    bytesPerSector,
+    sectorsPerCluster,
+    clusterSize,
+    totalSectors: readUint64(view, 40),
+    mftCluster: readUint64(view, 48),
+    mftMirrorCluster: readUint64(view, 56),
+    mftRecordSize: decodeRecordSize(view.getInt8(64), clusterSize),
+    indexRecordSize: decodeRecordSize(view.getInt8(68), clusterSize),
+    volumeSerial: view.getBigUint64(72, true).toString(16).toUpperCase().padStart(16, '0')
+  };
+}
+
+/**
+ * Restores the last two bytes of every 512-byte stride of a multi-sector
+ * record (FILE, INDX) from its update sequence array, in place. Returns
+ * false when a stride does not carry the sequence number, i.e. the record
+ * was torn by an interrupted write.
+ */
+export function applyFixups(record: Uint8Array): boolean {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const arrayOffset = view.getUint16(4, true);
+  const arrayCount = view.getUint16(6, true);
+  if (arrayCount === 0 || arrayOffset + arrayCount * 2 > record.length) return false;
+
+  const sequence = view.getUint16(arrayOffset, true);
+  let intact = true;
+  for (let i = 1; i < arrayCount; i++) {
+    const position = i * FIXUP_STRIDE - 2;
+    if (position + 2 > record.length) break;
+    if (view.getUint16(position, true) !== sequence) intact = false;
+    view.setUint16(position, view.getUint16(arrayOffset + i * 2, true), true);
+  }
+  return intact;
+}
+
+/** Splits a 64-bit file reference into record number (48 bits) and sequence number. */
+export function decodeFileReference(view: DataView, offset: number): { record: number; sequence: number } {
+  const low = view.getUint32(offset, true);
+  const high = view.getUint16(offset + 4, true);
+  return { record: high * 0x100000000 + low, sequence: view.getUint16(offset + 6, true) };
+}
+
+/** A file reference as NTFS tools print it: 16 hex digits, sequence number first. */
+export function formatFileReference(record: number, sequence: number): string {
+  return sequence.toString(16).padStart(4, '0') + record.toString(16).padStart(12, '0');
+}
+
+/** Decodes a FILE record whose fixups have been applied; null when it is not one. */
+export function decodeRecord(record: Uint8Array): NtfsRecord | null {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  if (record.length < 48 || readAscii(view, 0, 4) !== 'FILE') return null;
+
+  const header: NtfsRecordHeader = {
+    sequence: view.getUint16(16, true),
+    linkCount: view.getUint16(18, true),
+    flags: view.getUint16(22, true),
+    baseRecord: decodeFileReference(view, 32).record
+  };
+
+  const attributes: NtfsAttribute[] = [];
+  const usedSize = Math.min(view.getUint32(24, true), record.length);
+  let offset = view.getUint16(20, true);
+  let damaged = false;
+
+  while (offset + 8 <= usedSize) {
+    const type = view.getUint32(offset, true);
+    if (type === ATTRIBUTE_END) break;
+
+    const length = view.getUint32(offset + 4, true);
+    if (length < 24 || offset + length > usedSize) {
+      damaged = true;
+      break;
+    }
+
+    let attribute: NtfsAttribute | null = null;
+    try {
+      attribute = decodeAttribute(new DataView(record.buffer, record.byteOffset + offset, length));
+    } catch {
+      // A malformed run list; the record's other attributes are still good
+    }
+    if (attribute) attributes.push(attribute);
+    else damaged = true;
+    offset += length;
+  }
+
+  return { header, attributes, damaged };
+}
+
+function decodeAttribute(view: DataView): NtfsAttribute | null {
+  const nonResident = view.getUint8(8) !== 0;
+  const nameLength = view.getUint8(9);
+  const nameOffset = view.getUint16(10, true);
+  if (nameOffset + nameLength * 2 > view.byteLength) return null;
+
+  const attribute: NtfsAttribute = {
+    type: view.getUint32(0, true),
+    name: readUtf16(view, nameOffset, nameLength * 2),
+    id: view.getUint16(14, true),
+    flags: view.getUint16(12, true),
+    nonResident,
+    value: null,
+    startVcn: 0,
+    lastVcn: 0,
+    runs: [],
+    allocatedSize: 0,
+    dataSize: 0,
+    initializedSize: 0,
+    compressionUnit: 0
+  };
+
+  if (!nonResident) {
+    const valueLength = view.getUint32(16, true);
+    const valueOffset = view.getUint16(20, true);
+    if (valueOffset + valueLength > view.byteLength) return null;
+    attribute.value = new DataView(view.buffer, view.byteOffset + valueOffset, valueLength);
+    attribute.dataSize = attribute.allocatedSize = attribute.initializedSize = valueLength;
+    return attribute;
+  }
+
+  if (view.byteLength < 64) return null;
+  attribute.startVcn = readUint64(view, 16);
+  attribute.lastVcn = readUint64(view, 24);
+  attribute.compressionUnit = view.getUint16(34, true);
+  attribute.allocatedSize = readUint64(view, 40);
+  attribute.dataSize = readUint64(view, 48);
+  attribute.initializedSize = readUint64(view, 56);
+  attribute.runs = decodeRunList(view, view.getUint16(32, true), attribute.startVcn);
+  return attribute;
+}
+
+/**
+ * Decodes a run list. Each run starts with a byte giving the sizes of its
+ * length and offset fields; offsets are signed and relative to the previous
+ * run's LCN, and a run without one is sparse.
+ */
+export function decodeRunList(view: DataView, offset: number, startVcn: number): NtfsRun[] {
+  const runs: NtfsRun[] = [];
+  let vcn = startVcn;
+  let lcn = 0;
+
+  while (offset < view.byteLength) {
+    const header = view.getUint8(offset);
+    if (header === 0) break;
+
+    const lengthSize = header & 0x0F;
+    const offsetSize = header >> 4;
+    if (lengthSize === 0 || lengthSize > 8 || offsetSize > 8 || offset + 1 + lengthSize + offsetSize > view.byteLength) {
+      throw new Error(`malformed run list at offset 0x${offset.toString(16)}`);
+    }
+
+    let length = 0;
+    for (let i = lengthSize - 1; i >= 0; i--) {
+      length = length * 256 + view.getUint8(offset + 1 + i);
+    }
+
+    let delta: number | null = null;
+    if (offsetSize > 0) {
+      delta = 0;
+      for (let i = offsetSize - 1; i >= 0; i--) {
+        delta = delta * 256 + view.getUint8(offset + 1 + lengthSize + i);
+      }
+      // Sign-extend from the field's top bit
+      if (view.getUint8(offset + lengthSize + offsetSize) & 0x80) delta -= 2 ** (offsetSize * 8);
+      lcn += delta;
+    }
+
+    runs.push({ vcn, lcn: delta === null ? null : lcn, length });
+    vcn += length;
+    offset += 1 + lengthSize + offsetSize;
+  }
+  return runs;
+}
+
+export function decodeStandardInformation(view: DataView): NtfsStandardInformation | null {
+  if (view.byteLength < 48) return null;
+  return {
+    creationTime: readFileTime(view, 0),
+    modificationTime: readFileTime(view, 8),
+    changeTime: readFileTime(view, 16),
+    accessTime: readFileTime(view, 24),
+    attributes: view.getUint32(32, true),
+    // Only the NTFS 3.0+ layout (72 bytes) carries a security ID
+    securityId: view.byteLength >= 72 ? view.getUint32(52, true) : undefined
+  };
+}
+
+export function decodeFileName(view: DataView): NtfsFileName | null {
+  if (view.byteLength < FILE_NAME_MIN_SIZE) return null;
+  const nameLength = view.getUint8(64);
+  if (nameLength === 0 || FILE_NAME_MIN_SIZE + nameLength * 2 > view.byteLength) return null;
+
+  const parent = decodeFileReference(view, 0);
+  return {
+    parentRecord: parent.record,
+    parentSequence: parent.sequence,
+    creationTime: readFileTime(view, 8),
+    modificationTime: readFileTime(view, 16),
+    changeTime: readFileTime(view, 24),
+    accessTime: readFileTime(view, 32),
+    allocatedSize: readUint64(view, 40),
+    dataSize: readUint64(view, 48),
+    flags: view.getUint32(56, true),
+    namespace: view.getUint8(65),
+    name: readUtf16(view, FILE_NAME_MIN_SIZE, nameLength * 2)
+  };
+}
+
+export function decodeAttributeList(view: DataView): NtfsAttributeListEntry[] {
+  const entries: NtfsAttributeListEntry[] = [];
+  let offset = 0;
+  while (offset + 26 <= view.byteLength) {
+    const length = view.getUint16(offset + 4, true);
+    if (length < 26 || offset + length > view.byteLength) break;
+
+    const nameLength = view.getUint8(offset + 6);
+    const nameOffset = view.getUint8(offset + 7);
+    const reference = decodeFileReference(view, offset + 16);
+    entries.push({
+      type: view.getUint32(offset, true),
+      name: nameLength > 0 ? readUtf16(view, offset + nameOffset, nameLength * 2) : '',
+      startVcn: readUint64(view, offset + 8),
+      record: reference.record,
+      sequence: reference.sequence,
+      id: view.getUint16(offset + 24, true)
+    });
+    offset += length;
+  }
+  return entries;
+}
+
+/** Reads the node header (index root value offset 16, INDX record offset 24). */
+export function decodeIndexNode(view: DataView, headerOffset: number): NtfsIndexNode | null {
+  if (headerOffset + 16 > view.byteLength) return null;
+  const entriesStart = headerOffset + view.getUint32(headerOffset, true);
+  const entriesEnd = headerOffset + view.getUint32(headerOffset + 4, true);
+  const allocatedEnd = Math.min(headerOffset + view.getUint32(headerOffset + 8, true), view.byteLength);
+  if (entriesStart > entriesEnd || entriesEnd > allocatedEnd) return null;
+  return { entriesStart, entriesEnd, allocatedEnd };
+}
+
+/**
+ * Carves entries from index slack, the space between a node's live entries
+ * and the end of its allocation, where entries removed from the node
+ * linger. Only entries naming `parentRecord` as their directory with
+ * plausible timestamps are accepted.
+ */
+export function carveIndexEntries(view: DataView, start: number, end: number, parentRecord: number): NtfsIndexEntry[] {
+  const entries: NtfsIndexEntry[] = [];
+  // Entries are 8-byte aligned relative to the node, which the slack start need not be
+  let offset = start + ((8 - (start % 8)) % 8);
+
+  while (offset + INDEX_ENTRY_HEADER_SIZE + FILE_NAME_MIN_SIZE <= end) {
+    const length = view.getUint16(offset + 8, true);
+    const keyLength = view.getUint16(offset + 10, true);
+    const entry = keyLength >= FILE_NAME_MIN_SIZE && length >= INDEX_ENTRY_HEADER_SIZE + keyLength && length % 8 === 0
+      && offset + INDEX_ENTRY_HEADER_SIZE + keyLength <= end
+      ? decodeIndexEntry(view, offset, keyLength)
+      : null;
+
+    if (entry && entry.fileName.parentRecord === parentRecord && isPlausibleFileName(entry.fileName)) {
+      entries.push(entry);
+      offset += Math.min(length, end - offset);
+    } else {
+      offset += 8;
+    }
+  }
+  return entries;
+}
+
+function decodeIndexEntry(view: DataView, offset: number, keyLength: number): NtfsIndexEntry | null {
+  if (keyLength < FILE_NAME_MIN_SIZE || offset + INDEX_ENTRY_HEADER_SIZE + keyLength > view.byteLength) return null;
+
+  const fileName = decodeFileName(new DataView(view.buffer, view.byteOffset + offset + INDEX_ENTRY_HEADER_SIZE, keyLength));
+  if (!fileName) return null;
+  const reference = decodeFileReference(view, offset);
+  return { record: reference.record, sequence: reference.sequence, fileName, offset };
+}
+
+function isPlausibleFileName(fileName: NtfsFileName): boolean {
+  if (fileName.namespace > 3 || [...fileName.name].some(char => char.charCodeAt(0) < 0x20)) return false;
+  return [fileName.creationTime, fileName.modificationTime, fileName.changeTime, fileName.accessTime]
+    .every(time => time.getTime() >= PLAUSIBLE_TIME_MIN && time.getTime() < PLAUSIBLE_TIME_MAX);
+}
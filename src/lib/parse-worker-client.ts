@@ -0,0 +1,203 @@
+import type {
+  AcquisitionHash,
+  AcquisitionInfo,
+  FileSystemItem,
+  FileSystemProbe,
+  FileSystemType,
+  IntegrityReport,
+  ParseProgress,
+  RefsCheckpointInfo,
+  RefsCorruptNode
+} from '../types/forensic';
+import type { ImageFormat } from './image-formats';
+import type { PartitionTable } from './partition-table';
+import type { RefsParserOptions, RefsRecoveryResult, RefsSuperblocK } from './refs-parser';
+import { ImageValidationError } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+
+// Main-thread side of the parse worker. Each evidence item gets a worker of
+// its own that parses the image and then stays alive to serve reads (hex
+// view, file content), so cancelling one job never touches evidence that is
+// already loaded.
+
+/** A parsed volume: the whole image, or one partition of it. */
+export interface VolumeResult {
+  /** '' when the image is a single volume, `p<n>` for partition n. */
+  volumeId: string;
+  fileSystem: FileSystemType;
+  items: FileSystemItem[];
+  /** ReFS state; null or empty for other file systems. */
+  superblock: RefsSuperblocK | null;
+  checkpoints: RefsCheckpointInfo[];
+  activeCheckpoint: number | undefined;
+  corruptNodes: RefsCorruptNode[];
+  simulated: boolean;
+  validation: ValidationReport;
+}
+
+/** The evidence container the volumes were read from. */
+export interface ImageInfo {
+  format: ImageFormat;
+  /** File that names the evidence when it spans several (segments, differencing chains). */
+  fileName: string;
+  /** Size of the media (not of the container files) in bytes. */
+  size: number;
+  findings: ValidationFinding[];
+  /** Case metadata and acquisition hashes of formats that store them. */
+  acquisition?: AcquisitionInfo;
+}
+
+export interface ParseResult {
+  image: ImageInfo;
+  /** Null when the image is a single volume rather than a whole disk. */
+  partitionTable: PartitionTable | null;
+  volumes: VolumeResult[];
+  /** Why a partition's volume could not be parsed, by volume ID. */
+  volumeErrors: Record<string, string>;
+  /** Drivers whose probes matched each volume, best first, by volume ID. */
+  volumeProbes: Record<string, FileSystemProbe[]>;
+}
+
+export interface MetadataBlock {
+  bytes: Uint8Array;
+  /** Byte offset of the block in the image. */
+  offset: number;
+}
+
+/** Parser options that can cross the worker boundary. */
+export type WorkerParseOptions = Omit<RefsParserOptions, 'source' | 'volumeId'> & {
+  /** Volume `checkpointIndex` applies to; the others open at their newest checkpoint. */
+  checkpointVolumeId?: string;
+};
+
+export type ParseWorkerRequest =
+  | { type: 'parse'; id: number; files: Blob[]; options: WorkerParseOptions }
+  | { type: 'readContent'; id: number; volumeId: string; fileId: string; streamName: string; offset: number; length: number }
+  | { type: 'readMetadataBlock'; id: number; volumeId: string; block: number }
+  | { type: 'verifyAcquisition'; id: number }
+  | { type: 'verifyIntegrity'; id: number; volumeId: string }
+  | { type: 'recoverRecords'; id: number; volumeId: string }
+  /** Stops request `id`, leaving the worker and its evidence open. */
+  | { type: 'cancel'; id: number };
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; id: number; progress: ParseProgress }
+  | { type: 'parsed'; id: number; result: ParseResult }
+  | { type: 'content'; id: number; bytes: Uint8Array | null }
+  | { type: 'metadataBlock'; id: number; block: MetadataBlock | null }
+  | { type: 'acquisition'; id: number; hashes: AcquisitionHash[] }
+  | { type: 'integrity'; id: number; report: IntegrityReport | null }
+  | { type: 'recovered'; id: number; result: RefsRecoveryResult | null }
+  | { type: 'error'; id: number; message: string; report?: ValidationReport };
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: ParseWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+export class EvidenceWorker {
+  private worker: Worker;
+  private pending: Map<number, PendingRequest> = new Map();
+  private nextId = 1;
+
+  constructor() {
+    this.worker = new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => this.handleResponse(event.data);
+    this.worker.onerror = event => this.failAll(new Error(`Parse worker failed: ${event.message}`));
+  }
+
+  /** Parses an image; `files` holds all segments of a segmented image. */
+  async parse(files: Blob[], options: WorkerParseOptions, onProgress?: (progress: ParseProgress) => void): Promise<ParseResult> {
+    const response = await this.request({ type: 'parse', id: 0, files, options }, onProgress);
+    return (response as Extract<ParseWorkerResponse, { type: 'parsed' }>).result;
+  }
+
+  /** Reads a file's content, or that of one of its alternate data streams. */
+  async readFileContent(volumeId: string, fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    const response = await this.request({ type: 'readContent', id: 0, volumeId, fileId, streamName, offset, length });
+    return (response as Extract<ParseWorkerResponse, { type: 'content' }>).bytes;
+  }
+
+  async readMetadataBlock(volumeId: string, block: number): Promise<MetadataBlock | null> {
+    const response = await this.request({ type: 'readMetadataBlock', id: 0, volumeId, block });
+    return (response as Extract<ParseWorkerResponse, { type: 'metadataBlock' }>).block;
+  }
+
+  /**
+   * Hashes the whole media of an EWF image and compares it with the hashes
+   * recorded at acquisition; [] for other formats. Aborting `signal` stops
+   * it with ParseCancelledError and keeps the evidence open.
+   */
+  async verifyAcquisitionHashes(onProgress?: (progress: ParseProgress) => void, signal?: AbortSignal): Promise<AcquisitionHash[]> {
+    const response = await this.request({ type: 'verifyAcquisition', id: 0 }, onProgress, signal);
+    return (response as Extract<ParseWorkerResponse, { type: 'acquisition' }>).hashes;
+  }
+
+  /** Recomputes a ReFS volume's checksums; null for other file systems and simulated volumes. */
+  async verifyIntegrity(volumeId: string, onProgress?: (progress: ParseProgress) => void): Promise<IntegrityReport | null> {
+    const response = await this.request({ type: 'verifyIntegrity', id: 0, volumeId }, onProgress);
+    return (response as Extract<ParseWorkerResponse, { type: 'integrity' }>).report;
+  }
+
+  /** Recovers records from a ReFS volume's free space; null for other file systems and simulated volumes. */
+  async recoverRecords(volumeId: string, onProgress?: (progress: ParseProgress) => void): Promise<RefsRecoveryResult | null> {
+    const response = await this.request({ type: 'recoverRecords', id: 0, volumeId }, onProgress);
+    return (response as Extract<ParseWorkerResponse, { type: 'recovered' }>).result;
+  }
+
+  /** Stops the worker at once; requests still in flight reject with ParseCancelledError. */
+  terminate(): void {
+    this.worker.terminate();
+    this.failAll(new ParseCancelledError());
+  }
+
+  private request(
+    request: ParseWorkerRequest,
+    onProgress?: (progress: ParseProgress) => void,
+    signal?: AbortSignal
+  ): Promise<ParseWorkerResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+      this.worker.postMessage({ ...request, id });
+      signal?.addEventListener('abort', () => {
+        if (!this.pending.delete(id)) return;
+        this.worker.postMessage({ type: 'cancel', id } satisfies ParseWorkerRequest);
+        reject(new ParseCancelledError());
+      }, { once: true });
+    });
+  }
+
+  private handleResponse(response: ParseWorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.progress);
+        return;
+      case 'error':
+        this.pending.delete(response.id);
+        pending.reject(response.report ? new ImageValidationError(response.report) : new Error(response.message));
+        return;
+      default:
+        this.pending.delete(response.id);
+        pending.resolve(response);
+    }
+  }
+
+  private failAll(error: Error): void {
+    for (const pending of this.pending.values()) {
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,193 @@
+import { BlobBlockDevice, SliceBlockDevice } from './block-device';
+import type { BlockDevice } from './block-device';
+import { EwfImage } from './ewf-reader';
+import { probeFileSystem } from './filesystem-detect';
+import type { FileSystemDriver, FileSystemVolume } from './filesystem-driver';
+import { openImage } from './image-formats';
+import { partitionVolumeId, readPartitionTable } from './partition-table';
+import { rawDriver } from './raw-volume';
+import { RefsParser, refsDriver } from './refs-parser';
+import type { RefsParserOptions } from './refs-parser';
+import { ImageValidationError } from './validation-report';
+import type { ImageInfo, ParseWorkerRequest, ParseWorkerResponse, VolumeResult, WorkerParseOptions } from './parse-worker-client';
+import type { FileSystemProbe, ParseProgress } from '../types/forensic';
+
+// Parses one evidence image off the main thread and keeps its volumes open
+// to answer later reads against them. Whole-disk images get one volume per
+// partition; each is probed for its file system, and one no driver
+// recognises is opened raw. Hashing runs here too, on this thread.
+
+interface OpenVolume {
+  volume: FileSystemVolume;
+  /** Byte offset of the volume in the image. */
+  offset: number;
+}
+
+const volumes = new Map<string, OpenVolume>();
+/** The image's media, kept for acquisition hash verification. */
+let media: BlockDevice | null = null;
+/** IDs of requests the client has cancelled; long requests check it as they go. */
+const cancelled = new Set<number>();
+
+const respond = (response: ParseWorkerResponse) => self.postMessage(response);
+
+async function parseVolume(
+  device: BlockDevice,
+  offset: number,
+  volumeId: string,
+  driver: FileSystemDriver,
+  options: WorkerParseOptions,
+  onProgress: (progress: ParseProgress) => void,
+  source?: Blob
+): Promise<VolumeResult> {
+  const { checkpointIndex, checkpointVolumeId, ...rest } = options;
+  const parserOptions: RefsParserOptions = { ...rest, volumeId: volumeId || undefined, source };
+  if ((checkpointVolumeId ?? '') === volumeId) {
+    parserOptions.checkpointIndex = checkpointIndex;
+  }
+
+  const volume = await driver.open(device, parserOptions, onProgress);
+  volumes.set(volumeId, { volume, offset });
+
+  const refs = volume instanceof RefsParser ? volume : null;
+  return {
+    volumeId,
+    fileSystem: volume.fileSystem,
+    items: volume.getRootItems(),
+    superblock: refs?.getSuperblock() ?? null,
+    checkpoints: refs?.getCheckpoints() ?? [],
+    activeCheckpoint: refs?.getActiveCheckpoint(),
+    corruptNodes: refs?.getCorruptNodes() ?? [],
+    simulated: volume.isSimulated(),
+    validation: volume.getValidationReport()
+  };
+}
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data;
+  const progress = (prefix: string) => (update: ParseProgress) => {
+    respond({ type: 'progress', id: request.id, progress: { ...update, message: prefix + update.message } });
+  };
+
+  try {
+    switch (request.type) {
+      case 'parse': {
+        const { format, fileName, device, findings } = await openImage(request.files);
+        media = device;
+        // A plain raw image is its own media, so the hash worker can stream the volumes from the file itself
+        const blob = device instanceof BlobBlockDevice ? device.blob : undefined;
+        const image: ImageInfo = { format, fileName, size: device.size, findings: [...findings] };
+        const partitionTable = await readPartitionTable(device);
+        const results: VolumeResult[] = [];
+        const volumeErrors: Record<string, string> = {};
+        const volumeProbes: Record<string, FileSystemProbe[]> = {};
+
+        if (!partitionTable) {
+          // A volume no driver recognises is opened raw, except in demo mode,
+          // where the ReFS parser simulates one
+          const { driver, probes } = await probeFileSystem(device);
+          volumeProbes[''] = probes;
+          const chosen = driver ?? (request.options.mode === 'demo' ? refsDriver : rawDriver);
+          results.push(await parseVolume(device, 0, '', chosen, request.options, progress(''), blob));
+        } else {
+          // A partition that does not parse must not cost the others, so
+          // failures are recorded against the partition instead of thrown
+          for (const partition of partitionTable.partitions) {
+            const volume = new SliceBlockDevice(device, partition.startOffset, partition.size);
+            const volumeId = partitionVolumeId(partition.index);
+            const { driver, probes } = await probeFileSystem(volume);
+            volumeProbes[volumeId] = probes;
+            partition.fileSystem = driver?.fileSystem ?? 'Unknown';
+
+            try {
+              const options = { ...request.options, mode: 'forensic' as const };
+              const source = blob?.slice(partition.startOffset, partition.startOffset + partition.size);
+              results.push(await parseVolume(volume, partition.startOffset, volumeId, driver ?? rawDriver, options, progress(`Partition ${partition.index}: `), source));
+            } catch (error) {
+              volumeErrors[volumeId] = (error as Error).message;
+            }
+          }
+        }
+
+        // Hashes are verified by a request of their own: they read the whole media
+        if (device instanceof EwfImage) {
+          image.acquisition = device.getAcquisitionInfo();
+        }
+
+        respond({ type: 'parsed', id: request.id, result: { image, partitionTable, volumes: results, volumeErrors, volumeProbes } });
+        break;
+      }
+      case 'readContent': {
+        const volume = volumes.get(request.volumeId)?.volume;
+        const bytes = volume ? await volume.readFileContent(request.fileId, request.offset, request.length, request.streamName) : null;
+        respond({ type: 'content', id: request.id, bytes: bytes?.slice() ?? null });
+        break;
+      }
+      case 'readMetadataBlock': {
+        // Metadata blocks are a ReFS notion
+        const open = volumes.get(request.volumeId);
+        const parser = open?.volume instanceof RefsParser ? open.volume : null;
+        const bytes = parser ? await parser.readMetadataBlock(request.block) : null;
+        const resolver = parser?.getResolver();
+        respond({
+          type: 'metadataBlock',
+          id: request.id,
+          block: open && bytes && resolver
+            ? { bytes: bytes.slice(), offset: open.offset + resolver.toPhysicalOffset(request.block) }
+            : null
+        });
+        break;
+      }
+      case 'cancel':
+        cancelled.add(request.id);
+        break;
+      case 'verifyAcquisition': {
+        const hashes = media instanceof EwfImage
+          ? await media.verifyAcquisitionHashes((processed, total) => {
+            if (cancelled.has(request.id)) throw new Error('Acquisition hash verification was cancelled');
+            respond({
+              type: 'progress',
+              id: request.id,
+              progress: { message: 'Verifying acquisition hashes...', percentage: Math.round((processed / total) * 100) }
+            });
+          })
+          : [];
+        cancelled.delete(request.id);
+        respond({ type: 'acquisition', id: request.id, hashes });
+        break;
+      }
+      case 'verifyIntegrity': {
+        // Only ReFS keeps checksums of its metadata and file data
+        const open = volumes.get(request.volumeId);
+        const parser = open?.volume instanceof RefsParser ? open.volume : null;
+        const report = parser ? await parser.verifyIntegrity(progress('')) : null;
+        for (const mismatch of report?.mismatches ?? []) {
+          mismatch.offset += open!.offset;
+        }
+        respond({ type: 'integrity', id: request.id, report });
+        break;
+      }
+      case 'recoverRecords': {
+        // Stale pages are a ReFS artefact: it never updates metadata in place
+        const open = volumes.get(request.volumeId);
+        const parser = open?.volume instanceof RefsParser ? open.volume : null;
+        const result = parser ? await parser.recoverDeletedRecords(progress('')) : null;
+        // Findings carry image offsets; the parser's are the volume's
+        const findings = result?.findings.map(finding => ({
+          ...finding,
+          offset: finding.offset === null ? null : finding.offset + open!.offset
+        }));
+        respond({ type: 'recovered', id: request.id, result: result && { ...result, findings: findings! } });
+        break;
+      }
+    }
+  } catch (error) {
+    if (cancelled.delete(request.id)) return;
+    respond({
+      type: 'error',
+      id: request.id,
+      message: (error as Error).message,
+      report: error instanceof ImageValidationError ? error.report : undefined
+    });
+  }
+};
@@ -0,0 +1,455 @@
+import { readAscii, readGuid, readUint64, readUtf16 } from './byte-reader';
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import { crc32 } from './checksum';
+import type { ValidationFinding } from './validation-report';
+import type { PartitionInfo, PartitionScheme } from '../types/forensic';
+
+// Partition table discovery for whole-disk images. An MBR lists four
+// primary partitions and chains logical ones through extended boot records;
+// a GPT (announced by a protective MBR entry) keeps a CRC-protected header
+// and entry array at the start of the disk and a backup copy at its end.
+
+export interface PartitionGap {
+  startOffset: number;
+  size: number;
+}
+
+export interface PartitionTable {
+  scheme: PartitionScheme;
+  sectorSize: number;
+  diskGuid: string | null;
+  partitions: PartitionInfo[];
+  /** Space between the table and the end of the disk that no partition covers. */
+  gaps: PartitionGap[];
+  findings: ValidationFinding[];
+}
+
+const MBR_ENTRY_OFFSET = 446;
+const MBR_SIGNATURE_OFFSET = 510;
+const MBR_TYPE_GPT_PROTECTIVE = 0xEE;
+const MBR_EXTENDED_TYPES = new Set([0x05, 0x0F, 0x85]);
+const MAX_LOGICAL_PARTITIONS = 128;
+
+/** Logical sector sizes a disk may count its LBAs in (4096 on 4Kn disks). */
+const SECTOR_SIZES = [512, 4096];
+
+const GPT_SIGNATURE = 'EFI PART';
+const GPT_MIN_HEADER_SIZE = 92;
+const GPT_MIN_ENTRY_SIZE = 128;
+const GPT_MAX_ENTRIES = 1024;
+const GPT_UNUSED_TYPE = '00000000-0000-0000-0000-000000000000';
+
+const MBR_TYPE_NAMES: Record<number, string> = {
+  0x01: 'FAT12',
+  0x04: 'FAT16 (<32 MB)',
+  0x05: 'Extended',
+  0x06: 'FAT16',
+  0x07: 'NTFS / exFAT / ReFS',
+  0x0B: 'FAT32 (CHS)',
+  0x0C: 'FAT32 (LBA)',
+  0x0E: 'FAT16 (LBA)',
+  0x0F: 'Extended (LBA)',
+  0x11: 'Hidden FAT12',
+  0x17: 'Hidden NTFS',
+  0x1B: 'Hidden FAT32',
+  0x27: 'Windows Recovery',
+  0x42: 'Windows Dynamic (LDM)',
+  0x82: 'Linux swap',
+  0x83: 'Linux',
+  0x85: 'Linux extended',
+  0x8E: 'Linux LVM',
+  0xEE: 'GPT protective',
+  0xEF: 'EFI System'
+};
+
+const GPT_TYPE_NAMES: Record<string, string> = {
+  'c12a7328-f81f-11d2-ba4b-00a0c93ec93b': 'EFI System',
+  '21686148-6449-6e6f-744e-656564454649': 'BIOS boot',
+  'e3c9e316-0b5c-4db8-817d-f92df00215ae': 'Microsoft Reserved',
+  'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7': 'Microsoft Basic Data',
+  'de94bba4-06d1-4d40-a16a-bfd50179d6ac': 'Windows Recovery',
+  '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3': 'Windows LDM Metadata',
+  'af9b60a0-1431-4f62-bc68-3311714a69ad': 'Windows LDM Data',
+  'e75caf8f-f680-4cee-afa3-b001e56efc2d': 'Windows Storage Spaces',
+  '0fc63daf-8483-4772-8e79-3d69d8477de4': 'Linux filesystem',
+  '0657fd6d-a4ab-43c4-84e5-0933c84b4f4f': 'Linux swap',
+  'e6d6d379-f507-44c2-a23c-238f2a3df928': 'Linux LVM',
+  'a19d880f-05fc-4d3b-a006-743f0f84911e': 'Linux RAID',
+  '48465300-0000-11aa-aa11-00306543ecac': 'Apple HFS+',
+  '7c3457ef-0000-11aa-aa11-00306543ecac': 'Apple APFS'
+};
+
+interface MbrEntry {
+  bootable: boolean;
+  type: number;
+  startSector: number;
+  sectorCount: number;
+}
+
+interface GptHeader {
+  currentLba: number;
+  backupLba: number;
+  firstUsableLba: number;
+  lastUsableLba: number;
+  diskGuid: string;
+  entriesLba: number;
+  entryCount: number;
+  entrySize: number;
+  entriesCrc: number;
+}
+
+/**
+ * Reads the partition table of a disk image. Returns null when sector 0 is
+ * not a partition table at all, which is the case for images of a single
+ * volume (whose boot sector carries the same 0x55AA signature).
+ */
+export async function readPartitionTable(device: BlockDevice): Promise<PartitionTable | null> {
+  const sector = await readView(device, 0, 512);
+  if (!sector || sector.getUint16(MBR_SIGNATURE_OFFSET, true) !== 0xAA55) return null;
+  if (isVolumeBootRecord(sector)) return null;
+
+  const entries = readMbrEntries(sector);
+  if (!entries || entries.length === 0) return null;
+
+  if (entries.some(entry => entry.type === MBR_TYPE_GPT_PROTECTIVE)) {
+    return readGpt(device);
+  }
+  return readMbr(device, entries);
+}
+
+/** ID of the volume inside partition `index`, as used to address its parser. */
+export function partitionVolumeId(index: number): string {
+  return `p${index}`;
+}
+
+/** Names an MBR partition type byte or a GPT partition type GUID. */
+export function describePartitionType(typeId: string): string {
+  if (typeId.startsWith('0x')) {
+    return MBR_TYPE_NAMES[parseInt(typeId, 16)] ?? `Unknown (${typeId})`;
+  }
+  return GPT_TYPE_NAMES[typeId.toLowerCase()] ?? 'Unknown';
+}
+
+function isVolumeBootRecord(sector: DataView): boolean {
+  const oemId = readAscii(sector, 3, 8);
+  if (oemId.startsWith('ReFS') || oemId === 'NTFS    ' || oemId === 'EXFAT   ') return true;
+  return readAscii(sector, 82, 8) === 'FAT32   ' || readAscii(sector, 54, 8).startsWith('FAT1');
+}
+
+/**
+ * Decodes the four entries of an MBR or EBR, or returns null when they do
+ * not look like a partition table (a status byte other than 0x00 or 0x80).
+ */
+function readMbrEntries(sector: DataView): MbrEntry[] | null {
+  const entries: MbrEntry[] = [];
+  for (let i = 0; i < 4; i++) {
+    const offset = MBR_ENTRY_OFFSET + i * 16;
+    const status = sector.getUint8(offset);
+    const type = sector.getUint8(offset + 4);
+    if (status !== 0x00 && status !== 0x80) return null;
+    if (type === 0) continue;
+
+    entries.push({
+      bootable: status === 0x80,
+      type,
+      startSector: sector.getUint32(offset + 8, true),
+      sectorCount: sector.getUint32(offset + 12, true)
+    });
+  }
+  return entries;
+}
+
+async function readMbr(device: BlockDevice, entries: MbrEntry[]): Promise<PartitionTable> {
+  const sectorSize = await detectMbrSectorSize(device, entries);
+  const table: PartitionTable = { scheme: 'MBR', sectorSize, diskGuid: null, partitions: [], gaps: [], findings: [] };
+
+  entries.forEach((entry, i) => {
+    if (MBR_EXTENDED_TYPES.has(entry.type)) return;
+    addMbrPartition(device, table, entry, i + 1, 'primary', entry.startSector);
+  });
+
+  // Logical partitions are numbered from 5, as Windows and Linux do
+  const extended = entries.find(entry => MBR_EXTENDED_TYPES.has(entry.type));
+  if (extended) {
+    await readLogicalPartitions(device, table, extended.startSector);
+  }
+
+  table.partitions.sort((a, b) => a.startOffset - b.startOffset);
+  table.gaps = findGaps(table.partitions, sectorSize, device.size);
+  return table;
+}
+
+/**
+ * Sector size the MBR's LBAs count in, which the MBR does not record: the
+ * first size at which a partition starts with a boot record (an EBR for
+ * extended partitions). 512 when none does.
+ */
+async function detectMbrSectorSize(device: BlockDevice, entries: MbrEntry[]): Promise<number> {
+  for (const sectorSize of SECTOR_SIZES) {
+    for (const entry of entries) {
+      const offset = entry.startSector * sectorSize;
+      if (entry.startSector === 0 || offset + 512 > device.size) continue;
+      const sector = await readView(device, offset, 512);
+      if (!sector) continue;
+      const extended = MBR_EXTENDED_TYPES.has(entry.type);
+      if (extended ? sector.getUint16(MBR_SIGNATURE_OFFSET, true) === 0xAA55 : isVolumeBootRecord(sector)) return sectorSize;
+    }
+  }
+  return 512;
+}
+
+/** Follows the chain of extended boot records inside an extended partition. */
+async function readLogicalPartitions(device: BlockDevice, table: PartitionTable, extendedStart: number): Promise<void> {
+  const visited = new Set<number>();
+  let ebrSector = extendedStart;
+  let index = 5;
+
+  while (index < 5 + MAX_LOGICAL_PARTITIONS) {
+    if (visited.has(ebrSector)) {
+      table.findings.push({
+        check: 'Extended boot record chain',
+        severity: 'error',
+        offset: ebrSector * table.sectorSize,
+        message: 'the chain loops back on itself'
+      });
+      return;
+    }
+    visited.add(ebrSector);
+
+    const ebr = await readView(device, ebrSector * table.sectorSize, 512);
+    if (!ebr || ebr.getUint16(MBR_SIGNATURE_OFFSET, true) !== 0xAA55) {
+      table.findings.push({
+        check: 'Extended boot record',
+        severity: 'error',
+        offset: ebrSector * table.sectorSize,
+        message: ebr ? 'missing 0x55AA signature' : 'lies beyond the end of the image'
+      });
+      return;
+    }
+
+    const entries = readMbrEntries(ebr) ?? [];
+    const logical = entries[0];
+    if (logical && !MBR_EXTENDED_TYPES.has(logical.type)) {
+      // The logical partition starts relative to its own EBR
+      addMbrPartition(device, table, logical, index++, 'logical', ebrSector + logical.startSector);
+    }
+
+    // ...while the next EBR is relative to the start of the extended partition
+    const next = entries.find(entry => MBR_EXTENDED_TYPES.has(entry.type));
+    if (!next) return;
+    ebrSector = extendedStart + next.startSector;
+  }
+}
+
+function addMbrPartition(
+  device: BlockDevice,
+  table: PartitionTable,
+  entry: MbrEntry,
+  index: number,
+  kind: PartitionInfo['kind'],
+  startSector: number
+): void {
+  const typeId = `0x${entry.type.toString(16).toUpperCase().padStart(2, '0')}`;
+  const partition: PartitionInfo = {
+    index,
+    scheme: 'MBR',
+    kind,
+    startOffset: startSector * table.sectorSize,
+    size: entry.sectorCount * table.sectorSize,
+    typeId,
+    typeName: describePartitionType(typeId),
+    name: '',
+    guid: null,
+    bootable: entry.bootable
+  };
+  checkPartitionBounds(device, table, partition);
+  table.partitions.push(partition);
+}
+
+async function readGpt(device: BlockDevice): Promise<PartitionTable> {
+  const findings: ValidationFinding[] = [];
+
+  for (const sectorSize of SECTOR_SIZES) {
+    const lastLba = Math.floor(device.size / sectorSize) - 1;
+    const primary = await readGptHeader(device, sectorSize, 1);
+    // A wiped primary header leaves the backup at the last sector to find the table (and sector size) by
+    const fallback = primary === null ? await readGptHeader(device, sectorSize, lastLba) : null;
+    if (primary === null && fallback === null) continue;
+
+    let header = primary?.header ?? null;
+    if (!header) {
+      findings.push({
+        check: 'Primary GPT header',
+        severity: 'error',
+        offset: sectorSize,
+        message: primary?.error ?? 'no "EFI PART" signature at LBA 1'
+      });
+    }
+
+    const backupLba = header && header.backupLba <= lastLba ? header.backupLba : lastLba;
+    const backup = fallback ?? await readGptHeader(device, sectorSize, backupLba);
+    if (!backup?.header) {
+      findings.push({
+        check: 'Backup GPT header',
+        severity: header ? 'warning' : 'error',
+        offset: backupLba * sectorSize,
+        message: backup?.error ?? 'no GPT signature at the last sector'
+      });
+    } else if (header && (backup.header.entriesCrc !== header.entriesCrc || backup.header.entryCount !== header.entryCount)) {
+      findings.push({
+        check: 'Backup GPT header',
+        severity: 'warning',
+        offset: backupLba * sectorSize,
+        message: 'describes a different partition entry array than the primary header'
+      });
+    }
+
+    // Fall back to the backup copy, which is what firmware does
+    if (!header && backup?.header) {
+      header = backup.header;
+      findings.push({ check: 'GPT header', severity: 'warning', offset: null, message: 'using the backup header' });
+    }
+
+    const table: PartitionTable = { scheme: 'GPT', sectorSize, diskGuid: header?.diskGuid ?? null, partitions: [], gaps: [], findings };
+    if (!header) return table;
+
+    await readGptEntries(device, table, header);
+    const tableEnd = header.firstUsableLba * sectorSize;
+    const diskEnd = Math.min((header.lastUsableLba + 1) * sectorSize, device.size);
+    table.gaps = findGaps(table.partitions, tableEnd, diskEnd);
+    return table;
+  }
+
+  findings.push({
+    check: 'GPT header',
+    severity: 'error',
+    offset: null,
+    message: 'the MBR is protective but neither the first nor the last sector holds an "EFI PART" header'
+  });
+  return { scheme: 'GPT', sectorSize: 512, diskGuid: null, partitions: [], gaps: [], findings };
+}
+
+/**
+ * Reads and checks a GPT header. Returns null when there is no signature at
+ * all (wrong sector size), or the reason the header cannot be trusted.
+ */
+async function readGptHeader(
+  device: BlockDevice,
+  sectorSize: number,
+  lba: number
+): Promise<{ header: GptHeader; error?: undefined } | { header: null; error: string } | null> {
+  const view = await readView(device, lba * sectorSize, sectorSize);
+  if (!view || readAscii(view, 0, 8) !== GPT_SIGNATURE) return null;
+
+  const headerSize = view.getUint32(12, true);
+  if (headerSize < GPT_MIN_HEADER_SIZE || headerSize > sectorSize) {
+    return { header: null, error: `header size ${headerSize} is invalid` };
+  }
+
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, headerSize).slice();
+  const storedCrc = view.getUint32(16, true);
+  bytes.fill(0, 16, 20);
+  const actualCrc = crc32(bytes);
+  if (actualCrc !== storedCrc) {
+    return {
+      header: null,
+      error: `header CRC32 mismatch (stored 0x${storedCrc.toString(16)}, computed 0x${actualCrc.toString(16)})`
+    };
+  }
+
+  const header: GptHeader = {
+    currentLba: readUint64(view, 24),
+    backupLba: readUint64(view, 32),
+    firstUsableLba: readUint64(view, 40),
+    lastUsableLba: readUint64(view, 48),
+    diskGuid: readGuid(view, 56),
+    entriesLba: readUint64(view, 72),
+    entryCount: view.getUint32(80, true),
+    entrySize: view.getUint32(84, true),
+    entriesCrc: view.getUint32(88, true)
+  };
+
+  if (header.currentLba !== lba) {
+    return { header: null, error: `header claims to be at LBA ${header.currentLba}` };
+  }
+  if (header.entrySize < GPT_MIN_ENTRY_SIZE || header.entrySize % 8 !== 0 || header.entryCount > GPT_MAX_ENTRIES) {
+    return { header: null, error: `${header.entryCount} entries of ${header.entrySize} bytes is not a valid entry array` };
+  }
+  return { header };
+}
+
+async function readGptEntries(device: BlockDevice, table: PartitionTable, header: GptHeader): Promise<void> {
+  const offset = header.entriesLba * table.sectorSize;
+  const view = await readView(device, offset, header.entryCount * header.entrySize);
+  if (!view) {
+    table.findings.push({ check: 'GPT entry array', severity: 'error', offset, message: 'lies beyond the end of the image' });
+    return;
+  }
+
+  const actualCrc = crc32(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+  if (actualCrc !== header.entriesCrc) {
+    // Still listed: a damaged array is worth seeing, but it is flagged
+    table.findings.push({
+      check: 'GPT entry array',
+      severity: 'error',
+      offset,
+      message: `CRC32 mismatch (stored 0x${header.entriesCrc.toString(16)}, computed 0x${actualCrc.toString(16)})`
+    });
+  }
+
+  for (let i = 0; i < header.entryCount; i++) {
+    const entry = new DataView(view.buffer, view.byteOffset + i * header.entrySize, header.entrySize);
+    const typeId = readGuid(entry, 0);
+    if (typeId === GPT_UNUSED_TYPE) continue;
+
+    const firstLba = readUint64(entry, 32);
+    const lastLba = readUint64(entry, 40);
+    const partition: PartitionInfo = {
+      index: i + 1,
+      scheme: 'GPT',
+      kind: 'gpt',
+      startOffset: firstLba * table.sectorSize,
+      size: Math.max(0, lastLba - firstLba + 1) * table.sectorSize,
+      typeId,
+      typeName: describePartitionType(typeId),
+      name: readUtf16(entry, 56, 72).replace(/\0.*$/s, ''),
+      guid: readGuid(entry, 16),
+      bootable: false
+    };
+    checkPartitionBounds(device, table, partition);
+    table.partitions.push(partition);
+  }
+
+  table.partitions.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+function checkPartitionBounds(device: BlockDevice, table: PartitionTable, partition: PartitionInfo): void {
+  if (partition.startOffset + partition.size > device.size) {
+    table.findings.push({
+      check: `Partition ${partition.index}`,
+      severity: 'warning',
+      offset: partition.startOffset,
+      message: 'extends beyond the end of the image (truncated acquisition?)'
+    });
+  }
+}
+
+/** Unpartitioned ranges of [start, end), given partitions sorted by offset. */
+function findGaps(partitions: PartitionInfo[], start: number, end: number): PartitionGap[] {
+  const gaps: PartitionGap[] = [];
+  let position = start;
+
+  for (const partition of partitions) {
+    if (partition.startOffset > position) {
+      gaps.push({ startOffset: position, size: partition.startOffset - position });
+    }
+    position = Math.max(position, partition.startOffset + partition.size);
+  }
+  if (end > position) {
+    gaps.push({ startOffset: position, size: end - position });
+  }
+
+  // Alignment slack of less than a megabyte is not worth listing
+  return gaps.filter(gap => gap.size >= 1024 * 1024);
+}
@@ -0,0 +1,241 @@
+import { BlobBlockDevice, toDeviceOffset } from './block-device';
+import type { BlockDevice } from './block-device';
+import { inflateRawPrefix } from './compression';
+import type { ValidationFinding } from './validation-report';
+import { baseName } from './virtual-disk';
+import type { ParentReference, VirtualDisk } from './virtual-disk';
+
+// QEMU copy-on-write images, versions 2 and 3 (big-endian). Guest clusters
+// map through a two-level table: the L1 table points at L2 tables, whose
+// entries give each cluster's host offset, or flag it as compressed (raw
+// DEFLATE), as reading zeroes, or as unallocated, in which case it comes
+// from the backing file named in the header.
+
+const QCOW_MAGIC = 0x514649FB;
+const HEADER_V2_SIZE = 72;
+const MIN_CLUSTER_BITS = 9;
+const MAX_CLUSTER_BITS = 21;
+
+const OFFSET_MASK = 0x00FFFFFFFFFFFE00n;
+const L2_COMPRESSED = 1n << 62n;
+const L2_ZERO = 1n;
+
+const INCOMPATIBLE_DIRTY = 1n << 0n;
+const INCOMPATIBLE_CORRUPT = 1n << 1n;
+const INCOMPATIBLE_EXTERNAL_DATA = 1n << 2n;
+const INCOMPATIBLE_COMPRESSION_TYPE = 1n << 3n;
+const INCOMPATIBLE_EXTENDED_L2 = 1n << 4n;
+const INCOMPATIBLE_KNOWN = INCOMPATIBLE_DIRTY | INCOMPATIBLE_CORRUPT | INCOMPATIBLE_EXTERNAL_DATA
+  | INCOMPATIBLE_COMPRESSION_TYPE | INCOMPATIBLE_EXTENDED_L2;
+
+/** Returns true when the blob starts with the QCOW magic ("QFI\xfb"). */
+export async function isQcowFile(blob: Blob): Promise<boolean> {
+  if (blob.size < 4) return false;
+  const bytes = new Uint8Array(await blob.slice(0, 4).arrayBuffer());
+  return new DataView(bytes.buffer).getUint32(0) === QCOW_MAGIC;
+}
+
+export class Qcow2Image implements VirtualDisk {
+  readonly format = 'QCOW2';
+  readonly fileName: string;
+  readonly size: number;
+  readonly identity: string;
+  readonly version: number;
+  readonly findings: ValidationFinding[] = [];
+  parentReference: ParentReference | null = null;
+  private file: BlockDevice;
+  private clusterBits: number;
+  private clusterSize: number;
+  private l2Entries: number;
+  private l1: Float64Array = new Float64Array(0);
+  private parent: BlockDevice | null = null;
+  private lastCompressed: { offset: number; data: Uint8Array } | null = null;
+
+  private constructor(file: BlockDevice, fileName: string, header: DataView) {
+    this.file = file;
+    this.fileName = fileName;
+    // QCOW2 records no identity for its backing file, only a path, so the name stands in
+    this.identity = fileName.toLowerCase();
+    this.version = header.getUint32(4);
+    this.clusterBits = header.getUint32(20);
+    this.clusterSize = 2 ** this.clusterBits;
+    this.l2Entries = this.clusterSize / 8;
+    this.size = Number(header.getBigUint64(24));
+  }
+
+  static async open(blob: Blob): Promise<Qcow2Image> {
+    const fileName = blob instanceof File ? blob.name : 'disk.qcow2';
+    const file = new BlobBlockDevice(blob);
+    if (file.size < HEADER_V2_SIZE) throw new Error(`${fileName} is too small for a QCOW2 header`);
+    const bytes = await file.read(0, HEADER_V2_SIZE);
+    let header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_V2_SIZE);
+    if (header.getUint32(0) !== QCOW_MAGIC) {
+      throw new Error(`${fileName} has no QCOW header`);
+    }
+
+    const version = header.getUint32(4);
+    if (version !== 2 && version !== 3) {
+      throw new Error(`${fileName} is a QCOW version ${version} image; only versions 2 and 3 are supported`);
+    }
+    if (version === 3) {
+      const length = (await file.read(100, 4)).reduce((value, byte) => value * 256 + byte, 0);
+      const full = await file.read(0, Math.max(length, 104));
+      header = new DataView(full.buffer, full.byteOffset, full.byteLength);
+    }
+
+    const clusterBits = header.getUint32(20);
+    if (clusterBits < MIN_CLUSTER_BITS || clusterBits > MAX_CLUSTER_BITS) {
+      throw new Error(`${fileName} has an invalid cluster size of 2^${clusterBits} bytes`);
+    }
+    if (header.getUint32(32) !== 0) {
+      throw new Error(`${fileName} is encrypted, which is not supported`);
+    }
+
+    const image = new Qcow2Image(file, fileName, header);
+    if (version === 3) image.checkFeatures(header);
+    await image.readBackingFile(header);
+
+    const snapshots = header.getUint32(60);
+    if (snapshots > 0) {
+      image.findings.push({
+        check: 'QCOW2 snapshots',
+        severity: 'warning',
+        offset: Number(header.getBigUint64(64)),
+        message: `image holds ${snapshots} internal snapshot${snapshots === 1 ? '' : 's'}; only the current state is read`
+      });
+    }
+
+    const l1Size = header.getUint32(36);
+    const table = await file.read(header.getBigUint64(40), l1Size * 8);
+    const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+    image.l1 = new Float64Array(l1Size);
+    for (let i = 0; i < l1Size; i++) {
+      image.l1[i] = Number(view.getBigUint64(i * 8) & OFFSET_MASK);
+    }
+    return image;
+  }
+
+  attachParent(parent: BlockDevice): void {
+    // A backing file smaller than the image is allowed; past its end the image reads as zeroes
+    this.parent = parent;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    const result = new Uint8Array(length);
+    const end = start + length;
+    let position = start;
+    while (position < end) {
+      const cluster = Math.floor(position / this.clusterSize);
+      const clusterStart = cluster * this.clusterSize;
+      const runEnd = Math.min(end, clusterStart + this.clusterSize);
+      await this.readCluster(cluster, position - clusterStart, runEnd - clusterStart, result, position - start);
+      position = runEnd;
+    }
+    return result;
+  }
+
+  private checkFeatures(header: DataView): void {
+    const incompatible = header.getBigUint64(72);
+    const unknown = incompatible & ~INCOMPATIBLE_KNOWN;
+    if (unknown !== 0n) {
+      throw new Error(`${this.fileName} uses unknown incompatible QCOW2 features (0x${unknown.toString(16)})`);
+    }
+    if (incompatible & INCOMPATIBLE_EXTERNAL_DATA) {
+      throw new Error(`${this.fileName} keeps its data in an external file, which is not supported`);
+    }
+    if (incompatible & INCOMPATIBLE_EXTENDED_L2) {
+      throw new Error(`${this.fileName} uses extended L2 entries (subclusters), which are not supported`);
+    }
+    if ((incompatible & INCOMPATIBLE_COMPRESSION_TYPE) && header.byteLength > 104 && header.getUint8(104) !== 0) {
+      throw new Error(`${this.fileName} compresses clusters with zstd, which is not supported`);
+    }
+
+    if (incompatible & INCOMPATIBLE_DIRTY) {
+      this.findings.push({
+        check: 'QCOW2 header',
+        severity: 'warning',
+        offset: 72,
+        message: 'image was not closed cleanly; its refcounts may be stale'
+      });
+    }
+    if (incompatible & INCOMPATIBLE_CORRUPT) {
+      this.findings.push({
+        check: 'QCOW2 header',
+        severity: 'warning',
+        offset: 72,
+        message: 'QEMU marked the image as corrupt'
+      });
+    }
+  }
+
+  private async readBackingFile(header: DataView): Promise<void> {
+    const offset = Number(header.getBigUint64(8));
+    const length = header.getUint32(16);
+    if (offset === 0 || length === 0) return;
+
+    const path = new TextDecoder('utf-8').decode(await this.file.read(offset, length));
+    this.parentReference = { identity: baseName(path).toLowerCase(), paths: [path] };
+  }
+
+  /** Reads [start, end) of a cluster (offsets relative to the cluster) into `into` at `at`. */
+  private async readCluster(cluster: number, start: number, end: number, into: Uint8Array, at: number): Promise<void> {
+    const clusterStart = cluster * this.clusterSize;
+    const entry = await this.l2Entry(cluster);
+
+    if (entry & L2_COMPRESSED) {
+      const data = await this.readCompressedCluster(entry);
+      into.set(data.subarray(start, end), at);
+      return;
+    }
+
+    const hostOffset = Number(entry & OFFSET_MASK);
+    if (this.version === 3 && (entry & L2_ZERO)) {
+      return;
+    }
+    if (hostOffset !== 0) {
+      into.set(await this.file.read(hostOffset + start, end - start), at);
+      return;
+    }
+
+    // Unallocated: the backing file's data, or zeroes
+    if (this.parent) {
+      const available = Math.min(clusterStart + end, this.parent.size) - (clusterStart + start);
+      if (available > 0) into.set(await this.parent.read(clusterStart + start, available), at);
+    }
+  }
+
+  private async l2Entry(cluster: number): Promise<bigint> {
+    const l1Index = Math.floor(cluster / this.l2Entries);
+    const table = l1Index < this.l1.length ? this.l1[l1Index] : 0;
+    if (table === 0) return 0n;
+    const bytes = await this.file.read(table + (cluster % this.l2Entries) * 8, 8);
+    return new DataView(bytes.buffer, bytes.byteOffset, 8).getBigUint64(0);
+  }
+
+  private async readCompressedCluster(entry: bigint): Promise<Uint8Array> {
+    // The entry packs the host offset below the count of extra 512-byte sectors
+    const offsetBits = BigInt(62 - (this.clusterBits - 8));
+    const offset = Number(entry & ((1n << offsetBits) - 1n));
+    if (this.lastCompressed?.offset === offset) return this.lastCompressed.data;
+
+    const sectors = Number((entry >> offsetBits) & ((1n << BigInt(this.clusterBits - 8)) - 1n));
+    const storedSize = (sectors + 1) * 512 - (offset % 512);
+    const compressed = await this.file.read(offset, Math.min(storedSize, this.file.size - offset));
+
+    let data: Uint8Array;
+    try {
+      data = inflateRawPrefix(compressed, this.clusterSize);
+    } catch (error) {
+      throw new Error(`compressed cluster at 0x${offset.toString(16)} in ${this.fileName} is damaged: ${(error as Error).message}`);
+    }
+    if (data.length !== this.clusterSize) {
+      const cluster = new Uint8Array(this.clusterSize);
+      cluster.set(data.subarray(0, this.clusterSize));
+      data = cluster;
+    }
+
+    this.lastCompressed = { offset, data };
+    return data;
+  }
+}
@@ -0,0 +1,172 @@
+import type { FileSystemItem, ParseProgress } from '../types/forensic';
+import type { BlockDevice } from './block-device';
+import { MAX_CARVED_FILES, carveFiles } from './file-carver';
+import type { CarvedFile } from './file-carver';
+import { collectItems, scopedItemId } from './filesystem-driver';
+import type { FileSystemDriver, FileSystemDriverOptions, FileSystemVolume } from './filesystem-driver';
+import type { FileDigests } from './hash-engine';
+import { hashFiles } from './hash-worker-client';
+import type { HashJob } from './hash-worker-client';
+import { createValidationReport } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+
+// A volume whose file system no driver recognises. Without metadata there
+// are no files to list, so it offers the volume's raw bytes (one item
+// spanning it, for the hex view) and the files signature carving finds.
+
+const VOLUME_FILE_ID = 'volume';
+const CARVED_DIRECTORY_ID = 'carved';
+
+export class RawVolume implements FileSystemVolume {
+  readonly fileSystem = 'Unknown';
+  private device: BlockDevice;
+  private carved: Map<string, CarvedFile> = new Map();
+  private hashes: Map<string, Partial<FileDigests>> = new Map();
+  private findings: ValidationFinding[] = [];
+  private rootItems: FileSystemItem[] = [];
+  private progressCallback?: (progress: ParseProgress) => void;
+  private options: FileSystemDriverOptions;
+
+  constructor(device: BlockDevice, progressCallback?: (progress: ParseProgress) => void, options: FileSystemDriverOptions = {}) {
+    this.device = device;
+    this.progressCallback = progressCallback;
+    this.options = options;
+  }
+
+  async parseImage(): Promise<FileSystemItem[]> {
+    this.findings.push({
+      check: 'File system',
+      severity: 'warning',
+      offset: 0,
+      message: 'no driver recognises the file system; only raw bytes and carved files are shown'
+    });
+
+    this.updateProgress('Carving files...', 5);
+    const files = await carveFiles(this.device, (scanned, total, found) => {
+      this.updateProgress(`Carving files... (${found} found)`, 5 + Math.round((scanned / total) * 65));
+    });
+    for (const file of files) {
+      // Named after their sector, as PhotoRec does
+      this.carved.set(`f${Math.floor(file.offset / 512)}`, file);
+    }
+    if (files.length >= MAX_CARVED_FILES) {
+      this.findings.push({
+        check: 'Carving',
+        severity: 'warning',
+        offset: files[files.length - 1].offset,
+        message: `carving stopped after ${MAX_CARVED_FILES} files`
+      });
+    }
+
+    this.updateProgress('Calculating hashes...', 70);
+    await this.calculateHashes();
+
+    this.updateProgress('Building file system tree...', 95);
+    this.rootItems = this.buildFileTree();
+
+    this.updateProgress('Parse complete', 100);
+    return this.rootItems;
+  }
+
+  private async calculateHashes(): Promise<void> {
+    const jobs: HashJob[] = [...this.carved].map(([fileId, file]) => ({
+      id: fileId,
+      name: `${fileId}.${file.extension}`,
+      plan: [{ kind: 'image', offset: file.offset, length: file.length }]
+    }));
+
+    const source = this.options.source ?? this.device;
+    this.hashes = await hashFiles(source, jobs, progress => {
+      const percentage = 70 + Math.round((progress.processedFiles / progress.totalFiles) * 25);
+      this.updateProgress(`Calculating hashes... (${progress.processedFiles}/${progress.totalFiles})`, percentage, progress);
+    });
+  }
+
+  private buildFileTree(): FileSystemItem[] {
+    const { evidenceId, volumeId } = this.options;
+    // Nothing records times for raw bytes
+    const item = (fileId: string, name: string, type: 'file' | 'directory', size: number): FileSystemItem => ({
+      id: scopedItemId(this.options, fileId),
+      evidenceId,
+      volumeId,
+      name,
+      type,
+      size,
+      created: new Date(0),
+      modified: new Date(0),
+      accessed: new Date(0),
+      path: `/${name}`,
+      children: type === 'directory' ? [] : undefined,
+      metadata: { fileId, parentId: '', deleted: false, allocated: true, isDeleted: false, raw: true }
+    });
+
+    const volume = item(VOLUME_FILE_ID, 'Raw volume', 'file', this.device.size);
+    const carvedDirectory = item(CARVED_DIRECTORY_ID, 'Carved', 'directory', 0);
+    for (const [fileId, file] of this.carved) {
+      const carved = item(fileId, `${fileId}.${file.extension}`, 'file', file.length);
+      const digest = this.hashes.get(fileId);
+      carved.path = `${carvedDirectory.path}/${carved.name}`;
+      carved.metadata = {
+        ...carved.metadata,
+        parentId: CARVED_DIRECTORY_ID,
+        md5Hash: digest?.md5,
+        sha1Hash: digest?.sha1,
+        sha256Hash: digest?.sha256,
+        carved: { signature: file.type, offset: file.offset, complete: file.complete }
+      };
+      carvedDirectory.children!.push(carved);
+    }
+    return [volume, carvedDirectory];
+  }
+
+  private updateProgress(message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>): void {
+    this.progressCallback?.({ message, percentage, ...files });
+  }
+
+  getRootItems(): FileSystemItem[] {
+    return this.rootItems;
+  }
+
+  listDirectory(directoryFileId?: string): FileSystemItem[] {
+    if (directoryFileId === undefined) return this.rootItems;
+    return directoryFileId === CARVED_DIRECTORY_ID ? this.rootItems[1]?.children ?? [] : [];
+  }
+
+  getDeletedEntries(): FileSystemItem[] {
+    return collectItems(this.rootItems, item => item.metadata?.deleted === true);
+  }
+
+  /** Reads the raw volume, or a carved file's bytes. */
+  async readFileContent(fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    if (streamName !== '') return null;
+    const range = fileId === VOLUME_FILE_ID ? { offset: 0, length: this.device.size } : this.carved.get(fileId);
+    if (!range || offset >= range.length) return range ? new Uint8Array(0) : null;
+    return this.device.read(range.offset + offset, Math.min(length, range.length - offset));
+  }
+
+  getValidationReport(): ValidationReport {
+    return createValidationReport('Raw volume', this.findings);
+  }
+
+  isSimulated(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Opens volumes as raw bytes. It recognises nothing and is not among the
+ * probed drivers; volumes no driver claims are handed to it.
+ */
+export const rawDriver: FileSystemDriver = {
+  fileSystem: 'Unknown',
+
+  async probe() {
+    return { confidence: 0, checks: [] };
+  },
+
+  async open(device, options, onProgress) {
+    const volume = new RawVolume(device, onProgress, options);
+    await volume.parseImage();
+    return volume;
+  }
+};
@@ -0,0 +1,99 @@
+import { readUint64 } from './byte-reader';
+import type { MinstoreReader } from './refs-minstore';
+import type { RefsPhysicalRun } from './refs-resolver';
+import type { RefsPageReference } from './refs-structures';
+
+// Cluster allocators (ReFS 3.x). The container allocator hands out whole
+// containers and addresses them physically; the medium and small allocators
+// hand out clusters inside the containers they were given, by virtual
+// cluster. Each row covers a range of clusters: it is keyed by the range's
+// first cluster and length, and holds the number of free clusters and a
+// bitmap with one bit per cluster, set when the cluster is in use.
+
+const ALLOCATOR_KEY_SIZE = 0x10;
+const ALLOCATOR_VALUE_HEADER_SIZE = 0x10;
+
+/** Clusters one allocator table manages, and those of them that are free. Both sorted and merged. */
+export interface RefsAllocatorMap {
+  covered: RefsPhysicalRun[];
+  free: RefsPhysicalRun[];
+}
+
+/** Reads an allocator table. Clusters past the end of a row's bitmap count as in use. */
+export async function readAllocator(minstore: MinstoreReader, root: RefsPageReference): Promise<RefsAllocatorMap> {
+  const covered: RefsPhysicalRun[] = [];
+  const free: RefsPhysicalRun[] = [];
+  await minstore.forEachRow(root, row => {
+    if (row.key.byteLength < ALLOCATOR_KEY_SIZE || row.value.byteLength < ALLOCATOR_VALUE_HEADER_SIZE) return;
+    const startBlock = readUint64(row.key, 0x00);
+    const blockCount = readUint64(row.key, 0x08);
+    if (blockCount === 0) return;
+    covered.push({ startBlock, blockCount });
+
+    const freeCount = readUint64(row.value, 0x00);
+    if (freeCount === 0) return;
+    if (freeCount >= blockCount) {
+      free.push({ startBlock, blockCount });
+      return;
+    }
+
+    const bitmapOffset = row.value.getUint32(0x08, true);
+    const bitmapLength = Math.min(row.value.getUint32(0x0C, true), row.value.byteLength - bitmapOffset);
+    const bits = Math.min(blockCount, Math.max(bitmapLength, 0) * 8);
+    for (let bit = 0; bit < bits;) {
+      const byte = row.value.getUint8(bitmapOffset + (bit >> 3));
+      if (byte === 0xFF && (bit & 7) === 0) {
+        bit += 8;
+      } else if ((byte >> (bit & 7)) & 1) {
+        bit++;
+      } else {
+        const start = bit;
+        while (bit < bits && ((row.value.getUint8(bitmapOffset + (bit >> 3)) >> (bit & 7)) & 1) === 0) bit++;
+        free.push({ startBlock: startBlock + start, blockCount: bit - start });
+      }
+    }
+  });
+  return { covered: mergeRuns(covered), free: mergeRuns(free) };
+}
+
+/**
+ * Free clusters of the volume, physically addressed: those the container
+ * allocator has not handed out, except in ranges a finer allocator manages,
+ * where its bitmap decides. `finer` must already be translated to physical
+ * clusters.
+ */
+export function freeClusterRuns(container: RefsAllocatorMap, finer: RefsAllocatorMap[]): RefsPhysicalRun[] {
+  const managed = mergeRuns(finer.flatMap(map => map.covered));
+  return mergeRuns([...subtractRuns(container.free, managed), ...finer.flatMap(map => map.free)]);
+}
+
+/** Sorts runs and joins those that overlap or touch. */
+export function mergeRuns(runs: RefsPhysicalRun[]): RefsPhysicalRun[] {
+  const merged: RefsPhysicalRun[] = [];
+  for (const run of [...runs].sort((a, b) => a.startBlock - b.startBlock)) {
+    const last = merged[merged.length - 1];
+    if (last && run.startBlock <= last.startBlock + last.blockCount) {
+      last.blockCount = Math.max(last.blockCount, run.startBlock + run.blockCount - last.startBlock);
+    } else {
+      merged.push({ ...run });
+    }
+  }
+  return merged;
+}
+
+/** Parts of `runs` outside `removed`; both sorted and merged. */
+function subtractRuns(runs: RefsPhysicalRun[], removed: RefsPhysicalRun[]): RefsPhysicalRun[] {
+  const result: RefsPhysicalRun[] = [];
+  let index = 0;
+  for (const run of runs) {
+    let start = run.startBlock;
+    const end = run.startBlock + run.blockCount;
+    while (index < removed.length && removed[index].startBlock + removed[index].blockCount <= start) index++;
+    for (let next = index; next < removed.length && removed[next].startBlock < end; next++) {
+      if (removed[next].startBlock > start) result.push({ startBlock: start, blockCount: removed[next].startBlock - start });
+      start = Math.max(start, removed[next].startBlock + removed[next].blockCount);
+    }
+    if (start < end) result.push({ startBlock: start, blockCount: end - start });
+  }
+  return result;
+}
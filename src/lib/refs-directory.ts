@@ -0,0 +1,176 @@
+import { readFileTime, readUtf16 } from './byte-reader';
+import { MINSTORE_ROW_DELETED } from './refs-minstore';
+import type { MinstoreNode, MinstoreReader, MinstoreRow } from './refs-minstore';
+
+// Decoders for the rows of a ReFS directory table. Every directory is a
+// Minstore tree whose rows are keyed by a 32-bit entry type followed by the
+// entry name (UTF-16). Files are stored as file-name entries whose value is a
+// complete embedded "file table" (its own index root plus attribute rows);
+// subdirectories are stored as directory links pointing at the object ID of
+// the subdirectory's own table.
+
+export const DIRECTORY_KEY_DESCRIPTOR = 0x00000010;
+export const DIRECTORY_KEY_FILE_NAME = 0x00010030;
+export const DIRECTORY_KEY_DIRECTORY_LINK = 0x00020030;
+
+/** Offset of the standard information block inside a file table's index root. */
+const FILE_TABLE_INFO_OFFSET = 0x20;
+const STANDARD_INFO_SIZE = 0x50;
+const DIRECTORY_LINK_SIZE = 0x3C;
+
+export const FILE_ATTRIBUTE_READONLY = 0x0001;
+export const FILE_ATTRIBUTE_HIDDEN = 0x0002;
+export const FILE_ATTRIBUTE_SYSTEM = 0x0004;
+export const FILE_ATTRIBUTE_DIRECTORY = 0x0010;
+export const FILE_ATTRIBUTE_ARCHIVE = 0x0020;
+export const FILE_ATTRIBUTE_DEVICE = 0x0040;
+export const FILE_ATTRIBUTE_NORMAL = 0x0080;
+export const FILE_ATTRIBUTE_TEMPORARY = 0x0100;
+export const FILE_ATTRIBUTE_SPARSE_FILE = 0x0200;
+export const FILE_ATTRIBUTE_REPARSE_POINT = 0x0400;
+export const FILE_ATTRIBUTE_COMPRESSED = 0x0800;
+export const FILE_ATTRIBUTE_OFFLINE = 0x1000;
+export const FILE_ATTRIBUTE_NOT_CONTENT_INDEXED = 0x2000;
+export const FILE_ATTRIBUTE_ENCRYPTED = 0x4000;
+export const FILE_ATTRIBUTE_INTEGRITY_STREAM = 0x8000;
+export const FILE_ATTRIBUTE_NO_SCRUB_DATA = 0x20000;
+
+const ATTRIBUTE_NAMES: Array<[number, string]> = [
+  [FILE_ATTRIBUTE_READONLY, 'ReadOnly'],
+  [FILE_ATTRIBUTE_HIDDEN, 'Hidden'],
+  [FILE_ATTRIBUTE_SYSTEM, 'System'],
+  [FILE_ATTRIBUTE_DIRECTORY, 'Directory'],
+  [FILE_ATTRIBUTE_ARCHIVE, 'Archive'],
+  [FILE_ATTRIBUTE_DEVICE, 'Device'],
+  [FILE_ATTRIBUTE_NORMAL, 'Normal'],
+  [FILE_ATTRIBUTE_TEMPORARY, 'Temporary'],
+  [FILE_ATTRIBUTE_SPARSE_FILE, 'Sparse'],
+  [FILE_ATTRIBUTE_REPARSE_POINT, 'ReparsePoint'],
+  [FILE_ATTRIBUTE_COMPRESSED, 'Compressed'],
+  [FILE_ATTRIBUTE_OFFLINE, 'Offline'],
+  [FILE_ATTRIBUTE_NOT_CONTENT_INDEXED, 'NotContentIndexed'],
+  [FILE_ATTRIBUTE_ENCRYPTED, 'Encrypted'],
+  [FILE_ATTRIBUTE_INTEGRITY_STREAM, 'IntegrityStream'],
+  [FILE_ATTRIBUTE_NO_SCRUB_DATA, 'NoScrubData']
+];
+
+export interface RefsStandardInformation {
+  creationTime: Date;
+  modificationTime: Date;
+  changeTime: Date;
+  accessTime: Date;
+  attributes: number;
+}
+
+export interface RefsFileEntry extends RefsStandardInformation {
+  kind: 'file';
+  name: string;
+  fileNumber: bigint;
+  parentObjectId: bigint;
+  dataSize: number;
+  allocatedSize: number;
+  securityId: number;
+  /** The embedded file table holding the file's attribute rows. */
+  table: MinstoreNode;
+}
+
+export interface RefsDirectoryLink extends RefsStandardInformation {
+  kind: 'directory';
+  name: string;
+  objectId: bigint;
+}
+
+export interface RefsDirectoryDescriptor extends RefsStandardInformation {
+  kind: 'descriptor';
+}
+
+export type RefsDirectoryEntry = (RefsFileEntry | RefsDirectoryLink | RefsDirectoryDescriptor) & {
+  deleted: boolean;
+};
+
+/** Renders a 128-bit ReFS file ID (directory object ID : file number) as 32 hex digits. */
+export function formatFileId(high: bigint, low: bigint): string {
+  return `${high.toString(16).padStart(16, '0')}${low.toString(16).padStart(16, '0')}`.toUpperCase();
+}
+
+export function describeFileAttributes(attributes: number): string {
+  const names = ATTRIBUTE_NAMES.filter(([flag]) => (attributes & flag) !== 0).map(([, name]) => name);
+  return names.length > 0 ? names.join(', ') : 'None';
+}
+
+/**
+ * Decodes one directory table row. Returns null for entry types that carry
+ * no file system object (e.g. the ID-to-name index rows); throws when a row
+ * of a known type is malformed.
+ */
+export function decodeDirectoryRow(row: MinstoreRow, minstore: MinstoreReader): RefsDirectoryEntry | null {
+  if (row.key.byteLength < 4) {
+    throw new Error('directory key is shorter than its entry type');
+  }
+
+  const keyType = row.key.getUint32(0, true);
+  const deleted = (row.flags & MINSTORE_ROW_DELETED) !== 0;
+  const name = () => readUtf16(row.key, 4, row.key.byteLength - 4);
+
+  switch (keyType) {
+    case DIRECTORY_KEY_FILE_NAME:
+      return { ...decodeFileEntry(row.value, name(), minstore), deleted };
+    case DIRECTORY_KEY_DIRECTORY_LINK:
+      return { ...decodeDirectoryLink(row.value, name()), deleted };
+    case DIRECTORY_KEY_DESCRIPTOR:
+      if (row.value.byteLength < 0x24) return null;
+      return { kind: 'descriptor', ...decodeStandardInformation(row.value, 0), deleted };
+    default:
+      return null;
+  }
+}
+
+function decodeStandardInformation(view: DataView, offset: number): RefsStandardInformation {
+  return {
+    creationTime: readFileTime(view, offset),
+    modificationTime: readFileTime(view, offset + 0x08),
+    changeTime: readFileTime(view, offset + 0x10),
+    accessTime: readFileTime(view, offset + 0x18),
+    attributes: view.getUint32(offset + 0x20, true)
+  };
+}
+
+function decodeDirectoryLink(value: DataView, name: string): RefsDirectoryLink {
+  if (value.byteLength < DIRECTORY_LINK_SIZE) {
+    throw new Error(`directory link "${name}" is truncated (${value.byteLength} bytes)`);
+  }
+
+  return {
+    kind: 'directory',
+    name,
+    objectId: value.getBigUint64(0x08, true),
+    creationTime: readFileTime(value, 0x10),
+    modificationTime: readFileTime(value, 0x18),
+    changeTime: readFileTime(value, 0x20),
+    accessTime: readFileTime(value, 0x28),
+    attributes: value.getUint32(0x38, true)
+  };
+}
+
+function decodeFileEntry(value: DataView, name: string, minstore: MinstoreReader): RefsFileEntry {
+  // The value is a self-contained Minstore node; its index root carries the
+  // file's standard information ahead of the attribute rows
+  const table = minstore.decodeNode(value, 0, true);
+  const rootSize = table.root?.size ?? 0;
+  if (rootSize < FILE_TABLE_INFO_OFFSET + STANDARD_INFO_SIZE) {
+    throw new Error(`file table of "${name}" has a ${rootSize}-byte index root, too small for its metadata`);
+  }
+
+  const info = FILE_TABLE_INFO_OFFSET;
+  return {
+    kind: 'file',
+    name,
+    ...decodeStandardInformation(value, info),
+    fileNumber: value.getBigUint64(info + 0x28, true),
+    parentObjectId: value.getBigUint64(info + 0x30, true),
+    dataSize: Number(value.getBigUint64(info + 0x38, true)),
+    allocatedSize: Number(value.getBigUint64(info + 0x40, true)),
+    securityId: value.getUint32(info + 0x48, true),
+    table
+  };
+}
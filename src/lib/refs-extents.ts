@@ -0,0 +1,284 @@
+import { readUint64, readUtf16, toHex } from './byte-reader';
+import { computeChecksum } from './checksum';
+import { pushSegment } from './content-plan';
+import type { ContentSegment } from './content-plan';
+import type { MinstoreNode, MinstoreReader, MinstoreRow } from './refs-minstore';
+import type { RefsResolver } from './refs-resolver';
+
+// Data streams of a ReFS file. Every attribute of a file is a row of its
+// embedded file table, keyed by attribute type and stream name. A resident
+// stream keeps its bytes in the row itself; a non-resident one holds an
+// embedded extent table whose rows map logical clusters onto (virtual)
+// clusters of the volume. Named data attributes are alternate data streams,
+// the only named attributes ReFS has: unlike NTFS it keeps no extended
+// attributes. Streams of files with integrity streams enabled carry a
+// checksum per cluster in their extent rows, after the extent itself.
+
+export const ATTRIBUTE_TYPE_DATA = 0x80;
+
+/** The stream's bytes are stored in the attribute value. */
+export const DATA_ATTRIBUTE_RESIDENT = 0x0001;
+/** Ranges without an extent read back as zeroes. */
+export const DATA_ATTRIBUTE_SPARSE = 0x0002;
+
+const DATA_ATTRIBUTE_HEADER_SIZE = 0x28;
+const EXTENT_VALUE_SIZE = 0x10;
+/** Size of the checksum descriptor following an extent: as in a page reference, without block numbers. */
+const EXTENT_CHECKSUM_DESCRIPTOR_SIZE = 0x08;
+
+/** Clusters read at a time when verifying checksums. */
+const VERIFY_BATCH_CLUSTERS = 256;
+
+export interface RefsExtent {
+  /** First cluster of the run within the stream. */
+  logicalCluster: number;
+  /** First (virtual) cluster of the run on the volume, null for sparse runs. */
+  physicalCluster: number | null;
+  clusterCount: number;
+  /** Checksums of the run's clusters in on-disk byte order (hex), for integrity streams. */
+  checksums?: { type: number; values: string[] };
+}
+
+export interface RefsClusterMismatch {
+  /** Cluster within the stream. */
+  logicalCluster: number;
+  /** Physical cluster on the volume. */
+  physicalCluster: number;
+  stored: string;
+  computed: string;
+}
+
+export interface RefsDataStream {
+  name: string;
+  flags: number;
+  dataSize: number;
+  validDataLength: number;
+  allocatedSize: number;
+  /** Stream bytes of a resident stream, null otherwise. */
+  resident: Uint8Array | null;
+  extents: RefsExtent[];
+}
+
+/** Finds the data attribute row of the named stream ('' is the default stream). */
+export function findDataAttribute(table: MinstoreNode, streamName: string = ''): MinstoreRow | null {
+  for (const row of table.rows) {
+    if (row.key.byteLength < 4 || row.key.getUint32(0, true) !== ATTRIBUTE_TYPE_DATA) continue;
+    if (readUtf16(row.key, 4, row.key.byteLength - 4) === streamName) return row;
+  }
+  return null;
+}
+
+/** Names of the file's alternate data streams: its named data attributes, in table order. */
+export function listStreamNames(table: MinstoreNode): string[] {
+  const names: string[] = [];
+  for (const row of table.rows) {
+    if (row.key.byteLength < 4 || row.key.getUint32(0, true) !== ATTRIBUTE_TYPE_DATA) continue;
+    const name = readUtf16(row.key, 4, row.key.byteLength - 4);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Decodes a data attribute row, walking its extent table. Extents are
+ * returned in logical order; holes between them are left for the reader to
+ * treat as sparse.
+ */
+export async function decodeDataStream(row: MinstoreRow, minstore: MinstoreReader): Promise<RefsDataStream> {
+  const value = row.value;
+  if (value.byteLength < DATA_ATTRIBUTE_HEADER_SIZE) {
+    throw new Error(`data attribute is truncated (${value.byteLength} bytes)`);
+  }
+
+  const headerSize = value.getUint32(0x00, true);
+  const flags = value.getUint32(0x04, true);
+  const stream: RefsDataStream = {
+    name: readUtf16(row.key, 4, row.key.byteLength - 4),
+    flags,
+    dataSize: readUint64(value, 0x08),
+    validDataLength: readUint64(value, 0x10),
+    allocatedSize: readUint64(value, 0x18),
+    resident: null,
+    extents: []
+  };
+
+  if (headerSize < DATA_ATTRIBUTE_HEADER_SIZE || headerSize > value.byteLength) {
+    throw new Error(`data attribute header size 0x${headerSize.toString(16)} is invalid`);
+  }
+
+  if (flags & DATA_ATTRIBUTE_RESIDENT) {
+    const length = Math.min(stream.dataSize, value.byteLength - headerSize);
+    stream.resident = new Uint8Array(value.buffer, value.byteOffset + headerSize, length);
+    return stream;
+  }
+
+  const table = new DataView(value.buffer, value.byteOffset + headerSize, value.byteLength - headerSize);
+  const node = minstore.decodeNode(table, 0, true, row.block);
+  await minstore.forEachRowInNode(node, extentRow => {
+    if (extentRow.key.byteLength < 8 || extentRow.value.byteLength < EXTENT_VALUE_SIZE) return;
+
+    const physical = readUint64(extentRow.value, 0x00);
+    const clusterCount = extentRow.value.getUint32(0x08, true);
+    stream.extents.push({
+      logicalCluster: readUint64(extentRow.key, 0),
+      physicalCluster: physical === 0 ? null : physical,
+      clusterCount,
+      checksums: decodeExtentChecksums(extentRow.value, clusterCount)
+    });
+  });
+
+  stream.extents.sort((a, b) => a.logicalCluster - b.logicalCluster);
+  return stream;
+}
+
+/** Per-cluster checksums stored after an extent; clusters whose checksum does not fit are left out. */
+function decodeExtentChecksums(value: DataView, clusterCount: number): RefsExtent['checksums'] {
+  if (value.byteLength < EXTENT_VALUE_SIZE + EXTENT_CHECKSUM_DESCRIPTOR_SIZE) return undefined;
+
+  const type = value.getUint8(EXTENT_VALUE_SIZE + 2);
+  const offset = value.getUint8(EXTENT_VALUE_SIZE + 3);
+  const length = value.getUint16(EXTENT_VALUE_SIZE + 4, true);
+  if (type === 0 || length === 0) return undefined;
+
+  const values: string[] = [];
+  for (let i = 0; i < clusterCount; i++) {
+    const start = EXTENT_VALUE_SIZE + offset + i * length;
+    if (start + length > value.byteLength) break;
+    values.push(toHex(new Uint8Array(value.buffer, value.byteOffset + start, length)));
+  }
+  return { type, values };
+}
+
+/**
+ * Recomputes the cluster checksums of an integrity stream. Returns how many
+ * clusters had a checksum to verify and those that did not match; throws when
+ * clusters lie outside the image.
+ */
+export async function verifyStreamChecksums(
+  stream: RefsDataStream,
+  resolver: RefsResolver,
+  clusterSize: number
+): Promise<{ verified: number; mismatches: RefsClusterMismatch[] }> {
+  const mismatches: RefsClusterMismatch[] = [];
+  let verified = 0;
+
+  for (const extent of stream.extents) {
+    if (extent.physicalCluster === null || !extent.checksums) continue;
+
+    const { type, values } = extent.checksums;
+    for (let first = 0; first < values.length; first += VERIFY_BATCH_CLUSTERS) {
+      const count = Math.min(VERIFY_BATCH_CLUSTERS, values.length - first);
+      const clusters = await resolver.readClusters(extent.physicalCluster + first, count);
+      if (!clusters) {
+        throw new Error(`clusters 0x${(extent.physicalCluster + first).toString(16)}+ lie outside the image`);
+      }
+
+      for (let i = 0; i < count; i++) {
+        const computed = computeChecksum(type, clusters.subarray(i * clusterSize, (i + 1) * clusterSize));
+        if (computed === null) continue;
+        verified++;
+        if (computed !== values[first + i]) {
+          mismatches.push({
+            logicalCluster: extent.logicalCluster + first + i,
+            physicalCluster: resolver.translateBlock(extent.physicalCluster + first + i),
+            stored: values[first + i],
+            computed
+          });
+        }
+      }
+    }
+  }
+
+  return { verified, mismatches };
+}
+
+/**
+ * Reads `length` bytes at `offset` of a stream. Reads are clamped to the
+ * data size; sparse ranges and everything past the valid data length read
+ * as zeroes, as Windows returns them.
+ */
+export async function readStream(
+  stream: RefsDataStream,
+  resolver: RefsResolver,
+  clusterSize: number,
+  offset: number,
+  length: number
+): Promise<Uint8Array> {
+  const end = Math.min(offset + length, stream.dataSize);
+  const result = new Uint8Array(Math.max(0, end - offset));
+  if (result.length === 0) return result;
+
+  if (stream.resident) {
+    result.set(stream.resident.subarray(offset, Math.min(end, stream.resident.length)));
+    return result;
+  }
+
+  const validEnd = Math.min(end, stream.validDataLength);
+  for (const extent of stream.extents) {
+    if (extent.physicalCluster === null) continue;
+
+    const extentStart = extent.logicalCluster * clusterSize;
+    const extentEnd = extentStart + extent.clusterCount * clusterSize;
+    const readStart = Math.max(offset, extentStart);
+    const readEnd = Math.min(validEnd, extentEnd);
+    if (readStart >= readEnd) continue;
+
+    const firstCluster = Math.floor((readStart - extentStart) / clusterSize);
+    const lastCluster = Math.ceil((readEnd - extentStart) / clusterSize);
+    const clusters = await resolver.readClusters(extent.physicalCluster + firstCluster, lastCluster - firstCluster);
+    if (!clusters) {
+      throw new Error(`clusters 0x${(extent.physicalCluster + firstCluster).toString(16)}+ lie outside the image`);
+    }
+
+    const skip = readStart - (extentStart + firstCluster * clusterSize);
+    result.set(clusters.subarray(skip, skip + (readEnd - readStart)), readStart - offset);
+  }
+
+  return result;
+}
+
+/**
+ * Describes where every byte of a stream lives on the volume, without
+ * reading it. Follows the same rules as `readStream`.
+ */
+export function planStream(stream: RefsDataStream, resolver: RefsResolver, clusterSize: number): ContentSegment[] {
+  const plan: ContentSegment[] = [];
+  const validEnd = Math.min(stream.dataSize, stream.validDataLength);
+  let position = 0;
+
+  if (stream.resident && stream.resident.length > 0) {
+    // Copied so posting the plan to a worker does not clone the whole page buffer
+    plan.push({ kind: 'bytes', data: stream.resident.slice() });
+    position = stream.resident.length;
+  }
+
+  for (const extent of stream.resident ? [] : stream.extents) {
+    if (extent.physicalCluster === null) continue;
+
+    const extentStart = extent.logicalCluster * clusterSize;
+    const extentEnd = Math.min(extentStart + extent.clusterCount * clusterSize, validEnd);
+    if (extentStart >= extentEnd || extentEnd <= position) continue;
+
+    if (extentStart > position) {
+      pushSegment(plan, { kind: 'zero', length: extentStart - position });
+      position = extentStart;
+    }
+
+    let runStart = extentStart;
+    for (const run of resolver.mapClusters(extent.physicalCluster, extent.clusterCount)) {
+      const runEnd = Math.min(runStart + run.blockCount * clusterSize, extentEnd);
+      if (runEnd > position) {
+        const skip = position - runStart;
+        pushSegment(plan, { kind: 'image', offset: run.startBlock * clusterSize + skip, length: runEnd - position });
+        position = runEnd;
+      }
+      runStart += run.blockCount * clusterSize;
+      if (runStart >= extentEnd) break;
+    }
+  }
+
+  if (stream.dataSize > position) {
+    pushSegment(plan, { kind: 'zero', length: stream.dataSize - position });
+  }
+  return plan;
+}
@@ -0,0 +1,327 @@
+import { readUint64 } from './byte-reader';
+import { decodePageHeader, decodePageReference, isRefsV3 } from './refs-structures';
+import type { RefsPageHeader, RefsPageReference } from './refs-structures';
+
+// Reader for Minstore, the copy-on-write B+ tree every ReFS metadata table is
+// stored in. A tree page is a page header followed by an optional index root
+// (root pages only) and a node: a header, a data area holding the rows and an
+// index of row offsets kept in key order.
+
+export const MINSTORE_PAGE_SIGNATURE = 'MSB+';
+
+export const MINSTORE_NODE_INNER = 0x01;
+export const MINSTORE_NODE_ROOT = 0x02;
+export const MINSTORE_NODE_STREAM = 0x04;
+
+export const MINSTORE_ROW_DELETED = 0x04;
+
+const NODE_HEADER_SIZE = 0x20;
+const ROW_HEADER_SIZE = 0x0E;
+
+export interface MinstoreIndexRoot {
+  size: number;
+  fixedSize: number;
+  tableSchema: number;
+  rowCount: number;
+}
+
+export interface MinstoreNodeHeader {
+  dataAreaStart: number;
+  dataAreaEnd: number;
+  unusedSize: number;
+  level: number;
+  flags: number;
+  indexStart: number;
+  indexCount: number;
+  indexEnd: number;
+}
+
+export interface MinstoreRow {
+  key: DataView;
+  value: DataView;
+  flags: number;
+  /** Block the row was read from (first block of the page), 0 for embedded nodes. */
+  block: number;
+  index: number;
+}
+
+export interface MinstoreNode {
+  root: MinstoreIndexRoot | null;
+  header: MinstoreNodeHeader;
+  rows: MinstoreRow[];
+  /** Rows whose bounds fell outside the node and were skipped. */
+  badRows: number[];
+}
+
+export interface MinstoreCorruption {
+  block: number;
+  parentBlock: number | null;
+  depth: number;
+  reason: string;
+}
+
+export type MinstorePageLoader = (reference: RefsPageReference) => Promise<DataView | null>;
+
+export interface MinstoreWalkOptions {
+  /** Include leaf rows flagged deleted, which Minstore keeps until the node is rewritten. */
+  includeDeleted?: boolean;
+  /** Called every so often so long walks can yield to the UI. */
+  onProgress?: (pagesVisited: number) => Promise<void> | void;
+}
+
+/** State of one tree walk: pages already seen guard against cycles. */
+interface MinstoreWalk {
+  visit: (row: MinstoreRow) => Promise<void> | void;
+  options: MinstoreWalkOptions;
+  visited: Set<number>;
+  pagesVisited: number;
+}
+
+export class MinstoreReader {
+  private majorVersion: number;
+  private loadPage: MinstorePageLoader;
+  private corruptNodes: MinstoreCorruption[] = [];
+
+  constructor(majorVersion: number, loadPage: MinstorePageLoader) {
+    this.majorVersion = majorVersion;
+    this.loadPage = loadPage;
+  }
+
+  /**
+   * Visits every leaf row of the tree rooted at the given page, in key order.
+   * Nothing is capped: the walk only stops descending into pages that fail
+   * validation, and each of those is recorded as a corrupt node.
+   */
+  async forEachRow(
+    root: RefsPageReference,
+    visit: (row: MinstoreRow) => Promise<void> | void,
+    options: MinstoreWalkOptions = {}
+  ): Promise<void> {
+    await this.walkPage(this.createWalk(visit, options), root, null, 0, null);
+  }
+
+  /**
+   * Visits every leaf row below an already decoded node, such as a table
+   * embedded in a row value. Child pages are loaded as in `forEachRow`.
+   */
+  async forEachRowInNode(
+    node: MinstoreNode,
+    visit: (row: MinstoreRow) => Promise<void> | void,
+    options: MinstoreWalkOptions = {}
+  ): Promise<void> {
+    await this.walkNode(this.createWalk(visit, options), node, 0, null, 0);
+  }
+
+  async readAll(root: RefsPageReference, options: MinstoreWalkOptions = {}): Promise<MinstoreRow[]> {
+    const rows: MinstoreRow[] = [];
+    await this.forEachRow(root, row => { rows.push(row); }, options);
+    return rows;
+  }
+
+  /**
+   * Decodes one node starting at `offset` within `view`. Tree pages pass the
+   * offset after their page header; embedded tables (file tables stored in a
+   * directory row) pass 0 and always start with an index root.
+   */
+  decodeNode(view: DataView, offset: number, hasIndexRoot: boolean, block: number = 0): MinstoreNode {
+    let root: MinstoreIndexRoot | null = null;
+    let nodeStart = offset;
+
+    if (hasIndexRoot) {
+      root = this.decodeIndexRoot(view, offset);
+      nodeStart = offset + root.size;
+    }
+
+    if (nodeStart + NODE_HEADER_SIZE > view.byteLength) {
+      throw new Error('node header lies outside the page');
+    }
+
+    const header: MinstoreNodeHeader = {
+      dataAreaStart: view.getUint32(nodeStart, true),
+      dataAreaEnd: view.getUint32(nodeStart + 0x04, true),
+      unusedSize: view.getUint32(nodeStart + 0x08, true),
+      level: view.getUint8(nodeStart + 0x0C),
+      flags: view.getUint8(nodeStart + 0x0D),
+      indexStart: view.getUint32(nodeStart + 0x10, true),
+      indexCount: view.getUint32(nodeStart + 0x14, true),
+      indexEnd: view.getUint32(nodeStart + 0x18, true)
+    };
+
+    const nodeSize = view.byteLength - nodeStart;
+    if (header.indexStart + header.indexCount * 4 > nodeSize || header.indexEnd > nodeSize) {
+      throw new Error(`row index (${header.indexCount} entries) overruns the node`);
+    }
+    if (header.dataAreaEnd > nodeSize || header.dataAreaStart > header.dataAreaEnd) {
+      throw new Error('data area bounds are invalid');
+    }
+
+    const rows: MinstoreRow[] = [];
+    const badRows: number[] = [];
+
+    for (let i = 0; i < header.indexCount; i++) {
+      const entry = view.getUint32(nodeStart + header.indexStart + i * 4, true);
+      const rowOffset = nodeStart + (entry & 0xFFFF);
+
+      const row = this.decodeRow(view, rowOffset, nodeStart + nodeSize, block, i);
+      if (row) {
+        rows.push(row);
+      } else {
+        badRows.push(i);
+      }
+    }
+
+    return { root, header, rows, badRows };
+  }
+
+  getCorruptNodes(): MinstoreCorruption[] {
+    return this.corruptNodes;
+  }
+
+  private createWalk(visit: (row: MinstoreRow) => Promise<void> | void, options: MinstoreWalkOptions): MinstoreWalk {
+    return { visit, options, visited: new Set(), pagesVisited: 0 };
+  }
+
+  private async walkPage(
+    walk: MinstoreWalk,
+    reference: RefsPageReference,
+    parentBlock: number | null,
+    depth: number,
+    expectedLevel: number | null
+  ): Promise<void> {
+    const block = reference.blockNumbers[0];
+    if (walk.visited.has(block)) {
+      this.reportCorruption(block, parentBlock, depth, 'page referenced twice (cycle in tree)');
+      return;
+    }
+    walk.visited.add(block);
+
+    const page = await this.loadPage(reference);
+    if (!page) {
+      this.reportCorruption(block, parentBlock, depth, 'page could not be read');
+      return;
+    }
+
+    const header = decodePageHeader(page, this.majorVersion);
+    const pageError = this.validatePage(header, block);
+    if (pageError) {
+      this.reportCorruption(block, parentBlock, depth, pageError);
+      return;
+    }
+
+    let node: MinstoreNode;
+    try {
+      node = this.decodeNode(page, header.headerSize, depth === 0, block);
+    } catch (error) {
+      this.reportCorruption(block, parentBlock, depth, (error as Error).message);
+      return;
+    }
+
+    if (expectedLevel !== null && node.header.level !== expectedLevel) {
+      this.reportCorruption(block, parentBlock, depth,
+        `node level ${node.header.level} where ${expectedLevel} was expected`);
+      return;
+    }
+
+    walk.pagesVisited++;
+    if (walk.options.onProgress && walk.pagesVisited % 64 === 0) {
+      await walk.options.onProgress(walk.pagesVisited);
+    }
+
+    await this.walkNode(walk, node, block, parentBlock, depth);
+  }
+
+  private async walkNode(
+    walk: MinstoreWalk,
+    node: MinstoreNode,
+    block: number,
+    parentBlock: number | null,
+    depth: number
+  ): Promise<void> {
+    for (const index of node.badRows) {
+      this.reportCorruption(block, parentBlock, depth, `row ${index} lies outside the node`);
+    }
+
+    const isInner = (node.header.flags & MINSTORE_NODE_INNER) !== 0;
+    for (const row of node.rows) {
+      // A deleted child reference may point at a page reused since; only leaf rows are worth keeping
+      const deleted = (row.flags & MINSTORE_ROW_DELETED) !== 0;
+      if (deleted && (isInner || !walk.options.includeDeleted)) continue;
+
+      if (isInner) {
+        let child: RefsPageReference;
+        try {
+          child = this.decodeChildReference(row.value);
+        } catch {
+          this.reportCorruption(block, parentBlock, depth, `row ${row.index} holds no valid page reference`);
+          continue;
+        }
+        await this.walkPage(walk, child, block, depth + 1, node.header.level - 1);
+      } else {
+        await walk.visit(row);
+      }
+    }
+  }
+
+  private decodeIndexRoot(view: DataView, offset: number): MinstoreIndexRoot {
+    if (offset + 0x20 > view.byteLength) {
+      throw new Error('index root lies outside the page');
+    }
+
+    const size = view.getUint32(offset, true);
+    if (size < 0x20 || offset + size > view.byteLength) {
+      throw new Error(`index root size 0x${size.toString(16)} is invalid`);
+    }
+
+    return {
+      size,
+      fixedSize: view.getUint16(offset + 0x04, true),
+      tableSchema: view.getUint16(offset + 0x0E, true),
+      rowCount: readUint64(view, offset + 0x18)
+    };
+  }
+
+  private decodeRow(view: DataView, rowOffset: number, nodeEnd: number, block: number, index: number): MinstoreRow | null {
+    if (rowOffset + ROW_HEADER_SIZE > nodeEnd) return null;
+
+    const rowSize = view.getUint32(rowOffset, true);
+    const keyOffset = view.getUint16(rowOffset + 0x04, true);
+    const keySize = view.getUint16(rowOffset + 0x06, true);
+    const flags = view.getUint16(rowOffset + 0x08, true);
+    const valueOffset = view.getUint16(rowOffset + 0x0A, true);
+    const valueSize = view.getUint16(rowOffset + 0x0C, true);
+
+    if (rowSize < ROW_HEADER_SIZE || rowOffset + rowSize > nodeEnd) return null;
+    if (keyOffset + keySize > rowSize || valueOffset + valueSize > rowSize) return null;
+
+    return {
+      key: new DataView(view.buffer, view.byteOffset + rowOffset + keyOffset, keySize),
+      value: new DataView(view.buffer, view.byteOffset + rowOffset + valueOffset, valueSize),
+      flags,
+      block,
+      index
+    };
+  }
+
+  private decodeChildReference(value: DataView): RefsPageReference {
+    const reference = decodePageReference(value, 0, this.majorVersion);
+    if (reference.blockNumbers[0] === 0 || reference.size > value.byteLength) {
+      throw new Error('invalid child reference');
+    }
+    return reference;
+  }
+
+  private validatePage(header: RefsPageHeader, block: number): string | null {
+    if (isRefsV3(this.majorVersion) && header.signature !== MINSTORE_PAGE_SIGNATURE) {
+      return `bad page signature "${header.signature.replace(/[^\x20-\x7E]/g, '.')}"`;
+    }
+    if (header.blockNumbers[0] !== block) {
+      return `page claims block 0x${header.blockNumbers[0].toString(16)}`;
+    }
+    return null;
+  }
+
+  private reportCorruption(block: number, parentBlock: number | null, depth: number, reason: string): void {
+    console.warn(`Skipping corrupt Minstore node at block 0x${block.toString(16)}: ${reason}`);
+    this.corruptNodes.push({ block, parentBlock, depth, reason });
+  }
+}
@@ -1,54 +1,189 @@
-import { FileSystemItem, RefsMetadata, ParseProgress } from '../types/forensic';
-
-export interface RefsSuperblocK {
-  signature: string;
-  version: number;
-  blockSize: number;
-  sectorsPerBlock: number;
-  bytesPerSector: number;
-  totalBlocks: number;
+import type {
+  FileSystemItem,
+  IntegrityReport,
+  IntegrityStatus,
+  ParseProgress,
+  RefsBootSector,
+  RefsCheckpointInfo,
+  RefsRecoveryInfo,
+  SecurityDescriptorInfo,
+  RefsuperBlock
+} from '../types/forensic';
+import { MinstoreReader } from './refs-minstore';
+import type { MinstoreCorruption, MinstoreNode } from './refs-minstore';
+import {
+  decodeDataStream,
+  findDataAttribute,
+  listStreamNames,
+  planStream,
+  readStream,
+  verifyStreamChecksums
+} from './refs-extents';
+import { hashFiles } from './hash-worker-client';
+import type { HashJob, HashProgress } from './hash-worker-client';
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import { readAscii } from './byte-reader';
+import { computeChecksum } from './checksum';
+import { collectItems, linkFileTree, scopedItemId, scoreProbe } from './filesystem-driver';
+import type { FileSystemDriver, FileSystemDriverOptions, FileSystemVolume, WeightedProbeCheck } from './filesystem-driver';
+import { ImageValidationError, createValidationReport } from './validation-report';
+import type { ValidationFinding, ValidationReport } from './validation-report';
+import type { RefsDataStream, RefsExtent } from './refs-extents';
+import { MAX_STALE_PAGES, decodeStaleEntries, findStalePages } from './refs-recovery';
+import { freeClusterRuns, mergeRuns, readAllocator } from './refs-allocator';
+import type { RefsAllocatorMap } from './refs-allocator';
+import { findSharedExtents, readReferenceCounts } from './refs-refcount';
+import type { RefsFileSharing, RefsReferenceCount } from './refs-refcount';
+import type { StaleEntry } from './refs-recovery';
+import { countChangedClusters, findStreamSnapshot, listStreamSnapshots, parseSnapshotStreamName, snapshotStreamName } from './refs-snapshots';
+import { RefsResolver } from './refs-resolver';
+import { readSecurityDescriptors } from './refs-security';
+import { formatPrincipal, summarizeDescriptor } from './security-descriptor';
+import type { RefsPhysicalRun, RefsVolumeGeometry } from './refs-resolver';
+import {
+  FILE_ATTRIBUTE_DIRECTORY,
+  FILE_ATTRIBUTE_INTEGRITY_STREAM,
+  decodeDirectoryRow,
+  formatFileId
+} from './refs-directory';
+import {
+  REFS_BOOT_SECTOR_SIZE,
+  REFS_CHECKPOINT_SIGNATURE,
+  REFS_CHECKPOINT_TABLES,
+  REFS_FILE_SYSTEM_NAME,
+  REFS_FSRS_IDENTIFIER,
+  REFS_OBJECT_IDS,
+  REFS_SUPERBLOCK_BLOCK,
+  REFS_SUPERBLOCK_SIGNATURE,
+  decodeBootSector,
+  decodeCheckpoint,
+  decodePageReference,
+  decodeSuperblock,
+  isRefsV3,
+  metadataAddressUnit,
+  metadataBlockSize,
+  verifySelfChecksum
+} from './refs-structures';
+import type { RefsCheckpointRecord, RefsPageReference } from './refs-structures';
+
+export interface RefsSuperblocK extends RefsuperBlock {
   rootDirectoryBlock: number;
   metadataTableBlock: number;
   checkpointBlock: number;
-  volumeId: string;
-  creationTime: Date;
-  lastMountTime: Date;
 }
 
-export interface BTreeNode {
-  isLeaf: boolean;
-  keyCount: number;
-  keys: number[];
-  values: any[];
-  children: number[];
+export interface RefsCheckpoint extends RefsCheckpointInfo {
+  record: RefsCheckpointRecord | null;
+  page: DataView | null;
+}
+
+export interface RefsParserOptions extends FileSystemDriverOptions {
+  /**
+   * Open the volume as of this checkpoint (index into the superblock's
+   * checkpoint list) instead of the newest valid one.
+   */
+  checkpointIndex?: number;
+}
+
+/** Outcome of recovering records from the volume's free space. */
+export interface RefsRecoveryResult {
+  /** The "Recovered" folder; null when nothing was recovered. */
+  folder: FileSystemItem | null;
+  pagesFound: number;
+  recordsRecovered: number;
+  /** Findings of the sweep, also added to the volume's validation report. */
+  findings: ValidationFinding[];
+}
+
+
+/** File ID of the virtual folder holding records recovered from stale pages. */
+const RECOVERED_DIRECTORY_ID = 'recovered';
+
+/** An alternate data stream of a file. */
+export interface StreamRecord {
+  name: string;
+  size: number;
+  allocatedSize: number;
+  md5Hash?: string;
+  sha1Hash?: string;
+  sha256Hash?: string;
+}
+
+/** A stream snapshot of a file; `name` is the snapshot's. */
+export interface SnapshotRecord extends StreamRecord {
+  streamName: string;
+  created: Date;
+  virtualClock: number;
+  changedClusters: number;
 }
 
 export interface FileRecord {
-  fileId: number;
-  parentId: number;
+  /** 128-bit file ID: owning directory's object ID, then the file number. */
+  fileId: string;
+  /** File ID of the parent directory. */
+  parentId: string;
+  /** Object ID of a directory's own table. */
+  directoryObjectId?: number;
   fileName: string;
   fileSize: number;
+  allocatedSize: number;
   attributes: number;
   creationTime: Date;
   modificationTime: Date;
+  /** Metadata change time, ReFS' equivalent of the NTFS MFT entry modified time. */
+  changeTime: Date;
   accessTime: Date;
+  securityId?: number;
   isDirectory: boolean;
   isDeleted: boolean;
+  /** Metadata block and row the record was decoded from, when read from disk. */
+  block?: number;
+  entryIndex?: number;
+  /** Embedded file table holding the file's attributes. */
+  table?: MinstoreNode;
+  /** Named data streams besides the default one. */
+  streams?: StreamRecord[];
+  /** Stream snapshots, oldest first. */
+  snapshots?: SnapshotRecord[];
+  /** Set on records rebuilt from stale metadata pages. */
+  recovered?: RefsRecoveryInfo;
+  /** Clusters of the default stream that block cloning shares with other files. */
+  sharing?: RefsFileSharing;
   md5Hash?: string;
   sha1Hash?: string;
+  sha256Hash?: string;
 }
 
-export class RefsParser {
-  private buffer: ArrayBuffer;
-  private view: DataView;
+export class RefsParser implements FileSystemVolume {
+  readonly fileSystem = 'ReFS';
+  private device: BlockDevice;
   private superblock: RefsSuperblocK | null = null;
-  private fileRecords: Map<number, FileRecord> = new Map();
+  private checkpoints: RefsCheckpoint[] = [];
+  private activeCheckpoint: RefsCheckpoint | null = null;
+  private resolver: RefsResolver | null = null;
+  private minstore: MinstoreReader | null = null;
+  private badEntries: MinstoreCorruption[] = [];
+  private findings: ValidationFinding[] = [];
+  private fileRecords: Map<string, FileRecord> = new Map();
+  /** Records rebuilt from stale pages, keyed by an ID of their own (their file IDs repeat). */
+  private recoveredRecords: Map<string, FileRecord> = new Map();
+  private recovery: RefsRecoveryResult | null = null;
+  private dataStreams: Map<string, RefsDataStream | null> = new Map();
+  private securityDescriptors: Map<number, SecurityDescriptorInfo> = new Map();
+  private rootItems: FileSystemItem[] = [];
+  private items: Map<string, FileSystemItem> = new Map();
   private progressCallback?: (progress: ParseProgress) => void;
+  private options: RefsParserOptions;
 
-  constructor(buffer: ArrayBuffer, progressCallback?: (progress: ParseProgress) => void) {
-    this.buffer = buffer;
-    this.view = new DataView(buffer);
+  constructor(
+    device: BlockDevice,
+    progressCallback?: (progress: ParseProgress) => void,
+    options: RefsParserOptions = {}
+  ) {
+    this.device = device;
     this.progressCallback = progressCallback;
+    this.options = options;
   }
 
   async parseImage(): Promise<FileSystemItem[]> {
@@ -56,282 +191,952 @@ export class RefsParser {
       this.updateProgress('Parsing ReFS superblock...', 10);
       await this.parseSuperblock();
       
+      this.updateProgress('Validating checkpoints...', 20);
+      await this.parseCheckpoints();
+      
       this.updateProgress('Reading metadata table...', 30);
       await this.parseMetadataTable();
       
       this.updateProgress('Traversing B+Tree structure...', 50);
       await this.traverseBTree();
+
+      this.updateProgress('Reading security descriptors...', 60);
+      await this.readSecurityTable();
+
+      this.updateProgress('Enumerating data streams and snapshots...', 65);
+      await this.enumerateStreams();
+
+      this.updateProgress('Resolving shared extents...', 66);
+      await this.resolveSharedExtents();
+
+      this.updateProgress('Calculating hashes...', 70);
+      await this.calculateHashes(this.fileRecords, progress => {
+        const percentage = 70 + Math.round((progress.processedFiles / progress.totalFiles) * 25);
+        this.updateProgress(`Calculating hashes... (${progress.processedFiles}/${progress.totalFiles})`, percentage, progress);
+      });
       
-      this.updateProgress('Building file system tree...', 80);
-      const fileTree = await this.buildFileTree();
-      
-      this.updateProgress('Calculating hashes...', 95);
-      await this.calculateHashes();
+      this.updateProgress('Building file system tree...', 95);
+      this.rootItems = await this.buildFileTree();
       
       this.updateProgress('Parse complete', 100);
-      return fileTree;
+      return this.rootItems;
     } catch (error) {
-      throw new Error(`ReFS parsing failed: ${error.message}`);
+      if (error instanceof ImageValidationError) throw error;
+      throw new Error(`ReFS parsing failed: ${(error as Error).message}`);
     }
   }
 
   private async parseSuperblock(): Promise<void> {
-    // ReFS superblock is typically at offset 0x1E00 (7680 bytes)
-    const superblockOffset = 0x1E00;
-    
-    // For small files or demo files, create a mock superblock
-    if (this.buffer.byteLength < superblockOffset + 512) {
-      console.log('Creating mock ReFS superblock for demo/test file');
+    const bootReport = await validateRefsImage(this.device);
+    this.findings.push(...bootReport.findings);
+
+    if (!bootReport.passed) {
+      if (this.options.mode !== 'demo' || this.device.size === 0) {
+        throw new ImageValidationError(this.getValidationReport());
+      }
+      console.log('No ReFS volume boot record found, creating mock superblock for demo mode');
       this.superblock = this.createMockSuperblock();
       return;
     }
 
-    // Check ReFS signature - be more flexible for demo purposes
-    const signature = this.readString(superblockOffset, 8);
-    const hasRefsSignature = signature.includes('ReFS') || signature.includes('REFS');
-    
-    if (!hasRefsSignature) {
-      console.log('No ReFS signature found, creating mock superblock for analysis');
-      this.superblock = this.createMockSuperblock();
+    const bootSector = decodeBootSector((await this.readVolume(0, REFS_BOOT_SECTOR_SIZE))!)!;
+
+    const clusterSize = bootSector.bytesPerSector * bootSector.sectorsPerCluster;
+    const totalClusters = Math.floor(bootSector.totalSectors / bootSector.sectorsPerCluster);
+    const addressUnit = metadataAddressUnit(bootSector.majorVersion, clusterSize);
+    const lastBlock = Math.floor(totalClusters * clusterSize / addressUnit);
+
+    // The primary superblock is followed by two backups near the end of the volume
+    const candidates = [REFS_SUPERBLOCK_BLOCK, lastBlock - 3, lastBlock - 2];
+    const failures: ValidationFinding[] = [];
+    for (const block of candidates) {
+      const superblock = await this.parseSuperblockAt(bootSector, block);
+      if (typeof superblock !== 'string') {
+        if (block !== REFS_SUPERBLOCK_BLOCK) {
+          console.warn(`Primary ReFS superblock unusable, using backup at block 0x${block.toString(16)}`);
+        }
+        this.findings.push(...failures.map(failure => ({ ...failure, severity: 'warning' as const })));
+        this.superblock = superblock;
+        return;
+      }
+      failures.push({
+        check: `Superblock at block 0x${block.toString(16)}`,
+        severity: 'error',
+        offset: block * addressUnit,
+        message: superblock
+      });
+    }
+
+    this.findings.push(...failures);
+    throw new ImageValidationError(this.getValidationReport());
+  }
+
+  /** Decodes the superblock at a block, or returns why it is unusable. */
+  private async parseSuperblockAt(bootSector: RefsBootSector, block: number): Promise<RefsSuperblocK | string> {
+    const { majorVersion, minorVersion, bytesPerSector, sectorsPerCluster } = bootSector;
+    const clusterSize = bytesPerSector * sectorsPerCluster;
+    const pageSize = metadataBlockSize(majorVersion, clusterSize);
+    const offset = block * metadataAddressUnit(majorVersion, clusterSize);
+
+    const page = block > 0 ? await this.readVolume(offset, pageSize) : null;
+    if (!page) return 'lies outside the image';
+
+    const record = decodeSuperblock(page, majorVersion);
+
+    if (isRefsV3(majorVersion) && record.header.signature !== REFS_SUPERBLOCK_SIGNATURE) {
+      return `expected signature "${REFS_SUPERBLOCK_SIGNATURE}", found "${record.header.signature.replace(/[^\x20-\x7E]/g, '.')}"`;
+    }
+    if (record.header.blockNumbers[0] !== block) {
+      return `page claims block 0x${record.header.blockNumbers[0].toString(16)}`;
+    }
+    if (record.checkpointReferences.length === 0) return 'lists no checkpoints';
+
+    return {
+      signature: record.header.signature || REFS_SUPERBLOCK_SIGNATURE,
+      version: `${majorVersion}.${minorVersion}`,
+      majorVersion,
+      minorVersion,
+      blockSize: clusterSize,
+      metadataBlockSize: pageSize,
+      sectorsPerBlock: sectorsPerCluster,
+      bytesPerSector,
+      totalBlocks: Math.floor(bootSector.totalSectors / sectorsPerCluster),
+      volumeSerial: bootSector.volumeSerial,
+      volumeGuid: record.volumeGuid,
+      superblockBlock: block,
+      sequenceNumber: record.sequenceNumber,
+      checkpointReferences: record.checkpointReferences,
+      checksum: record.selfReference?.checksum ?? '',
+      bootSector,
+      // Directory and metadata roots are located through the checkpoint, not the superblock
+      rootDirectoryBlock: 0,
+      metadataTableBlock: 0,
+      checkpointBlock: record.checkpointReferences[0]
+    };
+  }
+
+  private async parseCheckpoints(): Promise<void> {
+    if (!this.superblock) throw new Error('Superblock not parsed');
+    if (this.superblock.signature.includes('Mock')) return;
+
+    this.checkpoints = await Promise.all(this.superblock.checkpointReferences.map((block, index) =>
+      this.parseCheckpointAt(block, index)
+    ));
+
+    const requested = this.options.checkpointIndex;
+    if (requested !== undefined) {
+      const checkpoint = this.checkpoints[requested];
+      if (!checkpoint) {
+        throw new Error(`Checkpoint ${requested + 1} does not exist (volume has ${this.checkpoints.length})`);
+      }
+      if (!checkpoint.record || !checkpoint.page) {
+        throw new Error(`Checkpoint ${requested + 1} is unreadable: ${checkpoint.errors.join('; ')}`);
+      }
+      if (!checkpoint.valid) {
+        console.warn(`Opening invalid checkpoint ${requested + 1} on request: ${checkpoint.errors.join('; ')}`);
+      }
+      this.activeCheckpoint = checkpoint;
       return;
     }
 
-    this.superblock = {
-      signature,
-      version: this.view.getUint32(superblockOffset + 8, true),
-      blockSize: this.view.getUint32(superblockOffset + 12, true),
-      sectorsPerBlock: this.view.getUint32(superblockOffset + 16, true),
-      bytesPerSector: this.view.getUint32(superblockOffset + 20, true),
-      totalBlocks: this.view.getUint32(superblockOffset + 24, true),
-      rootDirectoryBlock: this.view.getUint32(superblockOffset + 28, true),
-      metadataTableBlock: this.view.getUint32(superblockOffset + 32, true),
-      checkpointBlock: this.view.getUint32(superblockOffset + 36, true),
-      volumeId: this.readGuid(superblockOffset + 40),
-      creationTime: this.readFileTime(superblockOffset + 56),
-      lastMountTime: this.readFileTime(superblockOffset + 64)
+    // The valid checkpoint with the highest virtual clock defines the volume state
+    const newest = this.checkpoints
+      .filter(checkpoint => checkpoint.valid)
+      .sort((a, b) => b.virtualClock - a.virtualClock)[0];
+
+    if (!newest) {
+      const addressUnit = metadataAddressUnit(this.superblock.majorVersion, this.superblock.blockSize);
+      this.findings.push(...this.checkpoints.map(checkpoint => ({
+        check: `Checkpoint ${checkpoint.index + 1}`,
+        severity: 'error' as const,
+        offset: checkpoint.block * addressUnit,
+        message: checkpoint.errors.join('; ')
+      })));
+      throw new ImageValidationError(this.getValidationReport());
+    }
+
+    this.activeCheckpoint = newest;
+  }
+
+  private async parseCheckpointAt(block: number, index: number): Promise<RefsCheckpoint> {
+    const superblock = this.superblock!;
+    const offset = block * metadataAddressUnit(superblock.majorVersion, superblock.blockSize);
+    const pageSize = superblock.metadataBlockSize;
+
+    const checkpoint: RefsCheckpoint = {
+      index,
+      block,
+      virtualClock: 0,
+      allocatorVirtualClock: 0,
+      version: '',
+      tableReferenceCount: 0,
+      signatureValid: false,
+      checksumValid: null,
+      valid: false,
+      errors: [],
+      record: null,
+      page: null
     };
+
+    const page = block > 0 ? await this.readVolume(offset, pageSize) : null;
+    if (!page) {
+      checkpoint.errors.push(`block 0x${block.toString(16)} lies outside the image`);
+      return checkpoint;
+    }
+
+    const record = decodeCheckpoint(page, superblock.majorVersion);
+
+    checkpoint.record = record;
+    checkpoint.page = page;
+    checkpoint.virtualClock = record.virtualClock;
+    checkpoint.allocatorVirtualClock = record.allocatorVirtualClock;
+    checkpoint.version = `${record.majorVersion}.${record.minorVersion}`;
+    checkpoint.tableReferenceCount = record.tableReferenceOffsets.length;
+    checkpoint.signatureValid = !isRefsV3(superblock.majorVersion) ||
+      record.header.signature === REFS_CHECKPOINT_SIGNATURE;
+
+    if (!checkpoint.signatureValid) {
+      checkpoint.errors.push(`bad signature "${record.header.signature}"`);
+    }
+    if (record.header.blockNumbers[0] !== block) {
+      checkpoint.errors.push(`self reference 0x${record.header.blockNumbers[0].toString(16)} does not match`);
+    }
+    if (record.virtualClock === 0) {
+      checkpoint.errors.push('virtual clock is zero');
+    }
+    if (record.tableReferenceOffsets.some(tableOffset => tableOffset === 0 || tableOffset >= pageSize)) {
+      checkpoint.errors.push('table reference list is truncated');
+    }
+
+    if (record.selfReference) {
+      checkpoint.checksumValid = verifySelfChecksum(page, record.selfDescriptorOffset, record.selfReference);
+      if (checkpoint.checksumValid === false) {
+        checkpoint.errors.push('checksum mismatch (torn write?)');
+      }
+    }
+
+    checkpoint.valid = checkpoint.errors.length === 0;
+    return checkpoint;
   }
 
   private async parseMetadataTable(): Promise<void> {
     if (!this.superblock) throw new Error('Superblock not parsed');
     
-    const metadataOffset = this.superblock.metadataTableBlock * this.superblock.blockSize;
-    
-    // If the file is too small or we're using mock data, generate sample file records
-    if (this.buffer.byteLength < metadataOffset + 1024 || this.superblock.signature.includes('Mock')) {
+    // Real volumes keep their records in directory tables, read by traverseBTree
+    if (this.superblock.signature.includes('Mock')) {
       console.log('Generating mock file system structure for analysis');
       this.generateMockFileSystem();
-      return;
     }
-    
-    let currentOffset = metadataOffset;
-    
-    // Parse metadata table entries
-    for (let i = 0; i < 1000 && currentOffset < this.buffer.byteLength - 128; i++) {
-      const entryType = this.view.getUint32(currentOffset, true);
-      const entrySize = this.view.getUint32(currentOffset + 4, true);
-      
-      if (entryType === 0x30) { // File record entry
-        await this.parseFileRecord(currentOffset);
-      }
-      
-      currentOffset += Math.max(entrySize, 128);
-      
-      if (i % 100 === 0) {
-        await this.sleep(1); // Allow UI updates
-      }
+  }
+
+  private async traverseBTree(): Promise<void> {
+    if (!this.superblock) throw new Error('Superblock not parsed');
+    if (!this.activeCheckpoint) return;
+
+    const superblock = this.superblock;
+    const resolver = new RefsResolver(this.getGeometry(), (offset, length) => this.readVolume(offset, length));
+    this.resolver = resolver;
+
+    const containerRoot = this.getCheckpointTableRoot(REFS_CHECKPOINT_TABLES.container);
+    if (containerRoot) {
+      await resolver.loadContainerTable(containerRoot);
     }
-    
-    // If no records were found, generate mock data
-    if (this.fileRecords.size === 0) {
-      console.log('No file records found, generating mock file system');
-      this.generateMockFileSystem();
+
+    const objectRoot = this.getCheckpointTableRoot(REFS_CHECKPOINT_TABLES.objectId);
+    if (!objectRoot) {
+      throw new Error('Checkpoint has no object table reference');
     }
+    await resolver.loadObjectTable(objectRoot);
+
+    const rootDirectory = resolver.resolveObject(REFS_OBJECT_IDS.rootDirectory);
+    if (!rootDirectory) {
+      throw new Error('Root directory object 0x600 is missing from the object table');
+    }
+    superblock.rootDirectoryBlock = rootDirectory.blockNumbers[0];
+
+    this.minstore = resolver.createReader();
+    await this.walkDirectories();
   }
 
-  private async parseFileRecord(offset: number): Promise<void> {
-    const fileId = this.view.getUint32(offset + 8, true);
-    const parentId = this.view.getUint32(offset + 12, true);
-    const attributes = this.view.getUint32(offset + 16, true);
-    const fileSize = this.view.getBigUint64(offset + 20, true);
-    
-    const creationTime = this.readFileTime(offset + 28);
-    const modificationTime = this.readFileTime(offset + 36);
-    const accessTime = this.readFileTime(offset + 44);
-    
-    const fileNameLength = this.view.getUint16(offset + 52, true);
-    const fileName = this.readUnicodeString(offset + 54, fileNameLength);
-    
-    const isDirectory = (attributes & 0x10) !== 0;
-    const isDeleted = (attributes & 0x80000000) !== 0;
-    
-    const record: FileRecord = {
-      fileId,
-      parentId,
-      fileName,
-      fileSize: Number(fileSize),
-      attributes,
-      creationTime,
-      modificationTime,
-      accessTime,
-      isDirectory,
-      isDeleted
+  /**
+   * Walks the directory hierarchy breadth-first from the root directory,
+   * following directory links to the tables of their subdirectories.
+   */
+  private async walkDirectories(): Promise<void> {
+    const resolver = this.resolver!;
+    const minstore = this.minstore!;
+
+    const rootObjectId = BigInt(REFS_OBJECT_IDS.rootDirectory);
+    const rootId = formatFileId(rootObjectId, 0n);
+    const epoch = new Date(0);
+    const root: FileRecord = {
+      fileId: rootId,
+      parentId: formatFileId(0n, 0n),
+      directoryObjectId: REFS_OBJECT_IDS.rootDirectory,
+      fileName: '',
+      fileSize: 0,
+      allocatedSize: 0,
+      attributes: FILE_ATTRIBUTE_DIRECTORY,
+      creationTime: epoch,
+      modificationTime: epoch,
+      changeTime: epoch,
+      accessTime: epoch,
+      isDirectory: true,
+      isDeleted: false
     };
-    
-    this.fileRecords.set(fileId, record);
+    this.fileRecords.set(rootId, root);
+
+    const queue: FileRecord[] = [root];
+    const visited = new Set<number>();
+
+    while (queue.length > 0) {
+      const directory = queue.shift()!;
+      const objectId = directory.directoryObjectId!;
+      if (visited.has(objectId)) continue;
+      visited.add(objectId);
+
+      const table = resolver.resolveObject(objectId);
+      if (!table) {
+        console.warn(`Directory "${directory.fileName}" links to unknown object 0x${objectId.toString(16)}`);
+        continue;
+      }
+
+      await minstore.forEachRow(table, row => {
+        let entry;
+        try {
+          entry = decodeDirectoryRow(row, minstore);
+        } catch (error) {
+          const reason = `directory 0x${objectId.toString(16)} row ${row.index}: ${(error as Error).message}`;
+          console.warn(`Skipping malformed entry in ${reason}`);
+          this.badEntries.push({ block: row.block, parentBlock: null, depth: 0, reason });
+          return;
+        }
+        if (!entry) return;
+
+        const location = { block: row.block, entryIndex: row.index };
+        switch (entry.kind) {
+          case 'descriptor':
+            // A directory's own timestamps; the root has no parent link to carry them
+            if (directory === root) {
+              Object.assign(root, {
+                creationTime: entry.creationTime,
+                modificationTime: entry.modificationTime,
+                changeTime: entry.changeTime,
+                accessTime: entry.accessTime,
+                attributes: entry.attributes | FILE_ATTRIBUTE_DIRECTORY
+              });
+            }
+            break;
+          case 'directory': {
+            const record: FileRecord = {
+              fileId: formatFileId(entry.objectId, 0n),
+              parentId: directory.fileId,
+              directoryObjectId: Number(entry.objectId),
+              fileName: entry.name,
+              fileSize: 0,
+              allocatedSize: 0,
+              attributes: entry.attributes | FILE_ATTRIBUTE_DIRECTORY,
+              creationTime: entry.creationTime,
+              modificationTime: entry.modificationTime,
+              changeTime: entry.changeTime,
+              accessTime: entry.accessTime,
+              isDirectory: true,
+              isDeleted: entry.deleted,
+              ...location
+            };
+            this.fileRecords.set(record.fileId, record);
+            queue.push(record);
+            break;
+          }
+          case 'file': {
+            const record: FileRecord = {
+              fileId: formatFileId(entry.parentObjectId || BigInt(objectId), entry.fileNumber),
+              parentId: directory.fileId,
+              fileName: entry.name,
+              fileSize: entry.dataSize,
+              allocatedSize: entry.allocatedSize,
+              attributes: entry.attributes,
+              creationTime: entry.creationTime,
+              modificationTime: entry.modificationTime,
+              changeTime: entry.changeTime,
+              accessTime: entry.accessTime,
+              securityId: entry.securityId,
+              isDirectory: false,
+              isDeleted: entry.deleted,
+              table: entry.table,
+              ...location
+            };
+            this.fileRecords.set(record.fileId, record);
+            break;
+          }
+        }
+      }, {
+        includeDeleted: true,
+        onProgress: () => this.sleep(1) // Allow UI updates
+      });
+
+      this.updateProgress(`Traversing B+Tree structure... (${this.fileRecords.size} records)`, 50);
+    }
   }
 
-  private async traverseBTree(): Promise<void> {
-    if (!this.superblock) throw new Error('Superblock not parsed');
-    
-    const rootBlock = this.superblock.rootDirectoryBlock;
-    await this.traverseBTreeNode(rootBlock, 0);
+  /** Reads the security descriptors files refer to by security ID. */
+  private async readSecurityTable(): Promise<void> {
+    const root = this.resolver?.resolveObject(REFS_OBJECT_IDS.securityDescriptors);
+    if (!root || !this.minstore) return;
+
+    try {
+      this.securityDescriptors = await readSecurityDescriptors(this.minstore, root);
+    } catch (error) {
+      console.warn(`Cannot read the security descriptor table: ${(error as Error).message}`);
+    }
   }
 
-  private async traverseBTreeNode(blockNumber: number, depth: number): Promise<void> {
-    if (depth > 10) return; // Prevent infinite recursion
-    
-    const offset = blockNumber * (this.superblock?.blockSize || 4096);
-    if (offset >= this.buffer.byteLength) return;
-    
-    const nodeHeader = this.view.getUint32(offset, true);
-    const isLeaf = (nodeHeader & 0x1) !== 0;
-    const keyCount = this.view.getUint16(offset + 4, true);
-    
-    if (isLeaf) {
-      // Process leaf node entries
-      let entryOffset = offset + 16;
-      for (let i = 0; i < keyCount && i < 100; i++) {
-        const entrySize = this.view.getUint16(entryOffset, true);
-        if (entrySize > 0 && entrySize < 1024) {
-          await this.parseFileRecord(entryOffset);
+  /** Finds every file's alternate data streams and stream snapshots. */
+  private async enumerateStreams(): Promise<void> {
+    for (const [fileId, record] of this.fileRecords) {
+      if (record.isDirectory || !record.table) continue;
+
+      const streams: StreamRecord[] = [];
+      for (const name of listStreamNames(record.table)) {
+        // A stream that does not decode was already reported by getDataStream
+        const stream = await this.getDataStream(fileId, name);
+        if (stream) streams.push({ name, size: stream.dataSize, allocatedSize: stream.allocatedSize });
+      }
+      if (streams.length > 0) record.streams = streams;
+
+      const snapshots: SnapshotRecord[] = [];
+      for (const snapshot of listStreamSnapshots(record.table)) {
+        const stream = await this.getDataStream(fileId, snapshotStreamName(snapshot.name));
+        if (!stream) continue;
+        snapshots.push({
+          name: snapshot.name,
+          size: stream.dataSize,
+          allocatedSize: stream.allocatedSize,
+          streamName: snapshot.streamName,
+          created: snapshot.created,
+          virtualClock: snapshot.virtualClock,
+          changedClusters: countChangedClusters(stream, await this.getDataStream(fileId, snapshot.streamName))
+        });
+      }
+      if (snapshots.length > 0) record.snapshots = snapshots;
+    }
+  }
+
+  /**
+   * Finds the clusters block cloning shares between the default streams of
+   * live files, from their extents and the block reference count table.
+   */
+  private async resolveSharedExtents(): Promise<void> {
+    if (!this.minstore || !this.resolver) return;
+
+    let counts: RefsReferenceCount[] = [];
+    const root = this.getCheckpointTableRoot(REFS_CHECKPOINT_TABLES.blockReferenceCount);
+    if (root) {
+      try {
+        counts = await readReferenceCounts(this.minstore, root);
+      } catch (error) {
+        console.warn(`Cannot read the block reference count table: ${(error as Error).message}`);
+      }
+    }
+
+    const files = new Map<string, RefsExtent[]>();
+    for (const [fileId, record] of this.fileRecords) {
+      if (record.isDirectory || record.isDeleted) continue;
+      const stream = await this.getDataStream(fileId);
+      if (stream && stream.extents.length > 0) files.set(fileId, stream.extents);
+    }
+
+    for (const [fileId, sharing] of findSharedExtents(files, counts)) {
+      this.fileRecords.get(fileId)!.sharing = sharing;
+    }
+  }
+
+  /**
+   * Rebuilds records from directory pages left in the volume's free space.
+   * Entries identical to a live record are older copies of an unchanged file
+   * and are dropped; every other version is kept once, from the most recent
+   * page holding it, and scored for plausibility. The sweep reads all free
+   * space, so it runs on demand, once: later calls return the first result.
+   * Returns null when there is nothing on disk to sweep (mock volumes).
+   */
+  async recoverDeletedRecords(onProgress?: (progress: ParseProgress) => void): Promise<RefsRecoveryResult | null> {
+    const minstore = this.minstore;
+    if (!this.resolver || !minstore || !this.superblock || this.isSimulated()) return null;
+    if (this.recovery) return this.recovery;
+
+    const progress = (message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>) =>
+      onProgress?.({ message, percentage, ...files });
+
+    progress('Reading allocator tables...', 0);
+    const freeRuns = await this.getFreeClusterRuns();
+
+    const { pages, stoppedAt } = await findStalePages(this.device, this.getGeometry(), freeRuns, minstore, (scanned, total, found) => {
+      progress(`Scanning free space for stale metadata pages... (${found} found)`, 5 + Math.round((scanned / total) * 70));
+      return this.sleep(0);
+    });
+
+    const findings: ValidationFinding[] = [];
+    if (stoppedAt !== null) {
+      findings.push({
+        check: 'Stale page scan',
+        severity: 'warning',
+        offset: stoppedAt,
+        message: `stopped after ${MAX_STALE_PAGES} stale pages; free space past this offset was not scanned, so recovery is incomplete`
+      });
+    }
+    this.findings.push(...findings);
+
+    const versions = new Map<string, StaleEntry & { originalFileId: string; parentId: string }>();
+    for (const page of pages) {
+      for (const stale of decodeStaleEntries(page, minstore)) {
+        const { entry } = stale;
+        const parentObjectId = (entry.kind === 'file' && entry.parentObjectId) || BigInt(stale.tableId);
+        const originalFileId = entry.kind === 'file' ? formatFileId(parentObjectId, entry.fileNumber) : formatFileId(entry.objectId, 0n);
+        const size = entry.kind === 'file' ? entry.dataSize : 0;
+
+        const live = this.fileRecords.get(originalFileId);
+        if (live && live.fileName === entry.name && live.fileSize === size &&
+          live.modificationTime.getTime() === entry.modificationTime.getTime()) continue;
+
+        const key = `${originalFileId}|${entry.name}|${entry.modificationTime.getTime()}|${size}`;
+        const known = versions.get(key);
+        if (known && known.page.header.virtualAllocationClock >= page.header.virtualAllocationClock) continue;
+        versions.set(key, { ...stale, originalFileId, parentId: formatFileId(parentObjectId, 0n) });
+      }
+    }
+
+    for (const { entry, page, rowIndex, originalFileId, parentId } of versions.values()) {
+      const isDirectory = entry.kind === 'directory';
+      const kind = this.fileRecords.has(originalFileId) ? 'previous version' : 'deleted';
+      this.recoveredRecords.set(`R${page.offset.toString(16).toUpperCase()}.${rowIndex}`, {
+        fileId: originalFileId,
+        parentId,
+        directoryObjectId: entry.kind === 'directory' ? Number(entry.objectId) : undefined,
+        fileName: entry.name,
+        fileSize: entry.kind === 'file' ? entry.dataSize : 0,
+        allocatedSize: entry.kind === 'file' ? entry.allocatedSize : 0,
+        attributes: isDirectory ? entry.attributes | FILE_ATTRIBUTE_DIRECTORY : entry.attributes,
+        creationTime: entry.creationTime,
+        modificationTime: entry.modificationTime,
+        changeTime: entry.changeTime,
+        accessTime: entry.accessTime,
+        securityId: entry.kind === 'file' ? entry.securityId : undefined,
+        isDirectory,
+        isDeleted: kind === 'deleted',
+        table: entry.kind === 'file' ? entry.table : undefined,
+        recovered: {
+          kind,
+          originalFileId,
+          originalPath: '',
+          pageOffset: page.offset,
+          pageClock: page.header.virtualAllocationClock,
+          overwritten: false,
+          confidence: 0,
+          checks: []
         }
-        entryOffset += Math.max(entrySize, 32);
+      });
+    }
+
+    progress('Scoring recovered records...', 75);
+    await this.scoreRecoveredRecords(pages.filter(page => page.node.badRows.length > 0).map(page => page.offset));
+
+    progress('Calculating hashes...', 80);
+    await this.calculateHashes(this.recoveredRecords, hashes => {
+      const percentage = 80 + Math.round((hashes.processedFiles / hashes.totalFiles) * 20);
+      progress(`Calculating hashes... (${hashes.processedFiles}/${hashes.totalFiles})`, percentage, hashes);
+    });
+
+    const folder = this.recoveredRecords.size > 0 ? this.buildRecoveredTree() : null;
+    if (folder) this.rootItems.push(folder);
+
+    progress('Recovery complete', 100);
+    this.recovery = { folder, pagesFound: pages.length, recordsRecovered: this.recoveredRecords.size, findings };
+    return this.recovery;
+  }
+
+  /**
+   * Physical clusters the allocators mark free. Throws when no allocator
+   * table can be read, rather than sweeping clusters that may be in use.
+   */
+  private async getFreeClusterRuns(): Promise<RefsPhysicalRun[]> {
+    const resolver = this.resolver!;
+    const readTable = async (table: number, reader: MinstoreReader): Promise<RefsAllocatorMap | null> => {
+      const root = this.getCheckpointTableRoot(table);
+      if (!root) return null;
+      try {
+        return await readAllocator(reader, root);
+      } catch (error) {
+        console.warn(`Cannot read allocator table ${table}: ${(error as Error).message}`);
+        return null;
       }
-    } else {
-      // Process internal node - traverse children
-      const childOffset = offset + 16 + (keyCount * 8);
-      for (let i = 0; i <= keyCount && i < 50; i++) {
-        const childBlock = this.view.getUint32(childOffset + (i * 4), true);
-        if (childBlock > 0 && childBlock < this.superblock!.totalBlocks) {
-          await this.traverseBTreeNode(childBlock, depth + 1);
+    };
+
+    // The container allocator is addressed physically, like the container table
+    const physicalReader = new MinstoreReader(this.superblock!.majorVersion, reference => resolver.readMetadataPage(reference, false));
+    const container = await readTable(REFS_CHECKPOINT_TABLES.containerAllocator, physicalReader);
+    if (!container) throw new Error('the container allocator table cannot be read, so free space is unknown');
+
+    const finer: RefsAllocatorMap[] = [];
+    for (const table of [REFS_CHECKPOINT_TABLES.mediumAllocator, REFS_CHECKPOINT_TABLES.smallAllocator]) {
+      const map = await readTable(table, this.minstore!);
+      if (!map) continue;
+      const translate = (runs: RefsPhysicalRun[]) => mergeRuns(runs.flatMap(run => resolver.mapClusters(run.startBlock, run.blockCount)));
+      finer.push({ covered: translate(map.covered), free: translate(map.free) });
+    }
+    return freeClusterRuns(container, finer);
+  }
+
+  /** Fills in the original path and plausibility of every recovered record, dropping implausible ones. */
+  private async scoreRecoveredRecords(damagedPages: number[]): Promise<void> {
+    const resolver = this.resolver!;
+    const clusterSize = this.superblock!.blockSize;
+    const liveRuns = await this.getLiveClusterRuns();
+    const earliest = Date.UTC(1995, 0, 1);
+    const latest = Date.now();
+
+    // The most recent version of each recovered directory stands for it
+    const recoveredDirectories = new Map<string, FileRecord>();
+    for (const record of this.recoveredRecords.values()) {
+      const known = record.isDirectory && recoveredDirectories.get(record.fileId);
+      if (record.isDirectory && (!known || known.recovered!.pageClock < record.recovered!.pageClock)) {
+        recoveredDirectories.set(record.fileId, record);
+      }
+    }
+
+    const pathOf = (fileId: string, depth: number = 0): string | null => {
+      const live = this.recordPath(fileId);
+      const directory = recoveredDirectories.get(fileId);
+      if (live !== null || !directory || depth > 64) return live;
+      const parent = pathOf(directory.parentId, depth + 1);
+      return parent === null ? null : `${parent === '/' ? '' : parent}/${directory.fileName}`;
+    };
+
+    for (const [id, record] of this.recoveredRecords) {
+      const info = record.recovered!;
+      const parentPath = pathOf(record.parentId);
+      info.originalPath = `${parentPath === null ? `<directory ${record.parentId}>` : parentPath === '/' ? '' : parentPath}/${record.fileName}`;
+
+      const times = [record.creationTime, record.modificationTime, record.changeTime, record.accessTime].map(time => time.getTime());
+      const checks: WeightedProbeCheck[] = [
+        // eslint-disable-next-line no-control-regex
+        { description: 'Name is printable', passed: !/[\x00-\x1F\uFFFD]/.test(record.fileName), weight: 1, required: true },
+        { description: 'Page has no damaged rows', passed: !damagedPages.includes(info.pageOffset), weight: 1 },
+        { description: 'Timestamps are plausible', passed: times.every(time => time >= earliest && time <= latest), weight: 2 },
+        { description: 'Parent directory is known', passed: parentPath !== null, weight: 2 }
+      ];
+
+      if (!record.isDirectory) {
+        const stream = await this.getDataStream(id);
+        const runs = (stream?.extents ?? [])
+          .filter(extent => extent.physicalCluster !== null)
+          .flatMap(extent => resolver.mapClusters(extent.physicalCluster!, extent.clusterCount));
+        info.overwritten = runs.some(run => overlapsRuns(liveRuns, run));
+        checks.push(
+          { description: 'Size fits in the volume', passed: record.fileSize <= this.device.size, weight: 2 },
+          { description: 'Data stream decodes', passed: stream !== null, weight: 2 },
+          { description: 'Clusters lie inside the volume', passed: runs.every(run => (run.startBlock + run.blockCount) * clusterSize <= this.device.size), weight: 1 },
+          { description: 'Clusters are not in use by live files', passed: !info.overwritten, weight: 3 }
+        );
+      }
+
+      const { confidence, checks: results } = scoreProbe(checks);
+      if (confidence === 0) {
+        this.recoveredRecords.delete(id);
+        continue;
+      }
+      info.confidence = confidence;
+      info.checks = results;
+    }
+  }
+
+  /** Physical clusters of every live file's streams, sorted and merged. */
+  private async getLiveClusterRuns(): Promise<RefsPhysicalRun[]> {
+    const runs: RefsPhysicalRun[] = [];
+    for (const [fileId, record] of this.fileRecords) {
+      if (record.isDirectory || record.isDeleted) continue;
+      for (const streamName of ['', ...(record.streams ?? []).map(stream => stream.name)]) {
+        const stream = await this.getDataStream(fileId, streamName);
+        for (const extent of stream?.extents ?? []) {
+          if (extent.physicalCluster !== null) runs.push(...this.resolver!.mapClusters(extent.physicalCluster, extent.clusterCount));
         }
       }
     }
-    
-    await this.sleep(1); // Allow UI updates
+
+    return mergeRuns(runs);
+  }
+
+  /** Path of a live record, following its parent links; null when they break off. */
+  private recordPath(fileId: string): string | null {
+    const rootId = formatFileId(BigInt(REFS_OBJECT_IDS.rootDirectory), 0n);
+    const names: string[] = [];
+    for (let record = this.fileRecords.get(fileId); record && names.length < 256; record = this.fileRecords.get(record.parentId)) {
+      if (record.fileId === rootId) return `/${names.reverse().join('/')}`;
+      names.push(record.fileName);
+    }
+    return null;
+  }
+
+  private getGeometry(): RefsVolumeGeometry {
+    const superblock = this.superblock!;
+    return {
+      majorVersion: superblock.majorVersion,
+      clusterSize: superblock.blockSize,
+      metadataBlockSize: superblock.metadataBlockSize,
+      containerSize: superblock.bootSector.containerSize
+    };
+  }
+
+  private getCheckpointTableRoot(table: number): RefsPageReference | null {
+    const checkpoint = this.activeCheckpoint;
+    if (!checkpoint?.record || !checkpoint.page) return null;
+
+    const offset = checkpoint.record.tableReferenceOffsets[table];
+    if (offset === undefined || offset === 0 || offset >= checkpoint.page.byteLength) return null;
+
+    return decodePageReference(checkpoint.page, offset, this.superblock!.majorVersion);
+  }
+
+  private async readVolume(offset: number, length: number): Promise<DataView | null> {
+    return readView(this.device, offset, length);
   }
 
   private async buildFileTree(): Promise<FileSystemItem[]> {
-    const rootItems: FileSystemItem[] = [];
-    const itemMap = new Map<number, FileSystemItem>();
+    const itemMap = new Map<string, FileSystemItem>();
     
     // Create file system items from records
     for (const [fileId, record] of this.fileRecords) {
-      const item: FileSystemItem = {
-        id: fileId.toString(),
-        name: record.fileName || `File_${fileId}`,
-        type: record.isDirectory ? 'directory' : 'file',
-        size: record.fileSize,
-        created: record.creationTime,
-        modified: record.modificationTime,
-        accessed: record.accessTime,
-        path: '',
-        children: record.isDirectory ? [] : undefined,
+      itemMap.set(fileId, this.createItem(fileId, record));
+    }
+    
+    this.items = itemMap;
+    const roots = linkFileTree(itemMap, fileId => this.fileRecords.get(fileId)!.parentId);
+
+    // Streams hang under their file, named the way Windows addresses them ("file.txt:Zone.Identifier"),
+    // followed by its snapshots as a timeline, oldest first
+    for (const [fileId, record] of this.fileRecords) {
+      if (!record.streams && !record.snapshots) continue;
+      const file = itemMap.get(fileId)!;
+      const streams = (record.streams ?? []).map(stream => ({
+        ...file,
+        id: scopedItemId(this.options, `${fileId}:${stream.name}`),
+        name: `${file.name}:${stream.name}`,
+        size: stream.size,
+        path: `${file.path}:${stream.name}`,
+        children: undefined,
         metadata: {
-          fileId,
-          parentId: record.parentId,
-          attributes: record.attributes,
-          isDeleted: record.isDeleted,
-          md5Hash: record.md5Hash,
-          sha1Hash: record.sha1Hash,
-          refs: {
-            blockNumber: Math.floor(fileId / 1000),
-            entryIndex: fileId % 1000,
-            btreeLevel: 0
-          }
+          ...file.metadata,
+          allocatedSize: stream.allocatedSize,
+          streamName: stream.name,
+          md5Hash: stream.md5Hash,
+          sha1Hash: stream.sha1Hash,
+          sha256Hash: stream.sha256Hash
         }
-      };
-      
-      itemMap.set(fileId, item);
+      }));
+      const fileRefs = file.metadata!.refs!;
+      const versions = (record.snapshots ?? []).map(snapshot => {
+        const streamName = snapshotStreamName(snapshot.name);
+        return {
+          ...file,
+          id: scopedItemId(this.options, `${fileId}:${streamName}`),
+          name: `${file.name} @ ${snapshot.name}`,
+          size: snapshot.size,
+          path: `${file.path}:${streamName}`,
+          children: undefined,
+          metadata: {
+            ...file.metadata,
+            allocatedSize: snapshot.allocatedSize,
+            streamName,
+            md5Hash: snapshot.md5Hash,
+            sha1Hash: snapshot.sha1Hash,
+            sha256Hash: snapshot.sha256Hash,
+            // The file's own state (shared extents, recovery) does not describe the version
+            refs: {
+              blockNumber: fileRefs.blockNumber,
+              entryIndex: fileRefs.entryIndex,
+              btreeLevel: fileRefs.btreeLevel,
+              snapshot: {
+                name: snapshot.name,
+                streamName: snapshot.streamName,
+                created: snapshot.created,
+                virtualClock: snapshot.virtualClock,
+                changedClusters: snapshot.changedClusters,
+                unchangedSize: Math.max(0, snapshot.size - snapshot.changedClusters * this.superblock!.blockSize)
+              }
+            }
+          }
+        };
+      });
+      file.children = [...streams, ...versions];
     }
-    
-    // Build hierarchy
-    for (const [fileId, item] of itemMap) {
-      const record = this.fileRecords.get(fileId)!;
-      
-      if (record.parentId === 0 || !itemMap.has(record.parentId)) {
-        // Root level item
-        item.path = `/${item.name}`;
-        rootItems.push(item);
-      } else {
-        // Child item
-        const parent = itemMap.get(record.parentId)!;
-        if (parent.children) {
-          parent.children.push(item);
-          item.path = `${parent.path}/${item.name}`;
+
+    // Shared runs name the files they are shared with, now that every file has its path
+    for (const [fileId, record] of this.fileRecords) {
+      if (!record.sharing) continue;
+      const item = itemMap.get(fileId)!;
+      const clusterSize = this.superblock!.blockSize;
+      item.metadata = {
+        ...item.metadata,
+        refs: {
+          ...item.metadata!.refs!,
+          sharedExtents: record.sharing.shared.map(run => ({
+            logicalCluster: run.logicalCluster,
+            physicalCluster: this.resolver!.translateBlock(run.physicalCluster),
+            clusterCount: run.clusterCount,
+            referenceCount: run.referenceCount,
+            sharedWith: run.sharedWith.map(other => itemMap.get(other)?.path ?? other)
+          })),
+          clonedSize: Math.min(item.size, record.sharing.clonedClusters * clusterSize)
         }
-      }
+      };
     }
-    
-    return rootItems;
+
+    return roots;
   }
 
-  private async calculateHashes(): Promise<void> {
-    // Simulate hash calculation for files
-    for (const [fileId, record] of this.fileRecords) {
-      if (!record.isDirectory && record.fileSize > 0) {
-        // Mock hash calculation - in real implementation, read file data and calculate
-        record.md5Hash = this.generateMockHash('md5', fileId);
-        record.sha1Hash = this.generateMockHash('sha1', fileId);
-      }
-      
-      if (fileId % 10 === 0) {
-        await this.sleep(1); // Allow UI updates
+  /**
+   * The "Recovered" folder: records from stale pages, nested under the
+   * recovered directory they were in when that directory was recovered too.
+   */
+  private buildRecoveredTree(): FileSystemItem {
+    const epoch = new Date(0);
+    const folder: FileSystemItem = {
+      id: scopedItemId(this.options, RECOVERED_DIRECTORY_ID),
+      evidenceId: this.options.evidenceId,
+      volumeId: this.options.volumeId,
+      name: 'Recovered',
+      type: 'directory',
+      size: 0,
+      created: epoch,
+      modified: epoch,
+      accessed: epoch,
+      path: '',
+      children: [],
+      metadata: { fileId: RECOVERED_DIRECTORY_ID, parentId: '', deleted: false, allocated: false, isDeleted: false }
+    };
+
+    const itemMap = new Map<string, FileSystemItem>([[RECOVERED_DIRECTORY_ID, folder]]);
+    const directories = new Map<string, string>();
+    for (const [id, record] of this.recoveredRecords) {
+      itemMap.set(id, this.createItem(id, record));
+      const known = directories.get(record.fileId);
+      if (record.isDirectory && (!known || this.recoveredRecords.get(known)!.recovered!.pageClock < record.recovered!.pageClock)) {
+        directories.set(record.fileId, id);
       }
     }
-  }
 
-  private generateMockHash(type: 'md5' | 'sha1', fileId: number): string {
-    const length = type === 'md5' ? 32 : 40;
-    const chars = '0123456789abcdef';
-    let hash = '';
-    
-    // Generate deterministic hash based on fileId
-    const seed = fileId * (type === 'md5' ? 31 : 37);
-    for (let i = 0; i < length; i++) {
-      hash += chars[(seed + i) % 16];
+    // Parent chains that loop (versions of a moved directory) are cut at the folder
+    const parentOf = (id: string): string => {
+      if (id === RECOVERED_DIRECTORY_ID) return '';
+      const parent = directories.get(this.recoveredRecords.get(id)!.parentId);
+      let steps = 0;
+      for (let ancestor = parent; ancestor; ancestor = directories.get(this.recoveredRecords.get(ancestor)!.parentId)) {
+        if (ancestor === id || ++steps > directories.size) return RECOVERED_DIRECTORY_ID;
+      }
+      return parent ?? RECOVERED_DIRECTORY_ID;
+    };
+
+    linkFileTree(itemMap, parentOf);
+    for (const [id, item] of itemMap) {
+      if (id !== RECOVERED_DIRECTORY_ID) this.items.set(id, item);
     }
-    
-    return hash;
+    this.items.set(RECOVERED_DIRECTORY_ID, folder);
+    return folder;
   }
 
-  private readString(offset: number, length: number): string {
-    const bytes = new Uint8Array(this.buffer, offset, length);
-    return new TextDecoder('ascii').decode(bytes);
+  private createItem(fileId: string, record: FileRecord): FileSystemItem {
+    const { evidenceId, volumeId } = this.options;
+    const deleted = record.isDeleted;
+    const security = record.securityId !== undefined ? this.securityDescriptors.get(record.securityId) : undefined;
+    return {
+      id: scopedItemId(this.options, fileId),
+      evidenceId,
+      volumeId,
+      name: record.fileName || `File_${fileId}`,
+      type: record.isDirectory ? 'directory' : 'file',
+      size: record.fileSize,
+      created: record.creationTime,
+      modified: record.modificationTime,
+      accessed: record.accessTime,
+      changed: record.changeTime,
+      path: '',
+      children: record.isDirectory ? [] : undefined,
+      metadata: {
+        fileId,
+        parentId: record.parentId,
+        attributes: record.attributes,
+        allocatedSize: record.allocatedSize,
+        securityId: record.securityId,
+        security,
+        owner: security?.owner && formatPrincipal(security.owner),
+        group: security?.group && formatPrincipal(security.group),
+        permissions: security && summarizeDescriptor(security),
+        deleted,
+        allocated: !deleted && !record.recovered,
+        isDeleted: deleted,
+        md5Hash: record.md5Hash,
+        sha1Hash: record.sha1Hash,
+        sha256Hash: record.sha256Hash,
+        simulated: this.isSimulated() || undefined,
+        refs: {
+          blockNumber: record.block ?? 0,
+          entryIndex: record.entryIndex ?? 0,
+          btreeLevel: 0,
+          recovered: record.recovered
+        }
+      }
+    };
   }
 
-  private readUnicodeString(offset: number, length: number): string {
-    const bytes = new Uint8Array(this.buffer, offset, length * 2);
-    return new TextDecoder('utf-16le').decode(bytes);
-  }
+  private async calculateHashes(records: Map<string, FileRecord>, onProgress: (progress: HashProgress) => void): Promise<void> {
+    const jobs: HashJob[] = [];
+    for (const [fileId, record] of records) {
+      // A recovered size beyond the volume is garbage, not worth hashing terabytes of zeroes for
+      if (record.isDirectory || (record.recovered && record.fileSize > this.device.size)) continue;
 
-  private readGuid(offset: number): string {
-    const bytes = new Uint8Array(this.buffer, offset, 16);
-    const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
-  }
+      // Alternate data streams and snapshots are hashed as files of their own, keyed "fileId:stream"
+      const streamNames = [
+        '',
+        ...(record.streams ?? []).map(stream => stream.name),
+        ...(record.snapshots ?? []).map(snapshot => snapshotStreamName(snapshot.name))
+      ];
+      for (const streamName of streamNames) {
+        const stream = await this.getDataStream(fileId, streamName);
+        if (stream && this.resolver) {
+          jobs.push({
+            id: streamName ? `${fileId}:${streamName}` : fileId,
+            name: streamName ? `${record.fileName}:${streamName}` : record.fileName,
+            plan: planStream(stream, this.resolver, this.superblock!.blockSize)
+          });
+        }
+      }
+    }
+
+    // Files without readable content (e.g. on mock volumes) are left unhashed
+    if (jobs.length === 0) return;
 
-  private readFileTime(offset: number): Date {
-    const filetime = this.view.getBigUint64(offset, true);
-    // Convert Windows FILETIME to JavaScript Date
-    const unixTime = Number(filetime) / 10000 - 11644473600000;
-    return new Date(unixTime);
+    const source = this.options.source ?? this.device;
+    const digests = await hashFiles(source, jobs, onProgress);
+
+    for (const [id, digest] of digests) {
+      const separator = id.indexOf(':');
+      const fileId = separator < 0 ? id : id.slice(0, separator);
+      const record = records.get(fileId)!;
+      const streamName = id.slice(separator + 1);
+      const snapshotName = parseSnapshotStreamName(streamName);
+      const target = separator < 0
+        ? record
+        : snapshotName === null
+          ? record.streams!.find(stream => stream.name === streamName)!
+          : record.snapshots!.find(snapshot => snapshot.name === snapshotName)!;
+      target.md5Hash = digest.md5;
+      target.sha1Hash = digest.sha1;
+      target.sha256Hash = digest.sha256;
+    }
   }
 
-  private updateProgress(message: string, percentage: number): void {
+  private updateProgress(message: string, percentage: number, files?: Omit<ParseProgress, 'message' | 'percentage'>): void {
     if (this.progressCallback) {
-      this.progressCallback({ message, percentage });
+      this.progressCallback({ message, percentage, ...files });
     }
   }
 
@@ -340,19 +1145,40 @@ export class RefsParser {
   }
 
   private createMockSuperblock(): RefsSuperblocK {
+    const totalBlocks = Math.floor(this.device.size / 4096) || 1000;
     return {
       signature: 'ReFS (Mock)',
-      version: 3,
+      version: '3.4',
+      majorVersion: 3,
+      minorVersion: 4,
       blockSize: 4096,
+      metadataBlockSize: 16384,
       sectorsPerBlock: 8,
       bytesPerSector: 512,
-      totalBlocks: Math.floor(this.buffer.byteLength / 4096) || 1000,
+      totalBlocks,
+      volumeSerial: '0000000000000000',
+      volumeGuid: '12345678-1234-5678-9abc-123456789abc',
+      superblockBlock: REFS_SUPERBLOCK_BLOCK,
+      sequenceNumber: 0,
+      checkpointReferences: [30, 31],
+      checksum: '',
+      bootSector: {
+        fileSystemName: 'ReFS',
+        identifier: 'FSRS',
+        structureSize: 0,
+        checksum: 0,
+        checksumValid: false,
+        totalSectors: totalBlocks * 8,
+        bytesPerSector: 512,
+        sectorsPerCluster: 8,
+        majorVersion: 3,
+        minorVersion: 4,
+        volumeSerial: '0000000000000000',
+        containerSize: 0
+      },
       rootDirectoryBlock: 10,
       metadataTableBlock: 20,
-      checkpointBlock: 30,
-      volumeId: '12345678-1234-5678-9abc-123456789abc',
-      creationTime: new Date('2024-01-01T00:00:00Z'),
-      lastMountTime: new Date()
+      checkpointBlock: 30
     };
   }
 
@@ -360,15 +1186,19 @@ export class RefsParser {
     const now = new Date();
     const baseTime = new Date('2024-01-01T00:00:00Z');
     
+    const mockId = (id: number) => formatFileId(0n, BigInt(id));
+    
     // Create root directory
-    this.fileRecords.set(1, {
-      fileId: 1,
-      parentId: 0,
+    this.fileRecords.set(mockId(1), {
+      fileId: mockId(1),
+      parentId: mockId(0),
       fileName: '',
       fileSize: 0,
+      allocatedSize: 0,
       attributes: 0x10, // Directory attribute
       creationTime: baseTime,
       modificationTime: now,
+      changeTime: now,
       accessTime: now,
       isDirectory: true,
       isDeleted: false
@@ -390,7 +1220,7 @@ export class RefsParser {
       { id: 13, parent: 11, name: 'Desktop', isDir: true, size: 0 },
       { id: 14, parent: 11, name: 'Documents', isDir: true, size: 0 },
       { id: 15, parent: 13, name: 'shortcut.lnk', isDir: false, size: 2048 },
-      { id: 16, parent: 14, name: 'report.docx', isDir: false, size: 524288 },
+      { id: 16, parent: 14, name: 'report.docx', isDir: false, size: 524288, streams: [{ name: 'Zone.Identifier', size: 124, allocatedSize: 0 }] },
       { id: 17, parent: 14, name: 'data.xlsx', isDir: false, size: 1048576 },
       { id: 18, parent: 1, name: '$Recycle.Bin', isDir: true, size: 0 },
       { id: 19, parent: 18, name: 'deleted_file.txt', isDir: false, size: 4096, deleted: true },
@@ -402,17 +1232,20 @@ export class RefsParser {
       const creationTime = new Date(baseTime.getTime() + Math.random() * (now.getTime() - baseTime.getTime()));
       const modificationTime = new Date(creationTime.getTime() + Math.random() * (now.getTime() - creationTime.getTime()));
       
-      this.fileRecords.set(item.id, {
-        fileId: item.id,
-        parentId: item.parent,
+      this.fileRecords.set(mockId(item.id), {
+        fileId: mockId(item.id),
+        parentId: mockId(item.parent),
         fileName: item.name,
         fileSize: item.size,
+        allocatedSize: Math.ceil(item.size / 4096) * 4096,
         attributes: item.isDir ? 0x10 : 0x20,
         creationTime,
         modificationTime,
+        changeTime: modificationTime,
         accessTime: modificationTime,
         isDirectory: item.isDir,
-        isDeleted: item.deleted || false
+        isDeleted: item.deleted || false,
+        streams: item.streams
       });
     });
   }
@@ -421,49 +1254,337 @@ export class RefsParser {
     return this.superblock;
   }
 
-  getFileRecords(): Map<number, FileRecord> {
+  getCheckpoints(): RefsCheckpointInfo[] {
+    return this.checkpoints.map(({ record: _record, page: _page, ...info }) => info);
+  }
+
+  getActiveCheckpoint(): number | undefined {
+    return this.activeCheckpoint?.index;
+  }
+
+  getCorruptNodes(): MinstoreCorruption[] {
+    return [
+      ...(this.resolver?.getCorruptNodes() ?? []),
+      ...(this.minstore?.getCorruptNodes() ?? []),
+      ...this.badEntries
+    ];
+  }
+
+  getRootItems(): FileSystemItem[] {
+    return this.rootItems;
+  }
+
+  listDirectory(directoryFileId?: string): FileSystemItem[] {
+    if (directoryFileId === undefined) return this.rootItems;
+    return this.items.get(directoryFileId)?.children ?? [];
+  }
+
+  getDeletedEntries(): FileSystemItem[] {
+    return collectItems(this.rootItems, item => item.metadata?.deleted === true);
+  }
+
+  getResolver(): RefsResolver | null {
+    return this.resolver;
+  }
+
+  /**
+   * Reads the metadata page at a (virtual) block number, resolved through the
+   * container table, e.g. to show the page a record was decoded from.
+   */
+  async readMetadataBlock(block: number): Promise<Uint8Array | null> {
+    if (!this.resolver) return null;
+
+    const page = await this.resolver.readMetadataPage({
+      blockNumbers: [block],
+      checksumType: 0,
+      checksumOffset: 0,
+      checksumLength: 0,
+      checksum: '',
+      size: 0
+    });
+    return page ? new Uint8Array(page.buffer, page.byteOffset, page.byteLength) : null;
+  }
+
+  /**
+   * Decodes a file's data stream ('' is the default stream), or a snapshot
+   * addressed by snapshotStreamName. Returns null for directories, files
+   * without such a data attribute and mock volumes.
+   */
+  async getDataStream(fileId: string, streamName: string = ''): Promise<RefsDataStream | null> {
+    const key = streamName ? `${fileId}:${streamName}` : fileId;
+    if (this.dataStreams.has(key)) return this.dataStreams.get(key)!;
+
+    const record = this.fileRecords.get(fileId) ?? this.recoveredRecords.get(fileId);
+    const snapshotName = parseSnapshotStreamName(streamName);
+    const row = record?.table && (snapshotName === null
+      ? findDataAttribute(record.table, streamName)
+      : findStreamSnapshot(record.table, snapshotName)?.row);
+    let stream: RefsDataStream | null = null;
+    if (row && this.minstore) {
+      try {
+        stream = await decodeDataStream(row, this.minstore);
+      } catch (error) {
+        console.warn(`Cannot decode data stream of ${record!.fileName}: ${(error as Error).message}`);
+      }
+    }
+
+    this.dataStreams.set(key, stream);
+    return stream;
+  }
+
+  /**
+   * Reads up to `length` bytes of a file's content starting at `offset`.
+   * Returns null when the file has no readable data stream.
+   */
+  async readFileContent(fileId: string, offset: number, length: number, streamName: string = ''): Promise<Uint8Array | null> {
+    const stream = await this.getDataStream(fileId, streamName);
+    if (!stream || !this.resolver || !this.superblock) return null;
+
+    return readStream(stream, this.resolver, this.superblock.blockSize, offset, length);
+  }
+
+  /**
+   * Walks every tree the active checkpoint references: its tables, then the
+   * root of every object in the object table. `createReader` supplies the
+   * readers for physically (container tables) and virtually addressed trees.
+   */
+  private async walkMetadataTrees(
+    createReader: (translate: boolean) => MinstoreReader,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<void> {
+    const resolver = this.resolver!;
+    const translated = createReader(true);
+    const tables = Object.values(REFS_CHECKPOINT_TABLES);
+    const objectIds = resolver.getObjectIds();
+    const total = tables.length + objectIds.length;
+
+    for (const [index, table] of tables.entries()) {
+      const root = this.getCheckpointTableRoot(table);
+      // Container tables map virtual clusters themselves, so they are addressed physically
+      const physical = table === REFS_CHECKPOINT_TABLES.container || table === REFS_CHECKPOINT_TABLES.containerDuplicate;
+      if (root) await (physical ? createReader(false) : translated).forEachRow(root, () => {}, { includeDeleted: true });
+      onProgress?.(index + 1, total);
+    }
+
+    for (const [index, objectId] of objectIds.entries()) {
+      const root = resolver.resolveObject(objectId);
+      if (root) await translated.forEachRow(root, () => {}, { includeDeleted: true });
+      onProgress?.(tables.length + index + 1, total);
+    }
+  }
+
+  /**
+   * Recomputes the volume's checksums: that of every metadata page reachable
+   * from the checkpoint, and the per-cluster checksums of files with
+   * integrity streams. Returns null when there is nothing on disk to verify
+   * (mock volumes).
+   */
+  async verifyIntegrity(onProgress?: (progress: ParseProgress) => void): Promise<IntegrityReport | null> {
+    const resolver = this.resolver;
+    const superblock = this.superblock;
+    if (!resolver || !superblock || this.isSimulated()) return null;
+
+    const report: IntegrityReport = {
+      pagesVerified: 0,
+      pagesUnchecked: 0,
+      filesVerified: 0,
+      clustersVerified: 0,
+      mismatches: [],
+      pages: {},
+      containerPages: {},
+      files: {}
+    };
+
+    // Pages are checked against the checksum in the reference that led to them. Virtual and
+    // physical block numbers overlap, so each address space keeps its own statuses.
+    const verifyingReader = (translate: boolean): MinstoreReader => new MinstoreReader(superblock.majorVersion, async reference => {
+      const page = await resolver.readMetadataPage(reference, translate);
+      const block = reference.blockNumbers[0];
+      const statuses = translate ? report.pages : report.containerPages;
+      if (!page || block in statuses) return page;
+
+      const computed = computeChecksum(reference.checksumType, new Uint8Array(page.buffer, page.byteOffset, page.byteLength));
+      if (computed === null || !reference.checksum) {
+        statuses[block] = 'unchecked';
+        report.pagesUnchecked++;
+      } else if (computed === reference.checksum) {
+        statuses[block] = 'verified';
+        report.pagesVerified++;
+      } else {
+        statuses[block] = 'mismatch';
+        report.pagesVerified++;
+        report.mismatches.push({
+          kind: 'page',
+          block,
+          offset: translate ? resolver.toPhysicalOffset(block) : block * metadataAddressUnit(superblock.majorVersion, superblock.blockSize),
+          stored: reference.checksum,
+          computed
+        });
+      }
+      return page;
+    });
+
+    const progress = (message: string, percentage: number) => onProgress?.({ message, percentage });
+    const translated = verifyingReader(true);
+
+    progress('Verifying metadata pages...', 0);
+    await this.walkMetadataTrees(verifyingReader, (done, total) => {
+      progress(`Verifying metadata pages... (${done}/${total} trees)`, Math.round((done / total) * 50));
+    });
+
+    const files = [...this.fileRecords.values()].filter(
+      record => !record.isDirectory && record.table && (record.attributes & FILE_ATTRIBUTE_INTEGRITY_STREAM) !== 0
+    );
+    for (const [index, record] of files.entries()) {
+      let status: IntegrityStatus = 'unchecked';
+      for (const name of ['', ...listStreamNames(record.table!)]) {
+        const row = findDataAttribute(record.table!, name);
+        if (!row) continue;
+        try {
+          const stream = await decodeDataStream(row, translated);
+          const result = await verifyStreamChecksums(stream, resolver, superblock.blockSize);
+          report.clustersVerified += result.verified;
+          if (result.verified > 0 && status === 'unchecked') status = 'verified';
+          for (const mismatch of result.mismatches) {
+            status = 'mismatch';
+            report.mismatches.push({
+              kind: 'cluster',
+              block: mismatch.logicalCluster,
+              offset: mismatch.physicalCluster * superblock.blockSize,
+              fileId: record.fileId,
+              path: (this.items.get(record.fileId)?.path ?? record.fileName) + (name ? `:${name}` : ''),
+              stored: mismatch.stored,
+              computed: mismatch.computed
+            });
+          }
+        } catch (error) {
+          console.warn(`Cannot verify integrity stream of ${record.fileName}: ${(error as Error).message}`);
+        }
+      }
+      report.files[record.fileId] = status;
+      if (status !== 'unchecked') report.filesVerified++;
+      progress(`Verifying integrity streams... (${index + 1}/${files.length})`, 50 + Math.round(((index + 1) / files.length) * 50));
+    }
+
+    progress('Integrity verification complete', 100);
+    return report;
+  }
+
+  /** Checks performed on the image so far, including non-fatal warnings. */
+  getValidationReport(): ValidationReport {
+    return createValidationReport('ReFS volume', this.findings);
+  }
+
+  /** True when the file system was generated by demo mode rather than decoded. */
+  isSimulated(): boolean {
+    return this.superblock?.signature.includes('Mock') ?? false;
+  }
+
+  getFileRecords(): Map<string, FileRecord> {
     return this.fileRecords;
   }
 }
 
+/** Whether a run shares clusters with any of `runs` (sorted and disjoint). */
+function overlapsRuns(runs: RefsPhysicalRun[], run: RefsPhysicalRun): boolean {
+  let low = 0;
+  let high = runs.length;
+  // First run ending after the run starts
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (runs[middle].startBlock + runs[middle].blockCount <= run.startBlock) low = middle + 1;
+    else high = middle;
+  }
+  return low < runs.length && runs[low].startBlock < run.startBlock + run.blockCount;
+}
+
+export const refsDriver: FileSystemDriver = {
+  fileSystem: 'ReFS',
+
+  async probe(device) {
+    const boot = await readView(device, 0, REFS_BOOT_SECTOR_SIZE);
+    const bootSector = boot && decodeBootSector(boot);
+    const clusterSize = bootSector ? bootSector.bytesPerSector * bootSector.sectorsPerCluster : 0;
+    return scoreProbe([
+      { description: 'File system name is "ReFS"', passed: !!boot && readAscii(boot, 3, 4) === REFS_FILE_SYSTEM_NAME, weight: 3, required: true },
+      { description: 'FSRS identifier is present', passed: !!boot && readAscii(boot, 16, 4) === REFS_FSRS_IDENTIFIER, weight: 2, required: true },
+      { description: 'Boot sector checksum matches', passed: bootSector?.checksumValid ?? false, weight: 2 },
+      { description: 'Sector size is 512 or 4096 bytes', passed: bootSector?.bytesPerSector === 512 || bootSector?.bytesPerSector === 4096, weight: 1 },
+      { description: 'Cluster size is 4 or 64 KiB', passed: clusterSize === 4096 || clusterSize === 65536, weight: 1 },
+      { description: 'Volume fits in the image', passed: !!bootSector && bootSector.totalSectors * bootSector.bytesPerSector <= device.size, weight: 1 }
+    ]);
+  },
+
+  async open(device, options: RefsParserOptions, onProgress) {
+    const parser = new RefsParser(device, onProgress, options);
+    await parser.parseImage();
+    return parser;
+  }
+};
+
 // Export utility functions
-export function validateRefsImage(buffer: ArrayBuffer): boolean {
-  // Accept any file for demo purposes - we'll handle validation in the parser
-  if (buffer.byteLength === 0) return false;
-  
-  // For very small files, accept them as demo files
-  if (buffer.byteLength < 8192) {
-    console.log('Small file detected, treating as demo/test file');
-    return true;
+/**
+ * Checks that the image starts with a ReFS volume boot record. Failed checks
+ * are errors; inconsistencies a damaged but real volume can show are warnings.
+ */
+export async function validateRefsImage(device: BlockDevice): Promise<ValidationReport> {
+  const findings: ValidationFinding[] = [];
+  const fail = (check: string, offset: number | null, message: string) => {
+    findings.push({ check, severity: 'error', offset, message });
+    return createValidationReport('ReFS boot sector', findings);
+  };
+
+  if (device.size === 0) return fail('Image size', null, 'file is empty');
+  if (device.size < REFS_BOOT_SECTOR_SIZE) {
+    return fail('Image size', 0, `${device.size} bytes is smaller than a boot sector`);
   }
-  
-  const view = new DataView(buffer);
-  const superblockOffset = 0x1E00;
-  
-  // If file is too small for standard ReFS structure, accept it anyway
-  if (buffer.byteLength < superblockOffset + 8) {
-    console.log('File too small for standard ReFS, treating as demo file');
-    return true;
+
+  const sector = await device.read(0, REFS_BOOT_SECTOR_SIZE);
+  const view = new DataView(sector.buffer, sector.byteOffset, sector.byteLength);
+  const printable = (offset: number, length: number) =>
+    Array.from(sector.subarray(offset, offset + length), byte => (byte >= 0x20 && byte < 0x7F ? String.fromCharCode(byte) : '.')).join('');
+
+  const bootSector = decodeBootSector(view);
+  if (!bootSector) {
+    if (printable(3, 4) !== 'ReFS') {
+      return fail('File system name', 3, `expected "ReFS", found "${printable(3, 8)}"`);
+    }
+    return fail('FSRS identifier', 16, `expected "FSRS", found "${printable(16, 4)}"`);
   }
-  
-  try {
-    const signature = new TextDecoder('ascii').decode(
-      new Uint8Array(buffer, superblockOffset, 4)
-    );
-    
-    // Accept files with ReFS signature or treat others as demo files
-    const hasRefsSignature = signature.includes('ReFS') || signature.includes('REFS');
-    if (hasRefsSignature) {
-      console.log('Valid ReFS signature found');
-      return true;
-    } else {
-      console.log('No ReFS signature found, treating as demo file for analysis');
-      return true; // Accept all files for demo purposes
-    }
-  } catch (error) {
-    console.log('Error reading signature, treating as demo file:', error);
-    return true; // Accept even if we can't read the signature
+
+  const { bytesPerSector, sectorsPerCluster, majorVersion } = bootSector;
+  const isPowerOfTwo = (value: number) => value > 0 && (value & (value - 1)) === 0;
+
+  if (!isPowerOfTwo(bytesPerSector) || bytesPerSector < 512 || bytesPerSector > 4096) {
+    return fail('Bytes per sector', 32, `${bytesPerSector} is not a valid sector size`);
+  }
+  if (!isPowerOfTwo(sectorsPerCluster)) {
+    return fail('Sectors per cluster', 36, `${sectorsPerCluster} is not a power of two`);
+  }
+  if (majorVersion < 1 || majorVersion > 3) {
+    return fail('Version', 40, `unsupported ReFS version ${majorVersion}.${bootSector.minorVersion}`);
+  }
+
+  if (!bootSector.checksumValid) {
+    findings.push({
+      check: 'Boot sector checksum',
+      severity: 'warning',
+      offset: 22,
+      message: `stored 0x${bootSector.checksum.toString(16)} does not match the computed value`
+    });
   }
+
+  const volumeSize = bootSector.totalSectors * bytesPerSector;
+  if (volumeSize > device.size) {
+    findings.push({
+      check: 'Volume size',
+      severity: 'warning',
+      offset: 24,
+      message: `boot sector describes ${volumeSize} bytes but the image holds ${device.size} (truncated image?)`
+    });
+  }
+
+  return createValidationReport('ReFS boot sector', findings);
 }
 
 export function formatFileSize(bytes: number): string {
@@ -0,0 +1,135 @@
+import { readView } from './block-device';
+import type { BlockDevice } from './block-device';
+import { decodeDirectoryRow } from './refs-directory';
+import type { RefsDirectoryLink, RefsFileEntry } from './refs-directory';
+import { MINSTORE_NODE_INNER, MINSTORE_PAGE_SIGNATURE } from './refs-minstore';
+import type { MinstoreNode, MinstoreReader } from './refs-minstore';
+import type { RefsPhysicalRun, RefsVolumeGeometry } from './refs-resolver';
+import { decodePageHeader, isRefsV3, metadataAddressUnit } from './refs-structures';
+import type { RefsPageHeader } from './refs-structures';
+
+// Recovery of directory entries from stale metadata pages. ReFS never
+// updates a page in place: a change writes a new copy elsewhere and only
+// releases the old one, so earlier versions of directory tables linger in
+// clusters the active checkpoint no longer references until they are
+// reused. Sweeping the clusters the allocators mark free for page
+// signatures finds them, and their rows still describe files as they were,
+// deleted ones included.
+
+/** Bytes read at a time while sweeping. */
+const SCAN_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/** Stale pages kept at most; each holds a page in memory. */
+export const MAX_STALE_PAGES = 2048;
+
+export interface StalePage {
+  /** Byte offset of the page in the volume. */
+  offset: number;
+  header: RefsPageHeader;
+  node: MinstoreNode;
+}
+
+/** A file or directory entry read from a stale page. */
+export interface StaleEntry {
+  entry: (RefsFileEntry | RefsDirectoryLink) & { deleted: boolean };
+  page: StalePage;
+  rowIndex: number;
+  /** Object ID of the directory table the page belonged to. */
+  tableId: number;
+}
+
+/** Outcome of a sweep of the volume's free space. */
+export interface StalePageScan {
+  pages: StalePage[];
+  /** Byte offset the sweep stopped at on reaching MAX_STALE_PAGES; null when it covered all free space. */
+  stoppedAt: number | null;
+}
+
+/**
+ * Sweeps the clusters in `freeRuns` (physical, as the allocators report
+ * them) for Minstore leaf pages. Clusters in use are never read: pages there
+ * are live, or hold file data. 1.x pages carry no signature and are
+ * recognised by naming their own block instead.
+ */
+export async function findStalePages(
+  device: BlockDevice,
+  geometry: RefsVolumeGeometry,
+  freeRuns: RefsPhysicalRun[],
+  minstore: MinstoreReader,
+  onProgress?: (scanned: number, total: number, found: number) => Promise<void> | void
+): Promise<StalePageScan> {
+  const { majorVersion, clusterSize, metadataBlockSize: pageSize } = geometry;
+  const unit = metadataAddressUnit(majorVersion, clusterSize);
+  const total = freeRuns.reduce((sum, run) => sum + run.blockCount * clusterSize, 0);
+  const pages: StalePage[] = [];
+  let scanned = 0;
+
+  for (const run of freeRuns) {
+    const runStart = run.startBlock * clusterSize;
+    const runEnd = Math.min((run.startBlock + run.blockCount) * clusterSize, device.size);
+    let next = runStart;
+
+    for (let chunkStart = runStart; chunkStart < runEnd; chunkStart += SCAN_CHUNK_SIZE) {
+      // Read a page past the chunk so pages straddling its end are whole
+      const chunk = await readView(device, chunkStart, Math.min(SCAN_CHUNK_SIZE + pageSize, runEnd - chunkStart));
+      if (!chunk) break;
+
+      const chunkEnd = Math.min(chunkStart + SCAN_CHUNK_SIZE, runEnd - pageSize + 1);
+      for (let position = Math.ceil(Math.max(next, chunkStart) / unit) * unit; position < chunkEnd; position += unit) {
+        const relative = position - chunkStart;
+        const header = decodePageHeader(new DataView(chunk.buffer, chunk.byteOffset + relative, pageSize), majorVersion);
+        const recognised = isRefsV3(majorVersion)
+          ? header.signature === MINSTORE_PAGE_SIGNATURE
+          : header.blockNumbers[0] * unit === position;
+        if (!recognised) continue;
+
+        // Copied so the page outlives the chunk buffer
+        const page = new DataView(chunk.buffer.slice(chunk.byteOffset + relative, chunk.byteOffset + relative + pageSize));
+        const node = decodeStaleNode(minstore, page, header);
+        if (!node || (node.header.flags & MINSTORE_NODE_INNER) !== 0 || node.rows.length === 0) continue;
+
+        pages.push({ offset: position, header, node });
+        next = position + pageSize;
+        if (pages.length >= MAX_STALE_PAGES) return { pages, stoppedAt: next };
+      }
+
+      scanned += Math.min(SCAN_CHUNK_SIZE, runEnd - chunkStart);
+      await onProgress?.(scanned, total, pages.length);
+    }
+  }
+
+  return { pages, stoppedAt: null };
+}
+
+/** Root pages start with an index root and others do not; a stale page does not say which it was. */
+function decodeStaleNode(minstore: MinstoreReader, page: DataView, header: RefsPageHeader): MinstoreNode | null {
+  let best: MinstoreNode | null = null;
+  for (const hasIndexRoot of [true, false]) {
+    try {
+      const node = minstore.decodeNode(page, header.headerSize, hasIndexRoot, header.blockNumbers[0]);
+      if (!best || node.badRows.length < best.badRows.length) best = node;
+    } catch {
+      // Not this layout
+    }
+  }
+  return best;
+}
+
+/**
+ * The file and directory entries of a stale page. Rows that do not decode
+ * are skipped: the page may have belonged to another table, or been torn.
+ */
+export function decodeStaleEntries(page: StalePage, minstore: MinstoreReader): StaleEntry[] {
+  const entries: StaleEntry[] = [];
+  for (const row of page.node.rows) {
+    let entry;
+    try {
+      entry = decodeDirectoryRow(row, minstore);
+    } catch {
+      continue;
+    }
+    if (!entry || entry.kind === 'descriptor' || !entry.name) continue;
+    entries.push({ entry, page, rowIndex: row.index, tableId: page.header.tableIdLow });
+  }
+  return entries;
+}
@@ -0,0 +1,165 @@
+import { readUint64 } from './byte-reader';
+import type { RefsExtent } from './refs-extents';
+import type { MinstoreReader } from './refs-minstore';
+import type { RefsPageReference } from './refs-structures';
+
+// Block cloning. Cloning a file range (Veeam fast clone, Hyper-V checkpoint
+// merges) points the extents of several files at the same clusters instead
+// of copying them; the block reference count table keeps the number of
+// references to every run of clusters that has more than one. Rows are
+// keyed by the run's first (virtual) cluster and its length, and hold the
+// reference count.
+
+const REFERENCE_COUNT_KEY_SIZE = 0x10;
+const REFERENCE_COUNT_VALUE_SIZE = 0x04;
+
+export interface RefsReferenceCount {
+  startCluster: number;
+  clusterCount: number;
+  referenceCount: number;
+}
+
+/** A run of a file's clusters that other files (or unlisted references) share. */
+export interface RefsSharedRun {
+  /** First cluster of the run within the file. */
+  logicalCluster: number;
+  /** First (virtual) cluster of the run on the volume. */
+  physicalCluster: number;
+  clusterCount: number;
+  referenceCount: number;
+  /** File IDs of the other files whose extents cover the run. */
+  sharedWith: string[];
+}
+
+export interface RefsFileSharing {
+  shared: RefsSharedRun[];
+  /** Clusters of the file whose space is accounted to a file before it. */
+  clonedClusters: number;
+}
+
+/** Reads the reference count table, sorted by cluster. Runs referenced once are not in it. */
+export async function readReferenceCounts(minstore: MinstoreReader, root: RefsPageReference): Promise<RefsReferenceCount[]> {
+  const counts: RefsReferenceCount[] = [];
+  await minstore.forEachRow(root, row => {
+    if (row.key.byteLength < REFERENCE_COUNT_KEY_SIZE || row.value.byteLength < REFERENCE_COUNT_VALUE_SIZE) return;
+    const count = {
+      startCluster: readUint64(row.key, 0x00),
+      clusterCount: readUint64(row.key, 0x08),
+      referenceCount: row.value.getUint32(0x00, true)
+    };
+    if (count.clusterCount > 0) counts.push(count);
+  });
+  return counts.sort((a, b) => a.startCluster - b.startCluster);
+}
+
+interface Segment {
+  fileId: string;
+  /** Position of the file in volume order; the first file covering a cluster owns its space. */
+  order: number;
+  logicalCluster: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the shared runs of every file from the overlap of their extents and
+ * the reference counts. Files are taken in the map's order: the space of a
+ * shared cluster is accounted to the first file covering it, so summing
+ * what files do not share with an earlier one counts every cluster once.
+ */
+export function findSharedExtents(files: Map<string, RefsExtent[]>, counts: RefsReferenceCount[]): Map<string, RefsFileSharing> {
+  type Event = { position: number; delta: 1 | -1; segment?: Segment; count?: RefsReferenceCount };
+  const events: Event[] = [];
+
+  let order = 0;
+  for (const [fileId, extents] of files) {
+    for (const extent of extents) {
+      if (extent.physicalCluster === null || extent.clusterCount === 0) continue;
+      const segment = {
+        fileId,
+        order,
+        logicalCluster: extent.logicalCluster,
+        start: extent.physicalCluster,
+        end: extent.physicalCluster + extent.clusterCount
+      };
+      events.push({ position: segment.start, delta: 1, segment }, { position: segment.end, delta: -1, segment });
+    }
+    order++;
+  }
+  for (const count of counts) {
+    if (count.referenceCount < 2) continue;
+    events.push(
+      { position: count.startCluster, delta: 1, count },
+      { position: count.startCluster + count.clusterCount, delta: -1, count }
+    );
+  }
+  events.sort((a, b) => a.position - b.position || a.delta - b.delta);
+
+  const sharing = new Map<string, RefsFileSharing>();
+  const activeSegments = new Set<Segment>();
+  const activeCounts = new Set<RefsReferenceCount>();
+  let previous = 0;
+
+  for (const event of events) {
+    if (event.position > previous && activeSegments.size > 0) {
+      const fileIds = [...new Set([...activeSegments].map(segment => segment.fileId))].sort();
+      const recorded = Math.max(0, ...[...activeCounts].map(count => count.referenceCount));
+      if (activeSegments.size > 1 || recorded > 1) {
+        const referenceCount = Math.max(recorded, activeSegments.size);
+        for (const segment of activeSegments) {
+          addSharedRun(sharing, segment, previous, event.position, referenceCount, fileIds.filter(fileId => fileId !== segment.fileId));
+        }
+        // Every segment but the first to cover the clusters has them counted already,
+        // including a second segment of the same file when it clones its own extents
+        const owner = [...activeSegments].reduce((first, segment) => (segment.order < first.order ? segment : first));
+        for (const segment of activeSegments) {
+          if (segment !== owner) sharing.get(segment.fileId)!.clonedClusters += event.position - previous;
+        }
+      }
+    }
+    previous = event.position;
+
+    if (event.segment) {
+      if (event.delta > 0) activeSegments.add(event.segment);
+      else activeSegments.delete(event.segment);
+    } else if (event.count) {
+      if (event.delta > 0) activeCounts.add(event.count);
+      else activeCounts.delete(event.count);
+    }
+  }
+
+  return sharing;
+}
+
+function addSharedRun(
+  sharing: Map<string, RefsFileSharing>,
+  segment: Segment,
+  start: number,
+  end: number,
+  referenceCount: number,
+  sharedWith: string[]
+): void {
+  let file = sharing.get(segment.fileId);
+  if (!file) {
+    file = { shared: [], clonedClusters: 0 };
+    sharing.set(segment.fileId, file);
+  }
+
+  const run: RefsSharedRun = {
+    logicalCluster: segment.logicalCluster + (start - segment.start),
+    physicalCluster: start,
+    clusterCount: end - start,
+    referenceCount,
+    sharedWith
+  };
+
+  // Neighbouring pieces shared the same way are one run
+  const last = file.shared[file.shared.length - 1];
+  if (last && last.physicalCluster + last.clusterCount === start &&
+    last.logicalCluster + last.clusterCount === run.logicalCluster &&
+    last.referenceCount === referenceCount && last.sharedWith.join() === sharedWith.join()) {
+    last.clusterCount += run.clusterCount;
+  } else {
+    file.shared.push(run);
+  }
+}
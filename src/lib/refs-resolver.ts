@@ -0,0 +1,208 @@
+import { MinstoreReader } from './refs-minstore';
+import type { MinstoreCorruption } from './refs-minstore';
+import { decodePageReference, isRefsV3, metadataAddressUnit } from './refs-structures';
+import type { RefsPageReference } from './refs-structures';
+
+// Address resolution for a ReFS volume. Most metadata is addressed by object
+// ID through the Object Table; on 3.x every block number is additionally
+// virtual and must be mapped onto a physical cluster through the Container
+// Table before it can be read.
+
+/** Value offsets of the physical extent backing a 3.x container table row. */
+const CONTAINER_VALUE_START_LCN = 0xA8;
+const CONTAINER_VALUE_CLUSTER_COUNT = 0xB0;
+
+/** Value offset of the page reference to an object's tree root. */
+const OBJECT_VALUE_ROOT_REFERENCE = 0x20;
+
+export interface RefsContainer {
+  containerId: number;
+  startBlock: number;
+  blockCount: number;
+}
+
+export interface RefsPhysicalRun {
+  startBlock: number;
+  blockCount: number;
+}
+
+export interface RefsObjectEntry {
+  objectId: number;
+  root: RefsPageReference;
+}
+
+export interface RefsVolumeGeometry {
+  majorVersion: number;
+  clusterSize: number;
+  metadataBlockSize: number;
+  containerSize: number;
+}
+
+export type VolumeReader = (offset: number, length: number) => Promise<DataView | null>;
+
+export class RefsResolver {
+  private geometry: RefsVolumeGeometry;
+  private readVolume: VolumeReader;
+  private containers: Map<number, RefsContainer> = new Map();
+  private clustersPerContainer = 0;
+  private objects: Map<number, RefsObjectEntry> = new Map();
+  private corruptNodes: MinstoreCorruption[] = [];
+
+  constructor(geometry: RefsVolumeGeometry, readVolume: VolumeReader) {
+    this.geometry = geometry;
+    this.readVolume = readVolume;
+  }
+
+  /** Loads the container table. Its own root and pages are addressed physically. */
+  async loadContainerTable(root: RefsPageReference): Promise<void> {
+    const { majorVersion, clusterSize, containerSize } = this.geometry;
+    if (!isRefsV3(majorVersion) || containerSize === 0) return;
+
+    const reader = new MinstoreReader(majorVersion, reference => this.readMetadataPage(reference, false));
+    const rows = await reader.readAll(root);
+
+    for (const row of rows) {
+      if (row.key.byteLength < 8 || row.value.byteLength < CONTAINER_VALUE_CLUSTER_COUNT + 8) continue;
+
+      const containerId = Number(row.key.getBigUint64(0, true));
+      this.containers.set(containerId, {
+        containerId,
+        startBlock: Number(row.value.getBigUint64(CONTAINER_VALUE_START_LCN, true)),
+        blockCount: Number(row.value.getBigUint64(CONTAINER_VALUE_CLUSTER_COUNT, true))
+      });
+    }
+
+    this.clustersPerContainer = Math.floor(containerSize / clusterSize);
+    this.corruptNodes.push(...reader.getCorruptNodes());
+  }
+
+  /** Loads the object table, mapping object IDs onto the roots of their trees. */
+  async loadObjectTable(root: RefsPageReference): Promise<void> {
+    const reader = this.createReader();
+    const rows = await reader.readAll(root);
+
+    for (const row of rows) {
+      if (row.key.byteLength < 16) continue;
+      if (row.value.byteLength < OBJECT_VALUE_ROOT_REFERENCE + 8) continue;
+
+      // Object IDs are 128-bit; every object in use today has a zero high half
+      const objectId = Number(row.key.getBigUint64(8, true));
+      try {
+        const reference = decodePageReference(row.value, OBJECT_VALUE_ROOT_REFERENCE, this.geometry.majorVersion);
+        this.objects.set(objectId, { objectId, root: reference });
+      } catch {
+        this.corruptNodes.push({
+          block: row.block,
+          parentBlock: null,
+          depth: 0,
+          reason: `object 0x${objectId.toString(16)} has a truncated root reference`
+        });
+      }
+    }
+
+    this.corruptNodes.push(...reader.getCorruptNodes());
+  }
+
+  resolveObject(objectId: number): RefsPageReference | null {
+    return this.objects.get(objectId)?.root ?? null;
+  }
+
+  getObjectIds(): number[] {
+    return Array.from(this.objects.keys()).sort((a, b) => a - b);
+  }
+
+  /** Maps a virtual block number onto the physical cluster holding it. */
+  translateBlock(block: number): number {
+    if (this.containers.size === 0 || this.clustersPerContainer === 0) return block;
+
+    const container = this.containers.get(Math.floor(block / this.clustersPerContainer));
+    if (!container) return block;
+
+    return container.startBlock + (block % this.clustersPerContainer);
+  }
+
+  /** Physical byte offset of a (virtual) block number. */
+  toPhysicalOffset(block: number): number {
+    const { majorVersion, clusterSize } = this.geometry;
+    return this.translateBlock(block) * metadataAddressUnit(majorVersion, clusterSize);
+  }
+
+  /**
+   * Splits a run of virtual clusters into physically contiguous runs. Runs
+   * may straddle containers, so every cluster is translated on its own.
+   */
+  mapClusters(startBlock: number, count: number): RefsPhysicalRun[] {
+    const runs: RefsPhysicalRun[] = [];
+
+    let i = 0;
+    while (i < count) {
+      const physical = this.translateBlock(startBlock + i);
+      let run = 1;
+      while (i + run < count && this.translateBlock(startBlock + i + run) === physical + run) {
+        run++;
+      }
+
+      runs.push({ startBlock: physical, blockCount: run });
+      i += run;
+    }
+
+    return runs;
+  }
+
+  /** Reads a run of clusters starting at a virtual cluster number. */
+  async readClusters(startBlock: number, count: number): Promise<Uint8Array | null> {
+    const { clusterSize } = this.geometry;
+    const result = new Uint8Array(count * clusterSize);
+
+    let position = 0;
+    for (const run of this.mapClusters(startBlock, count)) {
+      const view = await this.readVolume(run.startBlock * clusterSize, run.blockCount * clusterSize);
+      if (!view) return null;
+      result.set(new Uint8Array(view.buffer, view.byteOffset, view.byteLength), position);
+      position += run.blockCount * clusterSize;
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads a metadata page. 3.x pages larger than a cluster list one block
+   * number per cluster, and those clusters need not be contiguous.
+   */
+  async readMetadataPage(reference: RefsPageReference, translate: boolean = true): Promise<DataView | null> {
+    const { majorVersion, clusterSize, metadataBlockSize: pageSize } = this.geometry;
+    const unit = metadataAddressUnit(majorVersion, clusterSize);
+    const resolve = (block: number) => (translate ? this.translateBlock(block) : block);
+
+    const chunks = Math.ceil(pageSize / unit);
+    const blocks = reference.blockNumbers.slice(0, chunks);
+    const contiguous = chunks === 1 || blocks.slice(1).every(block => block === 0);
+
+    if (blocks[0] === 0) return null;
+    if (contiguous) {
+      return this.readVolume(resolve(blocks[0]) * unit, pageSize);
+    }
+
+    const page = new Uint8Array(pageSize);
+    for (let i = 0; i < chunks; i++) {
+      if (blocks[i] === 0) return null;
+      const chunk = await this.readVolume(resolve(blocks[i]) * unit, unit);
+      if (!chunk) return null;
+      page.set(new Uint8Array(chunk.buffer, chunk.byteOffset, unit), i * unit);
+    }
+    return new DataView(page.buffer);
+  }
+
+  /** A Minstore reader whose page references resolve through this volume's tables. */
+  createReader(): MinstoreReader {
+    return new MinstoreReader(this.geometry.majorVersion, reference => this.readMetadataPage(reference));
+  }
+
+  getContainers(): RefsContainer[] {
+    return Array.from(this.containers.values());
+  }
+
+  getCorruptNodes(): MinstoreCorruption[] {
+    return this.corruptNodes;
+  }
+}
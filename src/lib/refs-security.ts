@@ -0,0 +1,31 @@
+import { decodeSecurityDescriptor } from './security-descriptor';
+import type { MinstoreReader } from './refs-minstore';
+import type { RefsPageReference } from './refs-structures';
+import type { SecurityDescriptorInfo } from '../types/forensic';
+
+// The security descriptor table. Like NTFS' $Secure, ReFS stores every
+// distinct security descriptor once and files refer to theirs by security
+// ID. Rows are keyed by that 32-bit ID and hold the descriptor in its
+// self-relative form.
+
+/** Reads every descriptor of the table, by security ID. Rows that do not decode are skipped. */
+export async function readSecurityDescriptors(
+  minstore: MinstoreReader,
+  root: RefsPageReference
+): Promise<Map<number, SecurityDescriptorInfo>> {
+  const descriptors = new Map<number, SecurityDescriptorInfo>();
+  let malformed = 0;
+  await minstore.forEachRow(root, row => {
+    if (row.key.byteLength < 4) return;
+    try {
+      descriptors.set(row.key.getUint32(0, true), decodeSecurityDescriptor(row.value));
+    } catch {
+      malformed++;
+    }
+  });
+
+  if (malformed > 0) {
+    console.warn(`Skipped ${malformed} malformed security descriptor${malformed === 1 ? '' : 's'}`);
+  }
+  return descriptors;
+}
@@ -0,0 +1,125 @@
+import { readFileTime, readUint64, readUtf16 } from './byte-reader';
+import type { RefsDataStream, RefsExtent } from './refs-extents';
+import type { MinstoreNode, MinstoreRow } from './refs-minstore';
+
+// Stream snapshots (ReFS 3.x). A snapshot freezes a stream as it is: the
+// snapshot keeps the stream's extents, and block cloning keeps the clusters
+// they map referenced while the live stream is rewritten elsewhere. Hyper-V
+// and backup products take them of virtual disks before every backup. Each
+// snapshot is an attribute row of the file's table, keyed by its own
+// attribute type and the snapshot name. Its value starts with the snapshot
+// header (creation time, virtual clock, name of the stream snapshotted),
+// followed by a data attribute laid out like the stream's own.
+
+export const ATTRIBUTE_TYPE_STREAM_SNAPSHOT = 0xD0;
+
+const SNAPSHOT_HEADER_SIZE = 0x20;
+
+/** Suffix that addresses a snapshot as a stream of its file ("name:$SNAPSHOT"). */
+const SNAPSHOT_STREAM_SUFFIX = ':$SNAPSHOT';
+
+export interface RefsStreamSnapshot {
+  name: string;
+  /** Stream the snapshot was taken of; '' is the default stream. */
+  streamName: string;
+  created: Date;
+  /** Virtual allocation clock when the snapshot was taken; orders snapshots taken in the same instant. */
+  virtualClock: number;
+  /** The frozen stream's data attribute, for decodeDataStream. */
+  row: MinstoreRow;
+}
+
+/** Stream name reading a snapshot through the file's stream reads. */
+export function snapshotStreamName(snapshotName: string): string {
+  return snapshotName + SNAPSHOT_STREAM_SUFFIX;
+}
+
+/** The snapshot a stream name addresses, or null for data streams. */
+export function parseSnapshotStreamName(streamName: string): string | null {
+  return streamName.endsWith(SNAPSHOT_STREAM_SUFFIX) ? streamName.slice(0, -SNAPSHOT_STREAM_SUFFIX.length) : null;
+}
+
+/** The file's stream snapshots, oldest first. Rows that do not decode are skipped with a warning. */
+export function listStreamSnapshots(table: MinstoreNode): RefsStreamSnapshot[] {
+  const snapshots: RefsStreamSnapshot[] = [];
+  for (const row of table.rows) {
+    if (row.key.byteLength < 4 || row.key.getUint32(0, true) !== ATTRIBUTE_TYPE_STREAM_SNAPSHOT) continue;
+    try {
+      snapshots.push(decodeStreamSnapshot(row));
+    } catch (error) {
+      console.warn(`Cannot decode stream snapshot: ${(error as Error).message}`);
+    }
+  }
+  return snapshots.sort((a, b) => a.created.getTime() - b.created.getTime() || a.virtualClock - b.virtualClock);
+}
+
+export function findStreamSnapshot(table: MinstoreNode, snapshotName: string): RefsStreamSnapshot | null {
+  return listStreamSnapshots(table).find(snapshot => snapshot.name === snapshotName) ?? null;
+}
+
+function decodeStreamSnapshot(row: MinstoreRow): RefsStreamSnapshot {
+  const name = readUtf16(row.key, 4, row.key.byteLength - 4);
+  const value = row.value;
+  if (value.byteLength < SNAPSHOT_HEADER_SIZE) {
+    throw new Error(`snapshot "${name}" is truncated (${value.byteLength} bytes)`);
+  }
+
+  const headerSize = value.getUint32(0x00, true);
+  const streamNameLength = value.getUint16(0x18, true);
+  if (headerSize < SNAPSHOT_HEADER_SIZE + streamNameLength || headerSize >= value.byteLength) {
+    throw new Error(`snapshot "${name}" header size 0x${headerSize.toString(16)} is invalid`);
+  }
+
+  return {
+    name,
+    streamName: readUtf16(value, SNAPSHOT_HEADER_SIZE, streamNameLength),
+    created: readFileTime(value, 0x08),
+    virtualClock: readUint64(value, 0x10),
+    row: {
+      ...row,
+      value: new DataView(value.buffer, value.byteOffset + headerSize, value.byteLength - headerSize)
+    }
+  };
+}
+
+/**
+ * Clusters the live stream no longer maps where the snapshot does: those
+ * rewritten since, and those added or truncated. Resident streams have no
+ * clusters and count none.
+ */
+export function countChangedClusters(snapshot: RefsDataStream, current: RefsDataStream | null): number {
+  const currentExtents = current?.extents ?? [];
+  const boundaries = new Set<number>();
+  for (const extent of [...snapshot.extents, ...currentExtents]) {
+    boundaries.add(extent.logicalCluster);
+    boundaries.add(extent.logicalCluster + extent.clusterCount);
+  }
+
+  const positions = [...boundaries].sort((a, b) => a - b);
+  let changed = 0;
+  for (let index = 0; index + 1 < positions.length; index++) {
+    const start = positions[index];
+    if (mapCluster(snapshot.extents, start) !== mapCluster(currentExtents, start)) {
+      changed += positions[index + 1] - start;
+    }
+  }
+  return changed;
+}
+
+/** Volume cluster a logical cluster maps to; null when it falls in a hole or sparse run. */
+function mapCluster(extents: RefsExtent[], logicalCluster: number): number | null {
+  let low = 0;
+  let high = extents.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const extent = extents[middle];
+    if (logicalCluster < extent.logicalCluster) {
+      high = middle - 1;
+    } else if (logicalCluster >= extent.logicalCluster + extent.clusterCount) {
+      low = middle + 1;
+    } else {
+      return extent.physicalCluster === null ? null : extent.physicalCluster + (logicalCluster - extent.logicalCluster);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,292 @@
+import type { RefsBootSector } from '../types/forensic';
+import { readAscii, readGuid, readUint64, toHex } from './byte-reader';
+import { computeChecksum } from './checksum';
+
+// On-disk layouts of the ReFS metadata structures, as documented by the
+// libfsrefs project for ReFS 1.x (Server 2012) and 3.x (Server 2016+).
+
+export const REFS_BOOT_SECTOR_SIZE = 512;
+export const REFS_FILE_SYSTEM_NAME = 'ReFS';
+export const REFS_FSRS_IDENTIFIER = 'FSRS';
+
+/** The primary superblock always lives at cluster (or 1.x metadata block) 0x1E. */
+export const REFS_SUPERBLOCK_BLOCK = 0x1E;
+
+/** ReFS 1.x addresses metadata in fixed 16 KiB blocks regardless of cluster size. */
+export const REFS_V1_METADATA_BLOCK_SIZE = 0x4000;
+
+/** ReFS 3.x metadata pages are 16 KiB, or one cluster when clusters are larger. */
+export const REFS_V3_MIN_PAGE_SIZE = 0x4000;
+
+export const REFS_V1_PAGE_HEADER_SIZE = 0x30;
+export const REFS_V3_PAGE_HEADER_SIZE = 0x50;
+
+export const REFS_SUPERBLOCK_SIGNATURE = 'SUPB';
+export const REFS_CHECKPOINT_SIGNATURE = 'CHKP';
+
+/** Position of each global table's root reference in a 3.x checkpoint. */
+export const REFS_CHECKPOINT_TABLES = {
+  objectId: 0,
+  mediumAllocator: 1,
+  containerAllocator: 2,
+  schema: 3,
+  parentChild: 4,
+  objectIdDuplicate: 5,
+  blockReferenceCount: 6,
+  container: 7,
+  containerDuplicate: 8,
+  schemaDuplicate: 9,
+  containerIndex: 10,
+  integrityState: 11,
+  smallAllocator: 12
+} as const;
+
+/** Object IDs of the metadata objects every ReFS volume creates at format time. */
+export const REFS_OBJECT_IDS = {
+  volumeInformation: 0x500,
+  upcaseTable: 0x520,
+  logFileInformation: 0x530,
+  trashStream: 0x540,
+  rootDirectory: 0x600,
+  securityDescriptors: 0x702
+} as const;
+
+export interface RefsPageHeader {
+  signature: string;
+  volumeSignature: number;
+  virtualAllocationClock: number;
+  treeUpdateClock: number;
+  blockNumbers: number[];
+  tableIdHigh: number;
+  tableIdLow: number;
+  headerSize: number;
+}
+
+export interface RefsPageReference {
+  blockNumbers: number[];
+  checksumType: number;
+  checksumOffset: number;
+  checksumLength: number;
+  checksum: string;
+  size: number;
+}
+
+export interface RefsSuperblockRecord {
+  header: RefsPageHeader;
+  volumeGuid: string;
+  sequenceNumber: number;
+  checkpointReferences: number[];
+  selfReference: RefsPageReference | null;
+}
+
+export interface RefsCheckpointRecord {
+  header: RefsPageHeader;
+  majorVersion: number;
+  minorVersion: number;
+  virtualClock: number;
+  allocatorVirtualClock: number;
+  oldestLogRecord: number;
+  selfDescriptorOffset: number;
+  selfReference: RefsPageReference | null;
+  tableReferenceOffsets: number[];
+}
+
+export function isRefsV3(majorVersion: number): boolean {
+  return majorVersion >= 2;
+}
+
+export function pageHeaderSize(majorVersion: number): number {
+  return isRefsV3(majorVersion) ? REFS_V3_PAGE_HEADER_SIZE : REFS_V1_PAGE_HEADER_SIZE;
+}
+
+export function metadataBlockSize(majorVersion: number, clusterSize: number): number {
+  if (!isRefsV3(majorVersion)) return REFS_V1_METADATA_BLOCK_SIZE;
+  return Math.max(clusterSize, REFS_V3_MIN_PAGE_SIZE);
+}
+
+/** Size in bytes of one metadata block number as stored in page references. */
+export function metadataAddressUnit(majorVersion: number, clusterSize: number): number {
+  return isRefsV3(majorVersion) ? clusterSize : REFS_V1_METADATA_BLOCK_SIZE;
+}
+
+export function decodeBootSector(view: DataView): RefsBootSector | null {
+  if (view.byteLength < REFS_BOOT_SECTOR_SIZE) return null;
+
+  const fileSystemName = readAscii(view, 3, 8).replace(/\0+$/, '');
+  const identifier = readAscii(view, 16, 4);
+  if (fileSystemName !== REFS_FILE_SYSTEM_NAME || identifier !== REFS_FSRS_IDENTIFIER) {
+    return null;
+  }
+
+  const structureSize = view.getUint16(20, true);
+  const checksum = view.getUint16(22, true);
+
+  return {
+    fileSystemName,
+    identifier,
+    structureSize,
+    checksum,
+    checksumValid: bootSectorChecksum(view, structureSize) === checksum,
+    totalSectors: readUint64(view, 24),
+    bytesPerSector: view.getUint32(32, true),
+    sectorsPerCluster: view.getUint32(36, true),
+    majorVersion: view.getUint8(40),
+    minorVersion: view.getUint8(41),
+    volumeSerial: readUint64(view, 56).toString(16).toUpperCase().padStart(16, '0'),
+    containerSize: readUint64(view, 64)
+  };
+}
+
+/**
+ * Rotating 16-bit checksum over the FSRS structure, skipping the checksum
+ * field itself (offset 22).
+ */
+function bootSectorChecksum(view: DataView, structureSize: number): number {
+  const end = Math.min(16 + structureSize, view.byteLength);
+  let checksum = 0;
+
+  for (let offset = 0; offset < end; offset++) {
+    if (offset === 22 || offset === 23) continue;
+    checksum = (((checksum & 1) << 15) | (checksum >>> 1)) + view.getUint8(offset);
+    checksum &= 0xFFFF;
+  }
+
+  return checksum;
+}
+
+export function decodePageHeader(view: DataView, majorVersion: number): RefsPageHeader {
+  if (!isRefsV3(majorVersion)) {
+    // 1.x blocks carry no signature, only their own block number and the owning table
+    return {
+      signature: '',
+      volumeSignature: 0,
+      virtualAllocationClock: readUint64(view, 8),
+      treeUpdateClock: readUint64(view, 8),
+      blockNumbers: [readUint64(view, 0)],
+      tableIdHigh: readUint64(view, 16),
+      tableIdLow: readUint64(view, 24),
+      headerSize: REFS_V1_PAGE_HEADER_SIZE
+    };
+  }
+
+  return {
+    signature: readAscii(view, 0, 4),
+    volumeSignature: view.getUint32(12, true),
+    virtualAllocationClock: readUint64(view, 16),
+    treeUpdateClock: readUint64(view, 24),
+    blockNumbers: [0, 1, 2, 3].map(i => readUint64(view, 32 + i * 8)),
+    tableIdHigh: readUint64(view, 64),
+    tableIdLow: readUint64(view, 72),
+    headerSize: REFS_V3_PAGE_HEADER_SIZE
+  };
+}
+
+/**
+ * Decodes a page reference: the block number(s) of the target page followed
+ * by a descriptor of the checksum that protects it.
+ */
+export function decodePageReference(view: DataView, offset: number, majorVersion: number): RefsPageReference {
+  const blockCount = isRefsV3(majorVersion) ? 4 : 1;
+  const blockNumbers: number[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    blockNumbers.push(readUint64(view, offset + i * 8));
+  }
+
+  const descriptorOffset = offset + blockCount * 8;
+  const checksumType = view.getUint8(descriptorOffset + 2);
+  const checksumOffset = view.getUint8(descriptorOffset + 3);
+  const checksumLength = view.getUint16(descriptorOffset + 4, true);
+
+  const checksumStart = descriptorOffset + checksumOffset;
+  const checksum = checksumLength > 0 && checksumStart + checksumLength <= view.byteLength
+    ? toHex(new Uint8Array(view.buffer, view.byteOffset + checksumStart, checksumLength))
+    : '';
+
+  return {
+    blockNumbers,
+    checksumType,
+    checksumOffset,
+    checksumLength,
+    checksum,
+    size: checksumOffset + checksumLength + blockCount * 8
+  };
+}
+
+export function decodeSuperblock(view: DataView, majorVersion: number): RefsSuperblockRecord {
+  const header = decodePageHeader(view, majorVersion);
+  const base = header.headerSize;
+
+  const checkpointsOffset = view.getUint32(base + 0x20, true);
+  const checkpointCount = view.getUint32(base + 0x24, true);
+  const selfDescriptorOffset = view.getUint32(base + 0x28, true);
+  const selfDescriptorLength = view.getUint32(base + 0x2C, true);
+
+  const checkpointReferences: number[] = [];
+  for (let i = 0; i < checkpointCount && checkpointsOffset + (i + 1) * 8 <= view.byteLength; i++) {
+    checkpointReferences.push(readUint64(view, checkpointsOffset + i * 8));
+  }
+
+  const selfReference = selfDescriptorLength > 0 && selfDescriptorOffset + selfDescriptorLength <= view.byteLength
+    ? decodePageReference(view, selfDescriptorOffset, majorVersion)
+    : null;
+
+  return {
+    header,
+    volumeGuid: readGuid(view, base),
+    sequenceNumber: readUint64(view, base + 0x18),
+    checkpointReferences,
+    selfReference
+  };
+}
+
+export function decodeCheckpoint(view: DataView, majorVersion: number): RefsCheckpointRecord {
+  const header = decodePageHeader(view, majorVersion);
+  const base = header.headerSize;
+
+  const selfDescriptorOffset = view.getUint32(base + 0x08, true);
+  const selfDescriptorLength = view.getUint32(base + 0x0C, true);
+  const referenceCount = view.getUint32(base + 0x40, true);
+
+  const tableReferenceOffsets: number[] = [];
+  for (let i = 0; i < referenceCount && base + 0x44 + (i + 1) * 4 <= view.byteLength; i++) {
+    tableReferenceOffsets.push(view.getUint32(base + 0x44 + i * 4, true));
+  }
+
+  const selfReference = selfDescriptorLength > 0 && selfDescriptorOffset + selfDescriptorLength <= view.byteLength
+    ? decodePageReference(view, selfDescriptorOffset, majorVersion)
+    : null;
+
+  return {
+    header,
+    majorVersion: view.getUint16(base + 0x04, true),
+    minorVersion: view.getUint16(base + 0x06, true),
+    virtualClock: readUint64(view, base + 0x10),
+    allocatorVirtualClock: readUint64(view, base + 0x18),
+    oldestLogRecord: readUint64(view, base + 0x20),
+    selfDescriptorOffset,
+    selfReference,
+    tableReferenceOffsets
+  };
+}
+
+/**
+ * Verifies the checksum a page stores about itself. The checksum is computed
+ * over the whole page with the stored checksum bytes zeroed. Returns null when
+ * the page carries no checksum or uses an unknown algorithm.
+ */
+export function verifySelfChecksum(
+  view: DataView,
+  selfDescriptorOffset: number,
+  reference: RefsPageReference
+): boolean | null {
+  if (!reference.checksum) return null;
+
+  const page = new Uint8Array(view.byteLength);
+  page.set(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+
+  const checksumStart = selfDescriptorOffset + reference.blockNumbers.length * 8 + reference.checksumOffset;
+  page.fill(0, checksumStart, checksumStart + reference.checksumLength);
+
+  const computed = computeChecksum(reference.checksumType, page);
+  return computed === null ? null : computed === reference.checksum;
+}
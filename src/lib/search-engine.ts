@@ -1,4 +1,5 @@
 import { FileSystemItem } from '../types/forensic';
+import { occupiedSize } from './filesystem-driver';
 
 export interface SearchOptions {
   query: string;
@@ -13,6 +14,10 @@ export interface SearchOptions {
   dateTo?: Date;
   includeDeleted: boolean;
   hashSearch?: string;
+  /** Only files with alternate data streams, where payloads are often hidden. */
+  hasAlternateStreams?: boolean;
+  /** Owner SID (or its leading part, e.g. a domain's "S-1-5-21-…") or well-known owner name. */
+  ownerSid?: string;
 }
 
 export interface SearchResult {
@@ -66,6 +71,9 @@ export class ForensicSearchEngine {
       if (item.metadata?.sha1Hash) {
         this.searchIndex.set(item.metadata.sha1Hash.toLowerCase(), [item]);
       }
+      if (item.metadata?.sha256Hash) {
+        this.searchIndex.set(item.metadata.sha256Hash.toLowerCase(), [item]);
+      }
 
       // Recursively index children
       if (item.children) {
@@ -86,7 +94,8 @@ export class ForensicSearchEngine {
         processedItems.add(item.id);
 
         const matches = this.findMatches(item, options);
-        if (matches.length > 0) {
+        // Without search terms every item is a candidate for the filters
+        if (matches.length > 0 || (!options.query && !options.hashSearch)) {
           const score = this.calculateScore(item, matches, options);
           results.push({ item, matches, score });
         }
@@ -173,6 +182,14 @@ export class ForensicSearchEngine {
           endIndex: item.metadata.sha1Hash.length
         });
       }
+      if (item.metadata?.sha256Hash?.toLowerCase().includes(hashQuery)) {
+        matches.push({
+          field: 'hash',
+          value: item.metadata.sha256Hash,
+          startIndex: 0,
+          endIndex: item.metadata.sha256Hash.length
+        });
+      }
     }
 
     return matches;
@@ -239,9 +256,38 @@ export class ForensicSearchEngine {
       return false;
     }
 
+    // Alternate data streams filter
+    if (options.hasAlternateStreams && !this.hasAlternateStreams(item)) {
+      return false;
+    }
+
+    // Owner filter
+    if (options.ownerSid && !this.matchesOwner(item, options.ownerSid)) {
+      return false;
+    }
+
     return true;
   }
 
+  private hasAlternateStreams(item: FileSystemItem): boolean {
+    // ReFS streams are child items (as are snapshots, which are not streams); NTFS ones are listed in the file's metadata
+    return (item.children?.some(child => child.metadata?.streamName !== undefined && !child.metadata.refs?.snapshot) ?? false) ||
+      (item.metadata?.ntfs?.streams.some(stream => stream.name !== '') ?? false);
+  }
+
+  private matchesOwner(item: FileSystemItem, query: string): boolean {
+    const owner = item.metadata?.security?.owner;
+    if (!owner) return false;
+
+    const normalized = query.trim().toUpperCase();
+    // SIDs match on their leading components, so a domain SID finds all its accounts
+    if (normalized.startsWith('S-')) {
+      const sid = owner.sid.toUpperCase();
+      return sid === normalized || sid.startsWith(normalized.endsWith('-') ? normalized : `${normalized}-`);
+    }
+    return owner.name?.toUpperCase().includes(normalized) ?? false;
+  }
+
   private calculateScore(item: FileSystemItem, matches: SearchMatch[], options: SearchOptions): number {
     let score = 0;
 
@@ -290,7 +336,8 @@ export class ForensicSearchEngine {
     
     const collectHashes = (items: FileSystemItem[]) => {
       items.forEach(item => {
-        if (item.type === 'file' && item.metadata?.md5Hash) {
+        // A snapshot version matching its file is the same stream, not a copy of it
+        if (item.type === 'file' && item.metadata?.md5Hash && !item.metadata.refs?.snapshot) {
           const hash = item.metadata.md5Hash;
           if (!hashMap.has(hash)) {
             hashMap.set(hash, []);
@@ -311,12 +358,13 @@ export class ForensicSearchEngine {
       .map(([hash, files]) => ({ hash, files }));
   }
 
+  /** Files occupying at least `minSize` bytes; clusters cloned from another file do not count. */
   findLargeFiles(minSize: number = 100 * 1024 * 1024): FileSystemItem[] {
     const largeFiles: FileSystemItem[] = [];
     
     const collectLargeFiles = (items: FileSystemItem[]) => {
       items.forEach(item => {
-        if (item.type === 'file' && item.size >= minSize) {
+        if (item.type === 'file' && occupiedSize(item) >= minSize) {
           largeFiles.push(item);
         }
         
@@ -327,7 +375,7 @@ export class ForensicSearchEngine {
     };
 
     collectLargeFiles(this.items);
-    return largeFiles.sort((a, b) => b.size - a.size);
+    return largeFiles.sort((a, b) => occupiedSize(b) - occupiedSize(a));
   }
 
   findRecentlyModified(days: number = 7): FileSystemItem[] {
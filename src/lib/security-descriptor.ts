@@ -0,0 +1,297 @@
+import type { AccessControlEntry, SecurityDescriptorInfo, SecurityPrincipal } from '../types/forensic';
+
+// Windows security descriptors in their self-relative form (MS-DTYP 2.4.6),
+// as NTFS and ReFS store them: a header of offsets to the owner and group
+// SIDs and to the system (audit) and discretionary (access) ACLs, all within
+// the same buffer. Well-known SIDs are named from the table below, so no
+// domain or registry is needed to read them.
+
+const SECURITY_DESCRIPTOR_REVISION = 1;
+const SECURITY_DESCRIPTOR_HEADER_SIZE = 0x14;
+const ACL_HEADER_SIZE = 0x08;
+const ACE_HEADER_SIZE = 0x04;
+
+export const SE_DACL_PRESENT = 0x0004;
+export const SE_SACL_PRESENT = 0x0010;
+export const SE_DACL_PROTECTED = 0x1000;
+export const SE_SACL_PROTECTED = 0x2000;
+export const SE_SELF_RELATIVE = 0x8000;
+
+const ACE_TYPES: Record<number, string> = {
+  0x00: 'Allow',
+  0x01: 'Deny',
+  0x02: 'Audit',
+  0x03: 'Alarm',
+  0x05: 'Allow (object)',
+  0x06: 'Deny (object)',
+  0x07: 'Audit (object)',
+  0x08: 'Alarm (object)',
+  0x09: 'Allow (callback)',
+  0x0A: 'Deny (callback)',
+  0x0D: 'Audit (callback)',
+  0x11: 'Mandatory label',
+  0x12: 'Resource attribute',
+  0x13: 'Scoped policy'
+};
+
+/** Object ACEs carry up to two GUIDs between their flags and their SID. */
+const OBJECT_ACE_TYPES = new Set([0x05, 0x06, 0x07, 0x08, 0x0B, 0x0C, 0x0F, 0x10]);
+const ACE_OBJECT_TYPE_PRESENT = 0x1;
+const ACE_INHERITED_OBJECT_TYPE_PRESENT = 0x2;
+
+/** ACE flags in icacls notation. */
+const ACE_FLAG_NAMES: Array<[number, string]> = [
+  [0x01, 'OI'],
+  [0x02, 'CI'],
+  [0x04, 'NP'],
+  [0x08, 'IO'],
+  [0x10, 'I'],
+  [0x40, 'SA'],
+  [0x80, 'FA']
+];
+
+export const ACE_FLAG_INHERITED = 0x10;
+
+/** The combined rights Explorer and icacls name, most inclusive first. */
+const ACCESS_MASK_NAMES: Array<[number, string]> = [
+  [0x001F01FF, 'Full control'],
+  [0x001301BF, 'Modify'],
+  [0x001200A9, 'Read & execute'],
+  [0x00120089, 'Read'],
+  [0x00100116, 'Write']
+];
+
+const ACCESS_RIGHT_NAMES: Array<[number, string]> = [
+  [0x10000000, 'Generic all'],
+  [0x20000000, 'Generic execute'],
+  [0x40000000, 'Generic write'],
+  [0x80000000, 'Generic read'],
+  [0x00010000, 'Delete'],
+  [0x00020000, 'Read permissions'],
+  [0x00040000, 'Change permissions'],
+  [0x00080000, 'Take ownership'],
+  [0x00100000, 'Synchronize'],
+  [0x01000000, 'System security'],
+  [0x00000001, 'Read data'],
+  [0x00000002, 'Write data'],
+  [0x00000004, 'Append data'],
+  [0x00000008, 'Read EA'],
+  [0x00000010, 'Write EA'],
+  [0x00000020, 'Execute'],
+  [0x00000040, 'Delete child'],
+  [0x00000080, 'Read attributes'],
+  [0x00000100, 'Write attributes']
+];
+
+const WELL_KNOWN_SIDS: Record<string, string> = {
+  'S-1-0-0': 'Nobody',
+  'S-1-1-0': 'Everyone',
+  'S-1-2-0': 'LOCAL',
+  'S-1-2-1': 'CONSOLE LOGON',
+  'S-1-3-0': 'CREATOR OWNER',
+  'S-1-3-1': 'CREATOR GROUP',
+  'S-1-3-4': 'OWNER RIGHTS',
+  'S-1-5-1': 'NT AUTHORITY\\DIALUP',
+  'S-1-5-2': 'NT AUTHORITY\\NETWORK',
+  'S-1-5-3': 'NT AUTHORITY\\BATCH',
+  'S-1-5-4': 'NT AUTHORITY\\INTERACTIVE',
+  'S-1-5-6': 'NT AUTHORITY\\SERVICE',
+  'S-1-5-7': 'NT AUTHORITY\\ANONYMOUS LOGON',
+  'S-1-5-9': 'NT AUTHORITY\\ENTERPRISE DOMAIN CONTROLLERS',
+  'S-1-5-10': 'NT AUTHORITY\\SELF',
+  'S-1-5-11': 'NT AUTHORITY\\Authenticated Users',
+  'S-1-5-12': 'NT AUTHORITY\\RESTRICTED',
+  'S-1-5-13': 'NT AUTHORITY\\TERMINAL SERVER USER',
+  'S-1-5-14': 'NT AUTHORITY\\REMOTE INTERACTIVE LOGON',
+  'S-1-5-15': 'NT AUTHORITY\\This Organization',
+  'S-1-5-17': 'NT AUTHORITY\\IUSR',
+  'S-1-5-18': 'NT AUTHORITY\\SYSTEM',
+  'S-1-5-19': 'NT AUTHORITY\\LOCAL SERVICE',
+  'S-1-5-20': 'NT AUTHORITY\\NETWORK SERVICE',
+  'S-1-5-32-544': 'BUILTIN\\Administrators',
+  'S-1-5-32-545': 'BUILTIN\\Users',
+  'S-1-5-32-546': 'BUILTIN\\Guests',
+  'S-1-5-32-547': 'BUILTIN\\Power Users',
+  'S-1-5-32-548': 'BUILTIN\\Account Operators',
+  'S-1-5-32-549': 'BUILTIN\\Server Operators',
+  'S-1-5-32-550': 'BUILTIN\\Print Operators',
+  'S-1-5-32-551': 'BUILTIN\\Backup Operators',
+  'S-1-5-32-552': 'BUILTIN\\Replicator',
+  'S-1-5-32-555': 'BUILTIN\\Remote Desktop Users',
+  'S-1-5-32-568': 'BUILTIN\\IIS_IUSRS',
+  'S-1-5-32-578': 'BUILTIN\\Hyper-V Administrators',
+  'S-1-5-80-0': 'NT SERVICE\\ALL SERVICES',
+  'S-1-5-80-956008885-3418522649-1831038044-1853292631-2271478464': 'NT SERVICE\\TrustedInstaller',
+  'S-1-5-83-0': 'NT VIRTUAL MACHINE\\Virtual Machines',
+  'S-1-15-2-1': 'APPLICATION PACKAGE AUTHORITY\\ALL APPLICATION PACKAGES',
+  'S-1-15-2-2': 'APPLICATION PACKAGE AUTHORITY\\ALL RESTRICTED APPLICATION PACKAGES',
+  'S-1-16-0': 'Mandatory Label\\Untrusted Mandatory Level',
+  'S-1-16-4096': 'Mandatory Label\\Low Mandatory Level',
+  'S-1-16-8192': 'Mandatory Label\\Medium Mandatory Level',
+  'S-1-16-8448': 'Mandatory Label\\Medium Plus Mandatory Level',
+  'S-1-16-12288': 'Mandatory Label\\High Mandatory Level',
+  'S-1-16-16384': 'Mandatory Label\\System Mandatory Level'
+};
+
+/** Well-known accounts of every domain and machine (S-1-5-21-…), by relative ID. */
+const WELL_KNOWN_RIDS: Record<number, string> = {
+  500: 'Administrator',
+  501: 'Guest',
+  502: 'krbtgt',
+  503: 'DefaultAccount',
+  504: 'WDAGUtilityAccount',
+  512: 'Domain Admins',
+  513: 'Domain Users',
+  514: 'Domain Guests',
+  515: 'Domain Computers',
+  516: 'Domain Controllers',
+  517: 'Cert Publishers',
+  518: 'Schema Admins',
+  519: 'Enterprise Admins',
+  520: 'Group Policy Creator Owners'
+};
+
+/** Name of a well-known SID, or undefined for accounts only their domain can name. */
+export function wellKnownSidName(sid: string): string | undefined {
+  if (WELL_KNOWN_SIDS[sid]) return WELL_KNOWN_SIDS[sid];
+
+  // S-1-5-21-<machine or domain>-<RID>
+  const parts = sid.split('-');
+  if (parts.length === 8 && parts[2] === '5' && parts[3] === '21') {
+    return WELL_KNOWN_RIDS[Number(parts[7])];
+  }
+  // Per-service SIDs (S-1-5-80-…) name a service, but only a hash of it
+  return undefined;
+}
+
+/** "NAME (SID)" for well-known SIDs, the SID alone otherwise. */
+export function formatPrincipal(principal: SecurityPrincipal): string {
+  return principal.name ? `${principal.name} (${principal.sid})` : principal.sid;
+}
+
+/** Reads a SID into its S-R-I-S… string form; throws when it overruns the view. */
+export function readSid(view: DataView, offset: number): { sid: string; size: number } {
+  if (offset + 8 > view.byteLength) {
+    throw new Error(`SID at 0x${offset.toString(16)} is truncated`);
+  }
+  const revision = view.getUint8(offset);
+  const subAuthorityCount = view.getUint8(offset + 1);
+  const size = 8 + subAuthorityCount * 4;
+  if (offset + size > view.byteLength) {
+    throw new Error(`SID at 0x${offset.toString(16)} overruns its buffer`);
+  }
+
+  // The identifier authority is a 48-bit big-endian value
+  const authority = view.getUint16(offset + 2) * 0x100000000 + view.getUint32(offset + 4);
+  const parts = [`S-${revision}`, authority.toString()];
+  for (let index = 0; index < subAuthorityCount; index++) {
+    parts.push(view.getUint32(offset + 8 + index * 4, true).toString());
+  }
+  return { sid: parts.join('-'), size };
+}
+
+function readPrincipal(view: DataView, offset: number): SecurityPrincipal {
+  const { sid } = readSid(view, offset);
+  const name = wellKnownSidName(sid);
+  return name ? { sid, name } : { sid };
+}
+
+/**
+ * Decodes a self-relative security descriptor. Throws when it is not one, or
+ * its offsets point outside the buffer.
+ */
+export function decodeSecurityDescriptor(view: DataView): SecurityDescriptorInfo {
+  if (view.byteLength < SECURITY_DESCRIPTOR_HEADER_SIZE) {
+    throw new Error(`security descriptor is truncated (${view.byteLength} bytes)`);
+  }
+  const revision = view.getUint8(0x00);
+  const control = view.getUint16(0x02, true);
+  if (revision !== SECURITY_DESCRIPTOR_REVISION || (control & SE_SELF_RELATIVE) === 0) {
+    throw new Error(`not a self-relative security descriptor (revision ${revision}, control 0x${control.toString(16)})`);
+  }
+
+  const ownerOffset = view.getUint32(0x04, true);
+  const groupOffset = view.getUint32(0x08, true);
+  const saclOffset = view.getUint32(0x0C, true);
+  const daclOffset = view.getUint32(0x10, true);
+
+  const descriptor: SecurityDescriptorInfo = { control };
+  if (ownerOffset) descriptor.owner = readPrincipal(view, ownerOffset);
+  if (groupOffset) descriptor.group = readPrincipal(view, groupOffset);
+  // A present ACL at offset 0 is a NULL ACL: no restrictions, same as no ACL
+  if ((control & SE_SACL_PRESENT) && saclOffset) descriptor.sacl = decodeAcl(view, saclOffset);
+  if ((control & SE_DACL_PRESENT) && daclOffset) descriptor.dacl = decodeAcl(view, daclOffset);
+  return descriptor;
+}
+
+function decodeAcl(view: DataView, offset: number): AccessControlEntry[] {
+  if (offset + ACL_HEADER_SIZE > view.byteLength) {
+    throw new Error(`ACL at 0x${offset.toString(16)} is truncated`);
+  }
+  const aclSize = view.getUint16(offset + 2, true);
+  const aceCount = view.getUint16(offset + 4, true);
+  const end = Math.min(offset + aclSize, view.byteLength);
+
+  const entries: AccessControlEntry[] = [];
+  let position = offset + ACL_HEADER_SIZE;
+  for (let index = 0; index < aceCount && position + ACE_HEADER_SIZE <= end; index++) {
+    const aceType = view.getUint8(position);
+    const flags = view.getUint8(position + 1);
+    const aceSize = view.getUint16(position + 2, true);
+    if (aceSize < ACE_HEADER_SIZE || position + aceSize > end) {
+      throw new Error(`ACE ${index} of the ACL at 0x${offset.toString(16)} has an invalid size (${aceSize})`);
+    }
+
+    const ace = new DataView(view.buffer, view.byteOffset + position, aceSize);
+    entries.push({
+      type: ACE_TYPES[aceType] ?? `Type 0x${aceType.toString(16)}`,
+      flags,
+      mask: aceSize >= 8 ? ace.getUint32(4, true) : 0,
+      trustee: readAceTrustee(ace, aceType)
+    });
+    position += aceSize;
+  }
+  return entries;
+}
+
+/** The SID an ACE applies to; undefined when the ACE is too short to hold one. */
+function readAceTrustee(ace: DataView, aceType: number): SecurityPrincipal | undefined {
+  let sidOffset = 8;
+  if (OBJECT_ACE_TYPES.has(aceType)) {
+    if (ace.byteLength < 12) return undefined;
+    const objectFlags = ace.getUint32(8, true);
+    sidOffset = 12;
+    if (objectFlags & ACE_OBJECT_TYPE_PRESENT) sidOffset += 16;
+    if (objectFlags & ACE_INHERITED_OBJECT_TYPE_PRESENT) sidOffset += 16;
+  }
+  try {
+    return readPrincipal(ace, sidOffset);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The rights an access mask grants, by their combined name where one fits exactly. */
+export function describeAccessMask(mask: number): string {
+  const named = ACCESS_MASK_NAMES.find(([rights]) => mask === rights);
+  if (named) return named[1];
+
+  const names = ACCESS_RIGHT_NAMES.filter(([right]) => (mask & right) !== 0).map(([, name]) => name);
+  return names.length > 0 ? names.join(', ') : `0x${mask.toString(16).padStart(8, '0')}`;
+}
+
+/** ACE flags as icacls prints them, e.g. "(OI)(CI)(I)". */
+export function describeAceFlags(flags: number): string {
+  return ACE_FLAG_NAMES.filter(([flag]) => (flags & flag) !== 0).map(([, name]) => `(${name})`).join('');
+}
+
+/** One-line summary of who may do what, for the Permissions row. */
+export function summarizeDescriptor(descriptor: SecurityDescriptorInfo): string {
+  if (!descriptor.dacl) return 'No DACL (everyone has full access)';
+
+  const inherited = descriptor.dacl.filter(entry => (entry.flags & ACE_FLAG_INHERITED) !== 0).length;
+  const parts = [`${descriptor.dacl.length} ACE${descriptor.dacl.length === 1 ? '' : 's'}`];
+  if (inherited > 0) parts.push(`${inherited} inherited`);
+  if (descriptor.control & SE_DACL_PROTECTED) parts.push('inheritance disabled');
+  return parts.join(', ');
+}
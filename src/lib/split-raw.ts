@@ -0,0 +1,127 @@
+import { BlobBlockDevice, ConcatBlockDevice } from './block-device';
+import type { ValidationFinding } from './validation-report';
+
+// Raw (dd) images split into equal segments by the acquisition tool:
+// numbered extensions (image.001, image.002 … from FTK Imager or dcfldd)
+// or letter suffixes (image.aa, image.ab … from split(1)). The segments
+// carry no header, so the file names are all there is to order them by.
+
+interface SegmentName {
+  base: string;
+  scheme: 'numeric' | 'alphabetic';
+  /** Position in the naming sequence; numbering may start at 0 or 1. */
+  index: number;
+  /** Digits or letters in the suffix, which every segment of a set shares. */
+  width: number;
+}
+
+interface SplitRawSegment {
+  file: Blob;
+  name: string;
+  segment: SegmentName;
+}
+
+export interface SplitRawImage {
+  /** Name of the first segment, which names the set. */
+  fileName: string;
+  device: ConcatBlockDevice;
+  findings: ValidationFinding[];
+}
+
+/**
+ * Letter suffixes are exactly two lowercase letters, split(1)'s default:
+ * longer or capitalised ones are far more often ordinary extensions (.raw,
+ * .img, .E01) than segments.
+ */
+function parseSegmentName(name: string): SegmentName | null {
+  const match = name.match(/^(.+)\.(\d{2,}|[a-z]{2})$/);
+  if (!match) return null;
+
+  const suffix = match[2];
+  if (/^\d+$/.test(suffix)) {
+    return { base: match[1].toLowerCase(), scheme: 'numeric', index: Number(suffix), width: suffix.length };
+  }
+  const index = Array.from(suffix.toLowerCase())
+    .reduce((value, letter) => value * 26 + letter.charCodeAt(0) - 97, 0);
+  return { base: match[1].toLowerCase(), scheme: 'alphabetic', index, width: suffix.length };
+}
+
+function formatSuffix(segment: SegmentName, index: number): string {
+  if (segment.scheme === 'numeric') return String(index).padStart(segment.width, '0');
+  let suffix = '';
+  for (let i = 0; i < segment.width; i++) {
+    suffix = String.fromCharCode(97 + (index % 26)) + suffix;
+    index = Math.floor(index / 26);
+  }
+  return suffix;
+}
+
+/** True for names like image.001, image.000 or image.aa, which usually have further segments. */
+export function isFirstSplitSegment(name: string): boolean {
+  const segment = parseSegmentName(name);
+  return segment !== null && segment.index <= (segment.scheme === 'numeric' ? 1 : 0);
+}
+
+/**
+ * Opens the segments of a split raw image as one device. The files may be
+ * given in any order; a gap in the sequence or a segment shorter than the
+ * others (other than the last) is an error, since every later offset would
+ * shift.
+ */
+export function openSplitRaw(files: Blob[]): SplitRawImage {
+  const segments: SplitRawSegment[] = files.map(file => {
+    const name = file instanceof File ? file.name : 'image';
+    const segment = parseSegmentName(name);
+    if (!segment) {
+      throw new Error(`${name} is not named like a segment of a split raw image (image.001, image.aa)`);
+    }
+    return { file, name, segment };
+  });
+
+  const first = segments[0].segment;
+  for (const { name, segment } of segments) {
+    if (segment.base !== first.base || segment.scheme !== first.scheme || segment.width !== first.width) {
+      throw new Error(`${name} does not belong to the same split raw image as ${segments[0].name}`);
+    }
+  }
+
+  segments.sort((a, b) => a.segment.index - b.segment.index);
+  const startIndex = segments[0].segment.index;
+  if (startIndex > (first.scheme === 'numeric' ? 1 : 0)) {
+    const missing = first.scheme === 'numeric' ? 1 : 0;
+    throw new Error(`segment .${formatSuffix(first, missing)} of the split raw image is missing`);
+  }
+  segments.forEach(({ name, segment }, i) => {
+    if (segment.index === startIndex + i) return;
+    if (segment.index < startIndex + i) {
+      throw new Error(`${name} was selected twice`);
+    }
+    throw new Error(`segment .${formatSuffix(first, startIndex + i)} of the split raw image is missing`);
+  });
+
+  const segmentSize = segments[0].file.size;
+  segments.forEach(({ file, name }, i) => {
+    const isLast = i === segments.length - 1;
+    if (file.size === segmentSize || (isLast && file.size < segmentSize)) return;
+    throw new Error(
+      `${name} is ${file.size} bytes where the other segments are ${segmentSize} bytes; it is truncated or belongs to another image`
+    );
+  });
+
+  const findings: ValidationFinding[] = [];
+  const last = segments[segments.length - 1];
+  if (segments.length > 1 && last.file.size === segmentSize) {
+    findings.push({
+      check: 'Split raw image',
+      severity: 'warning',
+      offset: null,
+      message: `the last segment (${last.name}) is full-size; any segments after it were not selected`
+    });
+  }
+
+  return {
+    fileName: segments[0].name,
+    device: new ConcatBlockDevice(segments.map(({ file }) => new BlobBlockDevice(file))),
+    findings
+  };
+}
@@ -0,0 +1,48 @@
+// Structured results of the checks an image goes through before (and while)
+// it is parsed. In forensic mode a failed check stops the analysis with an
+// ImageValidationError instead of letting the parser substitute data.
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationFinding {
+  /** Short name of the check, e.g. "Boot sector signature". */
+  check: string;
+  severity: ValidationSeverity;
+  /** Byte offset in the image the check looked at, when it concerns one location. */
+  offset: number | null;
+  message: string;
+}
+
+export interface ValidationReport {
+  source: string;
+  passed: boolean;
+  findings: ValidationFinding[];
+}
+
+export class ImageValidationError extends Error {
+  report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    const firstError = report.findings.find(finding => finding.severity === 'error');
+    super(firstError ? `${firstError.check}: ${firstError.message}` : `${report.source} failed validation`);
+    this.name = 'ImageValidationError';
+    this.report = report;
+  }
+}
+
+export function createValidationReport(source: string, findings: ValidationFinding[]): ValidationReport {
+  return {
+    source,
+    passed: findings.every(finding => finding.severity !== 'error'),
+    findings
+  };
+}
+
+export function formatValidationReport(report: ValidationReport): string {
+  const lines = [`${report.source}: ${report.passed ? 'passed' : 'FAILED'} validation`];
+  for (const finding of report.findings) {
+    const offset = finding.offset !== null ? ` @ 0x${finding.offset.toString(16).toUpperCase()}` : '';
+    lines.push(`[${finding.severity.toUpperCase()}] ${finding.check}${offset}: ${finding.message}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,231 @@
+import { readAscii, toHex } from './byte-reader';
+import { BlobBlockDevice, toDeviceOffset } from './block-device';
+import type { BlockDevice } from './block-device';
+import type { ValidationFinding } from './validation-report';
+import { readBitmapRuns } from './virtual-disk';
+import type { ParentReference, VirtualDisk } from './virtual-disk';
+
+// Virtual PC / Hyper-V VHD images. Every VHD ends with a 512-byte footer
+// (big-endian, like the whole format). A fixed disk is the raw data followed
+// by the footer; dynamic and differencing disks start with a copy of the
+// footer and a dynamic header that points at the block allocation table.
+// Each allocated block is a sector bitmap followed by the block's data.
+
+const FOOTER_COOKIE = 'conectix';
+const DYNAMIC_COOKIE = 'cxsparse';
+const FOOTER_SIZE = 512;
+const DYNAMIC_HEADER_SIZE = 1024;
+const SECTOR_SIZE = 512;
+const BAT_ENTRY_UNUSED = 0xFFFFFFFF;
+
+const DISK_TYPE_FIXED = 2;
+const DISK_TYPE_DYNAMIC = 3;
+const DISK_TYPE_DIFFERENCING = 4;
+
+const DISK_TYPE_NAMES: Record<number, string> = {
+  [DISK_TYPE_FIXED]: 'fixed',
+  [DISK_TYPE_DYNAMIC]: 'dynamic',
+  [DISK_TYPE_DIFFERENCING]: 'differencing'
+};
+
+/** Parent locator platform codes holding UTF-16LE Windows paths ('W2ku' absolute, 'W2ru' relative). */
+const LOCATOR_ABSOLUTE = 0x57326B75;
+const LOCATOR_RELATIVE = 0x57327275;
+
+/** Returns true when the blob ends with a VHD footer. */
+export async function isVhdFile(blob: Blob): Promise<boolean> {
+  if (blob.size < FOOTER_SIZE) return false;
+  const bytes = new Uint8Array(await blob.slice(blob.size - FOOTER_SIZE, blob.size - FOOTER_SIZE + 8).arrayBuffer());
+  return new TextDecoder('ascii').decode(bytes) === FOOTER_COOKIE;
+}
+
+/** The VHD checksum: one's complement of the byte sum, skipping the checksum field. */
+function vhdChecksum(bytes: Uint8Array, checksumOffset: number): number {
+  let sum = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (i >= checksumOffset && i < checksumOffset + 4) continue;
+    sum = (sum + bytes[i]) >>> 0;
+  }
+  return ~sum >>> 0;
+}
+
+function readUint64BE(view: DataView, offset: number): number {
+  return Number(view.getBigUint64(offset));
+}
+
+export class VhdImage implements VirtualDisk {
+  readonly format = 'VHD';
+  readonly fileName: string;
+  readonly size: number;
+  readonly identity: string;
+  readonly diskType: number;
+  readonly findings: ValidationFinding[] = [];
+  parentReference: ParentReference | null = null;
+  private file: BlockDevice;
+  private blockSize = 0;
+  private bitmapSize = 0;
+  private bat: Uint32Array = new Uint32Array(0);
+  private parent: BlockDevice | null = null;
+
+  private constructor(file: BlockDevice, fileName: string, footer: DataView) {
+    this.file = file;
+    this.fileName = fileName;
+    this.size = readUint64BE(footer, 48);
+    this.diskType = footer.getUint32(60);
+    this.identity = toHex(new Uint8Array(footer.buffer, footer.byteOffset + 68, 16));
+  }
+
+  static async open(blob: Blob): Promise<VhdImage> {
+    const fileName = blob instanceof File ? blob.name : 'disk.vhd';
+    const file = new BlobBlockDevice(blob);
+    const footerBytes = await file.read(file.size - FOOTER_SIZE, FOOTER_SIZE);
+    const footer = new DataView(footerBytes.buffer, footerBytes.byteOffset, FOOTER_SIZE);
+    if (readAscii(footer, 0, 8) !== FOOTER_COOKIE) {
+      throw new Error(`${fileName} has no VHD footer`);
+    }
+
+    const image = new VhdImage(file, fileName, footer);
+    if (vhdChecksum(footerBytes, 64) !== footer.getUint32(64)) {
+      image.findings.push({
+        check: 'VHD footer',
+        severity: 'warning',
+        offset: file.size - FOOTER_SIZE,
+        message: 'footer checksum does not match'
+      });
+    }
+
+    if (!(image.diskType in DISK_TYPE_NAMES)) {
+      throw new Error(`${fileName} has unknown VHD disk type ${image.diskType}`);
+    }
+    if (image.diskType === DISK_TYPE_FIXED) {
+      if (file.size - FOOTER_SIZE < image.size) {
+        throw new Error(`${fileName} is truncated: the fixed disk holds ${file.size - FOOTER_SIZE} of ${image.size} bytes`);
+      }
+    } else {
+      await image.readDynamicHeader(readUint64BE(footer, 16));
+    }
+    return image;
+  }
+
+  /** 'fixed', 'dynamic' or 'differencing'. */
+  get diskTypeName(): string {
+    return DISK_TYPE_NAMES[this.diskType];
+  }
+
+  attachParent(parent: BlockDevice): void {
+    if (parent.size < this.size) {
+      throw new Error(`the parent of ${this.fileName} is smaller (${parent.size} bytes) than the disk (${this.size} bytes)`);
+    }
+    this.parent = parent;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    if (this.diskType === DISK_TYPE_FIXED) {
+      return this.file.read(start, length);
+    }
+
+    const result = new Uint8Array(length);
+    const end = start + length;
+    let position = start;
+    while (position < end) {
+      const block = Math.floor(position / this.blockSize);
+      const blockStart = block * this.blockSize;
+      const runEnd = Math.min(end, blockStart + this.blockSize);
+      await this.readBlock(block, position - blockStart, runEnd - blockStart, result, position - start);
+      position = runEnd;
+    }
+    return result;
+  }
+
+  private async readDynamicHeader(offset: number): Promise<void> {
+    const bytes = await this.file.read(offset, DYNAMIC_HEADER_SIZE);
+    const header = new DataView(bytes.buffer, bytes.byteOffset, DYNAMIC_HEADER_SIZE);
+    if (readAscii(header, 0, 8) !== DYNAMIC_COOKIE) {
+      throw new Error(`${this.fileName} has no dynamic disk header at 0x${offset.toString(16)}`);
+    }
+    if (vhdChecksum(bytes, 36) !== header.getUint32(36)) {
+      this.findings.push({ check: 'VHD dynamic header', severity: 'warning', offset, message: 'header checksum does not match' });
+    }
+
+    const tableOffset = readUint64BE(header, 16);
+    const entryCount = header.getUint32(28);
+    this.blockSize = header.getUint32(32);
+    if (this.blockSize === 0 || this.blockSize % SECTOR_SIZE !== 0) {
+      throw new Error(`${this.fileName} has an invalid block size of ${this.blockSize} bytes`);
+    }
+    // One bit per sector, padded to whole sectors
+    this.bitmapSize = Math.ceil(this.blockSize / SECTOR_SIZE / 8 / SECTOR_SIZE) * SECTOR_SIZE;
+
+    const table = await this.file.read(tableOffset, entryCount * 4);
+    const view = new DataView(table.buffer, table.byteOffset, table.byteLength);
+    this.bat = new Uint32Array(entryCount);
+    for (let i = 0; i < entryCount; i++) {
+      this.bat[i] = view.getUint32(i * 4);
+    }
+
+    if (this.diskType === DISK_TYPE_DIFFERENCING) {
+      this.parentReference = {
+        identity: toHex(new Uint8Array(bytes.buffer, bytes.byteOffset + 40, 16)),
+        paths: await this.readParentPaths(header)
+      };
+    }
+  }
+
+  private async readParentPaths(header: DataView): Promise<string[]> {
+    const paths: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      const entry = 576 + i * 24;
+      const code = header.getUint32(entry);
+      const length = header.getUint32(entry + 8);
+      const offset = readUint64BE(header, entry + 16);
+      if ((code !== LOCATOR_ABSOLUTE && code !== LOCATOR_RELATIVE) || length === 0) continue;
+
+      const data = await this.file.read(offset, length).catch(() => null);
+      if (data) paths.push(new TextDecoder('utf-16le').decode(data).replace(/\0+$/, ''));
+    }
+
+    // The parent's bare file name, stored big-endian, is the last resort
+    const name = new TextDecoder('utf-16be')
+      .decode(new Uint8Array(header.buffer, header.byteOffset + 64, 512))
+      .replace(/\0.*$/s, '');
+    if (name) paths.push(name);
+    return paths;
+  }
+
+  /** Reads [start, end) of a block (offsets relative to the block) into `into` at `at`. */
+  private async readBlock(block: number, start: number, end: number, into: Uint8Array, at: number): Promise<void> {
+    const blockStart = block * this.blockSize;
+    const entry = block < this.bat.length ? this.bat[block] : BAT_ENTRY_UNUSED;
+
+    if (entry === BAT_ENTRY_UNUSED) {
+      // Never written: the parent's data, or zeroes for a dynamic disk
+      if (this.parent) into.set(await this.parent.read(blockStart + start, end - start), at);
+      return;
+    }
+
+    const dataStart = entry * SECTOR_SIZE + this.bitmapSize;
+    if (!this.parent) {
+      into.set(await this.file.read(dataStart + start, end - start), at);
+      return;
+    }
+
+    // Sectors whose bit is clear were never written to the child (most significant bit first)
+    const firstSector = Math.floor(start / SECTOR_SIZE);
+    const lastSector = Math.floor((end - 1) / SECTOR_SIZE);
+    const bitmapStart = Math.floor(firstSector / 8);
+    const bitmap = await this.file.read(entry * SECTOR_SIZE + bitmapStart, Math.floor(lastSector / 8) - bitmapStart + 1);
+    const parent = this.parent;
+
+    await readBitmapRuns(
+      start,
+      end,
+      SECTOR_SIZE,
+      sector => (bitmap[(sector >> 3) - bitmapStart] & (0x80 >> (sector & 7))) !== 0,
+      (offset, length) => this.file.read(dataStart + offset, length),
+      (offset, length) => parent.read(blockStart + offset, length),
+      into,
+      at
+    );
+  }
+}
@@ -0,0 +1,436 @@
+import { readAscii, readGuid, readUint64, readUtf16 } from './byte-reader';
+import { BlobBlockDevice, toDeviceOffset } from './block-device';
+import type { BlockDevice } from './block-device';
+import { crc32c } from './checksum';
+import type { ValidationFinding } from './validation-report';
+import { readBitmapRuns } from './virtual-disk';
+import type { ParentReference, VirtualDisk } from './virtual-disk';
+
+// Hyper-V VHDX images. The first megabyte holds the file identifier, two
+// headers (the one with the higher sequence number wins) and two copies of
+// the region table, which locates the block allocation table (BAT) and the
+// metadata region. Metadata updates go through a write-ahead log; a file
+// closed uncleanly must have its log replayed before the BAT and metadata
+// can be trusted. Replay happens in memory here: evidence is never written.
+
+const FILE_SIGNATURE = 'vhdxfile';
+const HEADER_OFFSETS = [64 * 1024, 128 * 1024];
+const HEADER_SIZE = 4096;
+const REGION_TABLE_OFFSETS = [192 * 1024, 256 * 1024];
+const REGION_TABLE_SIZE = 64 * 1024;
+const MB = 1024 * 1024;
+const LOG_SECTOR_SIZE = 4096;
+const LOG_ENTRY_HEADER_SIZE = 64;
+const LOG_DESCRIPTOR_SIZE = 32;
+const NULL_GUID = '00000000-0000-0000-0000-000000000000';
+
+const REGION_BAT = '2dc27766-f623-4200-9d64-115e9bfd4a08';
+const REGION_METADATA = '8b7ca206-4790-4b9a-b8fe-575f050f886e';
+
+const METADATA_FILE_PARAMETERS = 'caa16737-fa36-4d43-b3b6-33f0aa44e76b';
+const METADATA_VIRTUAL_DISK_SIZE = '2fa54224-cd1b-4876-b211-5dbed83bf4b8';
+const METADATA_LOGICAL_SECTOR_SIZE = '8141bf1d-a96f-4709-ba47-f233a8faab5f';
+const METADATA_PARENT_LOCATOR = 'a8d35f2d-b30b-454d-abf7-d3d84834ab0c';
+
+const FILE_PARAMETER_HAS_PARENT = 0x2;
+
+const PAYLOAD_BLOCK_NOT_PRESENT = 0;
+const PAYLOAD_BLOCK_FULLY_PRESENT = 6;
+const PAYLOAD_BLOCK_PARTIALLY_PRESENT = 7;
+
+interface VhdxHeader {
+  offset: number;
+  sequenceNumber: bigint;
+  dataWriteGuid: string;
+  logGuid: string;
+  logLength: number;
+  logOffset: number;
+}
+
+interface LogEntry {
+  /** Offset of the entry within the log. */
+  offset: number;
+  bytes: Uint8Array;
+  sequenceNumber: bigint;
+  tail: number;
+}
+
+/** A range of the file as it reads after log replay; null data stands for zeroes. */
+interface LogWrite {
+  offset: number;
+  length: number;
+  data: Uint8Array | null;
+}
+
+/** Returns true when the blob starts with the VHDX file identifier. */
+export async function isVhdxFile(blob: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await blob.slice(0, 8).arrayBuffer());
+  return new TextDecoder('ascii').decode(bytes) === FILE_SIGNATURE;
+}
+
+function toView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/** CRC-32C of a structure with its own checksum field (at `checksumOffset`) taken as zero. */
+function structureChecksum(bytes: Uint8Array, checksumOffset: number): number {
+  const copy = bytes.slice();
+  copy.fill(0, checksumOffset, checksumOffset + 4);
+  return crc32c(copy);
+}
+
+function normalizeGuid(value: string): string {
+  return value.replace(/[{}]/g, '').toLowerCase();
+}
+
+export class VhdxImage implements VirtualDisk {
+  readonly format = 'VHDX';
+  readonly fileName: string;
+  readonly findings: ValidationFinding[] = [];
+  size = 0;
+  identity = '';
+  parentReference: ParentReference | null = null;
+  /** Whether the log held entries that had to be replayed. */
+  logReplayed = false;
+  private file: BlockDevice;
+  private writes: LogWrite[] = [];
+  private blockSize = 0;
+  private logicalSectorSize = 512;
+  private chunkRatio = 0;
+  private bat: DataView = new DataView(new ArrayBuffer(0));
+  private parent: BlockDevice | null = null;
+
+  private constructor(file: BlockDevice, fileName: string) {
+    this.file = file;
+    this.fileName = fileName;
+  }
+
+  static async open(blob: Blob): Promise<VhdxImage> {
+    const fileName = blob instanceof File ? blob.name : 'disk.vhdx';
+    const file = new BlobBlockDevice(blob);
+    const image = new VhdxImage(file, fileName);
+
+    const identifier = toView(await file.read(0, 8));
+    if (readAscii(identifier, 0, 8) !== FILE_SIGNATURE) {
+      throw new Error(`${fileName} is not a VHDX file`);
+    }
+
+    const header = await image.readHeaders();
+    image.identity = header.dataWriteGuid;
+    if (header.logGuid !== NULL_GUID) {
+      await image.replayLog(header);
+    }
+
+    const regions = await image.readRegionTable();
+    const metadata = regions.get(REGION_METADATA);
+    const bat = regions.get(REGION_BAT);
+    if (!metadata || !bat) {
+      throw new Error(`${fileName} has no ${metadata ? 'BAT' : 'metadata'} region`);
+    }
+
+    await image.readMetadata(metadata.offset);
+    image.bat = toView(await image.readFile(bat.offset, bat.length));
+    return image;
+  }
+
+  attachParent(parent: BlockDevice): void {
+    if (parent.size < this.size) {
+      throw new Error(`the parent of ${this.fileName} is smaller (${parent.size} bytes) than the disk (${this.size} bytes)`);
+    }
+    this.parent = parent;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    const result = new Uint8Array(length);
+    const end = start + length;
+    let position = start;
+
+    while (position < end) {
+      const block = Math.floor(position / this.blockSize);
+      const blockStart = block * this.blockSize;
+      const runEnd = Math.min(end, blockStart + this.blockSize);
+      await this.readBlock(block, position - blockStart, runEnd - blockStart, result, position - start);
+      position = runEnd;
+    }
+    return result;
+  }
+
+  /** Reads the file as it would look after log replay. */
+  private async readFile(offset: number, length: number): Promise<Uint8Array> {
+    const bytes = await this.file.read(offset, length);
+    const end = offset + length;
+    const overlapping = this.writes.filter(write => write.offset < end && write.offset + write.length > offset);
+    if (overlapping.length === 0) return bytes;
+
+    const patched = bytes.slice();
+    for (const write of overlapping) {
+      const from = Math.max(offset, write.offset);
+      const to = Math.min(end, write.offset + write.length);
+      if (write.data) {
+        patched.set(write.data.subarray(from - write.offset, to - write.offset), from - offset);
+      } else {
+        patched.fill(0, from - offset, to - offset);
+      }
+    }
+    return patched;
+  }
+
+  private async readHeaders(): Promise<VhdxHeader> {
+    let current: VhdxHeader | null = null;
+
+    for (const offset of HEADER_OFFSETS) {
+      const bytes = await this.file.read(offset, HEADER_SIZE);
+      const view = toView(bytes);
+      if (readAscii(view, 0, 4) !== 'head' || structureChecksum(bytes, 4) !== view.getUint32(4, true)) {
+        this.findings.push({ check: 'VHDX header', severity: 'warning', offset, message: 'header copy is damaged' });
+        continue;
+      }
+
+      const header: VhdxHeader = {
+        offset,
+        sequenceNumber: view.getBigUint64(8, true),
+        dataWriteGuid: readGuid(view, 32),
+        logGuid: readGuid(view, 48),
+        logLength: view.getUint32(68, true),
+        logOffset: readUint64(view, 72)
+      };
+      if (!current || header.sequenceNumber > current.sequenceNumber) {
+        current = header;
+      }
+    }
+
+    if (!current) {
+      throw new Error(`${this.fileName} has no valid VHDX header`);
+    }
+    return current;
+  }
+
+  private async readRegionTable(): Promise<Map<string, { offset: number; length: number }>> {
+    for (const offset of REGION_TABLE_OFFSETS) {
+      const bytes = await this.readFile(offset, REGION_TABLE_SIZE);
+      const view = toView(bytes);
+      if (readAscii(view, 0, 4) !== 'regi' || structureChecksum(bytes, 4) !== view.getUint32(4, true)) {
+        this.findings.push({ check: 'VHDX region table', severity: 'warning', offset, message: 'region table copy is damaged' });
+        continue;
+      }
+
+      const regions = new Map<string, { offset: number; length: number }>();
+      const count = view.getUint32(8, true);
+      for (let i = 0; i < count && 16 + (i + 1) * 32 <= REGION_TABLE_SIZE; i++) {
+        const entry = 16 + i * 32;
+        regions.set(readGuid(view, entry), { offset: readUint64(view, entry + 16), length: view.getUint32(entry + 24, true) });
+      }
+      return regions;
+    }
+    throw new Error(`${this.fileName} has no valid VHDX region table`);
+  }
+
+  private async readMetadata(regionOffset: number): Promise<void> {
+    const table = toView(await this.readFile(regionOffset, 64 * 1024));
+    if (readAscii(table, 0, 8) !== 'metadata') {
+      throw new Error(`${this.fileName} has no VHDX metadata table`);
+    }
+
+    const items = new Map<string, DataView>();
+    const count = table.getUint16(10, true);
+    for (let i = 0; i < count; i++) {
+      const entry = 32 + i * 32;
+      const offset = table.getUint32(entry + 16, true);
+      const length = table.getUint32(entry + 20, true);
+      items.set(readGuid(table, entry), toView(await this.readFile(regionOffset + offset, length)));
+    }
+
+    const parameters = items.get(METADATA_FILE_PARAMETERS);
+    const diskSize = items.get(METADATA_VIRTUAL_DISK_SIZE);
+    if (!parameters || !diskSize) {
+      throw new Error(`${this.fileName} is missing required VHDX metadata`);
+    }
+
+    this.blockSize = parameters.getUint32(0, true);
+    this.size = readUint64(diskSize, 0);
+    this.logicalSectorSize = items.get(METADATA_LOGICAL_SECTOR_SIZE)?.getUint32(0, true) ?? 512;
+    if (this.blockSize < MB || this.blockSize % MB !== 0) {
+      throw new Error(`${this.fileName} has an invalid block size of ${this.blockSize} bytes`);
+    }
+    // Payload blocks covered by one sector bitmap block (which has a bit per sector)
+    this.chunkRatio = (2 ** 23 * this.logicalSectorSize) / this.blockSize;
+
+    if (parameters.getUint32(4, true) & FILE_PARAMETER_HAS_PARENT) {
+      const locator = items.get(METADATA_PARENT_LOCATOR);
+      if (!locator) {
+        throw new Error(`${this.fileName} is a differencing disk without a parent locator`);
+      }
+      this.parentReference = this.readParentLocator(locator);
+    }
+  }
+
+  /** Decodes the key/value pairs of the parent locator (UTF-16 keys and values). */
+  private readParentLocator(locator: DataView): ParentReference {
+    const values = new Map<string, string>();
+    const count = locator.getUint16(18, true);
+    for (let i = 0; i < count; i++) {
+      const entry = 20 + i * 12;
+      const keyOffset = locator.getUint32(entry, true);
+      const valueOffset = locator.getUint32(entry + 4, true);
+      const key = readUtf16(locator, keyOffset, locator.getUint16(entry + 8, true));
+      values.set(key, readUtf16(locator, valueOffset, locator.getUint16(entry + 10, true)));
+    }
+
+    return {
+      identity: normalizeGuid(values.get('parent_linkage') ?? ''),
+      paths: ['absolute_win32_path', 'volume_path', 'relative_path']
+        .map(key => values.get(key))
+        .filter((path): path is string => !!path)
+    };
+  }
+
+  /**
+   * Finds the active sequence of log entries (the run of consecutive
+   * sequence numbers ending at the newest entry) and records its writes.
+   */
+  private async replayLog(header: VhdxHeader): Promise<void> {
+    const entries = new Map<number, LogEntry>();
+    let head: LogEntry | null = null;
+
+    for (let offset = 0; offset < header.logLength; offset += LOG_SECTOR_SIZE) {
+      const entry = await this.readLogEntry(header, offset);
+      if (!entry) continue;
+      entries.set(offset, entry);
+      if (!head || entry.sequenceNumber > head.sequenceNumber) head = entry;
+    }
+
+    const sequence: LogEntry[] = [];
+    let position = head?.tail ?? 0;
+    while (head && sequence.length <= entries.size) {
+      const entry = entries.get(position);
+      const previous = sequence[sequence.length - 1];
+      if (!entry || (previous && entry.sequenceNumber !== previous.sequenceNumber + 1n)) break;
+      sequence.push(entry);
+      if (entry === head) break;
+      position = (position + entry.bytes.length) % header.logLength;
+    }
+
+    if (!head || sequence[sequence.length - 1] !== head) {
+      this.findings.push({
+        check: 'VHDX log',
+        severity: 'error',
+        offset: header.logOffset,
+        message: 'the log is in use but holds no replayable sequence; metadata may be inconsistent'
+      });
+      return;
+    }
+
+    for (const entry of sequence) {
+      this.applyLogEntry(entry);
+    }
+    this.logReplayed = true;
+    this.findings.push({
+      check: 'VHDX log',
+      severity: 'warning',
+      offset: header.logOffset,
+      message: `the disk was not closed cleanly; ${sequence.length} log entries were replayed in memory (the file is unchanged)`
+    });
+  }
+
+  private async readLogEntry(header: VhdxHeader, offset: number): Promise<LogEntry | null> {
+    const head = toView(await this.file.read(header.logOffset + offset, LOG_ENTRY_HEADER_SIZE));
+    const length = head.getUint32(8, true);
+    if (readAscii(head, 0, 4) !== 'loge' || length === 0 || length % LOG_SECTOR_SIZE !== 0 || length > header.logLength) {
+      return null;
+    }
+
+    // Entries may wrap around the end of the circular log
+    const bytes = new Uint8Array(length);
+    const firstPart = Math.min(length, header.logLength - offset);
+    bytes.set(await this.file.read(header.logOffset + offset, firstPart));
+    if (firstPart < length) {
+      bytes.set(await this.file.read(header.logOffset, length - firstPart), firstPart);
+    }
+
+    const view = toView(bytes);
+    if (structureChecksum(bytes, 4) !== view.getUint32(4, true) || readGuid(view, 32) !== header.logGuid) {
+      return null;
+    }
+    return { offset, bytes, sequenceNumber: view.getBigUint64(16, true), tail: view.getUint32(12, true) };
+  }
+
+  private applyLogEntry(entry: LogEntry): void {
+    const view = toView(entry.bytes);
+    const count = view.getUint32(24, true);
+    let dataSector = Math.ceil((LOG_ENTRY_HEADER_SIZE + count * LOG_DESCRIPTOR_SIZE) / LOG_SECTOR_SIZE) * LOG_SECTOR_SIZE;
+
+    for (let i = 0; i < count; i++) {
+      const descriptor = LOG_ENTRY_HEADER_SIZE + i * LOG_DESCRIPTOR_SIZE;
+      const type = readAscii(view, descriptor, 4);
+      const fileOffset = readUint64(view, descriptor + 16);
+
+      if (type === 'zero') {
+        this.writes.push({ offset: fileOffset, length: readUint64(view, descriptor + 8), data: null });
+      } else if (type === 'desc') {
+        // A data sector keeps 4084 bytes; the first 8 and last 4 of the 4 KiB written live in the descriptor
+        const data = new Uint8Array(LOG_SECTOR_SIZE);
+        data.set(entry.bytes.subarray(descriptor + 8, descriptor + 16), 0);
+        data.set(entry.bytes.subarray(dataSector + 8, dataSector + 4092), 8);
+        data.set(entry.bytes.subarray(descriptor + 4, descriptor + 8), 4092);
+        this.writes.push({ offset: fileOffset, length: LOG_SECTOR_SIZE, data });
+        dataSector += LOG_SECTOR_SIZE;
+      }
+    }
+  }
+
+  private batEntry(index: number): { state: number; offset: number } {
+    if ((index + 1) * 8 > this.bat.byteLength) return { state: PAYLOAD_BLOCK_NOT_PRESENT, offset: 0 };
+    const entry = this.bat.getBigUint64(index * 8, true);
+    return { state: Number(entry & 0x7n), offset: Number(entry >> 20n) * MB };
+  }
+
+  /** Reads [start, end) of a payload block (offsets relative to the block) into `into` at `at`. */
+  private async readBlock(block: number, start: number, end: number, into: Uint8Array, at: number): Promise<void> {
+    const blockStart = block * this.blockSize;
+    const chunk = Math.floor(block / this.chunkRatio);
+    // Every chunkRatio payload entries are followed by the entry of their sector bitmap
+    const { state, offset } = this.batEntry(block + chunk);
+
+    if (state === PAYLOAD_BLOCK_FULLY_PRESENT) {
+      into.set(await this.readFile(offset + start, end - start), at);
+      return;
+    }
+
+    const parent = this.parent;
+    if (state === PAYLOAD_BLOCK_NOT_PRESENT && parent) {
+      into.set(await parent.read(blockStart + start, end - start), at);
+      return;
+    }
+    if (state !== PAYLOAD_BLOCK_PARTIALLY_PRESENT || !parent) {
+      // Zero, unmapped and undefined blocks read as zeroes
+      return;
+    }
+
+    const bitmapEntry = this.batEntry((chunk + 1) * this.chunkRatio + chunk);
+    if (bitmapEntry.state !== PAYLOAD_BLOCK_FULLY_PRESENT) {
+      throw new Error(`sector bitmap of block ${block} in ${this.fileName} is missing`);
+    }
+
+    // One bit per sector of the chunk, least significant bit first
+    const chunkSector = (blockStart - chunk * this.chunkRatio * this.blockSize) / this.logicalSectorSize;
+    const firstSector = chunkSector + Math.floor(start / this.logicalSectorSize);
+    const lastSector = chunkSector + Math.floor((end - 1) / this.logicalSectorSize);
+    const bitmapStart = Math.floor(firstSector / 8);
+    const bitmap = await this.readFile(bitmapEntry.offset + bitmapStart, Math.floor(lastSector / 8) - bitmapStart + 1);
+
+    await readBitmapRuns(
+      start,
+      end,
+      this.logicalSectorSize,
+      sector => {
+        const bit = chunkSector + sector;
+        return (bitmap[(bit >> 3) - bitmapStart] & (1 << (bit & 7))) !== 0;
+      },
+      (position, length) => this.readFile(offset + position, length),
+      (position, length) => parent.read(blockStart + position, length),
+      into,
+      at
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import type { BlockDevice } from './block-device';
+import type { ImageFormat } from './image-formats';
+import type { ValidationFinding } from './validation-report';
+
+// Pieces shared by the virtual disk formats (VHD, VHDX, VMDK, QCOW2). A
+// sparse disk maps blocks of the virtual disk onto its file; a differencing
+// disk only stores what changed and reads everything else from its parent,
+// which the user supplies as another file.
+
+export interface ParentReference {
+  /** Identity of the parent disk as recorded in the child (unique ID or data write GUID). */
+  identity: string;
+  /** Paths of the parent as stored by the hypervisor, most specific first. */
+  paths: string[];
+}
+
+export interface VirtualDisk extends BlockDevice {
+  readonly format: ImageFormat;
+  /** Name of the file the disk was opened from. */
+  readonly fileName: string;
+  /** What a child disk's parent reference matches. */
+  readonly identity: string;
+  /** Set for differencing disks, which cannot be read until a parent is attached. */
+  readonly parentReference: ParentReference | null;
+  readonly findings: ValidationFinding[];
+  attachParent(parent: BlockDevice): void;
+}
+
+/**
+ * Links the given disks into one differencing chain and returns its leaf,
+ * the disk whose view of the data is current. Parents are matched by
+ * identity, falling back to the file name in the stored parent paths.
+ */
+export function resolveDiskChain(disks: VirtualDisk[]): VirtualDisk {
+  const byIdentity = new Map(disks.map(disk => [disk.identity, disk]));
+  const parents = new Set<VirtualDisk>();
+
+  for (const disk of disks) {
+    const reference = disk.parentReference;
+    if (!reference) continue;
+
+    let parent = byIdentity.get(reference.identity);
+    if (!parent) {
+      const names = reference.paths.map(path => baseName(path).toLowerCase());
+      parent = disks.find(candidate => candidate !== disk && names.includes(candidate.fileName.toLowerCase()));
+      if (parent) {
+        disk.findings.push({
+          check: 'Differencing chain',
+          severity: 'warning',
+          offset: null,
+          message: `${parent.fileName} was matched to ${disk.fileName} by name; its identity differs from the one the child records`
+        });
+      }
+    }
+    if (!parent) {
+      const hint = reference.paths[0] ? ` (${reference.paths[0]})` : '';
+      throw new Error(`${disk.fileName} is a differencing disk; add its parent disk${hint} to the evidence item as well`);
+    }
+
+    disk.attachParent(parent);
+    parents.add(parent);
+  }
+
+  const leaves = disks.filter(disk => !parents.has(disk));
+  if (leaves.length !== 1) {
+    throw new Error(`the selected disks do not form one differencing chain (${leaves.map(disk => disk.fileName).join(', ')})`);
+  }
+  return leaves[0];
+}
+
+/**
+ * Reads [start, end) of a block whose sectors are individually marked as
+ * stored in this disk or not, in runs of sectors that share a bitmap state.
+ * Offsets are relative to the block.
+ */
+export async function readBitmapRuns(
+  start: number,
+  end: number,
+  sectorSize: number,
+  isPresent: (sector: number) => boolean,
+  readPresent: (offset: number, length: number) => Promise<Uint8Array>,
+  readAbsent: (offset: number, length: number) => Promise<Uint8Array>,
+  into: Uint8Array,
+  at: number
+): Promise<void> {
+  let position = start;
+  while (position < end) {
+    const present = isPresent(Math.floor(position / sectorSize));
+    let runEnd = Math.min(end, (Math.floor(position / sectorSize) + 1) * sectorSize);
+    while (runEnd < end && isPresent(runEnd / sectorSize) === present) {
+      runEnd = Math.min(end, runEnd + sectorSize);
+    }
+
+    const bytes = await (present ? readPresent : readAbsent)(position, runEnd - position);
+    into.set(bytes, at + position - start);
+    position = runEnd;
+  }
+}
+
+/** The file name at the end of a Windows or POSIX path. */
+export function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
@@ -0,0 +1,437 @@
+import { readAscii, readUint64 } from './byte-reader';
+import { BlobBlockDevice, toDeviceOffset } from './block-device';
+import type { BlockDevice } from './block-device';
+import { inflate } from './compression';
+import type { ValidationFinding } from './validation-report';
+import { baseName } from './virtual-disk';
+import type { ParentReference, VirtualDisk } from './virtual-disk';
+
+// VMware VMDK disks. A disk is described by a text descriptor listing its
+// extents: the descriptor is either embedded in a single sparse file
+// (monolithicSparse, streamOptimized) or a small file of its own next to
+// the extent files (twoGbMaxExtentSparse, the *Flat variants). Sparse
+// extents ("KDMV", little-endian) map grains through a grain directory of
+// grain tables; stream-optimized extents store each grain deflated behind a
+// marker and keep the real header in a footer at the end of the file.
+
+const SPARSE_MAGIC = 'KDMV';
+const DESCRIPTOR_SIGNATURE = '# Disk DescriptorFile';
+const SECTOR_SIZE = 512;
+const HEADER_SIZE = 512;
+/** Descriptor files are a few hundred bytes; anything far larger is not one. */
+const MAX_DESCRIPTOR_SIZE = 1024 * 1024;
+const GD_AT_END = 0xFFFFFFFFFFFFFFFFn;
+
+const FLAG_ZEROED_GRAIN_GTE = 1 << 2;
+const FLAG_COMPRESSED = 1 << 16;
+const COMPRESSION_NONE = 0;
+const COMPRESSION_DEFLATE = 1;
+/** Grain table entry of an explicitly zeroed grain (with FLAG_ZEROED_GRAIN_GTE). */
+const GRAIN_ZEROED = 1;
+/** Compressed grains start with their LBA (uint64) and compressed size (uint32). */
+const GRAIN_MARKER_SIZE = 12;
+const NO_PARENT_CID = 'ffffffff';
+
+interface ExtentDescription {
+  sectors: number;
+  type: string;
+  fileName: string;
+  /** Start of the extent's data within a flat extent file, in sectors. */
+  offset: number;
+}
+
+interface Descriptor {
+  cid: string;
+  parentCid: string;
+  createType: string;
+  parentFileNameHint: string;
+  extents: ExtentDescription[];
+}
+
+interface Extent {
+  start: number;
+  size: number;
+  type: 'sparse' | 'flat' | 'zero';
+  file: BlockDevice | null;
+  /** Byte offset of the extent's data in a flat extent file. */
+  fileOffset: number;
+  sparse: SparseExtent | null;
+}
+
+/** Returns true for a sparse extent or a descriptor file. */
+export async function isVmdkFile(blob: Blob): Promise<boolean> {
+  return (await readSignature(blob, SPARSE_MAGIC.length)) === SPARSE_MAGIC || isDescriptorFile(blob);
+}
+
+async function isDescriptorFile(blob: Blob): Promise<boolean> {
+  return blob.size <= MAX_DESCRIPTOR_SIZE && (await readSignature(blob, DESCRIPTOR_SIGNATURE.length)) === DESCRIPTOR_SIGNATURE;
+}
+
+async function readSignature(blob: Blob, length: number): Promise<string> {
+  if (blob.size < length) return '';
+  return new TextDecoder('ascii').decode(new Uint8Array(await blob.slice(0, length).arrayBuffer()));
+}
+
+function blobName(blob: Blob): string {
+  return blob instanceof File ? blob.name : 'disk.vmdk';
+}
+
+function parseDescriptor(text: string, fileName: string): Descriptor {
+  const descriptor: Descriptor = { cid: '', parentCid: NO_PARENT_CID, createType: '', parentFileNameHint: '', extents: [] };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const extent = line.match(/^(?:RW|RDONLY|NOACCESS)\s+(\d+)\s+(\w+)(?:\s+"([^"]*)"(?:\s+(\d+))?)?/i);
+    if (extent) {
+      descriptor.extents.push({
+        sectors: Number(extent[1]),
+        type: extent[2].toUpperCase(),
+        fileName: extent[3] ?? '',
+        offset: Number(extent[4] ?? 0)
+      });
+      continue;
+    }
+
+    const setting = line.match(/^([\w.]+)\s*=\s*"?([^"]*)"?$/);
+    if (!setting) continue;
+    const value = setting[2].trim();
+    switch (setting[1]) {
+      case 'CID': descriptor.cid = value.toLowerCase(); break;
+      case 'parentCID': descriptor.parentCid = value.toLowerCase(); break;
+      case 'createType': descriptor.createType = value; break;
+      case 'parentFileNameHint': descriptor.parentFileNameHint = value; break;
+    }
+  }
+
+  if (descriptor.extents.length === 0) {
+    throw new Error(`${fileName} has a VMDK descriptor without extents`);
+  }
+  return descriptor;
+}
+
+/** A hosted sparse extent: one "KDMV" file with its grain directory. */
+class SparseExtent {
+  readonly fileName: string;
+  /** Capacity in bytes. */
+  readonly capacity: number;
+  /** The embedded descriptor, for monolithic sparse and stream-optimized files. */
+  readonly descriptor: string | null;
+  readonly uncleanShutdown: boolean;
+  private file: BlockDevice;
+  private grainSize: number;
+  private tableEntries: number;
+  private compressed: boolean;
+  private zeroedGrains: boolean;
+  private directory: Uint32Array;
+  private lastGrain: { sector: number; data: Promise<Uint8Array> } | null = null;
+
+  private constructor(file: BlockDevice, fileName: string, header: DataView, directory: Uint32Array, descriptor: string | null) {
+    const flags = header.getUint32(8, true);
+    this.file = file;
+    this.fileName = fileName;
+    this.capacity = readUint64(header, 12) * SECTOR_SIZE;
+    this.grainSize = readUint64(header, 20) * SECTOR_SIZE;
+    this.tableEntries = header.getUint32(44, true);
+    this.uncleanShutdown = header.getUint8(72) !== 0;
+    this.compressed = (flags & FLAG_COMPRESSED) !== 0;
+    this.zeroedGrains = (flags & FLAG_ZEROED_GRAIN_GTE) !== 0;
+    this.directory = directory;
+    this.descriptor = descriptor;
+  }
+
+  static async open(file: BlockDevice, fileName: string): Promise<SparseExtent> {
+    let header = await SparseExtent.readHeader(file, 0, fileName);
+    // Embedded descriptors always come from the leading header
+    const descriptor = await SparseExtent.readEmbeddedDescriptor(file, header);
+
+    if (header.getBigUint64(56, true) === GD_AT_END) {
+      // Stream-optimized: the header copy before the end-of-stream marker holds the real offsets
+      if (file.size < HEADER_SIZE * 3) throw new Error(`${fileName} ends before its VMDK footer`);
+      header = await SparseExtent.readHeader(file, file.size - HEADER_SIZE * 2, fileName);
+      if (header.getBigUint64(56, true) === GD_AT_END) {
+        throw new Error(`${fileName} has no grain directory in its VMDK footer`);
+      }
+    }
+
+    const grainSectors = readUint64(header, 20);
+    const tableEntries = header.getUint32(44, true);
+    const compression = header.getUint16(77, true);
+    if (grainSectors === 0 || tableEntries === 0) {
+      throw new Error(`${fileName} has an invalid VMDK grain geometry`);
+    }
+    if ((header.getUint32(8, true) & FLAG_COMPRESSED) !== 0
+      && compression !== COMPRESSION_NONE && compression !== COMPRESSION_DEFLATE) {
+      throw new Error(`${fileName} uses unsupported VMDK compression algorithm ${compression}`);
+    }
+
+    const grains = Math.ceil(readUint64(header, 12) / grainSectors);
+    const tableCount = Math.ceil(grains / tableEntries);
+    const bytes = await file.read(readUint64(header, 56) * SECTOR_SIZE, tableCount * 4);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const directory = new Uint32Array(tableCount);
+    for (let i = 0; i < tableCount; i++) {
+      directory[i] = view.getUint32(i * 4, true);
+    }
+
+    return new SparseExtent(file, fileName, header, directory, descriptor);
+  }
+
+  private static async readHeader(file: BlockDevice, offset: number, fileName: string): Promise<DataView> {
+    const bytes = await file.read(offset, HEADER_SIZE);
+    const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_SIZE);
+    if (readAscii(header, 0, 4) !== SPARSE_MAGIC) {
+      throw new Error(`${fileName} has no VMDK sparse extent header at 0x${offset.toString(16)}`);
+    }
+    return header;
+  }
+
+  private static async readEmbeddedDescriptor(file: BlockDevice, header: DataView): Promise<string | null> {
+    const offset = readUint64(header, 28);
+    const size = readUint64(header, 36);
+    if (offset === 0 || size === 0) return null;
+
+    const bytes = await file.read(offset * SECTOR_SIZE, Math.min(size * SECTOR_SIZE, MAX_DESCRIPTOR_SIZE));
+    return new TextDecoder('utf-8').decode(bytes).replace(/\0.*$/s, '');
+  }
+
+  /**
+   * Reads [start, end) of the extent into `into` at `at`. Grains that were
+   * never written come from `readAbsent` (the parent disk) or read as zeroes.
+   */
+  async read(
+    start: number,
+    end: number,
+    into: Uint8Array,
+    at: number,
+    readAbsent: ((offset: number, length: number) => Promise<Uint8Array>) | null
+  ): Promise<void> {
+    let position = start;
+    while (position < end) {
+      const grain = Math.floor(position / this.grainSize);
+      const grainStart = grain * this.grainSize;
+      const runEnd = Math.min(end, grainStart + this.grainSize);
+      const target = at + position - start;
+      const sector = await this.grainSector(grain);
+
+      if (sector === 0) {
+        if (readAbsent) into.set(await readAbsent(position, runEnd - position), target);
+      } else if (sector === GRAIN_ZEROED && this.zeroedGrains) {
+        // Explicitly zeroed: the parent's data is hidden too
+      } else if (this.compressed) {
+        const data = await this.readCompressedGrain(sector);
+        into.set(data.subarray(position - grainStart, runEnd - grainStart), target);
+      } else {
+        into.set(await this.file.read(sector * SECTOR_SIZE + position - grainStart, runEnd - position), target);
+      }
+      position = runEnd;
+    }
+  }
+
+  /** Sector of a grain in the extent file, or 0 when it was never allocated. */
+  private async grainSector(grain: number): Promise<number> {
+    const table = this.directory[Math.floor(grain / this.tableEntries)];
+    if (!table) return 0;
+    const bytes = await this.file.read(table * SECTOR_SIZE + (grain % this.tableEntries) * 4, 4);
+    return new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true);
+  }
+
+  private readCompressedGrain(sector: number): Promise<Uint8Array> {
+    // Stream-optimized disks are mostly read front to back, so one grain is enough cache
+    if (this.lastGrain?.sector !== sector) {
+      this.lastGrain = { sector, data: this.inflateGrain(sector) };
+      this.lastGrain.data.catch(() => {
+        if (this.lastGrain?.sector === sector) this.lastGrain = null;
+      });
+    }
+    return this.lastGrain.data;
+  }
+
+  private async inflateGrain(sector: number): Promise<Uint8Array> {
+    const offset = sector * SECTOR_SIZE;
+    const marker = await this.file.read(offset, GRAIN_MARKER_SIZE);
+    const compressedSize = new DataView(marker.buffer, marker.byteOffset, GRAIN_MARKER_SIZE).getUint32(8, true);
+    const compressed = await this.file.read(offset + GRAIN_MARKER_SIZE, compressedSize);
+
+    let data: Uint8Array;
+    try {
+      data = await inflate(compressed);
+    } catch (error) {
+      throw new Error(`compressed grain at 0x${offset.toString(16)} in ${this.fileName} is damaged: ${(error as Error).message}`);
+    }
+    if (data.length === this.grainSize) return data;
+
+    // The last grain of a disk may be stored short
+    const grain = new Uint8Array(this.grainSize);
+    grain.set(data.subarray(0, this.grainSize));
+    return grain;
+  }
+}
+
+export class VmdkImage implements VirtualDisk {
+  readonly format = 'VMDK';
+  readonly fileName: string;
+  readonly size: number;
+  readonly identity: string;
+  readonly parentReference: ParentReference | null;
+  readonly createType: string;
+  readonly findings: ValidationFinding[] = [];
+  private extents: Extent[];
+  private parent: BlockDevice | null = null;
+
+  private constructor(fileName: string, descriptor: Descriptor, extents: Extent[]) {
+    this.fileName = fileName;
+    this.createType = descriptor.createType;
+    this.identity = descriptor.cid;
+    this.parentReference = descriptor.parentCid !== NO_PARENT_CID
+      ? { identity: descriptor.parentCid, paths: descriptor.parentFileNameHint ? [descriptor.parentFileNameHint] : [] }
+      : null;
+    this.extents = extents;
+    const last = extents[extents.length - 1];
+    this.size = last.start + last.size;
+  }
+
+  /**
+   * Opens the disk a descriptor describes. `findFile` looks up extent files
+   * among the files of the evidence item; `self` is the sparse file the
+   * descriptor was embedded in, which may have been renamed since.
+   */
+  static async fromDescriptor(
+    fileName: string,
+    text: string,
+    findFile: (path: string) => Blob | null,
+    self: SparseExtent | null = null
+  ): Promise<VmdkImage> {
+    const descriptor = parseDescriptor(text, fileName);
+    const extents: Extent[] = [];
+    const findings: ValidationFinding[] = [];
+    let start = 0;
+
+    for (const description of descriptor.extents) {
+      const size = description.sectors * SECTOR_SIZE;
+      const extent: Extent = { start, size, type: 'zero', file: null, fileOffset: 0, sparse: null };
+      start += size;
+      extents.push(extent);
+      if (description.type === 'ZERO') continue;
+
+      if (description.type !== 'SPARSE' && description.type !== 'FLAT' && description.type !== 'VMFS') {
+        throw new Error(`${fileName} uses ${description.type} extents, which are not supported`);
+      }
+
+      const embedded = self && (descriptor.extents.length === 1
+        || baseName(description.fileName).toLowerCase() === self.fileName.toLowerCase());
+      const blob = embedded ? null : findFile(description.fileName);
+      if (!embedded && !blob) {
+        throw new Error(`${fileName} refers to extent ${description.fileName}; add it to the evidence item as well`);
+      }
+
+      if (description.type === 'SPARSE') {
+        const sparse = embedded ? self : await SparseExtent.open(new BlobBlockDevice(blob!), blobName(blob!));
+        if (sparse.capacity < size) {
+          findings.push({
+            check: 'VMDK extent',
+            severity: 'warning',
+            offset: null,
+            message: `${sparse.fileName} holds ${sparse.capacity} of the ${size} bytes the descriptor assigns to it`
+          });
+        }
+        if (sparse.uncleanShutdown) {
+          findings.push({
+            check: 'VMDK extent',
+            severity: 'warning',
+            offset: 0,
+            message: `${sparse.fileName} was not closed cleanly; its grain tables may not reflect the last writes`
+          });
+        }
+        extent.type = 'sparse';
+        extent.sparse = sparse;
+      } else {
+        extent.type = 'flat';
+        extent.file = new BlobBlockDevice(blob!);
+        extent.fileOffset = description.offset * SECTOR_SIZE;
+      }
+    }
+
+    const image = new VmdkImage(fileName, descriptor, extents);
+    image.findings.push(...findings);
+    return image;
+  }
+
+  attachParent(parent: BlockDevice): void {
+    if (parent.size < this.size) {
+      throw new Error(`the parent of ${this.fileName} is smaller (${parent.size} bytes) than the disk (${this.size} bytes)`);
+    }
+    this.parent = parent;
+  }
+
+  async read(offset: number | bigint, length: number): Promise<Uint8Array> {
+    const start = toDeviceOffset(offset, this, length);
+    const end = start + length;
+    const result = new Uint8Array(length);
+    const parent = this.parent;
+
+    for (const extent of this.extents) {
+      const extentEnd = extent.start + extent.size;
+      if (extentEnd <= start || extent.start >= end) continue;
+
+      const from = Math.max(start, extent.start) - extent.start;
+      const to = Math.min(end, extentEnd) - extent.start;
+      const at = extent.start + from - start;
+
+      if (extent.type === 'flat') {
+        // Flat extent files shorter than the descriptor claims read as zeroes past their end
+        const file = extent.file!;
+        const available = Math.min(to, file.size - extent.fileOffset) - from;
+        if (available > 0) result.set(await file.read(extent.fileOffset + from, available), at);
+      } else if (extent.type === 'sparse') {
+        await extent.sparse!.read(
+          from,
+          Math.min(to, extent.sparse!.capacity),
+          result,
+          at,
+          parent ? (position, count) => parent.read(extent.start + position, count) : null
+        );
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Opens every VMDK disk among the files: each descriptor file with the
+ * extent files it lists, and each sparse file with an embedded descriptor.
+ */
+export async function openVmdkDisks(files: Blob[]): Promise<VmdkImage[]> {
+  const claimed = new Set<Blob>();
+  const findFile = (path: string): Blob | null => {
+    const name = baseName(path).toLowerCase();
+    const match = files.find(file => blobName(file).toLowerCase() === name) ?? null;
+    if (match) claimed.add(match);
+    return match;
+  };
+
+  // Descriptor files first, so the extents they list are not opened as disks of their own
+  const disks: VmdkImage[] = [];
+  for (const file of files) {
+    if (!(await isDescriptorFile(file))) continue;
+    claimed.add(file);
+    disks.push(await VmdkImage.fromDescriptor(blobName(file), await file.text(), findFile));
+  }
+
+  for (const file of files) {
+    if (claimed.has(file)) continue;
+    const name = blobName(file);
+    if (!(await isVmdkFile(file))) {
+      throw new Error(`${name} is not a VMDK file like the other files`);
+    }
+
+    const extent = await SparseExtent.open(new BlobBlockDevice(file), name);
+    if (!extent.descriptor) {
+      throw new Error(`${name} is an extent of a split VMDK; add its descriptor file to the evidence item as well`);
+    }
+    claimed.add(file);
+    disks.push(await VmdkImage.fromDescriptor(name, extent.descriptor, findFile, extent));
+  }
+  return disks;
+}
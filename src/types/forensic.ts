@@ -6,7 +6,12 @@ export interface FileSystemItem {
   created: Date;
   modified: Date;
   accessed: Date;
+  /** Metadata change time, where the file system records one. */
+  changed?: Date;
   path: string;
+  evidenceId?: string;
+  /** Volume (partition) of the evidence item the record was parsed from. */
+  volumeId?: string;
   children?: FileSystemItem[];
   metadata?: {
     inode?: number;
@@ -16,34 +21,394 @@ export interface FileSystemItem {
     hash?: string;
     deleted?: boolean;
     allocated?: boolean;
+    fileId?: string;
+    parentId?: string;
+    attributes?: number;
+    allocatedSize?: number;
+    securityId?: number;
+    /** The security descriptor `securityId` refers to, where the volume keeps them. */
+    security?: SecurityDescriptorInfo;
+    isDeleted?: boolean;
+    md5Hash?: string;
+    sha1Hash?: string;
+    sha256Hash?: string;
+    /** Record was generated by demo mode and does not come from the evidence. */
+    simulated?: boolean;
+    refs?: RefsMetadata;
+    ntfs?: NtfsMetadata;
+    fat?: FatMetadata;
+    ext?: ExtMetadata;
+    carved?: CarvedFileInfo;
+    /**
+     * Set on the item of an alternate data stream: the stream's name. The
+     * item's `fileId` is that of the file the stream belongs to.
+     */
+    streamName?: string;
+    /** Item of a volume no driver recognised: its raw bytes or a carved file. */
+    raw?: boolean;
+    partition?: PartitionInfo;
+    volume?: VolumeInfo;
+    acquisition?: AcquisitionInfo;
   };
 }
 
+export type FileSystemType = 'ReFS' | 'NTFS' | 'FAT12' | 'FAT16' | 'FAT32' | 'exFAT' | 'EXT2' | 'EXT3' | 'EXT4' | 'Unknown';
+
+export type PartitionScheme = 'MBR' | 'GPT';
+
+export interface PartitionInfo {
+  /** 1-based partition number as the OS would show it; 0 for unallocated gaps. */
+  index: number;
+  scheme: PartitionScheme;
+  kind: 'primary' | 'logical' | 'gpt' | 'unallocated';
+  /** Byte offset of the partition in the image. */
+  startOffset: number;
+  size: number;
+  /** MBR type byte as hex ("0x07") or the GPT partition type GUID. */
+  typeId: string;
+  typeName: string;
+  name: string;
+  /** GPT unique partition GUID. */
+  guid: string | null;
+  bootable: boolean;
+  fileSystem?: FileSystemType;
+}
+
+/** State of a parsed volume inside a partitioned image. */
+export interface VolumeInfo {
+  fileSystem: FileSystemType;
+  checkpoints?: RefsCheckpointInfo[];
+  activeCheckpoint?: number;
+  corruptNodes?: RefsCorruptNode[];
+  /** Why the volume's file system could not be parsed. */
+  error?: string;
+  /** How each file system driver scored the volume, best first. */
+  probes?: FileSystemProbe[];
+  /** Set once the volume's checksums were verified. */
+  integrity?: IntegrityReport;
+}
+
+/** One check a file system probe scored a volume by. */
+export interface ProbeCheck {
+  description: string;
+  passed: boolean;
+}
+
+export interface FileSystemProbe {
+  fileSystem: FileSystemType;
+  /** 0 to 1: the share of the probe's checks (by weight) the volume passed. */
+  confidence: number;
+  checks: ProbeCheck[];
+}
+
+export interface AcquisitionHash {
+  algorithm: 'md5' | 'sha1';
+  /** Digest recorded by the imaging tool at acquisition time. */
+  stored: string;
+  /** Digest of the media as read now; absent until verification ran. */
+  computed?: string;
+  verified?: boolean;
+}
+
+/** Case and acquisition details stored by the imaging tool in a container format. */
+export interface AcquisitionInfo {
+  caseNumber?: string;
+  evidenceNumber?: string;
+  description?: string;
+  examiner?: string;
+  notes?: string;
+  acquiredAt?: Date;
+  systemDate?: Date;
+  software?: string;
+  operatingSystem?: string;
+  segmentCount: number;
+  chunkSize: number;
+  hashes: AcquisitionHash[];
+}
+
+export interface RefsMetadata {
+  blockNumber: number;
+  entryIndex: number;
+  btreeLevel: number;
+  /** Checksum of the metadata page the record was read from, once verified. */
+  pageIntegrity?: IntegrityStatus;
+  /** Cluster checksums of a file with an integrity stream, once verified. */
+  dataIntegrity?: IntegrityStatus;
+  /** Set on records rebuilt from stale metadata pages. */
+  recovered?: RefsRecoveryInfo;
+  /** Runs of the file's clusters that block cloning shares with other files. */
+  sharedExtents?: RefsSharedExtent[];
+  /** Bytes of the file's clusters already accounted to another file sharing them. */
+  clonedSize?: number;
+  /** Set on the item of a stream snapshot: an earlier version of its file. */
+  snapshot?: RefsSnapshotInfo;
+}
+
+/** A version of a file's stream kept by a ReFS stream snapshot. */
+export interface RefsSnapshotInfo {
+  name: string;
+  /** Stream the snapshot was taken of; '' is the default stream. */
+  streamName: string;
+  created: Date;
+  /** Virtual allocation clock when the snapshot was taken. */
+  virtualClock: number;
+  /** Clusters the live stream has rewritten, added or dropped since. */
+  changedClusters: number;
+  /** Bytes of the version still shared with the live stream (its unchanged clusters), which the live file accounts for. */
+  unchangedSize: number;
+}
+
+/** A run of clusters a file shares with others through block cloning. */
+export interface RefsSharedExtent {
+  /** First cluster of the run within the file. */
+  logicalCluster: number;
+  /** First cluster of the run on the volume. */
+  physicalCluster: number;
+  clusterCount: number;
+  /** References to the run: the reference count table's, or the number of files sharing it. */
+  referenceCount: number;
+  /** Paths of the other files sharing the run; snapshots and deleted files hold references too but are not listed. */
+  sharedWith: string[];
+}
+
+/** A record found in a metadata page the active checkpoint no longer references. */
+export interface RefsRecoveryInfo {
+  /** 'previous version' when a live file still has the record's file ID. */
+  kind: 'deleted' | 'previous version';
+  /** File ID the record had on the volume. */
+  originalFileId: string;
+  /** Where the record was, as far as its parent links still resolve. */
+  originalPath: string;
+  /** Byte offset of the stale page in the volume. */
+  pageOffset: number;
+  /** Virtual allocation clock of the page; higher is more recent. */
+  pageClock: number;
+  /** Some of the record's clusters now belong to live files, so its content is partly theirs. */
+  overwritten: boolean;
+  /** Weighted share of the plausibility checks passed, 0 to 1. */
+  confidence: number;
+  checks: ProbeCheck[];
+}
+
+/** 'unchecked' when there is no checksum to verify against (or one of an unknown type). */
+export type IntegrityStatus = 'verified' | 'mismatch' | 'unchecked';
+
+/** A stored checksum that does not match the data it protects. */
+export interface IntegrityMismatch {
+  kind: 'page' | 'cluster';
+  /** Metadata block of the page, or cluster of the file's stream. */
+  block: number;
+  /** Byte offset of the page or cluster in the image. */
+  offset: number;
+  /** The file a cluster belongs to. */
+  fileId?: string;
+  path?: string;
+  stored: string;
+  computed: string;
+}
+
+/** Result of recomputing a ReFS volume's checksums. */
+export interface IntegrityReport {
+  pagesVerified: number;
+  pagesUnchecked: number;
+  /** Files with integrity streams whose clusters were verified. */
+  filesVerified: number;
+  clustersVerified: number;
+  mismatches: IntegrityMismatch[];
+  /** Status of every virtually addressed metadata page walked, by (virtual) block number. */
+  pages: Record<number, IntegrityStatus>;
+  /** Status of the pages of the container tables, which are addressed physically, by physical block number. */
+  containerPages: Record<number, IntegrityStatus>;
+  /** Status of every file with an integrity stream, by file ID. */
+  files: Record<string, IntegrityStatus>;
+}
+
+export interface NtfsStreamInfo {
+  /** '' for the default stream; any other name is an alternate data stream. */
+  name: string;
+  size: number;
+  resident: boolean;
+}
+
+export interface NtfsMetadata {
+  mftRecord: number;
+  sequenceNumber: number;
+  hardLinkCount: number;
+  /** Where the entry was found: its MFT record, or only a stale $I30 index entry. */
+  source: 'mft' | 'i30-slack';
+  /** $FILE_NAME timestamps, which tools that rewrite $STANDARD_INFORMATION times leave alone. */
+  fileNameTimes?: {
+    created: Date;
+    modified: Date;
+    changed: Date;
+    accessed: Date;
+  };
+  streams: NtfsStreamInfo[];
+}
+
+export interface FatMetadata {
+  /** First cluster of the file's data; 0 when it has none. */
+  firstCluster: number;
+  /** The 8.3 name (FAT only). */
+  shortName?: string;
+  /**
+   * How a deleted file's clusters were found: from a chain the FAT still
+   * holds, assumed contiguous from the first cluster, or not at all.
+   */
+  recovery?: 'chain' | 'contiguous' | 'none';
+  /** Some of the recovered clusters are allocated again, so the content is partly another file's. */
+  overwritten?: boolean;
+}
+
+export interface ExtMetadata {
+  /** The inode's mode: file type and permission bits. */
+  mode: number;
+  uid: number;
+  gid: number;
+  linkCount: number;
+  /** Inode flags (extents, inline data, immutable...). */
+  flags: number;
+  /** Timestamps at their full nanosecond precision, as ISO strings. */
+  times: {
+    created?: string;
+    modified: string;
+    changed: string;
+    accessed: string;
+  };
+  deletionTime?: Date;
+  symlinkTarget?: string;
+  /**
+   * Where a deleted file's block map was found: still in its inode, in an
+   * earlier copy of the inode kept by the journal, or nowhere.
+   */
+  recovery?: 'inode' | 'journal' | 'none';
+}
+
+/** A Windows account or group, by SID. */
+export interface SecurityPrincipal {
+  sid: string;
+  /** Name of a well-known SID; other accounts are only named by their domain. */
+  name?: string;
+}
+
+export interface AccessControlEntry {
+  /** 'Allow', 'Deny', 'Audit'... */
+  type: string;
+  /** Inheritance flags (OI, CI, IO, NP, I). */
+  flags: number;
+  mask: number;
+  trustee?: SecurityPrincipal;
+}
+
+/** A Windows security descriptor: owner, group and access control lists. */
+export interface SecurityDescriptorInfo {
+  /** SE_* control flags. */
+  control: number;
+  owner?: SecurityPrincipal;
+  group?: SecurityPrincipal;
+  /** Access rules; absent when the descriptor has none, which grants everyone full access. */
+  dacl?: AccessControlEntry[];
+  /** Audit rules and the mandatory integrity label. */
+  sacl?: AccessControlEntry[];
+}
+
+/** A file found by signature carving rather than through file system metadata. */
+export interface CarvedFileInfo {
+  /** File type the signature identifies, e.g. 'JPEG'. */
+  signature: string;
+  /** Byte offset of the file in the volume. */
+  offset: number;
+  /** False when no end was found and the file was cut at the type's size limit. */
+  complete: boolean;
+}
+
 export interface EvidenceItem {
   id: string;
   name: string;
   type: 'disk_image' | 'partition';
   path: string;
   size: number;
-  fileSystem: 'ReFS' | 'NTFS' | 'FAT32' | 'EXT4' | 'Unknown';
+  fileSystem: FileSystemType;
   children: FileSystemItem[];
   metadata: {
     imageType: string;
     sectorSize: number;
     totalSectors: number;
     superblock?: RefsuperBlock;
+    checkpoints?: RefsCheckpointInfo[];
+    activeCheckpoint?: number;
+    corruptNodes?: RefsCorruptNode[];
+    analysisMode?: AnalysisMode;
+    acquisition?: AcquisitionInfo;
+    /** Set for whole-disk images; their children are then partitions. */
+    partitionScheme?: PartitionScheme;
+    /** How each file system driver scored a single-volume image, best first. */
+    probes?: FileSystemProbe[];
+    /** Checksum verification of a single-volume image, once run. */
+    integrity?: IntegrityReport;
+    /** The file system shown is simulated demo data, not decoded from the image. */
+    simulated?: boolean;
   };
 }
 
+/**
+ * 'forensic' only ever shows what was decoded from the image and rejects
+ * input it cannot parse; 'demo' substitutes a generated file system instead.
+ */
+export type AnalysisMode = 'forensic' | 'demo';
+
+export interface RefsCorruptNode {
+  block: number;
+  parentBlock: number | null;
+  depth: number;
+  reason: string;
+}
+
+export interface RefsBootSector {
+  fileSystemName: string;
+  identifier: string;
+  structureSize: number;
+  checksum: number;
+  checksumValid: boolean;
+  totalSectors: number;
+  bytesPerSector: number;
+  sectorsPerCluster: number;
+  majorVersion: number;
+  minorVersion: number;
+  volumeSerial: string;
+  containerSize: number;
+}
+
 export interface RefsuperBlock {
   signature: string;
-  version: number;
+  version: string;
+  majorVersion: number;
+  minorVersion: number;
   blockSize: number;
+  metadataBlockSize: number;
   sectorsPerBlock: number;
+  bytesPerSector: number;
   totalBlocks: number;
-  rootDirectoryBlock: number;
-  metadataTableBlock: number;
+  volumeSerial: string;
+  volumeGuid: string;
+  superblockBlock: number;
+  sequenceNumber: number;
+  checkpointReferences: number[];
   checksum: string;
+  bootSector: RefsBootSector;
+}
+
+export interface RefsCheckpointInfo {
+  index: number;
+  block: number;
+  virtualClock: number;
+  allocatorVirtualClock: number;
+  version: string;
+  tableReferenceCount: number;
+  signatureValid: boolean;
+  checksumValid: boolean | null;
+  valid: boolean;
+  errors: string[];
 }
 
 export interface ParsingProgress {
@@ -54,6 +419,14 @@ export interface ParsingProgress {
   processedFiles?: number;
 }
 
+export interface ParseProgress {
+  message: string;
+  percentage: number;
+  currentFile?: string;
+  processedFiles?: number;
+  totalFiles?: number;
+}
+
 export interface HexViewerData {
   offset: number;
   hex: string;